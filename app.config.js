@@ -0,0 +1,27 @@
+/*
+ * app.json plus settings that come from the environment.
+ *
+ * Android draws the trip map with the Google Maps SDK, which needs its own key
+ * in the manifest. GOOGLE_MAPS_ANDROID_API_KEY sets it, falling back to the
+ * Places key when that one has the Maps SDK for Android enabled too. Without
+ * either, the launcher leaves the map out on Android (see services/mapTiles.ts).
+ */
+module.exports = ({ config }) => {
+  const googleMapsApiKey = process.env.GOOGLE_MAPS_ANDROID_API_KEY || process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY;
+  if (!googleMapsApiKey) {
+    return config;
+  }
+
+  return {
+    ...config,
+    android: {
+      ...config.android,
+      config: {
+        ...config.android?.config,
+        googleMaps: { apiKey: googleMapsApiKey },
+      },
+    },
+    // android.config is left out of the config the app can read at runtime
+    extra: { ...config.extra, androidMapsKeyConfigured: true },
+  };
+};
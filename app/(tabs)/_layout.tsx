@@ -1,7 +1,7 @@
 import React from 'react';
 import { Platform, useWindowDimensions, TouchableOpacity } from 'react-native';
 import { Tabs } from 'expo-router';
-import { MapPin, Star, Settings, User } from 'lucide-react-native';
+import { MapPin, Star, History, Settings, User } from 'lucide-react-native';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { AuthGuard } from '@/components/AuthGuard';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -36,6 +36,12 @@ const TAB_CONFIG: TabConfig[] = [
     icon: Star,
     accessibilityLabelKey: 'nav.favorites',
   },
+  {
+    name: 'history',
+    titleKey: 'nav.history',
+    icon: History,
+    accessibilityLabelKey: 'nav.history',
+  },
   {
     name: 'profile',
     titleKey: 'nav.profile',
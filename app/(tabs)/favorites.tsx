@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { 
   View, 
   Text, 
@@ -7,43 +7,104 @@ import {
   TextInput, 
   Alert,
   Modal,
-  FlatList,
   Dimensions,
   ScrollView,
 } from 'react-native';
 import { router } from 'expo-router';
+import { NestableScrollContainer, NestableDraggableFlatList, ScaleDecorator } from 'react-native-draggable-flatlist';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { GradientBackground } from '@/components/GradientBackground';
 import { GooglePlacesInput } from '@/components/GooglePlacesInput';
 import { RouteManagerModal } from '@/components/RouteManagerModal';
-import { useFavorites, FavoriteDestination } from '@/hooks/useFavorites';
-import { useRouteFavorites, FavoriteRoute } from '@/hooks/useRouteFavorites';
+import { ScheduleRideModal, ScheduleRouteDraft } from '@/components/ScheduleRideModal';
+import { TransferModal } from '@/components/TransferModal';
+import { MergeDuplicatesModal } from '@/components/MergeDuplicatesModal';
+import { ShareTripModal } from '@/components/ShareTripModal';
+import { FolderTagsEditor } from '@/components/FolderTagsEditor';
+import { FavoritesToolbar } from '@/components/FavoritesToolbar';
+import { useFavorites, FavoriteDestination, FavoriteCategory, FavoriteIcon as FavoriteIconName, FAVORITE_ICONS } from '@/hooks/useFavorites';
+import { FavoriteIcon, FAVORITE_ICON_COMPONENTS } from '@/components/FavoriteIcon';
+import { useRouteFavorites, FavoriteRoute, toAutoFillLocation, reverseRoute } from '@/hooks/useRouteFavorites';
+import { useScheduledRides, UpcomingRide, ScheduledRide, scheduledRideToAutoFill } from '@/hooks/useScheduledRides';
+import { useAppManager } from '@/hooks/useAppManager';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useThemedStyles } from '@/contexts/ThemeContext';
 import { useAutoFill } from '@/contexts/AutoFillContext';
-import { Star, Plus, Trash2, CreditCard as Edit3, MapPin, Navigation, Route, ArrowRight } from 'lucide-react-native';
+import {
+  FavoriteSortMode,
+  normalizeFolder,
+  isPinned,
+  collectFolders,
+  collectTags,
+  matchesSearch,
+  sortFavorites,
+  sortPinned,
+  groupByFolder,
+} from '@/services/favoriteOrganizer';
+import { findDuplicateGroups, isSamePoint, isSameRoute } from '@/services/transfer';
+import { Star, Plus, Trash2, CreditCard as Edit3, MapPin, Navigation, Route, ArrowRight, Flag, CalendarClock, Repeat, ArrowDownUp, Share2, Undo2, Pin, PinOff, GripVertical, Folder, Merge } from 'lucide-react-native';
 import * as Location from 'expo-location';
 
 const { width: screenWidth } = Dimensions.get('window');
 
 type TabType = 'places' | 'routes';
 
+// Plain favorites have no category and stay off the launcher chips
+const CATEGORY_OPTIONS: (FavoriteCategory | undefined)[] = [undefined, 'home', 'work', 'custom'];
+
+interface OrganizedList<T> {
+  // Shown on top in their own order, and only while not searching or filtering
+  pinned: T[];
+  groups: { folder: string | null; items: T[] }[];
+  matches: number;
+}
+
 export default function FavoritesScreen() {
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
-  const { favorites, loading, addFavorite, removeFavorite, updateFavorite } = useFavorites();
-  const { routeFavorites, loading: routesLoading, removeRouteFavorite, updateRouteFavorite } = useRouteFavorites();
+  const {
+    favorites,
+    loading,
+    addFavorite,
+    removeFavorite,
+    updateFavorite,
+    recordFavoriteUse,
+    setFavoritePinned,
+    reorderPinnedFavorites,
+    findDuplicateFavorite,
+  } = useFavorites();
+  const {
+    routeFavorites,
+    loading: routesLoading,
+    removeRouteFavorite,
+    recordRouteUse,
+    setRoutePinned,
+    reorderPinnedRoutes,
+  } = useRouteFavorites();
+  const { upcomingRides, removeScheduledRide } = useScheduledRides();
+  const { rideApps } = useAppManager();
   const { setAutoFillData } = useAutoFill();
   const [activeTab, setActiveTab] = useState<TabType>('places');
   const [modalVisible, setModalVisible] = useState(false);
   const [routeModalVisible, setRouteModalVisible] = useState(false);
+  const [transferModalVisible, setTransferModalVisible] = useState(false);
+  const [mergeModalVisible, setMergeModalVisible] = useState(false);
   const [editingFavorite, setEditingFavorite] = useState<FavoriteDestination | null>(null);
   const [editingRoute, setEditingRoute] = useState<FavoriteRoute | null>(null);
+  const [schedulingRoute, setSchedulingRoute] = useState<ScheduleRouteDraft | null>(null);
+  const [sharingRoute, setSharingRoute] = useState<FavoriteRoute | null>(null);
   const [name, setName] = useState('');
   const [address, setAddress] = useState('');
   const [coordinates, setCoordinates] = useState<{ latitude: number; longitude: number } | null>(null);
   const [placeId, setPlaceId] = useState<string | undefined>();
+  const [category, setCategory] = useState<FavoriteCategory | undefined>();
+  const [icon, setIcon] = useState<FavoriteIconName>('star');
+  const [folder, setFolder] = useState<string | undefined>();
+  const [tags, setTags] = useState<string[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sortMode, setSortMode] = useState<FavoriteSortMode>('name');
+  const [activeTag, setActiveTag] = useState<string | null>(null);
   const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number } | null>(null);
 
   // Get user location for address search bias
@@ -60,6 +121,51 @@ export default function FavoritesScreen() {
     });
   }, [routeFavorites, routesLoading]);
 
+  const filtering = searchQuery.trim().length > 0 || activeTag !== null;
+
+  const organize = <T extends FavoriteDestination | FavoriteRoute>(
+    items: T[],
+    addressesOf: (item: T) => string[],
+    pointOf: (item: T) => { latitude?: number; longitude?: number }
+  ): OrganizedList<T> => {
+    const matching = items.filter(item =>
+      (!activeTag || (item.tags || []).includes(activeTag)) && matchesSearch(item, addressesOf(item), searchQuery)
+    );
+    const pinned = filtering ? [] : sortPinned(matching);
+    const rest = filtering ? matching : matching.filter(item => !isPinned(item));
+    return {
+      pinned,
+      groups: groupByFolder(sortFavorites(rest, sortMode, pointOf, userLocation)),
+      matches: matching.length,
+    };
+  };
+
+  const organizedPlaces = useMemo(
+    () => organize(favorites, favorite => [favorite.address], favorite => favorite),
+    [favorites, searchQuery, activeTag, sortMode, userLocation]
+  );
+
+  // Routes are sorted by distance to where they start
+  const organizedRoutes = useMemo(
+    () => organize(
+      routeFavorites,
+      route => [route.pickup.address, ...(route.stops || []).map(stop => stop.address), route.destination.address],
+      route => route.pickup
+    ),
+    [routeFavorites, searchQuery, activeTag, sortMode, userLocation]
+  );
+
+  const duplicateCount = useMemo(
+    () => (activeTab === 'places'
+      ? findDuplicateGroups(favorites, isSamePoint)
+      : findDuplicateGroups(routeFavorites, isSameRoute)
+    ).length,
+    [activeTab, favorites, routeFavorites]
+  );
+
+  const placeTags = useMemo(() => collectTags(favorites), [favorites]);
+  const routeTags = useMemo(() => collectTags(routeFavorites), [routeFavorites]);
+
   const getCurrentLocation = async () => {
     try {
       const { status } = await Location.getForegroundPermissionsAsync();
@@ -85,6 +191,10 @@ export default function FavoritesScreen() {
     setAddress('');
     setCoordinates(null);
     setPlaceId(undefined);
+    setCategory(undefined);
+    setIcon('star');
+    setFolder(undefined);
+    setTags([]);
     setModalVisible(true);
   };
 
@@ -98,9 +208,27 @@ export default function FavoritesScreen() {
         : null
     );
     setPlaceId(undefined);
+    setCategory(favorite.category);
+    setIcon(favorite.icon || 'star');
+    setFolder(favorite.folder);
+    setTags(favorite.tags || []);
     setModalVisible(true);
   };
 
+  const handleCategorySelected = (selected: FavoriteCategory | undefined) => {
+    setCategory(selected);
+    // "Home" and "Work" are good enough names when none was typed yet
+    if ((selected === 'home' || selected === 'work') && !name.trim()) {
+      setName(t(`quickPlaces.${selected}`));
+    }
+  };
+
+  const handleTabSelected = (tab: TabType) => {
+    setActiveTab(tab);
+    // Places and routes have their own tags
+    setActiveTag(null);
+  };
+
   const handleEditRoute = (route: FavoriteRoute) => {
     setEditingRoute(route);
     setRouteModalVisible(true);
@@ -108,6 +236,9 @@ export default function FavoritesScreen() {
 
   const handleUseFavoritePlace = (favorite: FavoriteDestination) => {
     console.log('🎯 Using favorite place:', favorite.name);
+    recordFavoriteUse(favorite.id).catch(error => {
+      console.error('❌ Failed to record favorite use:', error);
+    });
     
     // Set auto-fill data for destination
     setAutoFillData({
@@ -128,23 +259,15 @@ export default function FavoritesScreen() {
 
   const handleUseRoute = (route: FavoriteRoute) => {
     console.log('🎯 Using favorite route:', route.name);
+    recordRouteUse(route.id).catch(error => {
+      console.error('❌ Failed to record route use:', error);
+    });
     
-    // Set auto-fill data for both pickup and destination
+    // Set auto-fill data for the whole route, stops included
     setAutoFillData({
-      pickup: {
-        address: route.pickup.address,
-        coordinates: route.pickup.latitude && route.pickup.longitude 
-          ? { latitude: route.pickup.latitude, longitude: route.pickup.longitude }
-          : undefined,
-        placeId: route.pickup.placeId,
-      },
-      destination: {
-        address: route.destination.address,
-        coordinates: route.destination.latitude && route.destination.longitude 
-          ? { latitude: route.destination.latitude, longitude: route.destination.longitude }
-          : undefined,
-        placeId: route.destination.placeId,
-      },
+      pickup: toAutoFillLocation(route.pickup),
+      destination: toAutoFillLocation(route.destination),
+      stops: (route.stops || []).map(toAutoFillLocation),
       source: 'favorite-route',
       timestamp: Date.now(),
     });
@@ -165,6 +288,28 @@ export default function FavoritesScreen() {
       return;
     }
 
+    const duplicate = editingFavorite ? undefined : findDuplicateFavorite({
+      address: address.trim(),
+      latitude: coordinates?.latitude,
+      longitude: coordinates?.longitude,
+      placeId,
+    });
+    if (duplicate) {
+      Alert.alert(
+        t('duplicates.placeExistsTitle'),
+        t('duplicates.placeExists', { name: duplicate.name }),
+        [
+          { text: t('alert.cancel'), style: 'cancel' },
+          { text: t('duplicates.saveAnyway'), onPress: () => saveFavorite() },
+        ]
+      );
+      return;
+    }
+
+    await saveFavorite();
+  };
+
+  const saveFavorite = async () => {
     try {
       if (editingFavorite) {
         await updateFavorite(editingFavorite.id, { 
@@ -172,9 +317,18 @@ export default function FavoritesScreen() {
           address: address.trim(),
           latitude: coordinates?.latitude,
           longitude: coordinates?.longitude,
+          category,
+          icon: category === 'custom' ? icon : undefined,
+          folder: normalizeFolder(folder),
+          tags,
         });
       } else {
-        await addFavorite(name.trim(), address.trim(), coordinates);
+        await addFavorite(name.trim(), address.trim(), coordinates || undefined, placeId, {
+          category,
+          icon,
+          folder: normalizeFolder(folder),
+          tags,
+        });
       }
       setModalVisible(false);
       setName('');
@@ -213,23 +367,160 @@ export default function FavoritesScreen() {
     );
   };
 
-  const renderFavoriteItem = ({ item: favorite }: { item: FavoriteDestination }) => (
+  const handleToggleFavoritePin = (favorite: FavoriteDestination) => {
+    setFavoritePinned(favorite.id, !isPinned(favorite)).catch(() => {
+      Alert.alert(t('alert.error'), t('favorites.saveError'));
+    });
+  };
+
+  const handleToggleRoutePin = (route: FavoriteRoute) => {
+    setRoutePinned(route.id, !isPinned(route)).catch(() => {
+      Alert.alert(t('alert.error'), t('favorites.saveError'));
+    });
+  };
+
+  const handleReorderPinned = (reorder: (orderedIds: string[]) => Promise<void>, orderedIds: string[]) => {
+    reorder(orderedIds).catch(() => {
+      Alert.alert(t('alert.error'), t('favorites.saveError'));
+    });
+  };
+
+  const handleScheduleRoute = (route: FavoriteRoute) => {
+    setSchedulingRoute({
+      name: route.name,
+      routeId: route.id,
+      pickup: route.pickup,
+      destination: route.destination,
+      stops: route.stops,
+    });
+  };
+
+  const handleUseScheduledRide = (ride: ScheduledRide) => {
+    console.log('🎯 Using scheduled ride:', ride.name);
+    setAutoFillData(scheduledRideToAutoFill(ride));
+    router.push('/(tabs)');
+  };
+
+  const handleDeleteScheduledRide = (ride: ScheduledRide) => {
+    Alert.alert(
+      t('scheduledRides.deleteTitle'),
+      t('scheduledRides.deleteConfirm', { name: ride.name }),
+      [
+        { text: t('alert.cancel'), style: 'cancel' },
+        {
+          text: t('routeFavorites.delete'),
+          style: 'destructive',
+          onPress: () => {
+            removeScheduledRide(ride.id).catch(() => {
+              Alert.alert(t('alert.error'), t('scheduledRides.deleteError'));
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  const formatNextRide = (date: Date) =>
+    `${date.toLocaleDateString(language, { weekday: 'short', day: 'numeric', month: 'short' })} · ${date.toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' })}`;
+
+  const renderUpcomingRide = ({ ride, nextAt }: UpcomingRide) => {
+    const preferredApp = rideApps.find(app => app.id === ride.preferredAppId);
+
+    return (
+      <View key={ride.id} style={styles.upcomingItem}>
+        <TouchableOpacity
+          style={styles.upcomingContent}
+          onPress={() => handleUseScheduledRide(ride)}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.upcomingName} numberOfLines={1}>
+            {preferredApp ? `${preferredApp.icon} ` : ''}{ride.name}
+          </Text>
+          <Text style={styles.upcomingTime}>{formatNextRide(nextAt)}</Text>
+          {ride.recurrence !== 'none' && (
+            <View style={styles.upcomingRecurrence}>
+              <Repeat size={12} color={styles.mapPinColor.color} />
+              <Text style={styles.upcomingRecurrenceText}>
+                {t(`scheduledRides.recurrence.${ride.recurrence}`)}
+              </Text>
+            </View>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => handleDeleteScheduledRide(ride)}
+        >
+          <Trash2 size={18} color={styles.deleteColor.color} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderDragHandle = (drag?: () => void) => drag && (
+    <TouchableOpacity
+      style={styles.dragHandle}
+      onPressIn={drag}
+      accessibilityLabel={t('organize.dragHint')}
+    >
+      <GripVertical size={18} color={styles.arrowColor.color} />
+    </TouchableOpacity>
+  );
+
+  const renderPinButton = (pinned: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      style={styles.actionButton}
+      onPress={onPress}
+      accessibilityLabel={t(pinned ? 'organize.unpin' : 'organize.pin')}
+    >
+      {pinned
+        ? <PinOff size={18} color={styles.editColor.color} />
+        : <Pin size={18} color={styles.editColor.color} />}
+    </TouchableOpacity>
+  );
+
+  // Tags and use count, under the name
+  const renderOrganizationMeta = (item: FavoriteDestination | FavoriteRoute) => {
+    const tagsText = (item.tags || []).map(tag => `#${tag}`).join(' ');
+    const usedText = item.useCount ? t('organize.usedTimes', { count: item.useCount }) : '';
+    if (!tagsText && !usedText) {
+      return null;
+    }
+    return (
+      <Text style={styles.metaText} numberOfLines={1}>
+        {[tagsText, usedText].filter(Boolean).join(' · ')}
+      </Text>
+    );
+  };
+
+  const renderFavoriteItem = (favorite: FavoriteDestination, drag?: () => void) => (
     <View style={styles.favoriteItem}>
+      {renderDragHandle(drag)}
       <TouchableOpacity 
         style={styles.favoriteContent}
         onPress={() => handleUseFavoritePlace(favorite)}
         activeOpacity={0.7}
       >
         <View style={styles.favoriteHeader}>
-          <Star size={20} color={styles.starColor.color} fill={styles.starColor.color} />
+          <FavoriteIcon
+            favorite={favorite}
+            color={favorite.category ? styles.editColor.color : styles.starColor.color}
+            filled={!favorite.category}
+          />
           <Text style={styles.favoriteName} numberOfLines={1}>{favorite.name}</Text>
+          {(favorite.category === 'home' || favorite.category === 'work') && (
+            <View style={styles.categoryBadge}>
+              <Text style={styles.categoryBadgeText}>{t(`quickPlaces.${favorite.category}`)}</Text>
+            </View>
+          )}
         </View>
         <View style={styles.favoriteAddress}>
           <MapPin size={16} color={styles.mapPinColor.color} />
           <Text style={styles.favoriteAddressText} numberOfLines={2}>{favorite.address}</Text>
         </View>
+        {renderOrganizationMeta(favorite)}
       </TouchableOpacity>
       <View style={styles.favoriteActions}>
+        {renderPinButton(isPinned(favorite), () => handleToggleFavoritePin(favorite))}
         <TouchableOpacity
           style={styles.actionButton}
           onPress={() => handleEditFavorite(favorite)}
@@ -246,8 +537,9 @@ export default function FavoritesScreen() {
     </View>
   );
 
-  const renderRouteItem = ({ item: route }: { item: FavoriteRoute }) => (
+  const renderRouteItem = (route: FavoriteRoute, drag?: () => void) => (
     <View style={styles.routeItem}>
+      {renderDragHandle(drag)}
       <TouchableOpacity
         style={styles.routeContent}
         onPress={() => handleUseRoute(route)}
@@ -256,7 +548,13 @@ export default function FavoritesScreen() {
         <View style={styles.routeHeader}>
           <Route size={20} color={styles.routeIconColor.color} />
           <Text style={styles.routeName} numberOfLines={1}>{route.name}</Text>
+          {route.roundTrip && (
+            <View style={styles.categoryBadge}>
+              <Text style={styles.categoryBadgeText}>{t('returnTrip.roundTrip')}</Text>
+            </View>
+          )}
         </View>
+        {renderOrganizationMeta(route)}
         
         <View style={styles.routeDetails}>
           <View style={styles.addressRow}>
@@ -265,6 +563,15 @@ export default function FavoritesScreen() {
               {route.pickup.address}
             </Text>
           </View>
+
+          {route.stops?.map((stop, index) => (
+            <View key={`${route.id}-stop-${index}`} style={styles.addressRow}>
+              <Flag size={14} color={styles.stopIconColor.color} />
+              <Text style={styles.addressText} numberOfLines={1}>
+                {stop.address}
+              </Text>
+            </View>
+          ))}
           
           <View style={styles.arrowContainer}>
             <ArrowRight size={16} color={styles.arrowColor.color} />
@@ -277,9 +584,54 @@ export default function FavoritesScreen() {
             </Text>
           </View>
         </View>
+
+        {route.roundTrip && (
+          <TouchableOpacity
+            style={styles.returnLeg}
+            onPress={() => handleUseRoute(reverseRoute(route))}
+            activeOpacity={0.7}
+          >
+            <View style={styles.returnLegHeader}>
+              <Undo2 size={14} color={styles.editColor.color} />
+              <Text style={styles.returnLegTitle}>{t('returnTrip.wayBack')}</Text>
+            </View>
+            <View style={styles.addressRow}>
+              <MapPin size={14} color={styles.pickupIconColor.color} />
+              <Text style={styles.addressText} numberOfLines={1}>{route.destination.address}</Text>
+            </View>
+            <View style={styles.addressRow}>
+              <Navigation size={14} color={styles.destinationIconColor.color} />
+              <Text style={styles.addressText} numberOfLines={1}>{route.pickup.address}</Text>
+            </View>
+          </TouchableOpacity>
+        )}
       </TouchableOpacity>
 
       <View style={styles.routeActions}>
+        {renderPinButton(isPinned(route), () => handleToggleRoutePin(route))}
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => handleScheduleRoute(route)}
+          accessibilityLabel={t('scheduledRides.scheduleRide')}
+        >
+          <CalendarClock size={18} color={styles.editColor.color} />
+        </TouchableOpacity>
+        {!route.roundTrip && (
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => handleUseRoute(reverseRoute(route))}
+            accessibilityLabel={t('returnTrip.returnTrip')}
+          >
+            <Undo2 size={18} color={styles.editColor.color} />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => setSharingRoute(route)}
+          accessibilityLabel={t('shareTrip.shareButton')}
+        >
+          <Share2 size={18} color={styles.editColor.color} />
+        </TouchableOpacity>
         <TouchableOpacity
           style={styles.actionButton}
           onPress={() => handleEditRoute(route)}
@@ -296,6 +648,54 @@ export default function FavoritesScreen() {
     </View>
   );
 
+  const renderOrganizedList = <T extends FavoriteDestination | FavoriteRoute>(
+    list: OrganizedList<T>,
+    renderItem: (item: T, drag?: () => void) => React.ReactElement,
+    reorder: (orderedIds: string[]) => Promise<void>
+  ) => {
+    if (list.matches === 0) {
+      return <Text style={styles.loadingText}>{t('organize.noResults')}</Text>;
+    }
+
+    // A lone unfiled group needs no header
+    const showGroupHeaders = list.pinned.length > 0 || list.groups.some(group => group.folder !== null);
+
+    return (
+      <View style={styles.listContainer}>
+        {list.pinned.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Pin size={14} color={styles.editColor.color} />
+              <Text style={styles.sectionTitle}>{t('organize.pinned')}</Text>
+              {list.pinned.length > 1 && <Text style={styles.sectionHint}>{t('organize.dragHint')}</Text>}
+            </View>
+            <NestableDraggableFlatList
+              data={list.pinned}
+              keyExtractor={(item) => item.id}
+              renderItem={({ item, drag }) => (
+                <ScaleDecorator>{renderItem(item, list.pinned.length > 1 ? drag : undefined)}</ScaleDecorator>
+              )}
+              onDragEnd={({ data }) => handleReorderPinned(reorder, data.map(item => item.id))}
+            />
+          </View>
+        )}
+        {list.groups.map(group => (
+          <View key={group.folder ?? ''} style={styles.section}>
+            {showGroupHeaders && (
+              <View style={styles.sectionHeader}>
+                <Folder size={14} color={styles.mapPinColor.color} />
+                <Text style={styles.sectionTitle}>{group.folder ?? t('organize.unfiled')}</Text>
+              </View>
+            )}
+            {group.items.map(item => (
+              <React.Fragment key={item.id}>{renderItem(item)}</React.Fragment>
+            ))}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   const renderPlacesContent = () => {
     if (loading) {
       return <Text style={styles.loadingText}>{t('favorites.loading')}</Text>;
@@ -313,16 +713,7 @@ export default function FavoritesScreen() {
       );
     }
 
-    return (
-      <FlatList
-        data={favorites}
-        renderItem={renderFavoriteItem}
-        keyExtractor={(item) => item.id}
-        showsVerticalScrollIndicator={false}
-        contentContainerStyle={styles.listContainer}
-        scrollEnabled={false}
-      />
-    );
+    return renderOrganizedList(organizedPlaces, renderFavoriteItem, reorderPinnedFavorites);
   };
 
   const renderRoutesContent = () => {
@@ -348,16 +739,7 @@ export default function FavoritesScreen() {
       );
     }
 
-    return (
-      <FlatList
-        data={routeFavorites}
-        renderItem={renderRouteItem}
-        keyExtractor={(item) => item.id}
-        showsVerticalScrollIndicator={false}
-        contentContainerStyle={styles.listContainer}
-        scrollEnabled={false}
-      />
-    );
+    return renderOrganizedList(organizedRoutes, renderRouteItem, reorderPinnedRoutes);
   };
 
   return (
@@ -365,19 +747,28 @@ export default function FavoritesScreen() {
       <View style={[styles.container, { paddingTop: insets.top }]}>
         <View style={styles.header}>
           <Text style={styles.title}>{t('favorites.title')}</Text>
-          <TouchableOpacity 
-            style={styles.addButton} 
-            onPress={activeTab === 'places' ? handleAddFavorite : () => setRouteModalVisible(true)}
-          >
-            <Plus size={24} color="#ffffff" />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => setTransferModalVisible(true)}
+              accessibilityLabel={t('transfer.title')}
+            >
+              <ArrowDownUp size={24} color="#ffffff" />
+            </TouchableOpacity>
+            <TouchableOpacity 
+              style={styles.addButton} 
+              onPress={activeTab === 'places' ? handleAddFavorite : () => setRouteModalVisible(true)}
+            >
+              <Plus size={24} color="#ffffff" />
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Tab Selector */}
         <View style={styles.tabContainer}>
           <TouchableOpacity
             style={[styles.tab, activeTab === 'places' && styles.activeTab]}
-            onPress={() => setActiveTab('places')}
+            onPress={() => handleTabSelected('places')}
           >
             <Star size={20} color={activeTab === 'places' ? styles.activeTabIconColor.color : styles.inactiveTabIconColor.color} />
             <Text style={[
@@ -390,7 +781,7 @@ export default function FavoritesScreen() {
           
           <TouchableOpacity
             style={[styles.tab, activeTab === 'routes' && styles.activeTab]}
-            onPress={() => setActiveTab('routes')}
+            onPress={() => handleTabSelected('routes')}
           >
             <Route size={20} color={activeTab === 'routes' ? styles.activeTabIconColor.color : styles.inactiveTabIconColor.color} />
             <Text style={[
@@ -402,15 +793,53 @@ export default function FavoritesScreen() {
           </TouchableOpacity>
         </View>
 
-        <ScrollView 
+        <NestableScrollContainer
           style={styles.scrollView}
           contentContainerStyle={[styles.scrollContent, { paddingBottom: Math.max(insets.bottom + 20, 40) }]}
           showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
         >
+          {upcomingRides.length > 0 && (
+            <View style={styles.upcomingCard}>
+              <View style={styles.upcomingHeader}>
+                <CalendarClock size={18} color={styles.editColor.color} />
+                <Text style={styles.upcomingTitle}>{t('scheduledRides.upcomingTitle')}</Text>
+              </View>
+              {upcomingRides.map(renderUpcomingRide)}
+            </View>
+          )}
+
+          {(activeTab === 'places' ? favorites : routeFavorites).length > 0 && (
+            <FavoritesToolbar
+              query={searchQuery}
+              onQueryChange={setSearchQuery}
+              sortMode={sortMode}
+              onSortModeChange={setSortMode}
+              canSortByDistance={userLocation !== null}
+              tags={activeTab === 'places' ? placeTags : routeTags}
+              activeTag={activeTag}
+              onActiveTagChange={setActiveTag}
+            />
+          )}
+
+          {duplicateCount > 0 && (
+            <TouchableOpacity
+              style={styles.duplicatesBanner}
+              onPress={() => setMergeModalVisible(true)}
+              activeOpacity={0.7}
+            >
+              <Merge size={18} color={styles.starColor.color} />
+              <Text style={styles.duplicatesBannerText}>
+                {t('duplicates.banner', { count: duplicateCount })}
+              </Text>
+              <Text style={styles.duplicatesBannerAction}>{t('duplicates.review')}</Text>
+            </TouchableOpacity>
+          )}
+
           <View style={styles.card}>
             {activeTab === 'places' ? renderPlacesContent() : renderRoutesContent()}
           </View>
-        </ScrollView>
+        </NestableScrollContainer>
 
         {/* Places Modal */}
         <Modal
@@ -449,6 +878,51 @@ export default function FavoritesScreen() {
                 />
               </View>
 
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>{t('quickPlaces.typeLabel')}</Text>
+                <View style={styles.optionRow}>
+                  {CATEGORY_OPTIONS.map(option => (
+                    <TouchableOpacity
+                      key={option || 'plain'}
+                      style={[styles.optionChip, category === option && styles.optionChipActive]}
+                      onPress={() => handleCategorySelected(option)}
+                    >
+                      <Text style={[styles.optionChipText, category === option && styles.optionChipTextActive]}>
+                        {t(`quickPlaces.type.${option || 'plain'}`)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {category === 'custom' && (
+                  <View style={[styles.optionRow, styles.iconRow]}>
+                    {FAVORITE_ICONS.map(option => {
+                      const Icon = FAVORITE_ICON_COMPONENTS[option];
+                      const selected = icon === option;
+                      return (
+                        <TouchableOpacity
+                          key={option}
+                          style={[styles.iconOption, selected && styles.optionChipActive]}
+                          onPress={() => setIcon(option)}
+                          accessibilityLabel={option}
+                        >
+                          <Icon size={18} color={selected ? '#ffffff' : styles.editColor.color} />
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                )}
+                <Text style={styles.optionHint}>{t('quickPlaces.typeHint')}</Text>
+              </View>
+
+              <FolderTagsEditor
+                folder={folder}
+                tags={tags}
+                knownFolders={collectFolders(favorites)}
+                knownTags={placeTags}
+                onFolderChange={setFolder}
+                onTagsChange={setTags}
+              />
+
               <View style={styles.addressInputGroup}>
                 <GooglePlacesInput
                   label={t('favorites.addressLabel')}
@@ -494,6 +968,30 @@ export default function FavoritesScreen() {
             console.log('Route selected:', pickup, destination);
           }}
         />
+
+        <ScheduleRideModal
+          visible={schedulingRoute !== null}
+          onClose={() => setSchedulingRoute(null)}
+          route={schedulingRoute}
+        />
+
+        <ShareTripModal
+          visible={sharingRoute !== null}
+          onClose={() => setSharingRoute(null)}
+          trip={sharingRoute}
+          name={sharingRoute?.name}
+        />
+
+        <TransferModal
+          visible={transferModalVisible}
+          onClose={() => setTransferModalVisible(false)}
+        />
+
+        <MergeDuplicatesModal
+          visible={mergeModalVisible}
+          onClose={() => setMergeModalVisible(false)}
+          kind={activeTab}
+        />
       </View>
     </GradientBackground>
   );
@@ -519,6 +1017,10 @@ const createStyles = (theme: any) => StyleSheet.create({
     textShadowOffset: { width: 0, height: 2 },
     textShadowRadius: 4,
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   addButton: {
     backgroundColor: 'rgba(255,255,255,0.2)',
     borderRadius: 12,
@@ -567,6 +1069,29 @@ const createStyles = (theme: any) => StyleSheet.create({
     flexGrow: 1,
     paddingHorizontal: 20,
   },
+  duplicatesBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: theme.isDark ? 'rgba(251, 191, 36, 0.1)' : '#fef3c7',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.isDark ? 'rgba(251, 191, 36, 0.2)' : '#fbbf24',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  duplicatesBannerText: {
+    flex: 1,
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  duplicatesBannerAction: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: theme.colors.primary,
+  },
   card: {
     flex: 1,
     backgroundColor: theme.colors.card,
@@ -592,6 +1117,38 @@ const createStyles = (theme: any) => StyleSheet.create({
   listContainer: {
     paddingBottom: 20,
   },
+  section: {
+    marginBottom: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingBottom: 4,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  sectionHint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textTertiary,
+    marginLeft: 'auto',
+  },
+  dragHandle: {
+    paddingVertical: 8,
+    paddingRight: 8,
+  },
+  metaText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textTertiary,
+    marginTop: 6,
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: 40,
@@ -616,6 +1173,7 @@ const createStyles = (theme: any) => StyleSheet.create({
   favoriteItem: {
     flexDirection: 'row',
     alignItems: 'center',
+    backgroundColor: theme.colors.card,
     paddingVertical: 16,
     borderBottomWidth: 1,
     borderBottomColor: theme.colors.divider,
@@ -636,6 +1194,18 @@ const createStyles = (theme: any) => StyleSheet.create({
     marginLeft: 8,
     flex: 1,
   },
+  categoryBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: theme.isDark ? 'rgba(59, 130, 246, 0.15)' : '#eff6ff',
+    marginLeft: 8,
+  },
+  categoryBadgeText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 11,
+    color: theme.colors.primary,
+  },
   favoriteAddress: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -657,6 +1227,55 @@ const createStyles = (theme: any) => StyleSheet.create({
     marginLeft: 8,
   },
   // Route item styles
+  upcomingCard: {
+    backgroundColor: theme.colors.card,
+    borderRadius: 24,
+    padding: 16,
+    marginBottom: 16,
+  },
+  upcomingHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  upcomingTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  upcomingItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  upcomingContent: {
+    flex: 1,
+  },
+  upcomingName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  upcomingTime: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.primary,
+    marginTop: 2,
+  },
+  upcomingRecurrence: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  upcomingRecurrenceText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
   routeItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -705,6 +1324,23 @@ const createStyles = (theme: any) => StyleSheet.create({
     alignItems: 'center',
     paddingVertical: 4,
   },
+  returnLeg: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+    gap: 8,
+  },
+  returnLegHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  returnLegTitle: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: theme.colors.primary,
+  },
   routeActions: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -745,6 +1381,50 @@ const createStyles = (theme: any) => StyleSheet.create({
   inputGroup: {
     marginBottom: 24,
   },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  optionChipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  optionChipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+  },
+  optionChipTextActive: {
+    color: '#ffffff',
+  },
+  iconRow: {
+    marginTop: 12,
+  },
+  iconOption: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  optionHint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textTertiary,
+    marginTop: 8,
+  },
   addressInputGroup: {
     marginBottom: 24,
     position: 'relative',
@@ -837,6 +1517,9 @@ const createStyles = (theme: any) => StyleSheet.create({
   pickupIconColor: {
     color: theme.colors.primary,
   },
+  stopIconColor: {
+    color: theme.colors.textSecondary,
+  },
   destinationIconColor: {
     color: theme.colors.warning,
   },
@@ -0,0 +1,481 @@
+import React, { useState, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  FlatList,
+  Dimensions,
+  ScrollView,
+} from 'react-native';
+import { router } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { GradientBackground } from '@/components/GradientBackground';
+import { useRideHistory, RideLaunchEntry, RideLaunchOutcome } from '@/hooks/useRideHistory';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useThemedStyles } from '@/contexts/ThemeContext';
+import { useAutoFill } from '@/contexts/AutoFillContext';
+import { useAppManager } from '@/hooks/useAppManager';
+import { History, Trash2, MapPin, Navigation, RotateCcw, Flag } from 'lucide-react-native';
+
+const { width: screenWidth } = Dimensions.get('window');
+
+type DateFilter = 'all' | 'today' | 'week' | 'month';
+
+const DATE_FILTERS: { key: DateFilter; labelKey: string; days?: number }[] = [
+  { key: 'all', labelKey: 'history.filterAllTime' },
+  { key: 'today', labelKey: 'history.filterToday', days: 0 },
+  { key: 'week', labelKey: 'history.filterWeek', days: 7 },
+  { key: 'month', labelKey: 'history.filterMonth', days: 30 },
+];
+
+const OUTCOME_LABEL_KEYS: Record<RideLaunchOutcome, string> = {
+  'opened': 'history.outcomeOpened',
+  'not-installed': 'history.outcomeNotInstalled',
+  'store-fallback': 'history.outcomeStoreFallback',
+  'error': 'history.outcomeError',
+};
+
+const getFilterStart = (filter: DateFilter): Date | null => {
+  const option = DATE_FILTERS.find(f => f.key === filter);
+  if (option?.days === undefined) {
+    return null;
+  }
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - option.days);
+  return start;
+};
+
+export default function HistoryScreen() {
+  const { t } = useLanguage();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const { history, loading, removeEntry, clearHistory } = useRideHistory();
+  const { setAutoFillData } = useAutoFill();
+  const { rideApps } = useAppManager();
+  const [appFilter, setAppFilter] = useState<string | null>(null);
+  const [dateFilter, setDateFilter] = useState<DateFilter>('all');
+
+  // Only offer app filters for apps that actually appear in the log
+  const appsInHistory = useMemo(() => {
+    const seen = new Map<string, string>();
+    history.forEach(entry => {
+      if (!seen.has(entry.appId)) {
+        seen.set(entry.appId, entry.appName);
+      }
+    });
+    return Array.from(seen, ([id, name]) => ({ id, name }));
+  }, [history]);
+
+  const filteredHistory = useMemo(() => {
+    const start = getFilterStart(dateFilter);
+    return history.filter(entry =>
+      (!appFilter || entry.appId === appFilter) &&
+      (!start || entry.launchedAt >= start)
+    );
+  }, [history, appFilter, dateFilter]);
+
+  const handleRelaunch = (entry: RideLaunchEntry) => {
+    console.log('🔁 Re-launching trip from history:', entry.id);
+
+    setAutoFillData({
+      pickup: {
+        address: entry.pickup.address,
+        coordinates: { latitude: entry.pickup.latitude, longitude: entry.pickup.longitude },
+        placeId: entry.pickup.placeId,
+      },
+      destination: {
+        address: entry.destination.address,
+        coordinates: { latitude: entry.destination.latitude, longitude: entry.destination.longitude },
+        placeId: entry.destination.placeId,
+      },
+      stops: (entry.stops || []).map(stop => ({
+        address: stop.address,
+        coordinates: { latitude: stop.latitude, longitude: stop.longitude },
+        placeId: stop.placeId,
+      })),
+      source: 'history',
+      appId: entry.appId,
+      timestamp: Date.now(),
+    });
+
+    router.push('/(tabs)');
+  };
+
+  const handleDeleteEntry = (entry: RideLaunchEntry) => {
+    Alert.alert(
+      t('history.deleteEntry'),
+      t('history.deleteEntryConfirm'),
+      [
+        { text: t('alert.cancel'), style: 'cancel' },
+        { text: t('favorites.delete'), style: 'destructive', onPress: () => removeEntry(entry.id) },
+      ]
+    );
+  };
+
+  const handleClearHistory = () => {
+    Alert.alert(
+      t('history.clearTitle'),
+      t('history.clearConfirm'),
+      [
+        { text: t('alert.cancel'), style: 'cancel' },
+        { text: t('history.clear'), style: 'destructive', onPress: clearHistory },
+      ]
+    );
+  };
+
+  const formatLaunchDate = (date: Date) => {
+    return `${date.toLocaleDateString()} · ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  };
+
+  const getOutcomeColor = (outcome: RideLaunchOutcome) => {
+    switch (outcome) {
+      case 'opened':
+        return styles.outcomeOpenedColor.color;
+      case 'store-fallback':
+        return styles.outcomeStoreFallbackColor.color;
+      default:
+        return styles.outcomeFailedColor.color;
+    }
+  };
+
+  const renderFilterChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.filterChip, active && styles.filterChipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.filterChipText, active && styles.filterChipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderHistoryItem = ({ item: entry }: { item: RideLaunchEntry }) => (
+    <View style={styles.historyItem}>
+      <View style={styles.historyHeader}>
+        <Text style={styles.appIcon}>{rideApps.find(app => app.id === entry.appId)?.icon ?? '🚗'}</Text>
+        <View style={styles.historyTitle}>
+          <Text style={styles.appName}>{entry.appName}</Text>
+          <Text style={styles.launchDate}>{formatLaunchDate(entry.launchedAt)}</Text>
+        </View>
+        <View style={[styles.outcomeBadge, { borderColor: getOutcomeColor(entry.outcome) }]}>
+          <Text style={[styles.outcomeText, { color: getOutcomeColor(entry.outcome) }]}>
+            {t(OUTCOME_LABEL_KEYS[entry.outcome])}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.routeDetails}>
+        <View style={styles.addressRow}>
+          <MapPin size={14} color={styles.pickupIconColor.color} />
+          <Text style={styles.addressText} numberOfLines={1}>{entry.pickup.address}</Text>
+        </View>
+        {entry.stops?.map((stop, index) => (
+          <View key={`${entry.id}-stop-${index}`} style={styles.addressRow}>
+            <Flag size={14} color={styles.stopIconColor.color} />
+            <Text style={styles.addressText} numberOfLines={1}>{stop.address}</Text>
+          </View>
+        ))}
+        <View style={styles.addressRow}>
+          <Navigation size={14} color={styles.destinationIconColor.color} />
+          <Text style={styles.addressText} numberOfLines={1}>{entry.destination.address}</Text>
+        </View>
+      </View>
+
+      <View style={styles.historyActions}>
+        <TouchableOpacity style={styles.relaunchButton} onPress={() => handleRelaunch(entry)}>
+          <RotateCcw size={16} color="#ffffff" />
+          <Text style={styles.relaunchText}>{t('history.relaunch')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={() => handleDeleteEntry(entry)}>
+          <Trash2 size={18} color={styles.deleteColor.color} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderContent = () => {
+    if (loading) {
+      return <Text style={styles.loadingText}>{t('history.loading')}</Text>;
+    }
+
+    if (filteredHistory.length === 0) {
+      return (
+        <View style={styles.emptyState}>
+          <History size={48} color={styles.emptyIconColor.color} />
+          <Text style={styles.emptyTitle}>
+            {history.length === 0 ? t('history.empty') : t('history.noMatches')}
+          </Text>
+          <Text style={styles.emptySubtitle}>
+            {history.length === 0 ? t('history.emptySubtitle') : t('history.noMatchesSubtitle')}
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <FlatList
+        data={filteredHistory}
+        renderItem={renderHistoryItem}
+        keyExtractor={(item) => item.id}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={styles.listContainer}
+        scrollEnabled={false}
+      />
+    );
+  };
+
+  return (
+    <GradientBackground>
+      <View style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{t('history.title')}</Text>
+          {history.length > 0 && (
+            <TouchableOpacity style={styles.clearButton} onPress={handleClearHistory}>
+              <Trash2 size={20} color="#ffffff" />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={[styles.scrollContent, { paddingBottom: Math.max(insets.bottom + 20, 40) }]}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.card}>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+              {DATE_FILTERS.map(filter =>
+                renderFilterChip(filter.key, t(filter.labelKey), dateFilter === filter.key, () => setDateFilter(filter.key))
+              )}
+            </ScrollView>
+
+            {appsInHistory.length > 1 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+                {renderFilterChip('all-apps', t('history.filterAllApps'), appFilter === null, () => setAppFilter(null))}
+                {appsInHistory.map(app =>
+                  renderFilterChip(app.id, app.name, appFilter === app.id, () => setAppFilter(app.id))
+                )}
+              </ScrollView>
+            )}
+
+            {renderContent()}
+          </View>
+        </ScrollView>
+      </View>
+    </GradientBackground>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 16,
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: Math.min(screenWidth * 0.08, 32),
+    color: '#ffffff',
+    textShadowColor: 'rgba(0,0,0,0.3)',
+    textShadowOffset: { width: 0, height: 2 },
+    textShadowRadius: 4,
+  },
+  clearButton: {
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    borderRadius: 12,
+    padding: 12,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 20,
+  },
+  card: {
+    flex: 1,
+    backgroundColor: theme.colors.card,
+    borderRadius: 24,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 8,
+    },
+    shadowOpacity: 0.15,
+    shadowRadius: 24,
+    elevation: 12,
+    minHeight: 400,
+  },
+  filterRow: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  filterChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  filterChipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  filterChipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+  },
+  filterChipTextActive: {
+    color: '#ffffff',
+  },
+  loadingText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    padding: 20,
+  },
+  listContainer: {
+    paddingTop: 4,
+    paddingBottom: 20,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 40,
+    flex: 1,
+    justifyContent: 'center',
+  },
+  emptyTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 20,
+    color: theme.colors.text,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptySubtitle: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 22,
+    maxWidth: screenWidth * 0.7,
+  },
+  historyItem: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  historyHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  appIcon: {
+    fontSize: 24,
+    marginRight: 12,
+  },
+  historyTitle: {
+    flex: 1,
+  },
+  appName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  launchDate: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  outcomeBadge: {
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderWidth: 1,
+  },
+  outcomeText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 11,
+  },
+  routeDetails: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  addressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  addressText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+    marginLeft: 8,
+    flex: 1,
+  },
+  historyActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  relaunchButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.primary,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  relaunchText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#ffffff',
+    marginLeft: 6,
+  },
+  actionButton: {
+    padding: 8,
+  },
+  // Color helpers
+  outcomeOpenedColor: {
+    color: theme.colors.success,
+  },
+  outcomeStoreFallbackColor: {
+    color: theme.colors.warning,
+  },
+  outcomeFailedColor: {
+    color: theme.colors.error,
+  },
+  pickupIconColor: {
+    color: theme.colors.primary,
+  },
+  stopIconColor: {
+    color: theme.colors.textSecondary,
+  },
+  destinationIconColor: {
+    color: theme.colors.warning,
+  },
+  deleteColor: {
+    color: theme.colors.error,
+  },
+  emptyIconColor: {
+    color: theme.colors.textTertiary,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { 
   View, 
   Text, 
@@ -14,11 +14,29 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { GradientBackground } from '@/components/GradientBackground';
 import { GooglePlacesInput } from '@/components/GooglePlacesInput';
 import { RideAppButton } from '@/components/RideAppButton';
+import { StopListEditor, StopDraft, createStopDraft } from '@/components/StopListEditor';
+import { ScheduleRideModal, ScheduleRouteDraft } from '@/components/ScheduleRideModal';
+import { ShareTripModal } from '@/components/ShareTripModal';
+import { TripMapPanel } from '@/components/TripMapPanel';
+import { PickupRefinementPanel } from '@/components/PickupRefinementPanel';
+import { QuickDestinations } from '@/components/QuickDestinations';
+import { ReturnTripBanner } from '@/components/ReturnTripBanner';
+import { TripMapPin } from '@/components/TripMap.types';
 import { useRideApps } from '@/hooks/useRideApps';
+import { useRideQuotes, QuoteSortMode } from '@/hooks/useRideQuotes';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useThemedStyles } from '@/contexts/ThemeContext';
-import { useAutoFill } from '@/contexts/AutoFillContext';
+import { useAutoFill, AutoFillData } from '@/contexts/AutoFillContext';
+import { getRideProvider, isUnavailableAt, supportsMultiStop, RideAppConfig } from '@/services/rideProviders';
+import { usePickupCountry } from '@/hooks/useRegion';
+import { useInstalledApps } from '@/hooks/useInstalledApps';
 import { LanguageSelector } from '@/components/LanguageSelector';
+import { CalendarClock, Share2, ArrowUpDown } from 'lucide-react-native';
+import { SharedTrip } from '@/services/rideLink';
+import { isCoordinateAddress } from '@/services/geocoding';
+import { PickupSuggestion } from '@/services/pickupPoints';
+import { RoutePoint } from '@/hooks/useRouteFavorites';
+import { RideLaunchEntry } from '@/hooks/useRideHistory';
 import * as Location from 'expo-location';
 import Animated, { 
   useSharedValue, 
@@ -46,22 +64,74 @@ export default function RideLauncherScreen() {
   const [pickupAddress, setPickupAddress] = useState<string>('');
   const [pickupCoords, setPickupCoords] = useState<{ latitude: number; longitude: number } | null>(null);
   const [pickupPlaceId, setPickupPlaceId] = useState<string | undefined>();
+  const [pickupAccuracy, setPickupAccuracy] = useState<number | undefined>();
   const [showPickupSuccess, setShowPickupSuccess] = useState(false);
   
   const [destinationAddress, setDestinationAddress] = useState<string>('');
   const [destinationCoords, setDestinationCoords] = useState<{ latitude: number; longitude: number } | null>(null);
   const [destinationPlaceId, setDestinationPlaceId] = useState<string | undefined>();
   const [showDestinationSuccess, setShowDestinationSuccess] = useState(false);
+
+  const [stops, setStops] = useState<StopDraft[]>([]);
+  const [highlightedAppId, setHighlightedAppId] = useState<string | undefined>();
+  const [scheduleDraft, setScheduleDraft] = useState<ScheduleRouteDraft | null>(null);
+  const [sharedTrip, setSharedTrip] = useState<SharedTrip | null>(null);
   
   const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [locationPermissionGranted, setLocationPermissionGranted] = useState(false);
   const [showLocationWarning, setShowLocationWarning] = useState(false);
+  const [toastMessage, setToastMessage] = useState('');
   
   const destinationInputRef = useRef<any>(null);
   
   // Use the reactive hook that automatically updates when app preferences change
   const { rideApps, openRideApp, isLoading } = useRideApps();
 
+  const pickupLocation = useMemo<LocationData | null>(() => (
+    pickupCoords ? { address: pickupAddress, placeId: pickupPlaceId, ...pickupCoords } : null
+  ), [pickupCoords, pickupAddress, pickupPlaceId]);
+
+  const destinationLocation = useMemo<LocationData | null>(() => (
+    destinationCoords ? { address: destinationAddress, placeId: destinationPlaceId, ...destinationCoords } : null
+  ), [destinationCoords, destinationAddress, destinationPlaceId]);
+
+  // Null while any stop is still missing coordinates
+  const stopLocations = useMemo<LocationData[] | null>(() => (
+    stops.every(stop => stop.coordinates)
+      ? stops.map(stop => ({ address: stop.address, placeId: stop.placeId, ...stop.coordinates! }))
+      : null
+  ), [stops]);
+
+  // Apps that will only get the first leg when the trip has stops
+  const firstLegOnlyApps = stops.length > 0
+    ? rideApps.filter(app => !supportsMultiStop(app.id, stops.length))
+    : [];
+
+  const [sortMode, setSortMode] = useState<QuoteSortMode>('default');
+  const { quotes, sortApps } = useRideQuotes(
+    rideApps,
+    pickupLocation,
+    stopLocations ? destinationLocation : null,
+    stopLocations || []
+  );
+  const { installStatus } = useInstalledApps(rideApps);
+
+  // Apps that don't take rides where the pickup is go to the bottom with a badge
+  const pickupCountry = usePickupCountry(pickupCoords);
+  const unavailableAppIds = rideApps
+    .filter(app => isUnavailableAt(app, { point: pickupCoords, countryCode: pickupCountry }))
+    .map(app => app.id);
+
+  // The preferred app stays on top as the primary button whatever the sort, unless it doesn't run here
+  const preferredApp = rideApps.find(app => app.preferred && !unavailableAppIds.includes(app.id));
+  const sortedRideApps = sortApps(rideApps, sortMode).filter(app => app !== preferredApp);
+  const launcherApps = [
+    ...(preferredApp ? [preferredApp] : []),
+    ...sortedRideApps.filter(app => !unavailableAppIds.includes(app.id)),
+    ...sortedRideApps.filter(app => unavailableAppIds.includes(app.id)),
+  ];
+  const tripQuote = Object.values(quotes)[0];
+
   // Animation values for feedback
   const pickupGlowAnimation = useSharedValue(0);
   const destinationGlowAnimation = useSharedValue(0);
@@ -85,6 +155,7 @@ export default function RideLauncherScreen() {
         setPickupAddress(autoFillData.pickup.address);
         setPickupCoords(autoFillData.pickup.coordinates || null);
         setPickupPlaceId(autoFillData.pickup.placeId);
+        setPickupAccuracy(undefined);
         
         // Trigger pickup glow animation
         pickupGlowAnimation.value = withSequence(
@@ -106,11 +177,24 @@ export default function RideLauncherScreen() {
         );
       }
       
+      // A whole route replaces the stops; a single place keeps them
+      if (autoFillData.stops) {
+        setStops(autoFillData.stops.map(stop => createStopDraft(stop)));
+      }
+      
+      setHighlightedAppId(autoFillData.highlightAppId);
+      
       // Show feedback message
       if (autoFillData.source === 'favorite-place') {
         feedbackMessage = '⭐ Destino preenchido com base no favorito selecionado';
       } else if (autoFillData.source === 'favorite-route') {
         feedbackMessage = '🛣️ Rota preenchida com base no favorito selecionado';
+      } else if (autoFillData.source === 'deep-link') {
+        feedbackMessage = t('deepLink.routeFilled');
+      } else if (autoFillData.source === 'history') {
+        feedbackMessage = t('history.routeFilled');
+      } else if (autoFillData.source === 'scheduled-ride') {
+        feedbackMessage = t('scheduledRides.routeFilled');
       }
       
       // Show toast feedback
@@ -118,12 +202,44 @@ export default function RideLauncherScreen() {
         showToastFeedback(feedbackMessage);
       }
       
+      // Launch straight into the requested app when the link carries a full route
+      if (autoFillData.appId) {
+        launchFromAutoFill(autoFillData);
+      }
+      
       // Clear auto-fill data after processing
       clearAutoFillData();
     }
   }, [autoFillData]);
 
+  const launchFromAutoFill = (data: AutoFillData) => {
+    // Custom apps only exist in the user's list, built-in ones resolve even when disabled
+    const app = data.appId
+      ? rideApps.find(candidate => candidate.id === data.appId) || getRideProvider(data.appId)?.config
+      : undefined;
+    const { pickup, destination, stops: autoFillStops = [] } = data;
+
+    if (!app) {
+      console.log('⚠️ Unknown app in ride link:', data.appId);
+      return;
+    }
+
+    if (!pickup?.coordinates || !destination?.coordinates || autoFillStops.some(stop => !stop.coordinates)) {
+      Alert.alert(t('alert.error'), t('deepLink.incompleteRoute', { appName: app.name }));
+      return;
+    }
+
+    openRideApp(
+      app,
+      { address: pickup.address, placeId: pickup.placeId, ...pickup.coordinates },
+      { address: destination.address, placeId: destination.placeId, ...destination.coordinates },
+      autoFillStops.map(stop => ({ address: stop.address, placeId: stop.placeId, ...stop.coordinates! }))
+    );
+  };
+
   const showToastFeedback = (message: string) => {
+    setToastMessage(message);
+    
     // Show toast with animation
     toastOpacity.value = withSequence(
       withTiming(1, { duration: 300 }),
@@ -208,15 +324,22 @@ export default function RideLauncherScreen() {
     }
   };
 
-  const handlePickupPlaceSelected = (address: string, coordinates?: { latitude: number; longitude: number }, placeId?: string) => {
+  const handlePickupPlaceSelected = (
+    address: string,
+    coordinates?: { latitude: number; longitude: number },
+    placeId?: string,
+    accuracy?: number
+  ) => {
     console.log('🎯 Pickup address selected:', {
       address,
       placeId,
-      coordinates
+      coordinates,
+      accuracy
     });
     setPickupAddress(address);
     setPickupCoords(coordinates || null);
     setPickupPlaceId(placeId);
+    setPickupAccuracy(accuracy);
     setShowPickupSuccess(true);
     setShowLocationWarning(false);
     
@@ -240,14 +363,93 @@ export default function RideLauncherScreen() {
     setShowDestinationSuccess(true);
   };
 
-  const handleRideAppPress = (appIndex: number) => {
+  // A pin dragged or dropped on the map; unlike the text fields this doesn't move focus
+  const handleMapPointSelected = (
+    pin: TripMapPin,
+    address: string,
+    coordinates: { latitude: number; longitude: number },
+    placeId?: string
+  ) => {
+    if (pin === 'pickup') {
+      setPickupAddress(address);
+      setPickupCoords(coordinates);
+      setPickupPlaceId(placeId);
+      setPickupAccuracy(undefined);
+      setShowLocationWarning(false);
+    } else {
+      setDestinationAddress(address);
+      setDestinationCoords(coordinates);
+      setDestinationPlaceId(placeId);
+    }
+  };
+
+  const handleQuickDestination = (destination: RoutePoint) => {
+    handleDestinationPlaceSelected(
+      destination.address,
+      destination.latitude !== undefined && destination.longitude !== undefined
+        ? { latitude: destination.latitude, longitude: destination.longitude }
+        : undefined,
+      destination.placeId
+    );
+    destinationGlowAnimation.value = withSequence(
+      withTiming(1, { duration: 300 }),
+      withTiming(0, { duration: 1500 })
+    );
+  };
+
+  // Turns the trip around: destination becomes pickup and stops run in reverse
+  const handleSwapTrip = () => {
+    console.log('🔄 Swapping pickup and destination');
+    setPickupAddress(destinationAddress);
+    setPickupCoords(destinationCoords);
+    setPickupPlaceId(destinationPlaceId);
+    setPickupAccuracy(undefined);
+    setDestinationAddress(pickupAddress);
+    setDestinationCoords(pickupCoords);
+    setDestinationPlaceId(pickupPlaceId);
+    setStops([...stops].reverse());
+    setShowLocationWarning(false);
+  };
+
+  // Back from where the last ride went to where it picked the rider up
+  const handleReturnTrip = (entry: RideLaunchEntry) => {
+    console.log('↩️ Return trip from last ride:', entry.id);
+    setPickupAddress(entry.destination.address);
+    setPickupCoords({ latitude: entry.destination.latitude, longitude: entry.destination.longitude });
+    setPickupPlaceId(entry.destination.placeId);
+    setPickupAccuracy(undefined);
+    setDestinationAddress(entry.pickup.address);
+    setDestinationCoords({ latitude: entry.pickup.latitude, longitude: entry.pickup.longitude });
+    setDestinationPlaceId(entry.pickup.placeId);
+    setStops([]);
+    setShowLocationWarning(false);
+    setHighlightedAppId(entry.appId);
+    showToastFeedback(t('returnTrip.filled'));
+  };
+
+  // A snapped pickup point replaces the GPS fix, so its accuracy no longer applies
+  const handlePickupSuggestionSelected = (suggestion: PickupSuggestion) => {
+    console.log('📍 Pickup point selected:', suggestion);
+    setPickupAddress(suggestion.address);
+    setPickupCoords({ latitude: suggestion.latitude, longitude: suggestion.longitude });
+    setPickupPlaceId(suggestion.placeId);
+    setPickupAccuracy(undefined);
+    setShowLocationWarning(false);
+  };
+
+  const handleRideAppPress = (app: RideAppConfig) => {
     if (!pickupAddress.trim() || !destinationAddress.trim()) {
       Alert.alert(t('alert.error'), t('alert.requiredAddresses'));
       return;
     }
 
-    // Check if we have coordinates for both locations
-    if (!pickupCoords || !destinationCoords) {
+    if (stops.some(stop => !stop.address.trim())) {
+      Alert.alert(t('alert.error'), t('stops.emptyStop'));
+      return;
+    }
+
+    // Check if we have coordinates for every point of the trip
+    if (!pickupLocation || !destinationLocation || !stopLocations) {
       Alert.alert(
         t('alert.error'), 
         t('alert.coordinatesRequired')
@@ -255,26 +457,56 @@ export default function RideLauncherScreen() {
       return;
     }
 
-    const pickupLocation: LocationData = {
-      address: pickupAddress,
-      latitude: pickupCoords.latitude,
-      longitude: pickupCoords.longitude,
-      placeId: pickupPlaceId,
+    const launch = () => {
+      console.log('🚗 Opening ride app with locations:', { 
+        app: app.name,
+        pickupLocation, 
+        stopLocations,
+        destinationLocation 
+      });
+      openRideApp(app, pickupLocation, destinationLocation, stopLocations);
     };
 
-    const destinationLocation: LocationData = {
-      address: destinationAddress,
-      latitude: destinationCoords.latitude,
-      longitude: destinationCoords.longitude,
-      placeId: destinationPlaceId,
-    };
+    // Without a street address the driver only gets a pin, so make sure that's intended
+    if (isCoordinateAddress(pickupLocation.address)) {
+      Alert.alert(
+        t('pickupPoints.confirmTitle'),
+        t('pickupPoints.confirmMessage', { appName: app.name }),
+        [
+          { text: t('alert.cancel'), style: 'cancel' },
+          { text: t('pickupPoints.confirmLaunch'), onPress: launch },
+        ]
+      );
+      return;
+    }
+
+    launch();
+  };
+
+  const handleScheduleRide = () => {
+    if (!pickupLocation || !destinationLocation || !stopLocations) {
+      Alert.alert(t('alert.error'), t('alert.coordinatesRequired'));
+      return;
+    }
+
+    setScheduleDraft({
+      pickup: pickupLocation,
+      destination: destinationLocation,
+      stops: stopLocations,
+    });
+  };
+
+  const handleShareTrip = () => {
+    if (!pickupLocation || !destinationLocation || !stopLocations) {
+      Alert.alert(t('alert.error'), t('alert.coordinatesRequired'));
+      return;
+    }
 
-    console.log('🚗 Opening ride app with locations:', { 
-      app: rideApps[appIndex].name,
-      pickupLocation, 
-      destinationLocation 
+    setSharedTrip({
+      pickup: pickupLocation,
+      destination: destinationLocation,
+      stops: stopLocations,
     });
-    openRideApp(rideApps[appIndex], pickupLocation, destinationLocation);
   };
 
   // Animated styles
@@ -328,6 +560,17 @@ export default function RideLauncherScreen() {
             </View>
 
             <View style={styles.card}>
+              <ReturnTripBanner
+                currentDestination={destinationLocation}
+                onReturn={handleReturnTrip}
+              />
+
+              <QuickDestinations
+                origin={pickupCoords || userLocation}
+                currentDestination={destinationAddress}
+                onDestinationSelected={handleQuickDestination}
+              />
+
               <View style={styles.addressSection}>
                 <Animated.View style={[styles.pickupContainer, pickupGlowStyle]}>
                   <GooglePlacesInput
@@ -340,6 +583,12 @@ export default function RideLauncherScreen() {
                     showSuccess={showPickupSuccess}
                   />
 
+                  <PickupRefinementPanel
+                    pickup={pickupLocation}
+                    accuracy={pickupAccuracy}
+                    onSuggestionSelected={handlePickupSuggestionSelected}
+                  />
+
                   {showLocationWarning && (
                     <View style={styles.locationWarning}>
                       <Text style={styles.locationWarningText}>
@@ -349,6 +598,24 @@ export default function RideLauncherScreen() {
                   )}
                 </Animated.View>
 
+                <StopListEditor
+                  stops={stops}
+                  onChange={setStops}
+                  userLocation={userLocation}
+                />
+
+                <View style={styles.swapRow}>
+                  <TouchableOpacity
+                    style={styles.swapButton}
+                    onPress={handleSwapTrip}
+                    disabled={!pickupAddress && !destinationAddress}
+                    accessibilityLabel={t('returnTrip.swap')}
+                  >
+                    <ArrowUpDown size={16} color={styles.scheduleIconColor.color} />
+                    <Text style={styles.swapButtonText}>{t('returnTrip.swap')}</Text>
+                  </TouchableOpacity>
+                </View>
+
                 <Animated.View style={[styles.destinationContainer, destinationGlowStyle]}>
                   <GooglePlacesInput
                     label={t('main.destinationLabel')}
@@ -361,20 +628,63 @@ export default function RideLauncherScreen() {
                     showSuccess={showDestinationSuccess}
                   />
                 </Animated.View>
+
+                <TripMapPanel
+                  pickup={pickupCoords}
+                  destination={destinationCoords}
+                  stops={stops.flatMap(stop => stop.coordinates ? [stop.coordinates] : [])}
+                  userLocation={userLocation}
+                  onPointSelected={handleMapPointSelected}
+                />
               </View>
 
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>{t('main.chooseRideApp')}</Text>
+                {firstLegOnlyApps.length > 0 && (
+                  <View style={styles.stopsNotice}>
+                    <Text style={styles.stopsNoticeText}>
+                      {t('stops.firstLegNotice', { apps: firstLegOnlyApps.map(app => app.name).join(', ') })}
+                    </Text>
+                  </View>
+                )}
+                {tripQuote && (
+                  <View style={styles.comparisonPanel}>
+                    <Text style={styles.comparisonSummary}>
+                      {t('quotes.tripSummary', { distance: tripQuote.distanceKm, minutes: tripQuote.durationMinutes })}
+                    </Text>
+                    <View style={styles.sortOptions}>
+                      {(['default', 'cheapest', 'fastest'] as QuoteSortMode[]).map(mode => (
+                        <TouchableOpacity
+                          key={mode}
+                          style={[styles.sortChip, sortMode === mode && styles.sortChipActive]}
+                          onPress={() => setSortMode(mode)}
+                        >
+                          <Text style={[styles.sortChipText, sortMode === mode && styles.sortChipTextActive]}>
+                            {t(`quotes.sort.${mode}`)}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    <Text style={styles.comparisonDisclaimer}>
+                      {tripQuote.source === 'live' ? t('quotes.liveDisclaimer') : t('quotes.estimateDisclaimer')}
+                    </Text>
+                  </View>
+                )}
                 <View style={styles.rideAppsContainer}>
                   {rideApps.length > 0 ? (
-                    rideApps.map((app, index) => (
+                    launcherApps.map((app) => (
                       <RideAppButton
                         key={app.id}
+                        primary={app === preferredApp}
+                        unavailable={unavailableAppIds.includes(app.id)}
+                        installStatus={installStatus[app.id]}
                         appName={app.name}
                         icon={app.icon}
                         color={app.color}
-                        onPress={() => handleRideAppPress(index)}
-                        disabled={isLoading || !pickupAddress.trim() || !destinationAddress.trim() || !pickupCoords || !destinationCoords}
+                        onPress={() => handleRideAppPress(app)}
+                        disabled={isLoading || !pickupAddress.trim() || !destinationAddress.trim() || !pickupCoords || !destinationCoords || !stopLocations}
+                        quote={quotes[app.id]}
+                        highlighted={app.id === highlightedAppId}
                       />
                     ))
                   ) : (
@@ -386,6 +696,26 @@ export default function RideLauncherScreen() {
                     </View>
                   )}
                 </View>
+                <View style={styles.tripActions}>
+                  {rideApps.length > 0 && (
+                    <TouchableOpacity
+                      style={[styles.scheduleButton, (!pickupCoords || !destinationCoords || !stopLocations) && styles.scheduleButtonDisabled]}
+                      onPress={handleScheduleRide}
+                      disabled={isLoading || !pickupCoords || !destinationCoords || !stopLocations}
+                    >
+                      <CalendarClock size={18} color={styles.scheduleIconColor.color} />
+                      <Text style={styles.scheduleButtonText}>{t('scheduledRides.scheduleForLater')}</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={[styles.scheduleButton, (!pickupCoords || !destinationCoords || !stopLocations) && styles.scheduleButtonDisabled]}
+                    onPress={handleShareTrip}
+                    disabled={!pickupCoords || !destinationCoords || !stopLocations}
+                  >
+                    <Share2 size={18} color={styles.scheduleIconColor.color} />
+                    <Text style={styles.scheduleButtonText}>{t('shareTrip.shareButton')}</Text>
+                  </TouchableOpacity>
+                </View>
               </View>
 
               <View style={styles.tipBox}>
@@ -410,11 +740,23 @@ export default function RideLauncherScreen() {
           </ScrollView>
         </KeyboardAvoidingView>
 
+        <ScheduleRideModal
+          visible={scheduleDraft !== null}
+          onClose={() => setScheduleDraft(null)}
+          route={scheduleDraft}
+        />
+
+        <ShareTripModal
+          visible={sharedTrip !== null}
+          onClose={() => setSharedTrip(null)}
+          trip={sharedTrip}
+        />
+
         {/* Toast Feedback */}
         <Animated.View style={[styles.toastContainer, toastStyle]} pointerEvents="none">
           <View style={styles.toast}>
             <Text style={styles.toastText}>
-              ⭐ Endereços preenchidos com base no favorito selecionado
+              {toastMessage}
             </Text>
           </View>
         </Animated.View>
@@ -492,10 +834,74 @@ const createStyles = (theme: any) => StyleSheet.create({
     zIndex: 10,
     marginBottom: 20,
   },
+  swapRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: -12,
+    marginBottom: 8,
+  },
+  swapButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  swapButtonText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: theme.colors.primary,
+  },
   destinationContainer: {
     position: 'relative',
     zIndex: 5,
   },
+  stopsNotice: {
+    backgroundColor: theme.isDark ? 'rgba(59, 130, 246, 0.1)' : '#f0f9ff',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: theme.isDark ? 'rgba(59, 130, 246, 0.2)' : '#bae6fd',
+  },
+  stopsNoticeText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.info,
+    lineHeight: 18,
+  },
+  tripActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  scheduleButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  scheduleButtonDisabled: {
+    opacity: 0.5,
+  },
+  scheduleButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: theme.colors.primary,
+  },
+  scheduleIconColor: {
+    color: theme.colors.primary,
+  },
   locationWarning: {
     backgroundColor: theme.isDark ? 'rgba(251, 191, 36, 0.1)' : '#fef3c7',
     borderRadius: 8,
@@ -523,6 +929,51 @@ const createStyles = (theme: any) => StyleSheet.create({
   rideAppsContainer: {
     gap: 8,
   },
+  comparisonPanel: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  comparisonSummary: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: theme.colors.text,
+    marginBottom: 10,
+  },
+  sortOptions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 10,
+  },
+  sortChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.background,
+  },
+  sortChipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  sortChipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+  sortChipTextActive: {
+    color: '#ffffff',
+  },
+  comparisonDisclaimer: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 11,
+    color: theme.colors.textTertiary,
+    lineHeight: 15,
+  },
   noAppsContainer: {
     backgroundColor: theme.isDark ? 'rgba(59, 130, 246, 0.1)' : '#f0f9ff',
     borderRadius: 16,
@@ -15,7 +15,8 @@ import { GradientBackground } from '@/components/GradientBackground';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useThemedStyles } from '@/contexts/ThemeContext';
-import { User, Mail, Calendar, CreditCard as Edit3, Save, X, LogOut, Shield, Clock } from 'lucide-react-native';
+import { useRideHistory } from '@/hooks/useRideHistory';
+import { User, Mail, Calendar, CreditCard as Edit3, Save, X, LogOut, Shield, Clock, Trash2 } from 'lucide-react-native';
 import Animated, { 
   useSharedValue, 
   useAnimatedStyle, 
@@ -28,7 +29,8 @@ export default function ProfileScreen() {
   const { t } = useLanguage();
   const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
-  const { user, logout, updateProfile } = useAuth();
+  const { user, logout, updateProfile, deleteAccount } = useAuth();
+  const { stats } = useRideHistory();
   const [isEditing, setIsEditing] = useState(false);
   const [editedName, setEditedName] = useState(user?.name || '');
   const [isLoading, setIsLoading] = useState(false);
@@ -71,10 +73,31 @@ export default function ProfileScreen() {
   const handleLogout = () => {
     Alert.alert(
       'Sign Out',
-      'Are you sure you want to sign out?',
+      'Keep your favorites, routes and ride history on this device for the next time you sign in, or remove them?',
       [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Sign Out', style: 'destructive', onPress: logout },
+        { text: 'Sign Out', onPress: () => logout({ wipeLocalData: false }) },
+        { text: 'Sign Out and Remove Data', style: 'destructive', onPress: () => logout({ wipeLocalData: true }) },
+      ]
+    );
+  };
+
+  const handleDeleteAccount = () => {
+    Alert.alert(
+      'Delete Account',
+      'This permanently deletes your RideLink account. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const result = await deleteAccount();
+            if (!result.success) {
+              Alert.alert('Error', result.error || 'Failed to delete account');
+            }
+          },
+        },
       ]
     );
   };
@@ -217,7 +240,7 @@ export default function ProfileScreen() {
             
             <View style={styles.statsGrid}>
               <View style={styles.statItem}>
-                <Text style={styles.statNumber}>0</Text>
+                <Text style={styles.statNumber}>{stats.ridesLaunched}</Text>
                 <Text style={styles.statLabel}>Rides Booked</Text>
               </View>
               <View style={styles.statItem}>
@@ -225,7 +248,7 @@ export default function ProfileScreen() {
                 <Text style={styles.statLabel}>Favorites</Text>
               </View>
               <View style={styles.statItem}>
-                <Text style={styles.statNumber}>0</Text>
+                <Text style={styles.statNumber}>{stats.appsUsed}</Text>
                 <Text style={styles.statLabel}>Apps Used</Text>
               </View>
             </View>
@@ -240,6 +263,14 @@ export default function ProfileScreen() {
               </Text>
             </View>
           )}
+
+          <TouchableOpacity
+            style={styles.deleteAccountButton}
+            onPress={handleDeleteAccount}
+          >
+            <Trash2 size={18} color={styles.deleteIconColor.color} />
+            <Text style={styles.deleteAccountText}>Delete Account</Text>
+          </TouchableOpacity>
         </ScrollView>
       </View>
     </GradientBackground>
@@ -501,6 +532,23 @@ const createStyles = (theme: any) => StyleSheet.create({
     textAlign: 'center',
     lineHeight: 18,
   },
+  deleteAccountButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.error,
+    backgroundColor: theme.colors.card,
+  },
+  deleteAccountText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: theme.colors.error,
+    marginLeft: 8,
+  },
   // Color helpers
   avatarIconColor: {
     color: theme.colors.textSecondary,
@@ -529,4 +577,7 @@ const createStyles = (theme: any) => StyleSheet.create({
   shieldIconColor: {
     color: theme.colors.warning,
   },
+  deleteIconColor: {
+    color: theme.colors.error,
+  },
 });
\ No newline at end of file
@@ -13,6 +13,9 @@ import { GradientBackground } from '@/components/GradientBackground';
 import { LanguageSelector } from '@/components/LanguageSelector';
 import { ThemeSelector } from '@/components/ThemeSelector';
 import { AppManagerModal } from '@/components/AppManagerModal';
+import { GeocodingSettingsModal } from '@/components/GeocodingSettingsModal';
+import { useGeocodingSettings } from '@/hooks/useGeocodingSettings';
+import { useCloudSync } from '@/hooks/useCloudSync';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useThemedStyles } from '@/contexts/ThemeContext';
 import { 
@@ -24,13 +27,18 @@ import {
   Smartphone,
   Palette,
   Cog,
+  Search,
+  Cloud,
 } from 'lucide-react-native';
 
 export default function SettingsScreen() {
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
   const [showAppManager, setShowAppManager] = useState(false);
+  const [showGeocodingSettings, setShowGeocodingSettings] = useState(false);
+  const { settings: geocodingSettings } = useGeocodingSettings();
+  const { enabled: syncEnabled, status: syncStatus, syncNow } = useCloudSync();
 
   const handleLocationSettings = () => {
     Alert.alert(
@@ -52,6 +60,33 @@ export default function SettingsScreen() {
     );
   };
 
+  const getSyncSubtitle = () => {
+    if (!syncEnabled) {
+      return t('sync.unavailable');
+    }
+    if (syncStatus.syncing) {
+      return t('sync.syncing');
+    }
+    if (syncStatus.lastError) {
+      return t('sync.failed', { count: syncStatus.pendingChanges });
+    }
+    if (syncStatus.pendingChanges > 0) {
+      return t('sync.pending', { count: syncStatus.pendingChanges });
+    }
+    if (syncStatus.lastSyncedAt) {
+      return t('sync.lastSynced', {
+        time: syncStatus.lastSyncedAt.toLocaleString(language, { dateStyle: 'short', timeStyle: 'short' }),
+      });
+    }
+    return t('sync.never');
+  };
+
+  const handleSyncNow = () => {
+    syncNow().catch((error) => {
+      console.error('❌ Manual sync failed:', error);
+    });
+  };
+
   const handleAbout = () => {
     Alert.alert(
       t('about.title'),
@@ -142,6 +177,20 @@ export default function SettingsScreen() {
                 subtitle={t('appManager.subtitle')}
                 onPress={() => setShowAppManager(true)}
               />
+
+              <SettingItem
+                icon={<Search size={20} color={styles.iconColor.color} />}
+                title={t('geocoding.title')}
+                subtitle={t(`geocoding.provider.${geocodingSettings.provider}`)}
+                onPress={() => setShowGeocodingSettings(true)}
+              />
+
+              <SettingItem
+                icon={<Cloud size={20} color={styles.iconColor.color} />}
+                title={t('sync.title')}
+                subtitle={getSyncSubtitle()}
+                onPress={syncEnabled && !syncStatus.syncing ? handleSyncNow : undefined}
+              />
               
               <SettingItem
                 icon={<MapPin size={20} color={styles.iconColor.color} />}
@@ -222,6 +271,11 @@ export default function SettingsScreen() {
           visible={showAppManager}
           onClose={() => setShowAppManager(false)}
         />
+
+        <GeocodingSettingsModal
+          visible={showGeocodingSettings}
+          onClose={() => setShowGeocodingSettings(false)}
+        />
       </View>
     </GradientBackground>
   );
@@ -0,0 +1,39 @@
+import React, { useEffect } from 'react';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { GradientBackground } from '@/components/GradientBackground';
+import { useAutoFill } from '@/contexts/AutoFillContext';
+import { parseRideLinkParams } from '@/services/rideLink';
+
+// Entry point for ridelink://ride?... links (and /ride on web).
+// Hands the trip to the launcher through AutoFillContext, then moves on.
+export default function RideLinkScreen() {
+  const params = useLocalSearchParams();
+  const { setAutoFillData } = useAutoFill();
+
+  useEffect(() => {
+    const data = parseRideLinkParams(params);
+    console.log('🔗 Incoming ride link:', { params, data });
+
+    if (data) {
+      setAutoFillData(data);
+    }
+    router.replace('/(tabs)');
+  }, []);
+
+  return (
+    <GradientBackground>
+      <View style={styles.container}>
+        <ActivityIndicator size="large" color="#ffffff" />
+      </View>
+    </GradientBackground>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
@@ -4,17 +4,24 @@ import {
   Text,
   StyleSheet,
   Modal,
-  FlatList,
   TouchableOpacity,
+  TextInput,
   Switch,
   Alert,
   Dimensions,
+  ActivityIndicator,
 } from 'react-native';
+import * as Location from 'expo-location';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { X, RotateCcw, Smartphone, Download } from 'lucide-react-native';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import DraggableFlatList, { ScaleDecorator } from 'react-native-draggable-flatlist';
+import { X, RotateCcw, Smartphone, Download, Plus, ChevronRight, ChevronDown, GripVertical, Star, Globe } from 'lucide-react-native';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useThemedStyles } from '@/contexts/ThemeContext';
 import { useAppManager, RideAppConfig } from '@/hooks/useAppManager';
+import { useCountryLookup } from '@/hooks/useRegion';
+import { getRideProvider, regionChanges } from '@/services/rideProviders';
+import { CustomAppEditorModal } from './CustomAppEditorModal';
 
 const { width: screenWidth } = Dimensions.get('window');
 
@@ -27,8 +34,28 @@ export function AppManagerModal({ visible, onClose }: AppManagerModalProps) {
   const { t } = useLanguage();
   const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
-  const { rideApps, loading, toggleAppEnabled, resetToDefaults } = useAppManager();
+  const {
+    rideApps,
+    loading,
+    toggleAppEnabled,
+    reorderApps,
+    setPreferredApp,
+    setAppRideType,
+    enableAppsForRegion,
+    resetToDefaults,
+  } = useAppManager();
+  const lookupCountry = useCountryLookup();
+  const [isLocating, setIsLocating] = useState(false);
   const [isResetting, setIsResetting] = useState(false);
+  // Built-in app whose ride type options are open
+  const [expandedAppId, setExpandedAppId] = useState<string | null>(null);
+  const [showCustomEditor, setShowCustomEditor] = useState(false);
+  const [editingApp, setEditingApp] = useState<RideAppConfig | null>(null);
+
+  const openCustomEditor = (app: RideAppConfig | null) => {
+    setEditingApp(app);
+    setShowCustomEditor(true);
+  };
 
   const handleResetToDefaults = () => {
     Alert.alert(
@@ -49,31 +76,183 @@ export function AppManagerModal({ visible, onClose }: AppManagerModalProps) {
     );
   };
 
-  const renderAppItem = ({ item: app }: { item: RideAppConfig }) => (
-    <View style={styles.appItem}>
-      <View style={styles.appInfo}>
-        <View style={[styles.appIconContainer, { backgroundColor: app.color + '20' }]}>
-          <Text style={styles.appIcon}>{app.icon}</Text>
-        </View>
-        <View style={styles.appDetails}>
-          <Text style={styles.appName}>{app.name}</Text>
-          <Text style={styles.appDescription}>
-            {app.enabled ? t('appManager.enabled') : t('appManager.disabled')}
-          </Text>
-        </View>
+  const showSaveError = () => {
+    Alert.alert(t('alert.error'), t('appManager.saveError'));
+  };
+
+  const handleEnableForRegion = async () => {
+    try {
+      setIsLocating(true);
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert(t('regions.title'), t('regions.locationNeeded'));
+        return;
+      }
+
+      // A country-level answer doesn't need a precise fix
+      const location = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      const point = { latitude: location.coords.latitude, longitude: location.coords.longitude };
+      const query = { point, countryCode: await lookupCountry(point) };
+      const { enable, disable } = regionChanges(rideApps, query);
+
+      if (enable.length === 0 && disable.length === 0) {
+        Alert.alert(t('regions.title'), t('regions.noChanges'));
+        return;
+      }
+
+      const summary = [
+        enable.length > 0 ? t('regions.willEnable', { apps: enable.map(app => app.name).join(', ') }) : null,
+        disable.length > 0 ? t('regions.willDisable', { apps: disable.map(app => app.name).join(', ') }) : null,
+      ].filter(Boolean).join('\n\n');
+
+      Alert.alert(t('regions.title'), summary, [
+        { text: t('alert.cancel'), style: 'cancel' },
+        { text: t('regions.apply'), onPress: () => enableAppsForRegion(query).catch(showSaveError) },
+      ]);
+    } catch (error) {
+      console.log('⚠️ Could not find the region for app availability:', error);
+      Alert.alert(t('alert.error'), t('regions.locationError'));
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleTogglePreferred = (app: RideAppConfig) => {
+    setPreferredApp(app.preferred ? null : app.id).catch(showSaveError);
+  };
+
+  const handleRideTypeChange = (app: RideAppConfig, rideType: string | undefined) => {
+    if ((rideType?.trim() || undefined) !== app.rideType) {
+      setAppRideType(app.id, rideType).catch(showSaveError);
+    }
+  };
+
+  const rideTypeName = (app: RideAppConfig) => {
+    const provider = getRideProvider(app.id);
+    if (app.rideType) {
+      return provider?.rideTypes?.find(type => type.id === app.rideType)?.name || app.rideType;
+    }
+    return provider?.rideTypes?.[0]?.name;
+  };
+
+  const renderRideTypeOptions = (app: RideAppConfig) => {
+    const provider = getRideProvider(app.id);
+    const selected = app.rideType || provider?.rideTypes?.[0]?.id;
+
+    return (
+      <View style={styles.rideTypePanel}>
+        <Text style={styles.rideTypeLabel}>{t('appManager.rideType')}</Text>
+        {provider?.rideTypes && (
+          <View style={styles.rideTypeChips}>
+            {provider.rideTypes.map(type => (
+              <TouchableOpacity
+                key={type.id}
+                style={[styles.rideTypeChip, selected === type.id && styles.rideTypeChipActive]}
+                onPress={() => handleRideTypeChange(app, type.id)}
+              >
+                <Text style={[styles.rideTypeChipText, selected === type.id && styles.rideTypeChipTextActive]}>
+                  {type.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        {provider?.freeformRideType && (
+          <>
+            <TextInput
+              style={styles.rideTypeInput}
+              defaultValue={app.rideType}
+              onEndEditing={event => handleRideTypeChange(app, event.nativeEvent.text)}
+              placeholder={t('appManager.rideTypeIdPlaceholder')}
+              placeholderTextColor={styles.placeholderColor.color}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <Text style={styles.rideTypeHint}>{t('appManager.rideTypeIdHint', { appName: app.name })}</Text>
+          </>
+        )}
       </View>
-      <Switch
-        value={app.enabled}
-        onValueChange={() => toggleAppEnabled(app.id)}
-        trackColor={{
-          false: styles.switchTrackFalse.backgroundColor,
-          true: styles.switchTrackTrue.backgroundColor,
-        }}
-        thumbColor={app.enabled ? styles.switchThumbTrue.color : styles.switchThumbFalse.color}
-        disabled={loading}
-      />
-    </View>
-  );
+    );
+  };
+
+  const renderAppItem = ({ item: app, drag, isActive }: { item: RideAppConfig; drag: () => void; isActive: boolean }) => {
+    const provider = getRideProvider(app.id);
+    const hasRideTypes = !!provider?.rideTypes || !!provider?.freeformRideType;
+    const isExpanded = expandedAppId === app.id && hasRideTypes;
+    const rideType = hasRideTypes ? rideTypeName(app) : undefined;
+
+    const handleRowPress = () => {
+      if (app.custom) {
+        openCustomEditor(app);
+      } else {
+        setExpandedAppId(isExpanded ? null : app.id);
+      }
+    };
+
+    return (
+      <ScaleDecorator>
+        <View style={[styles.appItem, isActive && styles.appItemActive]}>
+          <View style={styles.appRow}>
+            <TouchableOpacity
+              style={styles.dragHandle}
+              onPressIn={drag}
+              disabled={loading}
+              accessibilityLabel={t('appManager.reorderHint')}
+            >
+              <GripVertical size={18} color={styles.chevronColor.color} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.appInfo}
+              onPress={handleRowPress}
+              disabled={!app.custom && !hasRideTypes}
+              activeOpacity={0.7}
+            >
+              <View style={[styles.appIconContainer, { backgroundColor: app.color + '20' }]}>
+                <Text style={styles.appIcon}>{app.icon}</Text>
+              </View>
+              <View style={styles.appDetails}>
+                <Text style={styles.appName}>{app.name}</Text>
+                <Text style={styles.appDescription}>
+                  {app.enabled ? t('appManager.enabled') : t('appManager.disabled')}
+                  {app.custom ? ` · ${t('customApps.customLabel')}` : ''}
+                </Text>
+                {rideType && (
+                  <Text style={styles.rideTypeSummary}>{t('appManager.rideTypeSummary', { rideType })}</Text>
+                )}
+              </View>
+              {app.custom && <ChevronRight size={18} color={styles.chevronColor.color} />}
+              {hasRideTypes && (isExpanded
+                ? <ChevronDown size={18} color={styles.chevronColor.color} />
+                : <ChevronRight size={18} color={styles.chevronColor.color} />)}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.preferredButton}
+              onPress={() => handleTogglePreferred(app)}
+              disabled={loading}
+              accessibilityLabel={app.preferred ? t('appManager.unsetPreferred') : t('appManager.setPreferred')}
+            >
+              <Star
+                size={20}
+                color={app.preferred ? styles.preferredColor.color : styles.chevronColor.color}
+                fill={app.preferred ? styles.preferredColor.color : 'transparent'}
+              />
+            </TouchableOpacity>
+            <Switch
+              value={app.enabled}
+              onValueChange={() => toggleAppEnabled(app.id)}
+              trackColor={{
+                false: styles.switchTrackFalse.backgroundColor,
+                true: styles.switchTrackTrue.backgroundColor,
+              }}
+              thumbColor={app.enabled ? styles.switchThumbTrue.color : styles.switchThumbFalse.color}
+              disabled={loading}
+            />
+          </View>
+          {isExpanded && renderRideTypeOptions(app)}
+        </View>
+      </ScaleDecorator>
+    );
+  };
 
   const enabledCount = rideApps.filter(app => app.enabled).length;
 
@@ -84,7 +263,7 @@ export function AppManagerModal({ visible, onClose }: AppManagerModalProps) {
       presentationStyle="pageSheet"
       onRequestClose={onClose}
     >
-      <View style={[styles.modalContainer, { paddingTop: insets.top }]}>
+      <GestureHandlerRootView style={[styles.modalContainer, { paddingTop: insets.top }]}>
         <View style={styles.modalHeader}>
           <TouchableOpacity onPress={onClose} style={styles.closeButton}>
             <X size={24} color={styles.closeIconColor.color} />
@@ -117,15 +296,36 @@ export function AppManagerModal({ visible, onClose }: AppManagerModalProps) {
             </Text>
           </View>
 
+          <TouchableOpacity
+            style={styles.regionButton}
+            onPress={handleEnableForRegion}
+            disabled={isLocating || loading}
+          >
+            {isLocating
+              ? <ActivityIndicator size="small" color={styles.regionIconColor.color} />
+              : <Globe size={18} color={styles.regionIconColor.color} />}
+            <Text style={styles.regionButtonText}>{t('regions.enableForMyRegion')}</Text>
+          </TouchableOpacity>
+
           <Text style={styles.sectionTitle}>{t('appManager.availableApps')}</Text>
+          <Text style={styles.sectionHint}>{t('appManager.reorderHint')}</Text>
 
-          <FlatList
+          <DraggableFlatList
             data={rideApps}
             renderItem={renderAppItem}
             keyExtractor={(item) => item.id}
+            onDragEnd={({ data }) => {
+              reorderApps(data.map(app => app.id)).catch(showSaveError);
+            }}
             style={styles.appsList}
             showsVerticalScrollIndicator={false}
             contentContainerStyle={styles.appsListContent}
+            ListFooterComponent={
+              <TouchableOpacity style={styles.addCustomButton} onPress={() => openCustomEditor(null)}>
+                <Plus size={20} color={styles.addCustomIconColor.color} />
+                <Text style={styles.addCustomText}>{t('customApps.add')}</Text>
+              </TouchableOpacity>
+            }
           />
 
           <View style={styles.noteCard}>
@@ -135,7 +335,13 @@ export function AppManagerModal({ visible, onClose }: AppManagerModalProps) {
             </Text>
           </View>
         </View>
-      </View>
+      </GestureHandlerRootView>
+
+      <CustomAppEditorModal
+        visible={showCustomEditor}
+        onClose={() => setShowCustomEditor(false)}
+        app={editingApp}
+      />
     </Modal>
   );
 }
@@ -217,7 +423,29 @@ const createStyles = (theme: any) => StyleSheet.create({
     fontFamily: 'Inter-SemiBold',
     fontSize: 18,
     color: theme.colors.text,
-    marginBottom: 16,
+    marginBottom: 4,
+  },
+  regionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.primary,
+    marginBottom: 20,
+  },
+  regionButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: theme.colors.primary,
+  },
+  sectionHint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    marginBottom: 12,
   },
   appsList: {
     flex: 1,
@@ -226,13 +454,23 @@ const createStyles = (theme: any) => StyleSheet.create({
     paddingBottom: 20,
   },
   appItem: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
     paddingVertical: 16,
     paddingHorizontal: 4,
     borderBottomWidth: 1,
     borderBottomColor: theme.colors.divider,
+    backgroundColor: theme.colors.background,
+  },
+  appItemActive: {
+    backgroundColor: theme.colors.surface,
+  },
+  appRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  dragHandle: {
+    paddingVertical: 8,
+    paddingRight: 8,
   },
   appInfo: {
     flexDirection: 'row',
@@ -245,7 +483,7 @@ const createStyles = (theme: any) => StyleSheet.create({
     borderRadius: 24,
     justifyContent: 'center',
     alignItems: 'center',
-    marginRight: 16,
+    marginRight: 12,
   },
   appIcon: {
     fontSize: 24,
@@ -264,6 +502,89 @@ const createStyles = (theme: any) => StyleSheet.create({
     fontSize: 14,
     color: theme.colors.textSecondary,
   },
+  rideTypeSummary: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: theme.colors.primary,
+    marginTop: 2,
+  },
+  preferredButton: {
+    padding: 8,
+    marginHorizontal: 4,
+  },
+  rideTypePanel: {
+    marginTop: 12,
+    marginLeft: 26,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: theme.colors.surface,
+  },
+  rideTypeLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    marginBottom: 8,
+  },
+  rideTypeChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  rideTypeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.background,
+  },
+  rideTypeChipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  rideTypeChipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+  },
+  rideTypeChipTextActive: {
+    color: '#ffffff',
+  },
+  rideTypeInput: {
+    backgroundColor: theme.colors.background,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: theme.colors.text,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  rideTypeHint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textTertiary,
+    lineHeight: 16,
+    marginTop: 6,
+  },
+  addCustomButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: theme.colors.primary,
+  },
+  addCustomText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: theme.colors.primary,
+  },
   noteCard: {
     backgroundColor: theme.isDark ? 'rgba(251, 191, 36, 0.1)' : '#fef3c7',
     borderRadius: 12,
@@ -288,6 +609,21 @@ const createStyles = (theme: any) => StyleSheet.create({
   closeIconColor: {
     color: theme.colors.textSecondary,
   },
+  chevronColor: {
+    color: theme.colors.textTertiary,
+  },
+  regionIconColor: {
+    color: theme.colors.primary,
+  },
+  preferredColor: {
+    color: theme.colors.warning,
+  },
+  placeholderColor: {
+    color: theme.colors.textTertiary,
+  },
+  addCustomIconColor: {
+    color: theme.colors.primary,
+  },
   resetIconColor: {
     color: theme.colors.primary,
   },
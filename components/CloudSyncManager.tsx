@@ -0,0 +1,66 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { useCloudSync } from '@/hooks/useCloudSync';
+import { syncQueueEmitter } from '@/services/sync';
+
+// Wait for a burst of edits to settle before uploading them
+const QUEUE_FLUSH_DELAY_MS = 2000;
+
+// Keeps favorites, routes and app preferences in sync for the signed-in user:
+// on sign-in, after local edits, when the app comes back to the foreground and
+// when the device gets back online. Renders nothing; it must live inside AuthProvider.
+export function CloudSyncManager() {
+  const { enabled, syncNow } = useCloudSync();
+  const syncRef = useRef(syncNow);
+  syncRef.current = syncNow;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const runSync = () => {
+      syncRef.current().catch((error) => {
+        console.error('❌ Sync error:', error);
+      });
+    };
+
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribeQueue = syncQueueEmitter.subscribe(() => {
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+      }
+      flushTimer = setTimeout(runSync, QUEUE_FLUSH_DELAY_MS);
+    });
+
+    let wasConnected = true;
+    const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+      const connected = !!state.isConnected && state.isInternetReachable !== false;
+      if (connected && !wasConnected) {
+        console.log('📶 Back online, flushing sync queue');
+        runSync();
+      }
+      wasConnected = connected;
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        runSync();
+      }
+    });
+
+    runSync();
+
+    return () => {
+      if (flushTimer) {
+        clearTimeout(flushTimer);
+      }
+      unsubscribeQueue();
+      unsubscribeNetInfo();
+      appStateSubscription.remove();
+    };
+  }, [enabled]);
+
+  return null;
+}
@@ -0,0 +1,490 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { X, Trash2, Link } from 'lucide-react-native';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useThemedStyles } from '@/contexts/ThemeContext';
+import { useAppManager, RideAppConfig } from '@/hooks/useAppManager';
+import {
+  CustomAppError,
+  CustomAppField,
+  CustomRideAppDefinition,
+  EMPTY_CUSTOM_APP,
+  SAMPLE_TEMPLATE_TRIP,
+  TEMPLATE_FIELDS,
+  TEMPLATE_POINTS,
+  customAppDefinition,
+  renderTemplate,
+  validateCustomApp,
+} from '@/services/rideProviders';
+
+interface CustomAppEditorModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Custom app being edited, or null to add one
+  app: RideAppConfig | null;
+}
+
+const COLOR_PRESETS = ['#0ea5e9', '#22c55e', '#eab308', '#f97316', '#ef4444', '#a855f7', '#111827'];
+
+// Placeholders offered as shortcuts; the address ones are encoded so they fit in a URL
+const PLACEHOLDER_SHORTCUTS = TEMPLATE_POINTS.flatMap(point =>
+  TEMPLATE_FIELDS
+    .filter(field => field !== 'placeId')
+    .map(field => (field === 'address' || field === 'title' ? `{${point}.${field}|urlencode}` : `{${point}.${field}}`))
+);
+
+const monospace = Platform.select({ ios: 'Menlo', android: 'monospace', default: 'monospace' });
+
+export function CustomAppEditorModal({ visible, onClose, app }: CustomAppEditorModalProps) {
+  const { t } = useLanguage();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const { addCustomApp, updateCustomApp, removeCustomApp } = useAppManager();
+
+  const [draft, setDraft] = useState<CustomRideAppDefinition>(EMPTY_CUSTOM_APP);
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+  // Errors stay hidden until the first save attempt, except for the template which is checked live
+  const [showErrors, setShowErrors] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      const initial = app ? customAppDefinition(app) : EMPTY_CUSTOM_APP;
+      setDraft(initial);
+      setSelection({ start: initial.deepLinkTemplate.length, end: initial.deepLinkTemplate.length });
+      setShowErrors(false);
+    }
+  }, [visible, app]);
+
+  const errors = useMemo(() => validateCustomApp(draft), [draft]);
+  const templateErrors = errors.filter(error => error.field === 'deepLinkTemplate');
+  const preview = draft.deepLinkTemplate.trim() ? renderTemplate(draft.deepLinkTemplate, SAMPLE_TEMPLATE_TRIP) : '';
+
+  const update = (field: CustomAppField, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const insertPlaceholder = (placeholder: string) => {
+    const template = draft.deepLinkTemplate;
+    const next = template.slice(0, selection.start) + placeholder + template.slice(selection.end);
+    const cursor = selection.start + placeholder.length;
+    update('deepLinkTemplate', next);
+    setSelection({ start: cursor, end: cursor });
+  };
+
+  const describeError = (error: CustomAppError) => t(`customApps.error.${error.code}`, { token: error.token || '' });
+
+  const fieldError = (field: CustomAppField) => {
+    const error = showErrors ? errors.find(candidate => candidate.field === field) : undefined;
+    return error ? <Text style={styles.errorText}>{describeError(error)}</Text> : null;
+  };
+
+  const handleSave = async () => {
+    if (errors.length > 0) {
+      setShowErrors(true);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      if (app) {
+        await updateCustomApp(app.id, draft);
+      } else {
+        await addCustomApp(draft);
+      }
+      onClose();
+    } catch (error) {
+      Alert.alert(t('alert.error'), t('customApps.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!app) {
+      return;
+    }
+    Alert.alert(
+      t('customApps.deleteTitle'),
+      t('customApps.deleteConfirm', { name: app.name }),
+      [
+        { text: t('alert.cancel'), style: 'cancel' },
+        {
+          text: t('favorites.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await removeCustomApp(app.id);
+              onClose();
+            } catch (error) {
+              Alert.alert(t('alert.error'), t('customApps.saveError'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderInput = (
+    field: CustomAppField,
+    label: string,
+    placeholder: string,
+    options: { autoCapitalize?: 'none' | 'words'; keyboardType?: 'url' | 'default' } = {}
+  ) => (
+    <View style={styles.inputGroup}>
+      <Text style={styles.inputLabel}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={draft[field]}
+        onChangeText={value => update(field, value)}
+        placeholder={placeholder}
+        placeholderTextColor={styles.placeholderColor.color}
+        autoCapitalize={options.autoCapitalize || 'none'}
+        autoCorrect={false}
+        keyboardType={options.keyboardType || 'default'}
+      />
+      {fieldError(field)}
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.modalContainer, { paddingTop: insets.top }]}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color={styles.closeIconColor.color} />
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>{app ? t('customApps.editTitle') : t('customApps.addTitle')}</Text>
+          <TouchableOpacity onPress={handleSave} disabled={isSaving}>
+            <Text style={[styles.saveText, isSaving && styles.saveTextDisabled]}>{t('favorites.save')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.modalContent}
+          contentContainerStyle={{ paddingBottom: Math.max(insets.bottom + 20, 40) }}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.identityRow}>
+            <View style={[styles.iconPreview, { backgroundColor: `${draft.color}20` }]}>
+              <Text style={styles.iconPreviewText}>{draft.icon || '?'}</Text>
+            </View>
+            <View style={styles.identityInputs}>
+              {renderInput('name', t('customApps.name'), t('customApps.namePlaceholder'), { autoCapitalize: 'words' })}
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>{t('customApps.icon')}</Text>
+            <TextInput
+              style={[styles.input, styles.iconInput]}
+              value={draft.icon}
+              onChangeText={value => update('icon', value)}
+              placeholder="🚕"
+              placeholderTextColor={styles.placeholderColor.color}
+              maxLength={4}
+            />
+            {fieldError('icon')}
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>{t('customApps.color')}</Text>
+            <View style={styles.colorRow}>
+              {COLOR_PRESETS.map(color => (
+                <TouchableOpacity
+                  key={color}
+                  style={[
+                    styles.colorSwatch,
+                    { backgroundColor: color },
+                    draft.color.toLowerCase() === color && styles.colorSwatchSelected,
+                  ]}
+                  onPress={() => update('color', color)}
+                  accessibilityLabel={color}
+                />
+              ))}
+              <TextInput
+                style={[styles.input, styles.colorInput]}
+                value={draft.color}
+                onChangeText={value => update('color', value)}
+                placeholder="#0ea5e9"
+                placeholderTextColor={styles.placeholderColor.color}
+                autoCapitalize="none"
+                autoCorrect={false}
+                maxLength={7}
+              />
+            </View>
+            {fieldError('color')}
+          </View>
+
+          {renderInput('packageId', t('customApps.packageId'), 'com.example.taxi')}
+          {renderInput('playStoreUrl', t('customApps.storeUrl'), 'market://details?id=com.example.taxi', { keyboardType: 'url' })}
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>{t('customApps.template')}</Text>
+            <Text style={styles.inputHint}>{t('customApps.templateHint')}</Text>
+            <TextInput
+              style={[styles.input, styles.templateInput]}
+              value={draft.deepLinkTemplate}
+              onChangeText={value => update('deepLinkTemplate', value)}
+              selection={selection}
+              onSelectionChange={event => setSelection(event.nativeEvent.selection)}
+              placeholder="taxi://book?lat={pickup.lat}&lng={pickup.lng}&to={dropoff.address|urlencode}"
+              placeholderTextColor={styles.placeholderColor.color}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              multiline
+            />
+            <View style={styles.placeholderRow}>
+              {PLACEHOLDER_SHORTCUTS.map(placeholder => (
+                <TouchableOpacity
+                  key={placeholder}
+                  style={styles.placeholderChip}
+                  onPress={() => insertPlaceholder(placeholder)}
+                >
+                  <Text style={styles.placeholderChipText}>{placeholder}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {draft.deepLinkTemplate.trim().length > 0 && templateErrors.map(error => (
+              <Text key={`${error.code}-${error.token || ''}`} style={styles.errorText}>{describeError(error)}</Text>
+            ))}
+            {showErrors && !draft.deepLinkTemplate.trim() && fieldError('deepLinkTemplate')}
+          </View>
+
+          <View style={styles.previewBox}>
+            <View style={styles.previewHeader}>
+              <Link size={16} color={styles.previewIconColor.color} />
+              <Text style={styles.previewTitle}>{t('customApps.preview')}</Text>
+            </View>
+            <Text style={styles.previewTrip}>
+              {SAMPLE_TEMPLATE_TRIP.pickup.address} → {SAMPLE_TEMPLATE_TRIP.dropoff.address}
+            </Text>
+            <Text style={styles.previewLink} selectable>
+              {preview || t('customApps.previewEmpty')}
+            </Text>
+          </View>
+
+          {app && (
+            <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+              <Trash2 size={18} color={styles.deleteColor.color} />
+              <Text style={styles.deleteText}>{t('customApps.delete')}</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: theme.colors.text,
+  },
+  saveText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: theme.colors.primary,
+  },
+  saveTextDisabled: {
+    color: theme.colors.textTertiary,
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  identityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  identityInputs: {
+    flex: 1,
+  },
+  iconPreview: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconPreviewText: {
+    fontSize: 28,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: theme.colors.text,
+    marginBottom: 8,
+  },
+  inputHint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    lineHeight: 18,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: theme.colors.text,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  iconInput: {
+    width: 80,
+    textAlign: 'center',
+    fontSize: 22,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 10,
+  },
+  colorSwatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  colorSwatchSelected: {
+    borderColor: theme.colors.text,
+  },
+  colorInput: {
+    width: 110,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  templateInput: {
+    minHeight: 90,
+    textAlignVertical: 'top',
+    fontFamily: monospace,
+    fontSize: 13,
+  },
+  placeholderRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 10,
+  },
+  placeholderChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: theme.isDark ? 'rgba(59, 130, 246, 0.15)' : '#eff6ff',
+  },
+  placeholderChipText: {
+    fontFamily: monospace,
+    fontSize: 11,
+    color: theme.colors.primary,
+  },
+  errorText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.error,
+    marginTop: 6,
+  },
+  previewBox: {
+    backgroundColor: theme.isDark ? 'rgba(59, 130, 246, 0.1)' : '#f0f9ff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: theme.isDark ? 'rgba(59, 130, 246, 0.2)' : '#bae6fd',
+  },
+  previewHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  previewTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: theme.colors.info,
+  },
+  previewTrip: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginBottom: 8,
+  },
+  previewLink: {
+    fontFamily: monospace,
+    fontSize: 12,
+    color: theme.colors.text,
+    lineHeight: 18,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 24,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.error,
+  },
+  deleteText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: theme.colors.error,
+  },
+  // Color helpers
+  closeIconColor: {
+    color: theme.colors.textSecondary,
+  },
+  placeholderColor: {
+    color: theme.colors.textTertiary,
+  },
+  previewIconColor: {
+    color: theme.colors.info,
+  },
+  deleteColor: {
+    color: theme.colors.error,
+  },
+});
@@ -0,0 +1,51 @@
+import React from 'react';
+import {
+  Star,
+  House,
+  Briefcase,
+  Heart,
+  Dumbbell,
+  GraduationCap,
+  ShoppingBag,
+  Coffee,
+  Utensils,
+  Hospital,
+  Plane,
+  LucideIcon,
+} from 'lucide-react-native';
+import { FavoriteDestination, FavoriteIcon as FavoriteIconName } from '@/hooks/useFavorites';
+
+export const FAVORITE_ICON_COMPONENTS: Record<FavoriteIconName, LucideIcon> = {
+  star: Star,
+  heart: Heart,
+  dumbbell: Dumbbell,
+  school: GraduationCap,
+  shopping: ShoppingBag,
+  coffee: Coffee,
+  food: Utensils,
+  hospital: Hospital,
+  plane: Plane,
+};
+
+export const getFavoriteIcon = (favorite: Pick<FavoriteDestination, 'category' | 'icon'>): LucideIcon => {
+  if (favorite.category === 'home') {
+    return House;
+  }
+  if (favorite.category === 'work') {
+    return Briefcase;
+  }
+  return FAVORITE_ICON_COMPONENTS[favorite.icon || 'star'] || Star;
+};
+
+interface FavoriteIconProps {
+  favorite: Pick<FavoriteDestination, 'category' | 'icon'>;
+  size?: number;
+  color: string;
+  // Plain favorites keep the filled star they always had
+  filled?: boolean;
+}
+
+export function FavoriteIcon({ favorite, size = 20, color, filled }: FavoriteIconProps) {
+  const Icon = getFavoriteIcon(favorite);
+  return <Icon size={size} color={color} fill={filled ? color : 'none'} />;
+}
@@ -0,0 +1,155 @@
+import React from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, ScrollView } from 'react-native';
+import { Search, X } from 'lucide-react-native';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useThemedStyles } from '@/contexts/ThemeContext';
+import { FAVORITE_SORT_MODES, FavoriteSortMode } from '@/services/favoriteOrganizer';
+
+interface FavoritesToolbarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  sortMode: FavoriteSortMode;
+  onSortModeChange: (mode: FavoriteSortMode) => void;
+  // Distance sorting needs the rider's location
+  canSortByDistance: boolean;
+  tags: string[];
+  activeTag: string | null;
+  onActiveTagChange: (tag: string | null) => void;
+}
+
+export function FavoritesToolbar({
+  query,
+  onQueryChange,
+  sortMode,
+  onSortModeChange,
+  canSortByDistance,
+  tags,
+  activeTag,
+  onActiveTagChange,
+}: FavoritesToolbarProps) {
+  const { t } = useLanguage();
+  const styles = useThemedStyles(createStyles);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBox}>
+        <Search size={18} color={styles.iconColor.color} />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={onQueryChange}
+          placeholder={t('organize.searchPlaceholder')}
+          placeholderTextColor={styles.placeholderColor.color}
+          autoCorrect={false}
+          returnKeyType="search"
+        />
+        {query.length > 0 && (
+          <TouchableOpacity onPress={() => onQueryChange('')} accessibilityLabel={t('organize.clearSearch')}>
+            <X size={18} color={styles.iconColor.color} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        <Text style={styles.rowLabel}>{t('organize.sortBy')}</Text>
+        {FAVORITE_SORT_MODES.map(mode => {
+          const disabled = mode === 'distance' && !canSortByDistance;
+          const selected = sortMode === mode;
+          return (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.chip, selected && styles.chipActive, disabled && styles.chipDisabled]}
+              onPress={() => onSortModeChange(mode)}
+              disabled={disabled}
+            >
+              <Text style={[styles.chipText, selected && styles.chipTextActive]}>
+                {t(`organize.sort.${mode}`)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
+      {tags.length > 0 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {tags.map(tag => {
+            const selected = activeTag === tag;
+            return (
+              <TouchableOpacity
+                key={tag}
+                style={[styles.chip, selected && styles.chipActive]}
+                onPress={() => onActiveTagChange(selected ? null : tag)}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextActive]}>#{tag}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    gap: 10,
+    marginBottom: 16,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: theme.colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontFamily: 'Inter-Regular',
+    fontSize: 15,
+    color: theme.colors.text,
+  },
+  chipRow: {
+    alignItems: 'center',
+    gap: 6,
+  },
+  rowLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginRight: 2,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  // Color helpers
+  iconColor: {
+    color: theme.colors.textSecondary,
+  },
+  placeholderColor: {
+    color: theme.colors.textTertiary,
+  },
+});
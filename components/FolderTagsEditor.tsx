@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
+import { Folder, Tag } from 'lucide-react-native';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useThemedStyles } from '@/contexts/ThemeContext';
+import { normalizeFolder, parseTags } from '@/services/favoriteOrganizer';
+
+interface FolderTagsEditorProps {
+  folder?: string;
+  tags: string[];
+  // Folders and tags already in use, offered as shortcuts
+  knownFolders: string[];
+  knownTags: string[];
+  onFolderChange: (folder: string | undefined) => void;
+  onTagsChange: (tags: string[]) => void;
+}
+
+export function FolderTagsEditor({
+  folder,
+  tags,
+  knownFolders,
+  knownTags,
+  onFolderChange,
+  onTagsChange,
+}: FolderTagsEditorProps) {
+  const { t } = useLanguage();
+  const styles = useThemedStyles(createStyles);
+  // Tags are edited as text and parsed on every change, so a trailing comma isn't lost while typing
+  const [tagsText, setTagsText] = useState(tags.join(', '));
+
+  useEffect(() => {
+    if (parseTags(tagsText).join(',') !== tags.join(',')) {
+      setTagsText(tags.join(', '));
+    }
+  }, [tags]);
+
+  const handleTagsText = (text: string) => {
+    setTagsText(text);
+    onTagsChange(parseTags(text));
+  };
+
+  const toggleTag = (tag: string) => {
+    const next = tags.includes(tag) ? tags.filter(existing => existing !== tag) : [...tags, tag];
+    setTagsText(next.join(', '));
+    onTagsChange(next);
+  };
+
+  const otherFolders = knownFolders.filter(known => known !== folder);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.inputGroup}>
+        <Text style={styles.inputLabel}>{t('organize.folderLabel')}</Text>
+        <View style={styles.inputRow}>
+          <Folder size={18} color={styles.iconColor.color} />
+          <TextInput
+            style={styles.input}
+            value={folder || ''}
+            onChangeText={text => onFolderChange(text ? text : undefined)}
+            onEndEditing={() => onFolderChange(normalizeFolder(folder))}
+            placeholder={t('organize.folderPlaceholder')}
+            placeholderTextColor={styles.placeholderColor.color}
+            autoCapitalize="words"
+          />
+        </View>
+        {otherFolders.length > 0 && (
+          <View style={styles.chipRow}>
+            {otherFolders.map(known => (
+              <TouchableOpacity key={known} style={styles.chip} onPress={() => onFolderChange(known)}>
+                <Text style={styles.chipText}>{known}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.inputLabel}>{t('organize.tagsLabel')}</Text>
+        <View style={styles.inputRow}>
+          <Tag size={18} color={styles.iconColor.color} />
+          <TextInput
+            style={styles.input}
+            value={tagsText}
+            onChangeText={handleTagsText}
+            placeholder={t('organize.tagsPlaceholder')}
+            placeholderTextColor={styles.placeholderColor.color}
+            autoCapitalize="none"
+          />
+        </View>
+        {knownTags.length > 0 && (
+          <View style={styles.chipRow}>
+            {knownTags.map(known => {
+              const selected = tags.includes(known);
+              return (
+                <TouchableOpacity
+                  key={known}
+                  style={[styles.chip, selected && styles.chipActive]}
+                  onPress={() => toggleTag(known)}
+                >
+                  <Text style={[styles.chipText, selected && styles.chipTextActive]}>#{known}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    marginBottom: 4,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: theme.colors.text,
+    marginBottom: 8,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: theme.colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 14,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.card,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  chipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  // Color helpers
+  iconColor: {
+    color: theme.colors.textSecondary,
+  },
+  placeholderColor: {
+    color: theme.colors.textTertiary,
+  },
+});
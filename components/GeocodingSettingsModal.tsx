@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { X, Check, Server } from 'lucide-react-native';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useThemedStyles } from '@/contexts/ThemeContext';
+import { useGeocodingSettings } from '@/hooks/useGeocodingSettings';
+import {
+  GeocodingProviderId,
+  GeocodingSettings,
+  DEFAULT_NOMINATIM_URL,
+  DEFAULT_PHOTON_URL,
+} from '@/services/geocoding';
+
+interface GeocodingSettingsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const PROVIDER_OPTIONS: GeocodingProviderId[] = ['google', 'osm'];
+
+const isValidBaseUrl = (url: string) => url === '' || /^https?:\/\/[^\s]+$/i.test(url);
+
+export function GeocodingSettingsModal({ visible, onClose }: GeocodingSettingsModalProps) {
+  const { t } = useLanguage();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const { settings, updateSettings } = useGeocodingSettings();
+  const [draft, setDraft] = useState<GeocodingSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the saved settings every time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setDraft(settings);
+    }
+  }, [visible, settings]);
+
+  const handleSave = async () => {
+    const nominatimUrl = draft.nominatimUrl.trim();
+    const photonUrl = draft.photonUrl.trim();
+
+    if (!isValidBaseUrl(nominatimUrl) || !isValidBaseUrl(photonUrl)) {
+      Alert.alert(t('alert.error'), t('geocoding.invalidUrl'));
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await updateSettings({ provider: draft.provider, nominatimUrl, photonUrl });
+      onClose();
+    } catch (error) {
+      Alert.alert(t('alert.error'), t('geocoding.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderProviderOption = (provider: GeocodingProviderId) => {
+    const isSelected = draft.provider === provider;
+    return (
+      <TouchableOpacity
+        key={provider}
+        style={[styles.providerOption, isSelected && styles.providerOptionSelected]}
+        onPress={() => setDraft(prev => ({ ...prev, provider }))}
+        activeOpacity={0.7}
+      >
+        <View style={styles.providerDetails}>
+          <Text style={styles.providerName}>{t(`geocoding.provider.${provider}`)}</Text>
+          <Text style={styles.providerDescription}>{t(`geocoding.provider.${provider}Description`)}</Text>
+        </View>
+        {isSelected && <Check size={20} color={styles.checkColor.color} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.modalContainer, { paddingTop: insets.top }]}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <X size={24} color={styles.closeIconColor.color} />
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>{t('geocoding.title')}</Text>
+          <TouchableOpacity onPress={handleSave} style={styles.saveButton} disabled={isSaving}>
+            <Text style={styles.saveButtonText}>{t('geocoding.save')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.modalContent}
+          contentContainerStyle={{ paddingBottom: Math.max(insets.bottom + 20, 40) }}
+          keyboardShouldPersistTaps="handled"
+        >
+          <Text style={styles.sectionTitle}>{t('geocoding.providerSection')}</Text>
+          {PROVIDER_OPTIONS.map(renderProviderOption)}
+
+          {draft.provider === 'osm' && (
+            <View style={styles.serverSection}>
+              <View style={styles.serverHeader}>
+                <Server size={18} color={styles.serverIconColor.color} />
+                <Text style={styles.serverTitle}>{t('geocoding.selfHosted')}</Text>
+              </View>
+              <Text style={styles.serverDescription}>{t('geocoding.selfHostedDescription')}</Text>
+
+              <Text style={styles.inputLabel}>{t('geocoding.nominatimUrl')}</Text>
+              <TextInput
+                style={styles.textInput}
+                value={draft.nominatimUrl}
+                onChangeText={(nominatimUrl) => setDraft(prev => ({ ...prev, nominatimUrl }))}
+                placeholder={DEFAULT_NOMINATIM_URL}
+                placeholderTextColor={styles.placeholderColor.color}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+
+              <Text style={styles.inputLabel}>{t('geocoding.photonUrl')}</Text>
+              <TextInput
+                style={styles.textInput}
+                value={draft.photonUrl}
+                onChangeText={(photonUrl) => setDraft(prev => ({ ...prev, photonUrl }))}
+                placeholder={DEFAULT_PHOTON_URL}
+                placeholderTextColor={styles.placeholderColor.color}
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+              />
+            </View>
+          )}
+
+          <View style={styles.noteCard}>
+            <Text style={styles.noteText}>{t('geocoding.note')}</Text>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: theme.colors.text,
+  },
+  saveButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: theme.colors.primary,
+  },
+  saveButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#ffffff',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: theme.colors.text,
+    marginBottom: 16,
+  },
+  providerOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  providerOptionSelected: {
+    borderColor: theme.colors.primary,
+    borderWidth: 2,
+  },
+  providerDetails: {
+    flex: 1,
+    marginRight: 12,
+  },
+  providerName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: theme.colors.text,
+    marginBottom: 4,
+  },
+  providerDescription: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    lineHeight: 18,
+  },
+  serverSection: {
+    marginTop: 8,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  serverHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  serverTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: theme.colors.text,
+    marginLeft: 8,
+  },
+  serverDescription: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    lineHeight: 18,
+    marginBottom: 8,
+  },
+  inputLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: theme.colors.text,
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  textInput: {
+    height: 44,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: theme.colors.text,
+    backgroundColor: theme.colors.background,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  noteCard: {
+    backgroundColor: theme.isDark ? 'rgba(251, 191, 36, 0.1)' : '#fef3c7',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: theme.isDark ? 'rgba(251, 191, 36, 0.2)' : '#fed7aa',
+    marginTop: 20,
+  },
+  noteText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.warning,
+    lineHeight: 18,
+  },
+  // Color helpers
+  closeIconColor: {
+    color: theme.colors.textSecondary,
+  },
+  checkColor: {
+    color: theme.colors.primary,
+  },
+  serverIconColor: {
+    color: theme.colors.primary,
+  },
+  placeholderColor: {
+    color: theme.colors.textTertiary,
+  },
+});
@@ -1,31 +1,36 @@
-import React, { useRef, useEffect, useState, forwardRef, useImperativeHandle } from 'react';
+import React, { useRef, useEffect, useState, useMemo, forwardRef, useImperativeHandle } from 'react';
 import { View, Text, StyleSheet, Platform, Animated, TextInput, FlatList, TouchableOpacity, Dimensions, Alert } from 'react-native';
-import { MapPin, Navigation, Check, Copy, Crosshair } from 'lucide-react-native';
+import { MapPin, Navigation, Check, Copy, Crosshair, WifiOff } from 'lucide-react-native';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useThemedStyles } from '@/contexts/ThemeContext';
 import * as Clipboard from 'expo-clipboard';
 import * as Location from 'expo-location';
+import { useGeocodingSettings } from '@/hooks/useGeocodingSettings';
+import { createGeocodingProvider, reverseGeocode, PlacePrediction, PlaceDetails } from '@/services/geocoding';
+import {
+  cachedLookup,
+  autocompleteCache,
+  autocompleteCacheKey,
+  placeDetailsCache,
+} from '@/services/geocoding/cache';
 
 interface GooglePlacesInputProps {
   label: string;
   placeholder: string;
   icon: 'pickup' | 'destination';
-  onPlaceSelected: (address: string, coordinates?: { latitude: number; longitude: number }, placeId?: string) => void;
+  // `accuracy` is the GPS accuracy radius in meters, set when the current location was used
+  onPlaceSelected: (
+    address: string,
+    coordinates?: { latitude: number; longitude: number },
+    placeId?: string,
+    accuracy?: number
+  ) => void;
   value?: string;
   userLocation?: { latitude: number; longitude: number };
   showSuccess?: boolean;
   showCopyButton?: boolean; // New prop to control copy button visibility
 }
 
-interface PlacePrediction {
-  place_id: string;
-  description: string;
-  structured_formatting: {
-    main_text: string;
-    secondary_text: string;
-  };
-}
-
 const { width: screenWidth } = Dimensions.get('window');
 
 export const GooglePlacesInput = forwardRef<any, GooglePlacesInputProps>(({ 
@@ -44,6 +49,7 @@ export const GooglePlacesInput = forwardRef<any, GooglePlacesInputProps>(({
   const [inputValue, setInputValue] = useState(value);
   const [predictions, setPredictions] = useState<PlacePrediction[]>([]);
   const [showPredictions, setShowPredictions] = useState(false);
+  const [predictionsOffline, setPredictionsOffline] = useState(false);
   const [isSelected, setIsSelected] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [showCopyFeedback, setShowCopyFeedback] = useState(false);
@@ -109,8 +115,9 @@ export const GooglePlacesInput = forwardRef<any, GooglePlacesInputProps>(({
 
   const IconComponent = icon === 'pickup' ? MapPin : Navigation;
 
-  // Get the API key from environment variables
-  const apiKey = process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY;
+  // Resolve the address search backend chosen in settings
+  const { settings: geocodingSettings } = useGeocodingSettings();
+  const geocoder = useMemo(() => createGeocodingProvider(geocodingSettings), [geocodingSettings]);
 
   const handleCopyAddress = async () => {
     if (!inputValue.trim() || !showCopyButton) {
@@ -215,7 +222,7 @@ export const GooglePlacesInput = forwardRef<any, GooglePlacesInputProps>(({
               accuracy: `${accuracy}m` 
             });
             
-            await reverseGeocodeLocation(latitude, longitude);
+            await reverseGeocodeLocation(latitude, longitude, accuracy ?? undefined);
           } catch (error) {
             Alert.alert(t('alert.error'), 'Could not get the address for your location.');
           } finally {
@@ -299,7 +306,7 @@ export const GooglePlacesInput = forwardRef<any, GooglePlacesInputProps>(({
           accuracy: `${accuracy}m` 
         });
 
-        await reverseGeocodeLocation(latitude, longitude);
+        await reverseGeocodeLocation(latitude, longitude, accuracy ?? undefined);
       } catch (error) {
         console.log('❌ Location error:', error);
         Alert.alert(t('alert.error'), t('alert.locationError'));
@@ -311,105 +318,17 @@ export const GooglePlacesInput = forwardRef<any, GooglePlacesInputProps>(({
     }
   };
 
-  const reverseGeocodeLocation = async (latitude: number, longitude: number) => {
-    try {
-      if (apiKey && apiKey !== 'YOUR_GOOGLE_MAPS_API_KEY_HERE') {
-        const response = await fetch(
-          `https://maps.googleapis.com/maps/api/geocode/json?latlng=${latitude},${longitude}&key=${apiKey}&language=en&result_type=street_address&location_type=ROOFTOP`
-        );
-        const data = await response.json();
-        
-        if (data.results && data.results.length > 0) {
-          let bestResult = null;
-          
-          for (const result of data.results) {
-            const hasStreetNumber = result.address_components.some(
-              (component: any) => component.types.includes('street_number')
-            );
-            const isRooftop = result.geometry.location_type === 'ROOFTOP';
-            
-            if (hasStreetNumber && isRooftop) {
-              bestResult = result;
-              break;
-            }
-          }
-          
-          if (!bestResult) {
-            for (const result of data.results) {
-              const hasStreetNumber = result.address_components.some(
-                (component: any) => component.types.includes('street_number')
-              );
-              const isRangeInterpolated = result.geometry.location_type === 'RANGE_INTERPOLATED';
-              
-              if (hasStreetNumber && isRangeInterpolated) {
-                bestResult = result;
-                break;
-              }
-            }
-          }
-          
-          if (!bestResult) {
-            bestResult = data.results.find((result: any) => 
-              result.address_components.some((component: any) => 
-                component.types.includes('street_number')
-              )
-            ) || data.results[0];
-          }
-          
-          const address = bestResult.formatted_address;
-          const placeId = bestResult.place_id;
-          
-          setInputValue(address);
-          onPlaceSelected(address, { latitude, longitude }, placeId);
-          
-          console.log('📍 Current location address:', {
-            address,
-            placeId,
-            locationType: bestResult.geometry.location_type
-          });
-        } else {
-          const fallbackAddress = `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
-          setInputValue(fallbackAddress);
-          onPlaceSelected(fallbackAddress, { latitude, longitude });
-        }
-      } else if (Platform.OS !== 'web') {
-        const addressResult = await Location.reverseGeocodeAsync({
-          latitude,
-          longitude,
-        });
-
-        if (addressResult.length > 0) {
-          const addr = addressResult[0];
-          const formattedAddress = [
-            addr.street && addr.streetNumber ? `${addr.street}, ${addr.streetNumber}` : addr.street,
-            addr.district,
-            addr.city,
-            addr.region
-          ].filter(Boolean).join(', ');
-          
-          const finalAddress = formattedAddress || `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
-          setInputValue(finalAddress);
-          onPlaceSelected(finalAddress, { latitude, longitude });
-        } else {
-          const fallbackAddress = `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
-          setInputValue(fallbackAddress);
-          onPlaceSelected(fallbackAddress, { latitude, longitude });
-        }
-      } else {
-        const fallbackAddress = `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
-        setInputValue(fallbackAddress);
-        onPlaceSelected(fallbackAddress, { latitude, longitude });
-      }
-    } catch (addressError) {
-      console.log('❌ Address error:', addressError);
-      const fallbackAddress = `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
-      setInputValue(fallbackAddress);
-      onPlaceSelected(fallbackAddress, { latitude, longitude });
+  const reverseGeocodeLocation = async (latitude: number, longitude: number, accuracy?: number) => {
+    const { address, placeId, fromCoordinates } = await reverseGeocode(geocoder, latitude, longitude);
+    if (fromCoordinates) {
+      console.warn('⚠️ No address found for current location, using coordinates');
     }
+    setInputValue(address);
+    onPlaceSelected(address, { latitude, longitude }, placeId, accuracy);
   };
 
   const searchPlaces = async (input: string) => {
-    if (!apiKey || apiKey === 'YOUR_GOOGLE_MAPS_API_KEY_HERE' || input.length < 2) {
+    if (!geocoder.isConfigured() || input.length < 2) {
       setPredictions([]);
       setShowPredictions(false);
       return;
@@ -417,32 +336,24 @@ export const GooglePlacesInput = forwardRef<any, GooglePlacesInputProps>(({
 
     try {
       setIsLoading(true);
-      
-      let url = `https://maps.googleapis.com/maps/api/place/autocomplete/json?input=${encodeURIComponent(input)}&key=${apiKey}&language=en&types=address`;
-      
+
       if (userLocation) {
-        const { latitude, longitude } = userLocation;
-        url += `&location=${latitude},${longitude}&radius=50000&strictbounds=false`;
-        console.log('🎯 Using location bias:', { latitude, longitude });
+        console.log('🎯 Using location bias:', userLocation);
       }
-      
-      url += '&components=country:us|country:br|country:ca';
 
-      console.log('🔍 Searching places with URL:', url.replace(apiKey, 'API_KEY_HIDDEN'));
-
-      const response = await fetch(url);
-      const data = await response.json();
+      const result = await cachedLookup(
+        autocompleteCache,
+        `${geocoder.cacheNamespace}:${autocompleteCacheKey(input, userLocation)}`,
+        () => geocoder.autocomplete(input, { bias: userLocation })
+      );
 
-      if (data.status === 'OK' && data.predictions) {
-        setPredictions(data.predictions);
+      if (result && result.value.length > 0) {
+        console.log('✅ Found predictions:', result.value.length);
+        setPredictions(result.value);
+        setPredictionsOffline(result.offline);
         setShowPredictions(true);
-        console.log('✅ Found predictions:', data.predictions.length);
-      } else if (data.status === 'ZERO_RESULTS') {
-        setPredictions([]);
-        setShowPredictions(false);
-        console.log('ℹ️ No results found for:', input);
       } else {
-        console.warn('⚠️ Places API error:', data.status, data.error_message);
+        console.log('ℹ️ No results found for:', input);
         setPredictions([]);
         setShowPredictions(false);
       }
@@ -455,32 +366,22 @@ export const GooglePlacesInput = forwardRef<any, GooglePlacesInputProps>(({
     }
   };
 
-  const getPlaceDetails = async (placeId: string): Promise<{ coordinates: { latitude: number; longitude: number }; address: string } | null> => {
-    if (!apiKey || apiKey === 'YOUR_GOOGLE_MAPS_API_KEY_HERE') {
+  const getPlaceDetails = async (placeId: string): Promise<PlaceDetails | null> => {
+    if (!geocoder.isConfigured()) {
       return null;
     }
 
     try {
-      const url = `https://maps.googleapis.com/maps/api/place/details/json?place_id=${placeId}&key=${apiKey}&fields=geometry,formatted_address&language=en`;
-      
       console.log('📍 Getting place details for:', placeId);
-      
-      const response = await fetch(url);
-      const data = await response.json();
-
-      if (data.status === 'OK' && data.result) {
-        const result = {
-          coordinates: {
-            latitude: data.result.geometry.location.lat,
-            longitude: data.result.geometry.location.lng,
-          },
-          address: data.result.formatted_address,
-        };
-        
-        console.log('✅ Place details retrieved:', result);
-        return result;
-      } else {
-        console.warn('⚠️ Place details error:', data.status, data.error_message);
+      const result = await cachedLookup(
+        placeDetailsCache,
+        `${geocoder.cacheNamespace}:${placeId}`,
+        () => geocoder.details(placeId)
+      );
+
+      if (result) {
+        console.log('✅ Place details retrieved:', { ...result.value, offline: result.offline });
+        return result.value;
       }
     } catch (error) {
       console.error('❌ Error getting place details:', error);
@@ -560,7 +461,7 @@ export const GooglePlacesInput = forwardRef<any, GooglePlacesInputProps>(({
   );
 
   // Show API key setup instructions if not configured
-  if (!apiKey || apiKey === 'YOUR_GOOGLE_MAPS_API_KEY_HERE') {
+  if (!geocoder.isConfigured()) {
     return (
       <View style={styles.container}>
         <Text style={styles.label}>{label}</Text>
@@ -687,6 +588,12 @@ export const GooglePlacesInput = forwardRef<any, GooglePlacesInputProps>(({
               data={predictions}
               renderItem={renderPrediction}
               keyExtractor={(item) => item.place_id}
+              ListHeaderComponent={predictionsOffline ? (
+                <View style={styles.offlineBanner}>
+                  <WifiOff size={14} color={styles.offlineColor.color} />
+                  <Text style={styles.offlineText}>{t('geocoding.offlineResult')}</Text>
+                </View>
+              ) : null}
               style={styles.predictionsList}
               keyboardShouldPersistTaps="handled"
               showsVerticalScrollIndicator={false}
@@ -859,6 +766,22 @@ const createStyles = (theme: any) => StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: theme.colors.divider,
   },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: theme.isDark ? 'rgba(251, 191, 36, 0.1)' : '#fef3c7',
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.divider,
+  },
+  offlineText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: theme.colors.warning,
+    marginLeft: 8,
+    flex: 1,
+  },
   predictionIcon: {
     marginRight: 12,
   },
@@ -931,6 +854,9 @@ const createStyles = (theme: any) => StyleSheet.create({
   placeholderColor: {
     color: theme.colors.textTertiary,
   },
+  offlineColor: {
+    color: theme.colors.warning,
+  },
   predictionIconColor: {
     color: theme.colors.textSecondary,
   },
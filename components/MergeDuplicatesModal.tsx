@@ -0,0 +1,385 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Check, MapPin, Route, Merge } from 'lucide-react-native';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useThemedStyles } from '@/contexts/ThemeContext';
+import { useFavorites, FavoriteDestination } from '@/hooks/useFavorites';
+import { useRouteFavorites, FavoriteRoute } from '@/hooks/useRouteFavorites';
+import { findDuplicateGroups, isSamePoint, isSameRoute } from '@/services/transfer';
+
+export type DuplicateKind = 'places' | 'routes';
+
+interface MergeDuplicatesModalProps {
+  visible: boolean;
+  onClose: () => void;
+  kind: DuplicateKind;
+}
+
+type SavedEntry = FavoriteDestination | FavoriteRoute;
+
+interface MergeChoice {
+  // Entry whose address and coordinates (or route points) survive
+  keepId: string;
+  name: string;
+}
+
+const groupKey = (group: SavedEntry[]) => group.map(entry => entry.id).join('|');
+
+// A place with a place id came from a search and has the most reliable location
+const defaultChoice = (group: SavedEntry[]): MergeChoice => {
+  const keeper = group.find(entry => 'placeId' in entry && entry.placeId) || group[0];
+  return { keepId: keeper.id, name: keeper.name };
+};
+
+export function MergeDuplicatesModal({ visible, onClose, kind }: MergeDuplicatesModalProps) {
+  const { t } = useLanguage();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const { favorites, mergeFavorites } = useFavorites();
+  const { routeFavorites, mergeRouteFavorites } = useRouteFavorites();
+
+  const [choices, setChoices] = useState<Record<string, MergeChoice>>({});
+  // Groups the rider said are different places, for as long as the sheet is open
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setChoices({});
+      setSkipped([]);
+    }
+  }, [visible]);
+
+  const groups: SavedEntry[][] = useMemo(() => {
+    const found: SavedEntry[][] = kind === 'places'
+      ? findDuplicateGroups(favorites, isSamePoint)
+      : findDuplicateGroups(routeFavorites, isSameRoute);
+    return found.filter(group => !skipped.includes(groupKey(group)));
+  }, [kind, favorites, routeFavorites, skipped]);
+
+  const choiceFor = (group: SavedEntry[]) => {
+    const choice = choices[groupKey(group)];
+    // A choice from before an earlier merge may point at an entry that is gone
+    return choice && group.some(entry => entry.id === choice.keepId) ? choice : defaultChoice(group);
+  };
+
+  const updateChoice = (group: SavedEntry[], update: Partial<MergeChoice>) => {
+    const key = groupKey(group);
+    setChoices(prev => ({ ...prev, [key]: { ...choiceFor(group), ...update } }));
+  };
+
+  const handleMerge = async (group: SavedEntry[]) => {
+    const key = groupKey(group);
+    const { keepId, name } = choiceFor(group);
+    const ids = group.map(entry => entry.id);
+
+    try {
+      setMergingKey(key);
+      if (kind === 'places') {
+        await mergeFavorites(ids, keepId, name);
+      } else {
+        await mergeRouteFavorites(ids, keepId, name);
+      }
+    } catch (error) {
+      Alert.alert(t('alert.error'), t('duplicates.mergeError'));
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  const describe = (entry: SavedEntry) => {
+    if ('pickup' in entry) {
+      return [entry.pickup, ...(entry.stops || []), entry.destination].map(point => point.address).join(' → ');
+    }
+    return entry.address;
+  };
+
+  const describeCoordinates = (entry: SavedEntry) => {
+    const point = 'pickup' in entry ? entry.pickup : entry;
+    return point.latitude !== undefined && point.longitude !== undefined
+      ? `${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}`
+      : t('duplicates.noCoordinates');
+  };
+
+  const renderGroup = (group: SavedEntry[]) => {
+    const key = groupKey(group);
+    const choice = choiceFor(group);
+    const names = [...new Set(group.map(entry => entry.name))];
+    const isMerging = mergingKey === key;
+
+    return (
+      <View key={key} style={styles.groupCard}>
+        <Text style={styles.groupTitle}>{t('duplicates.groupTitle', { count: group.length })}</Text>
+
+        <Text style={styles.optionLabel}>{t('duplicates.keepName')}</Text>
+        <View style={styles.chipWrap}>
+          {names.map(name => {
+            const selected = choice.name === name;
+            return (
+              <TouchableOpacity
+                key={name}
+                style={[styles.chip, selected && styles.chipActive]}
+                onPress={() => updateChoice(group, { name })}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextActive]} numberOfLines={1}>{name}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Text style={styles.optionLabel}>
+          {t(kind === 'places' ? 'duplicates.keepLocation' : 'duplicates.keepPoints')}
+        </Text>
+        <View style={styles.entryList}>
+          {group.map(entry => {
+            const selected = choice.keepId === entry.id;
+            return (
+              <TouchableOpacity
+                key={entry.id}
+                style={[styles.entryOption, selected && styles.entryOptionSelected]}
+                onPress={() => updateChoice(group, { keepId: entry.id })}
+                activeOpacity={0.7}
+              >
+                {kind === 'places'
+                  ? <MapPin size={16} color={styles.entryIconColor.color} />
+                  : <Route size={16} color={styles.entryIconColor.color} />}
+                <View style={styles.entryInfo}>
+                  <Text style={styles.entryAddress} numberOfLines={2}>{describe(entry)}</Text>
+                  <Text style={styles.entryDetail} numberOfLines={1}>
+                    {entry.name} · {describeCoordinates(entry)}
+                  </Text>
+                </View>
+                {selected && <Check size={20} color={styles.checkColor.color} />}
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.groupActions}>
+          <TouchableOpacity
+            style={styles.skipButton}
+            onPress={() => setSkipped(prev => [...prev, key])}
+            disabled={isMerging}
+          >
+            <Text style={styles.skipButtonText}>{t('duplicates.keepSeparate')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.mergeButton, isMerging && styles.mergeButtonDisabled]}
+            onPress={() => handleMerge(group)}
+            disabled={mergingKey !== null}
+          >
+            {isMerging
+              ? <ActivityIndicator size="small" color="#ffffff" />
+              : <Merge size={16} color="#ffffff" />}
+            <Text style={styles.mergeButtonText}>{t('duplicates.merge')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.modalContainer, { paddingTop: insets.top }]}>
+        <View style={styles.modalHeader}>
+          <View style={styles.headerSpacer} />
+          <Text style={styles.modalTitle}>{t('duplicates.title')}</Text>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.modalDone}>{t('duplicates.done')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.modalContent}
+          contentContainerStyle={{ paddingBottom: Math.max(insets.bottom + 20, 40) }}
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={styles.sectionHelp}>
+            {t(kind === 'places' ? 'duplicates.placesHelp' : 'duplicates.routesHelp')}
+          </Text>
+          {groups.length === 0
+            ? <Text style={styles.emptyText}>{t('duplicates.none')}</Text>
+            : groups.map(renderGroup)}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  headerSpacer: {
+    width: 48,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: theme.colors.text,
+  },
+  modalDone: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: theme.colors.primary,
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionHelp: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    lineHeight: 18,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    padding: 20,
+  },
+  groupCard: {
+    backgroundColor: theme.colors.card,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    padding: 16,
+    marginBottom: 16,
+  },
+  groupTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: theme.colors.text,
+  },
+  optionLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    marginTop: 14,
+    marginBottom: 8,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    maxWidth: '100%',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  chipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  entryList: {
+    gap: 8,
+  },
+  entryOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  entryOptionSelected: {
+    borderColor: theme.colors.primary,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryAddress: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  entryDetail: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  groupActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 16,
+  },
+  skipButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  skipButtonText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: theme.colors.textSecondary,
+  },
+  mergeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: theme.colors.primary,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+  },
+  mergeButtonDisabled: {
+    opacity: 0.6,
+  },
+  mergeButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#ffffff',
+  },
+  // Color helpers
+  entryIconColor: {
+    color: theme.colors.primary,
+  },
+  checkColor: {
+    color: theme.colors.primary,
+  },
+});
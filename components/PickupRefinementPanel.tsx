@@ -0,0 +1,263 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Crosshair, DoorOpen, MapPin, Flag, AlertTriangle } from 'lucide-react-native';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useThemedStyles } from '@/contexts/ThemeContext';
+import { useGeocodingSettings } from '@/hooks/useGeocodingSettings';
+import { createGeocodingProvider, isCoordinateAddress } from '@/services/geocoding';
+import {
+  ACCURACY_WARNING_METERS,
+  PickupSuggestion,
+  PickupSuggestionKind,
+  suggestPickupPoints,
+} from '@/services/pickupPoints';
+
+interface PickupRefinementPanelProps {
+  pickup: { address: string; latitude: number; longitude: number } | null;
+  // GPS accuracy radius in meters when the pickup came from the current location
+  accuracy?: number;
+  onSuggestionSelected: (suggestion: PickupSuggestion) => void;
+}
+
+const KIND_ICONS: Record<PickupSuggestionKind, typeof MapPin> = {
+  zone: Flag,
+  entrance: DoorOpen,
+  street: MapPin,
+};
+
+export function PickupRefinementPanel({ pickup, accuracy, onSuggestionSelected }: PickupRefinementPanelProps) {
+  const { t } = useLanguage();
+  const styles = useThemedStyles(createStyles);
+  const { settings: geocodingSettings } = useGeocodingSettings();
+  const geocoder = useMemo(() => createGeocodingProvider(geocodingSettings), [geocodingSettings]);
+
+  const [suggestions, setSuggestions] = useState<PickupSuggestion[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Only the latest lookup may fill the list; the pickup can change while one runs
+  const requestId = useRef(0);
+
+  const coordinatesOnly = !!pickup && isCoordinateAddress(pickup.address);
+  const lowAccuracy = accuracy !== undefined && accuracy > ACCURACY_WARNING_METERS;
+  // GPS and coordinate-only pickups are the ones drivers struggle to find, so look right away
+  const lookUpAutomatically = accuracy !== undefined || coordinatesOnly;
+
+  const findSuggestions = async () => {
+    if (!pickup) {
+      return;
+    }
+    const id = ++requestId.current;
+    setLoading(true);
+    try {
+      const result = await suggestPickupPoints(geocoder, pickup, { accuracy, currentAddress: pickup.address });
+      if (id === requestId.current) {
+        setSuggestions(result);
+      }
+    } catch (error) {
+      console.log('❌ Pickup suggestions error:', error);
+      if (id === requestId.current) {
+        setSuggestions([]);
+      }
+    } finally {
+      if (id === requestId.current) {
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    requestId.current++;
+    setSuggestions(null);
+    setLoading(false);
+    if (pickup && lookUpAutomatically) {
+      findSuggestions();
+    }
+  }, [pickup?.latitude, pickup?.longitude, pickup?.address, geocoder]);
+
+  if (!pickup) {
+    return null;
+  }
+
+  const renderSuggestion = (suggestion: PickupSuggestion) => {
+    const Icon = KIND_ICONS[suggestion.kind];
+    const kindLabel = t(`pickupPoints.kind.${suggestion.kind}`);
+    return (
+      <TouchableOpacity
+        key={suggestion.id}
+        style={styles.suggestion}
+        onPress={() => onSuggestionSelected(suggestion)}
+      >
+        <Icon size={16} color={styles.suggestionIconColor.color} />
+        <View style={styles.suggestionInfo}>
+          <Text style={styles.suggestionTitle} numberOfLines={1}>
+            {suggestion.name ? `${kindLabel} · ${suggestion.name}` : kindLabel}
+          </Text>
+          <Text style={styles.suggestionAddress} numberOfLines={1}>{suggestion.address}</Text>
+        </View>
+        <Text style={styles.suggestionDistance}>
+          {t('pickupPoints.distance', { meters: suggestion.distanceMeters })}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {accuracy !== undefined && (
+        <View style={styles.accuracyRow}>
+          <Crosshair size={14} color={lowAccuracy ? styles.warningColor.color : styles.accuracyIconColor.color} />
+          <Text style={[styles.accuracyText, lowAccuracy && styles.warningText]}>
+            {t('pickupPoints.accuracy', { meters: Math.round(accuracy) })}
+          </Text>
+        </View>
+      )}
+
+      {lowAccuracy && (
+        <View style={styles.warningBox}>
+          <AlertTriangle size={14} color={styles.warningColor.color} />
+          <Text style={styles.warningBoxText}>
+            {t('pickupPoints.lowAccuracy', { meters: ACCURACY_WARNING_METERS })}
+          </Text>
+        </View>
+      )}
+
+      {coordinatesOnly && (
+        <View style={styles.warningBox}>
+          <AlertTriangle size={14} color={styles.warningColor.color} />
+          <Text style={styles.warningBoxText}>{t('pickupPoints.coordinatesOnly')}</Text>
+        </View>
+      )}
+
+      {loading ? (
+        <View style={styles.loadingRow}>
+          <ActivityIndicator size="small" color={styles.accuracyIconColor.color} />
+          <Text style={styles.loadingText}>{t('pickupPoints.searching')}</Text>
+        </View>
+      ) : suggestions === null ? (
+        <TouchableOpacity style={styles.findButton} onPress={findSuggestions}>
+          <Text style={styles.findButtonText}>{t('pickupPoints.find')}</Text>
+        </TouchableOpacity>
+      ) : suggestions.length > 0 ? (
+        <View style={styles.suggestions}>
+          <Text style={styles.suggestionsTitle}>{t('pickupPoints.title')}</Text>
+          {suggestions.map(renderSuggestion)}
+        </View>
+      ) : (
+        <Text style={styles.emptyText}>{t('pickupPoints.none')}</Text>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    marginTop: 8,
+    gap: 8,
+  },
+  accuracyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  accuracyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+  warningText: {
+    color: theme.colors.warning,
+  },
+  warningBox: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    backgroundColor: theme.isDark ? 'rgba(251, 191, 36, 0.1)' : '#fef3c7',
+    borderRadius: 8,
+    padding: 10,
+    borderWidth: 1,
+    borderColor: theme.isDark ? 'rgba(251, 191, 36, 0.2)' : '#fbbf24',
+  },
+  warningBoxText: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.warning,
+    lineHeight: 16,
+  },
+  loadingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  loadingText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+  findButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+  },
+  findButtonText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: theme.colors.primary,
+  },
+  suggestions: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+    overflow: 'hidden',
+  },
+  suggestionsTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: theme.colors.text,
+    paddingHorizontal: 12,
+    paddingTop: 10,
+    paddingBottom: 4,
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  suggestionInfo: {
+    flex: 1,
+  },
+  suggestionTitle: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: theme.colors.text,
+  },
+  suggestionAddress: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  suggestionDistance: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: theme.colors.textTertiary,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textTertiary,
+  },
+  // Color helpers
+  accuracyIconColor: {
+    color: theme.colors.primary,
+  },
+  suggestionIconColor: {
+    color: theme.colors.primary,
+  },
+  warningColor: {
+    color: theme.colors.warning,
+  },
+});
@@ -0,0 +1,203 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { router } from 'expo-router';
+import { House, Briefcase, Sparkles, Navigation } from 'lucide-react-native';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useThemedStyles } from '@/contexts/ThemeContext';
+import { useFavorites, FavoriteDestination, FavoriteCategory } from '@/hooks/useFavorites';
+import { useRouteFavorites, RoutePoint } from '@/hooks/useRouteFavorites';
+import { useRideHistory } from '@/hooks/useRideHistory';
+import { suggestDestinations } from '@/services/destinationSuggestions';
+import { FavoriteIcon } from './FavoriteIcon';
+
+interface QuickDestinationsProps {
+  // Pickup if set, otherwise the rider's location
+  origin?: { latitude: number; longitude: number } | null;
+  currentDestination?: string;
+  onDestinationSelected: (destination: RoutePoint) => void;
+}
+
+const SLOTS: FavoriteCategory[] = ['home', 'work'];
+
+export function QuickDestinations({ origin, currentDestination, onDestinationSelected }: QuickDestinationsProps) {
+  const { t } = useLanguage();
+  const styles = useThemedStyles(createStyles);
+  const { favorites } = useFavorites();
+  const { routeFavorites } = useRouteFavorites();
+  const { history } = useRideHistory();
+
+  const typedFavorites = useMemo(() => {
+    const slots = SLOTS.map(category => favorites.find(fav => fav.category === category));
+    const custom = favorites.filter(fav => fav.category === 'custom');
+    return { slots, custom };
+  }, [favorites]);
+
+  const suggestions = useMemo(() => (
+    suggestDestinations({ history, routes: routeFavorites, favorites, now: new Date(), origin })
+      .filter(suggestion => suggestion.destination.address !== currentDestination)
+  ), [history, routeFavorites, favorites, origin?.latitude, origin?.longitude, currentDestination]);
+
+  const selectFavorite = (favorite: FavoriteDestination) => {
+    console.log('⚡ Quick destination:', favorite.name);
+    onDestinationSelected({
+      address: favorite.address,
+      latitude: favorite.latitude,
+      longitude: favorite.longitude,
+      placeId: favorite.placeId,
+    });
+  };
+
+  const renderSlot = (category: FavoriteCategory, favorite: FavoriteDestination | undefined) => {
+    const Icon = category === 'home' ? House : Briefcase;
+    if (!favorite) {
+      // An empty slot points to Favorites, where the place can be saved
+      return (
+        <TouchableOpacity
+          key={category}
+          style={[styles.chip, styles.chipEmpty]}
+          onPress={() => router.push('/(tabs)/favorites')}
+        >
+          <Icon size={16} color={styles.emptyIconColor.color} />
+          <Text style={styles.chipEmptyText}>{t(`quickPlaces.set.${category}`)}</Text>
+        </TouchableOpacity>
+      );
+    }
+    return (
+      <TouchableOpacity key={category} style={styles.chip} onPress={() => selectFavorite(favorite)}>
+        <Icon size={16} color={styles.chipIconColor.color} />
+        <Text style={styles.chipText} numberOfLines={1}>{t(`quickPlaces.${category}`)}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {SLOTS.map((category, index) => renderSlot(category, typedFavorites.slots[index]))}
+        {typedFavorites.custom.map(favorite => (
+          <TouchableOpacity key={favorite.id} style={styles.chip} onPress={() => selectFavorite(favorite)}>
+            <FavoriteIcon favorite={favorite} size={16} color={styles.chipIconColor.color} />
+            <Text style={styles.chipText} numberOfLines={1}>{favorite.name}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {suggestions.length > 0 && (
+        <View style={styles.suggestions}>
+          <View style={styles.suggestionsHeader}>
+            <Sparkles size={14} color={styles.chipIconColor.color} />
+            <Text style={styles.suggestionsTitle}>{t('quickPlaces.suggested')}</Text>
+          </View>
+          {suggestions.map(suggestion => (
+            <TouchableOpacity
+              key={`${suggestion.destination.placeId || suggestion.destination.address}`}
+              style={styles.suggestion}
+              onPress={() => onDestinationSelected(suggestion.destination)}
+            >
+              {suggestion.favorite
+                ? <FavoriteIcon favorite={suggestion.favorite} size={16} color={styles.suggestionIconColor.color} />
+                : <Navigation size={16} color={styles.suggestionIconColor.color} />}
+              <View style={styles.suggestionInfo}>
+                <Text style={styles.suggestionName} numberOfLines={1}>
+                  {suggestion.favorite?.name || suggestion.destination.address}
+                </Text>
+                <Text style={styles.suggestionReason} numberOfLines={1}>
+                  {t(`quickPlaces.reason.${suggestion.reason}`)}
+                </Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    marginBottom: 16,
+    gap: 12,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    maxWidth: 180,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  chipEmpty: {
+    borderStyle: 'dashed',
+    backgroundColor: 'transparent',
+  },
+  chipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: theme.colors.text,
+  },
+  chipEmptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.textTertiary,
+  },
+  suggestions: {
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+    overflow: 'hidden',
+  },
+  suggestionsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingTop: 10,
+    paddingBottom: 4,
+  },
+  suggestionsTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: theme.colors.text,
+  },
+  suggestion: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  suggestionInfo: {
+    flex: 1,
+  },
+  suggestionName: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  suggestionReason: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  // Color helpers
+  chipIconColor: {
+    color: theme.colors.primary,
+  },
+  emptyIconColor: {
+    color: theme.colors.textTertiary,
+  },
+  suggestionIconColor: {
+    color: theme.colors.warning,
+  },
+});
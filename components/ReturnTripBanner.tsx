@@ -0,0 +1,124 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { AppState, View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { Undo2, X } from 'lucide-react-native';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useThemedStyles } from '@/contexts/ThemeContext';
+import {
+  useRideHistory,
+  findReturnTripCandidate,
+  RideLaunchEntry,
+  RETURN_TRIP_WINDOW_HOURS,
+} from '@/hooks/useRideHistory';
+import { isSamePoint } from '@/services/transfer/dedupe';
+
+interface ReturnTripBannerProps {
+  currentDestination: { address: string; latitude?: number; longitude?: number } | null;
+  onReturn: (entry: RideLaunchEntry) => void;
+}
+
+export function ReturnTripBanner({ currentDestination, onReturn }: ReturnTripBannerProps) {
+  const { t, language } = useLanguage();
+  const styles = useThemedStyles(createStyles);
+  const { history } = useRideHistory();
+  const [dismissedId, setDismissedId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
+  const trip = useMemo(() => findReturnTripCandidate(history, now), [history, now]);
+
+  // The window runs out while the launcher sits open or in the background
+  useFocusEffect(useCallback(() => {
+    setNow(new Date());
+  }, []));
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        setNow(new Date());
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  useEffect(() => {
+    if (!trip) {
+      return;
+    }
+    const expiresAt = trip.launchedAt.getTime() + RETURN_TRIP_WINDOW_HOURS * 60 * 60 * 1000;
+    const timeout = setTimeout(() => setNow(new Date()), Math.max(0, expiresAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [trip]);
+
+  // Nothing to offer once dismissed or when the way back is already filled in
+  if (!trip || trip.id === dismissedId || (currentDestination && isSamePoint(currentDestination, trip.pickup))) {
+    return null;
+  }
+
+  const time = trip.launchedAt.toLocaleTimeString(language, { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <View style={styles.banner}>
+      <TouchableOpacity style={styles.content} onPress={() => onReturn(trip)} activeOpacity={0.7}>
+        <Undo2 size={18} color={styles.iconColor.color} />
+        <View style={styles.info}>
+          <Text style={styles.title} numberOfLines={1}>
+            {t('returnTrip.bannerTitle', { address: trip.pickup.address })}
+          </Text>
+          <Text style={styles.subtitle} numberOfLines={1}>
+            {t('returnTrip.bannerSubtitle', { appName: trip.appName, time })}
+          </Text>
+        </View>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.dismissButton}
+        onPress={() => setDismissedId(trip.id)}
+        accessibilityLabel={t('returnTrip.dismiss')}
+      >
+        <X size={16} color={styles.dismissIconColor.color} />
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.isDark ? 'rgba(59, 130, 246, 0.1)' : '#f0f9ff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.isDark ? 'rgba(59, 130, 246, 0.2)' : '#bae6fd',
+    marginBottom: 16,
+  },
+  content: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: theme.colors.text,
+  },
+  subtitle: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  dismissButton: {
+    padding: 12,
+  },
+  // Color helpers
+  iconColor: {
+    color: theme.colors.info,
+  },
+  dismissIconColor: {
+    color: theme.colors.textTertiary,
+  },
+});
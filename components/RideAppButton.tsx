@@ -2,6 +2,8 @@ import React from 'react';
 import { TouchableOpacity, Text, StyleSheet, View, Dimensions } from 'react-native';
 import Animated, { useSharedValue, useAnimatedStyle, withSpring } from 'react-native-reanimated';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { RideQuote } from '@/services/quotes';
+import { InstallStatus } from '@/hooks/useInstalledApps';
 
 interface RideAppButtonProps {
   appName: string;
@@ -9,12 +11,28 @@ interface RideAppButtonProps {
   color: string;
   onPress: () => void;
   disabled?: boolean;
+  quote?: RideQuote;
+  // Points the app out, e.g. the one picked for a scheduled ride
+  highlighted?: boolean;
+  // The rider's preferred app, drawn larger at the top
+  primary?: boolean;
+  // The app doesn't run where the pickup is; it can still be opened
+  unavailable?: boolean;
+  installStatus?: InstallStatus;
 }
 
 const { width: screenWidth } = Dimensions.get('window');
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
 
-export function RideAppButton({ appName, icon, color, onPress, disabled = false }: RideAppButtonProps) {
+const formatPrice = (value: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 0 }).format(value);
+  } catch (error) {
+    return `${currency} ${Math.round(value)}`;
+  }
+};
+
+export function RideAppButton({ appName, icon, color, onPress, disabled = false, quote, highlighted = false, primary = false, unavailable = false, installStatus = 'unknown' }: RideAppButtonProps) {
   const { t } = useLanguage();
   const scale = useSharedValue(1);
 
@@ -44,7 +62,10 @@ export function RideAppButton({ appName, icon, color, onPress, disabled = false
     <AnimatedTouchableOpacity
       style={[
         styles.button,
+        primary && styles.primary,
         { backgroundColor: disabled ? '#e5e7eb' : color },
+        highlighted && styles.highlighted,
+        unavailable && styles.unavailable,
         animatedStyle,
       ]}
       onPress={handlePress}
@@ -55,9 +76,40 @@ export function RideAppButton({ appName, icon, color, onPress, disabled = false
     >
       <View style={styles.content}>
         <Text style={[styles.icon, { opacity: disabled ? 0.5 : 1 }]}>{icon}</Text>
-        <Text style={[styles.text, { color: disabled ? '#9ca3af' : '#ffffff' }]}>
-          {t('main.openIn')} {appName}
-        </Text>
+        <View>
+          {highlighted ? (
+            <Text style={styles.highlightLabel}>⏰ {t('scheduledRides.plannedApp')}</Text>
+          ) : primary && (
+            <Text style={styles.highlightLabel}>★ {t('appManager.preferredApp')}</Text>
+          )}
+          <Text style={[styles.text, { color: disabled ? '#9ca3af' : '#ffffff' }]}>
+            {t('main.openIn')} {appName}
+          </Text>
+          {(unavailable || installStatus !== 'unknown') && (
+            <View style={styles.badges}>
+              {installStatus !== 'unknown' && (
+                <View style={[styles.badge, installStatus === 'installed' ? styles.installedBadge : styles.getAppBadge]}>
+                  <Text style={styles.badgeText}>
+                    {installStatus === 'installed' ? `✓ ${t('rideApp.installed')}` : `↓ ${t('rideApp.getApp')}`}
+                  </Text>
+                </View>
+              )}
+              {unavailable && (
+                <View style={styles.badge}>
+                  <Text style={styles.badgeText}>{t('regions.notAvailableHere')}</Text>
+                </View>
+              )}
+            </View>
+          )}
+          {quote && (
+            <Text style={[styles.quoteText, { color: disabled ? '#9ca3af' : 'rgba(255,255,255,0.85)' }]}>
+              {formatPrice(quote.priceRange.low, quote.currency)}–{formatPrice(quote.priceRange.high, quote.currency)}
+              {' · '}
+              {t('quotes.pickupEta', { minutes: quote.pickupEtaMinutes })}
+              {quote.surgeFactor > 1 ? ` · ⚡${quote.surgeFactor.toFixed(1)}x` : ''}
+            </Text>
+          )}
+        </View>
       </View>
     </AnimatedTouchableOpacity>
   );
@@ -93,4 +145,52 @@ const styles = StyleSheet.create({
     fontSize: Math.min(screenWidth * 0.04, 16),
     textAlign: 'center',
   },
+  primary: {
+    paddingVertical: 20,
+    minHeight: 68,
+    marginBottom: 14,
+  },
+  unavailable: {
+    opacity: 0.6,
+  },
+  badges: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  badge: {
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  installedBadge: {
+    backgroundColor: 'rgba(16, 185, 129, 0.85)',
+  },
+  getAppBadge: {
+    backgroundColor: 'rgba(255, 255, 255, 0.25)',
+  },
+  badgeText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 11,
+    color: '#ffffff',
+  },
+  highlighted: {
+    borderWidth: 3,
+    borderColor: '#fbbf24',
+  },
+  highlightLabel: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 11,
+    color: '#fde68a',
+    textAlign: 'center',
+    marginBottom: 2,
+  },
+  quoteText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 2,
+  },
 });
\ No newline at end of file
@@ -9,13 +9,17 @@ import {
   Alert,
   ScrollView,
   Dimensions,
+  Switch,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { X } from 'lucide-react-native';
 import { GooglePlacesInput } from '@/components/GooglePlacesInput';
+import { StopListEditor, StopDraft, createStopDraft } from '@/components/StopListEditor';
+import { FolderTagsEditor } from '@/components/FolderTagsEditor';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useThemedStyles } from '@/contexts/ThemeContext';
 import { useRouteFavorites, FavoriteRoute } from '@/hooks/useRouteFavorites';
+import { collectFolders, collectTags, normalizeFolder } from '@/services/favoriteOrganizer';
 import * as Location from 'expo-location';
 
 const { width: screenWidth } = Dimensions.get('window');
@@ -31,7 +35,7 @@ export function RouteManagerModal({ visible, onClose, editingRoute, onRouteSelec
   const { t } = useLanguage();
   const styles = useThemedStyles(createStyles);
   const insets = useSafeAreaInsets();
-  const { addRouteFavorite, updateRouteFavorite } = useRouteFavorites();
+  const { routeFavorites, addRouteFavorite, updateRouteFavorite, findDuplicateRoute } = useRouteFavorites();
   
   const [routeName, setRouteName] = useState('');
   const [pickupAddress, setPickupAddress] = useState('');
@@ -40,6 +44,10 @@ export function RouteManagerModal({ visible, onClose, editingRoute, onRouteSelec
   const [destinationAddress, setDestinationAddress] = useState('');
   const [destinationCoords, setDestinationCoords] = useState<{ latitude: number; longitude: number } | null>(null);
   const [destinationPlaceId, setDestinationPlaceId] = useState<string | undefined>();
+  const [stops, setStops] = useState<StopDraft[]>([]);
+  const [roundTrip, setRoundTrip] = useState(false);
+  const [folder, setFolder] = useState<string | undefined>();
+  const [tags, setTags] = useState<string[]>([]);
   const [userLocation, setUserLocation] = useState<{ latitude: number; longitude: number } | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
@@ -68,6 +76,16 @@ export function RouteManagerModal({ visible, onClose, editingRoute, onRouteSelec
           : null
       );
       setDestinationPlaceId(editingRoute.destination.placeId);
+      setStops((editingRoute.stops || []).map(stop => createStopDraft({
+        address: stop.address,
+        coordinates: stop.latitude && stop.longitude
+          ? { latitude: stop.latitude, longitude: stop.longitude }
+          : null,
+        placeId: stop.placeId,
+      })));
+      setRoundTrip(!!editingRoute.roundTrip);
+      setFolder(editingRoute.folder);
+      setTags(editingRoute.tags || []);
     } else {
       resetForm();
     }
@@ -114,6 +132,10 @@ export function RouteManagerModal({ visible, onClose, editingRoute, onRouteSelec
     setDestinationAddress('');
     setDestinationCoords(null);
     setDestinationPlaceId(undefined);
+    setStops([]);
+    setRoundTrip(false);
+    setFolder(undefined);
+    setTags([]);
   };
 
   const handleClose = () => {
@@ -127,24 +149,55 @@ export function RouteManagerModal({ visible, onClose, editingRoute, onRouteSelec
       return;
     }
 
+    if (stops.some(stop => !stop.address.trim())) {
+      Alert.alert(t('alert.error'), t('stops.emptyStop'));
+      return;
+    }
+
+    const routeData = {
+      name: routeName.trim(),
+      pickup: {
+        address: pickupAddress,
+        latitude: pickupCoords?.latitude,
+        longitude: pickupCoords?.longitude,
+        placeId: pickupPlaceId,
+      },
+      destination: {
+        address: destinationAddress,
+        latitude: destinationCoords?.latitude,
+        longitude: destinationCoords?.longitude,
+        placeId: destinationPlaceId,
+      },
+      stops: stops.map(stop => ({
+        address: stop.address,
+        latitude: stop.coordinates?.latitude,
+        longitude: stop.coordinates?.longitude,
+        placeId: stop.placeId,
+      })),
+      roundTrip,
+      folder: normalizeFolder(folder),
+      tags,
+    };
+
+    const duplicate = editingRoute ? undefined : findDuplicateRoute(routeData);
+    if (duplicate) {
+      Alert.alert(
+        t('duplicates.routeExistsTitle'),
+        t('duplicates.routeExists', { name: duplicate.name }),
+        [
+          { text: t('alert.cancel'), style: 'cancel' },
+          { text: t('duplicates.saveAnyway'), onPress: () => saveRoute(routeData) },
+        ]
+      );
+      return;
+    }
+
+    await saveRoute(routeData);
+  };
+
+  const saveRoute = async (routeData: Omit<FavoriteRoute, 'id' | 'createdAt' | 'updatedAt'>) => {
     setIsSaving(true);
     try {
-      const routeData = {
-        name: routeName.trim(),
-        pickup: {
-          address: pickupAddress,
-          latitude: pickupCoords?.latitude,
-          longitude: pickupCoords?.longitude,
-          placeId: pickupPlaceId,
-        },
-        destination: {
-          address: destinationAddress,
-          latitude: destinationCoords?.latitude,
-          longitude: destinationCoords?.longitude,
-          placeId: destinationPlaceId,
-        }
-      };
-
       if (editingRoute) {
         console.log('✏️ Updating route favorite:', routeData);
         await updateRouteFavorite(editingRoute.id, routeData);
@@ -154,7 +207,10 @@ export function RouteManagerModal({ visible, onClose, editingRoute, onRouteSelec
         await addRouteFavorite(
           routeData.name,
           routeData.pickup,
-          routeData.destination
+          routeData.destination,
+          routeData.stops,
+          routeData.roundTrip,
+          { folder: routeData.folder, tags: routeData.tags }
         );
         console.log('✅ Route favorite added successfully');
       }
@@ -243,6 +299,13 @@ export function RouteManagerModal({ visible, onClose, editingRoute, onRouteSelec
               />
             </View>
 
+            <StopListEditor
+              stops={stops}
+              onChange={setStops}
+              userLocation={userLocation}
+              showCopyButton={false}
+            />
+
             <View style={styles.addressInputGroup}>
               <GooglePlacesInput
                 label={t('routeFavorites.destinationLabel')}
@@ -255,6 +318,31 @@ export function RouteManagerModal({ visible, onClose, editingRoute, onRouteSelec
               />
             </View>
 
+            <FolderTagsEditor
+              folder={folder}
+              tags={tags}
+              knownFolders={collectFolders(routeFavorites)}
+              knownTags={collectTags(routeFavorites)}
+              onFolderChange={setFolder}
+              onTagsChange={setTags}
+            />
+
+            <View style={styles.roundTripRow}>
+              <View style={styles.roundTripInfo}>
+                <Text style={styles.inputLabel}>{t('returnTrip.roundTrip')}</Text>
+                <Text style={styles.roundTripHint}>{t('returnTrip.roundTripHint')}</Text>
+              </View>
+              <Switch
+                value={roundTrip}
+                onValueChange={setRoundTrip}
+                trackColor={{
+                  false: styles.switchTrackFalse.backgroundColor,
+                  true: styles.switchTrackTrue.backgroundColor,
+                }}
+                thumbColor={roundTrip ? styles.switchThumbTrue.color : styles.switchThumbFalse.color}
+              />
+            </View>
+
             <View style={styles.helpBox}>
               <Text style={styles.helpTitle}>💡 {t('routeFavorites.tip')}</Text>
               <Text style={styles.helpText}>
@@ -346,6 +434,22 @@ const createStyles = (theme: any) => StyleSheet.create({
     borderWidth: 1,
     borderColor: theme.colors.border,
   },
+  roundTripRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 20,
+    gap: 12,
+  },
+  roundTripInfo: {
+    flex: 1,
+  },
+  roundTripHint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    lineHeight: 18,
+    marginTop: -4,
+  },
   helpBox: {
     backgroundColor: theme.isDark ? 'rgba(59, 130, 246, 0.1)' : '#f0f9ff',
     borderRadius: 12,
@@ -369,4 +473,16 @@ const createStyles = (theme: any) => StyleSheet.create({
   placeholderColor: {
     color: theme.colors.textTertiary,
   },
+  switchTrackFalse: {
+    backgroundColor: theme.colors.border,
+  },
+  switchTrackTrue: {
+    backgroundColor: theme.colors.primary,
+  },
+  switchThumbFalse: {
+    color: theme.colors.textTertiary,
+  },
+  switchThumbTrue: {
+    color: '#ffffff',
+  },
 });
\ No newline at end of file
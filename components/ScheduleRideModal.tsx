@@ -0,0 +1,445 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Minus, Plus, MapPin, Navigation, BellRing } from 'lucide-react-native';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useThemedStyles } from '@/contexts/ThemeContext';
+import { useAppManager } from '@/hooks/useAppManager';
+import { useScheduledRides } from '@/hooks/useScheduledRides';
+import { RoutePoint } from '@/hooks/useRouteFavorites';
+import { Clock, RideRecurrence, systemClock } from '@/services/scheduling';
+import { remindersSupported } from '@/services/rideReminders';
+
+export interface ScheduleRouteDraft {
+  name?: string;
+  routeId?: string;
+  pickup: RoutePoint;
+  destination: RoutePoint;
+  stops?: RoutePoint[];
+}
+
+interface ScheduleRideModalProps {
+  visible: boolean;
+  onClose: () => void;
+  route: ScheduleRouteDraft | null;
+  clock?: Clock;
+}
+
+const DAYS_AHEAD = 14;
+const MINUTE_STEP = 5;
+const RECURRENCE_OPTIONS: RideRecurrence[] = ['none', 'weekdays', 'weekly'];
+
+const startOfDay = (date: Date) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+// Default to the next round five minutes, an hour from now
+const getDefaultTime = (now: Date) => {
+  const date = new Date(now.getTime() + 60 * 60 * 1000);
+  date.setMinutes(Math.ceil(date.getMinutes() / MINUTE_STEP) * MINUTE_STEP, 0, 0);
+  return date;
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export function ScheduleRideModal({ visible, onClose, route, clock = systemClock }: ScheduleRideModalProps) {
+  const { t, language } = useLanguage();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const { rideApps } = useAppManager();
+  const { addScheduledRide } = useScheduledRides({ clock });
+
+  const [name, setName] = useState('');
+  const [dayOffset, setDayOffset] = useState(0);
+  const [hour, setHour] = useState(8);
+  const [minute, setMinute] = useState(0);
+  const [recurrence, setRecurrence] = useState<RideRecurrence>('none');
+  const [preferredAppId, setPreferredAppId] = useState<string | undefined>();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const enabledApps = rideApps.filter(app => app.enabled);
+
+  // Reset the form for every route that gets scheduled
+  useEffect(() => {
+    if (visible && route) {
+      const now = clock.now();
+      const defaultTime = getDefaultTime(now);
+      setName(route.name || '');
+      setDayOffset(Math.round((startOfDay(defaultTime).getTime() - startOfDay(now).getTime()) / (24 * 60 * 60 * 1000)));
+      setHour(defaultTime.getHours());
+      setMinute(defaultTime.getMinutes());
+      setRecurrence('none');
+      setPreferredAppId(undefined);
+    }
+  }, [visible, route]);
+
+  const days = useMemo(() => {
+    const today = startOfDay(clock.now());
+    return Array.from({ length: DAYS_AHEAD }, (_, offset) => {
+      const date = new Date(today);
+      date.setDate(today.getDate() + offset);
+      return date;
+    });
+  }, [visible]);
+
+  const getDayLabel = (date: Date, offset: number) => {
+    if (offset === 0) return t('scheduledRides.today');
+    if (offset === 1) return t('scheduledRides.tomorrow');
+    return date.toLocaleDateString(language, { weekday: 'short', day: 'numeric' });
+  };
+
+  const getScheduledDate = () => {
+    const date = new Date(days[dayOffset]);
+    date.setHours(hour, minute, 0, 0);
+    return date;
+  };
+
+  const handleSave = async () => {
+    if (!route) {
+      return;
+    }
+
+    const scheduledAt = getScheduledDate();
+    if (recurrence === 'none' && scheduledAt <= clock.now()) {
+      Alert.alert(t('alert.error'), t('scheduledRides.pastTime'));
+      return;
+    }
+
+    const rideName = name.trim() || route.destination.address;
+
+    try {
+      setIsSaving(true);
+      await addScheduledRide(
+        {
+          name: rideName,
+          routeId: route.routeId,
+          pickup: route.pickup,
+          destination: route.destination,
+          stops: route.stops,
+          preferredAppId,
+          scheduledAt,
+          recurrence,
+        },
+        {
+          title: t('scheduledRides.reminderTitle', { name: rideName }),
+          body: t('scheduledRides.reminderBody', { destination: route.destination.address }),
+        }
+      );
+      onClose();
+      Alert.alert(
+        t('scheduledRides.title'),
+        t('scheduledRides.saved', { name: rideName }),
+        [{ text: t('alert.ok') }]
+      );
+    } catch (error) {
+      Alert.alert(t('alert.error'), t('scheduledRides.saveError'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderStepper = (value: string, onDecrement: () => void, onIncrement: () => void) => (
+    <View style={styles.stepper}>
+      <TouchableOpacity style={styles.stepperButton} onPress={onDecrement}>
+        <Minus size={18} color={styles.stepperIconColor.color} />
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{value}</Text>
+      <TouchableOpacity style={styles.stepperButton} onPress={onIncrement}>
+        <Plus size={18} color={styles.stepperIconColor.color} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.modalContainer, { paddingTop: insets.top }]}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.modalCancel}>{t('alert.cancel')}</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>{t('scheduledRides.scheduleRide')}</Text>
+          <TouchableOpacity onPress={handleSave} disabled={isSaving || !route}>
+            <Text style={[styles.modalSave, isSaving && styles.modalSaveDisabled]}>
+              {t('favorites.save')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.modalContent}
+          contentContainerStyle={{ paddingBottom: Math.max(insets.bottom + 20, 40) }}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {route && (
+            <View style={styles.routeSummary}>
+              <View style={styles.addressRow}>
+                <MapPin size={14} color={styles.pickupIconColor.color} />
+                <Text style={styles.addressText} numberOfLines={1}>{route.pickup.address}</Text>
+              </View>
+              {route.stops && route.stops.length > 0 && (
+                <Text style={styles.stopsText} numberOfLines={1}>
+                  {route.stops.map(stop => stop.address).join(' · ')}
+                </Text>
+              )}
+              <View style={styles.addressRow}>
+                <Navigation size={14} color={styles.destinationIconColor.color} />
+                <Text style={styles.addressText} numberOfLines={1}>{route.destination.address}</Text>
+              </View>
+            </View>
+          )}
+
+          <Text style={styles.inputLabel}>{t('scheduledRides.nameLabel')}</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder={t('scheduledRides.namePlaceholder')}
+            placeholderTextColor={styles.placeholderColor.color}
+          />
+
+          <Text style={styles.inputLabel}>{t('scheduledRides.dateLabel')}</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {days.map((date, offset) =>
+              renderChip(date.toISOString(), getDayLabel(date, offset), dayOffset === offset, () => setDayOffset(offset))
+            )}
+          </ScrollView>
+
+          <Text style={styles.inputLabel}>{t('scheduledRides.timeLabel')}</Text>
+          <View style={styles.timeRow}>
+            {renderStepper(
+              pad(hour),
+              () => setHour((hour + 23) % 24),
+              () => setHour((hour + 1) % 24)
+            )}
+            <Text style={styles.timeSeparator}>:</Text>
+            {renderStepper(
+              pad(minute),
+              () => setMinute((minute + 60 - MINUTE_STEP) % 60),
+              () => setMinute((minute + MINUTE_STEP) % 60)
+            )}
+          </View>
+
+          <Text style={styles.inputLabel}>{t('scheduledRides.repeatLabel')}</Text>
+          <View style={styles.chipWrap}>
+            {RECURRENCE_OPTIONS.map(option =>
+              renderChip(option, t(`scheduledRides.recurrence.${option}`), recurrence === option, () => setRecurrence(option))
+            )}
+          </View>
+
+          <Text style={styles.inputLabel}>{t('scheduledRides.preferredAppLabel')}</Text>
+          <View style={styles.chipWrap}>
+            {renderChip('any', t('scheduledRides.anyApp'), !preferredAppId, () => setPreferredAppId(undefined))}
+            {enabledApps.map(app =>
+              renderChip(app.id, `${app.icon} ${app.name}`, preferredAppId === app.id, () => setPreferredAppId(app.id))
+            )}
+          </View>
+
+          <View style={styles.helpBox}>
+            <BellRing size={18} color={styles.helpIconColor.color} />
+            <Text style={styles.helpText}>
+              {remindersSupported ? t('scheduledRides.reminderHelp') : t('scheduledRides.webReminderHelp')}
+            </Text>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  modalCancel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: theme.colors.text,
+  },
+  modalSave: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: theme.colors.primary,
+  },
+  modalSaveDisabled: {
+    color: theme.colors.textTertiary,
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  routeSummary: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    gap: 8,
+  },
+  addressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  addressText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: theme.colors.text,
+    marginLeft: 8,
+    flex: 1,
+  },
+  stopsText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginLeft: 22,
+  },
+  inputLabel: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: theme.colors.text,
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: theme.colors.text,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  chipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  timeSeparator: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 24,
+    color: theme.colors.text,
+    marginHorizontal: 12,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  stepperButton: {
+    padding: 12,
+  },
+  stepperValue: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 22,
+    color: theme.colors.text,
+    minWidth: 36,
+    textAlign: 'center',
+  },
+  helpBox: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: theme.isDark ? 'rgba(59, 130, 246, 0.1)' : '#f0f9ff',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 24,
+    borderWidth: 1,
+    borderColor: theme.isDark ? 'rgba(59, 130, 246, 0.2)' : '#bae6fd',
+  },
+  helpText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.info,
+    lineHeight: 18,
+    marginLeft: 12,
+    flex: 1,
+  },
+  // Color helpers
+  placeholderColor: {
+    color: theme.colors.textTertiary,
+  },
+  pickupIconColor: {
+    color: theme.colors.primary,
+  },
+  destinationIconColor: {
+    color: theme.colors.warning,
+  },
+  stepperIconColor: {
+    color: theme.colors.primary,
+  },
+  helpIconColor: {
+    color: theme.colors.info,
+  },
+});
@@ -0,0 +1,53 @@
+import { useEffect, useRef } from 'react';
+import { router } from 'expo-router';
+import * as Notifications from 'expo-notifications';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAutoFill } from '@/contexts/AutoFillContext';
+import { readStoredScheduledRides, scheduledRideToAutoFill } from '@/hooks/useScheduledRides';
+import { SCHEDULED_RIDE_ID_KEY } from '@/services/rideReminders';
+
+// Opens the launcher with the ride's route when a ride reminder is tapped.
+// Renders nothing; it must live inside AuthProvider and AutoFillProvider.
+export function ScheduledRideListener() {
+  const { user, isLoading } = useAuth();
+  const { setAutoFillData } = useAutoFill();
+  const lastResponse = Notifications.useLastNotificationResponse();
+  const handledIdentifier = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!lastResponse || lastResponse.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) {
+      return;
+    }
+    // On a cold start the tap arrives before the stored session is restored;
+    // the ride is in the signed-in account's storage, so wait for it
+    if (isLoading || !user) {
+      return;
+    }
+
+    const { identifier, content } = lastResponse.notification.request;
+    const rideId = content.data?.[SCHEDULED_RIDE_ID_KEY];
+    if (typeof rideId !== 'string' || handledIdentifier.current === identifier) {
+      return;
+    }
+    handledIdentifier.current = identifier;
+
+    const openScheduledRide = async () => {
+      const rides = await readStoredScheduledRides(user.id);
+      const ride = rides.find(item => item.id === rideId);
+      if (!ride) {
+        console.log('⚠️ Reminder for a ride that no longer exists:', rideId);
+        return;
+      }
+
+      console.log('⏰ Opening scheduled ride from reminder:', ride.name);
+      setAutoFillData(scheduledRideToAutoFill(ride));
+      router.push('/(tabs)');
+    };
+
+    openScheduledRide().catch((error) => {
+      console.error('❌ Failed to open scheduled ride:', error);
+    });
+  }, [lastResponse, isLoading, user?.id]);
+
+  return null;
+}
@@ -0,0 +1,316 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  Share,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import QRCode from 'react-native-qrcode-svg';
+import * as Clipboard from 'expo-clipboard';
+import { MapPin, Navigation, Copy, Check, Share2 } from 'lucide-react-native';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useThemedStyles } from '@/contexts/ThemeContext';
+import { MAX_RIDE_LINK_STOPS, SharedTrip, buildRideLink, buildRideWebLink } from '@/services/rideLink';
+
+interface ShareTripModalProps {
+  visible: boolean;
+  onClose: () => void;
+  trip: SharedTrip | null;
+  // Saved route name, used in the share message
+  name?: string;
+}
+
+const QR_CODE_SIZE = 200;
+
+export function ShareTripModal({ visible, onClose, trip, name }: ShareTripModalProps) {
+  const { t } = useLanguage();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const [copiedLink, setCopiedLink] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setCopiedLink(null);
+    }
+  }, [visible]);
+
+  if (!trip) {
+    return null;
+  }
+
+  const appLink = buildRideLink(trip);
+  const webLink = buildRideWebLink(trip);
+  // The https link opens from any camera app; the app link needs RideLink installed
+  const primaryLink = webLink || appLink;
+  const stopsTrimmed = (trip.stops?.length || 0) > MAX_RIDE_LINK_STOPS;
+
+  // Resolves to whether the link made it to the clipboard
+  const handleCopy = async (link: string): Promise<boolean> => {
+    try {
+      await Clipboard.setStringAsync(link);
+      setCopiedLink(link);
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to copy trip link:', error);
+      return false;
+    }
+  };
+
+  const handleShare = async () => {
+    const message = t('shareTrip.message', { name: name || trip.destination.address, url: primaryLink });
+    try {
+      await Share.share({ message });
+    } catch (error) {
+      // Browsers without the Web Share API end up here
+      console.warn('⚠️ Share sheet unavailable, copying link instead:', error);
+      const copied = await handleCopy(primaryLink);
+      Alert.alert(t('shareTrip.title'), t(copied ? 'shareTrip.linkCopied' : 'shareTrip.copyFailed'));
+    }
+  };
+
+  const renderLink = (label: string, link: string) => {
+    const copied = copiedLink === link;
+    return (
+      <View style={styles.linkBox}>
+        <View style={styles.linkInfo}>
+          <Text style={styles.linkLabel}>{label}</Text>
+          <Text style={styles.linkText} numberOfLines={2} selectable>{link}</Text>
+        </View>
+        <TouchableOpacity style={styles.copyButton} onPress={() => handleCopy(link)}>
+          {copied
+            ? <Check size={16} color={styles.copiedIconColor.color} />
+            : <Copy size={16} color={styles.copyIconColor.color} />}
+          <Text style={[styles.copyText, copied && styles.copiedText]}>
+            {copied ? t('shareTrip.copied') : t('shareTrip.copy')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.modalContainer, { paddingTop: insets.top }]}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.modalCancel}>{t('alert.cancel')}</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>{t('shareTrip.title')}</Text>
+          <TouchableOpacity onPress={handleShare}>
+            <Text style={styles.modalSave}>{t('shareTrip.share')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.modalContent}
+          contentContainerStyle={{ paddingBottom: Math.max(insets.bottom + 20, 40) }}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={styles.routeSummary}>
+            <View style={styles.addressRow}>
+              <MapPin size={14} color={styles.pickupIconColor.color} />
+              <Text style={styles.addressText} numberOfLines={1}>{trip.pickup.address}</Text>
+            </View>
+            {trip.stops && trip.stops.length > 0 && (
+              <Text style={styles.stopsText} numberOfLines={1}>
+                {trip.stops.map(stop => stop.address).join(' · ')}
+              </Text>
+            )}
+            <View style={styles.addressRow}>
+              <Navigation size={14} color={styles.destinationIconColor.color} />
+              <Text style={styles.addressText} numberOfLines={1}>{trip.destination.address}</Text>
+            </View>
+          </View>
+
+          <View style={styles.qrContainer}>
+            <View style={styles.qrCode}>
+              <QRCode value={primaryLink} size={QR_CODE_SIZE} color="#000000" backgroundColor="#ffffff" ecl="M" />
+            </View>
+            <Text style={styles.qrHint}>
+              {webLink ? t('shareTrip.scanHint') : t('shareTrip.appScanHint')}
+            </Text>
+          </View>
+
+          {webLink && renderLink(t('shareTrip.webLink'), webLink)}
+          {renderLink(t('shareTrip.appLink'), appLink)}
+
+          {stopsTrimmed && (
+            <Text style={styles.noteText}>
+              {t('shareTrip.stopsTrimmed', { count: MAX_RIDE_LINK_STOPS })}
+            </Text>
+          )}
+
+          <TouchableOpacity style={styles.shareButton} onPress={handleShare}>
+            <Share2 size={18} color="#ffffff" />
+            <Text style={styles.shareButtonText}>{t('shareTrip.shareButton')}</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  modalCancel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: theme.colors.text,
+  },
+  modalSave: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: theme.colors.primary,
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  routeSummary: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    gap: 8,
+  },
+  addressRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  addressText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: theme.colors.text,
+    marginLeft: 8,
+    flex: 1,
+  },
+  stopsText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+    marginLeft: 22,
+  },
+  qrContainer: {
+    alignItems: 'center',
+    marginVertical: 24,
+  },
+  qrCode: {
+    // Scanners need a light quiet zone around the code, also in dark mode
+    backgroundColor: '#ffffff',
+    padding: 16,
+    borderRadius: 16,
+  },
+  qrHint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  linkBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    marginBottom: 12,
+  },
+  linkInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  linkLabel: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: theme.colors.text,
+    marginBottom: 4,
+  },
+  linkText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+  copyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: theme.colors.card,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  copyText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: theme.colors.primary,
+  },
+  copiedText: {
+    color: theme.colors.success,
+  },
+  noteText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.warning,
+    marginBottom: 12,
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 8,
+    gap: 8,
+  },
+  shareButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#ffffff',
+  },
+  // Color helpers
+  pickupIconColor: {
+    color: theme.colors.primary,
+  },
+  destinationIconColor: {
+    color: theme.colors.warning,
+  },
+  copyIconColor: {
+    color: theme.colors.primary,
+  },
+  copiedIconColor: {
+    color: theme.colors.success,
+  },
+});
@@ -0,0 +1,181 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ChevronUp, ChevronDown, X, Plus } from 'lucide-react-native';
+import { GooglePlacesInput } from '@/components/GooglePlacesInput';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useThemedStyles } from '@/contexts/ThemeContext';
+
+export interface StopDraft {
+  // Stable key so inputs keep their state while stops are reordered
+  key: string;
+  address: string;
+  coordinates: { latitude: number; longitude: number } | null;
+  placeId?: string;
+}
+
+// Ride apps cap stops too; three covers every app we support
+export const MAX_INTERMEDIATE_STOPS = 3;
+
+let stopKeyCounter = 0;
+
+export function createStopDraft(initial?: {
+  address: string;
+  coordinates?: { latitude: number; longitude: number } | null;
+  placeId?: string;
+}): StopDraft {
+  stopKeyCounter += 1;
+  return {
+    key: `stop-${Date.now()}-${stopKeyCounter}`,
+    address: initial?.address || '',
+    coordinates: initial?.coordinates || null,
+    placeId: initial?.placeId,
+  };
+}
+
+interface StopListEditorProps {
+  stops: StopDraft[];
+  onChange: (stops: StopDraft[]) => void;
+  userLocation?: { latitude: number; longitude: number } | null;
+  showCopyButton?: boolean;
+}
+
+export function StopListEditor({ stops, onChange, userLocation, showCopyButton = true }: StopListEditorProps) {
+  const { t } = useLanguage();
+  const styles = useThemedStyles(createStyles);
+
+  const handleStopSelected = (
+    key: string,
+    address: string,
+    coordinates?: { latitude: number; longitude: number },
+    placeId?: string
+  ) => {
+    console.log('🎯 Stop address selected:', { address, placeId, coordinates });
+    onChange(stops.map(stop =>
+      stop.key === key ? { ...stop, address, coordinates: coordinates || null, placeId } : stop
+    ));
+  };
+
+  const handleMoveStop = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stops.length) {
+      return;
+    }
+    const reordered = [...stops];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const handleRemoveStop = (key: string) => {
+    onChange(stops.filter(stop => stop.key !== key));
+  };
+
+  const handleAddStop = () => {
+    if (stops.length >= MAX_INTERMEDIATE_STOPS) {
+      return;
+    }
+    onChange([...stops, createStopDraft()]);
+  };
+
+  return (
+    <View style={styles.container}>
+      {stops.map((stop, index) => (
+        // Earlier stops sit above later ones so their suggestion lists aren't covered
+        <View key={stop.key} style={[styles.stopContainer, { zIndex: MAX_INTERMEDIATE_STOPS - index }]}>
+          <View style={styles.stopControls}>
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={() => handleMoveStop(index, -1)}
+              disabled={index === 0}
+              accessibilityLabel={t('stops.moveUp')}
+            >
+              <ChevronUp size={18} color={index === 0 ? styles.controlDisabledColor.color : styles.controlColor.color} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={() => handleMoveStop(index, 1)}
+              disabled={index === stops.length - 1}
+              accessibilityLabel={t('stops.moveDown')}
+            >
+              <ChevronDown
+                size={18}
+                color={index === stops.length - 1 ? styles.controlDisabledColor.color : styles.controlColor.color}
+              />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.controlButton}
+              onPress={() => handleRemoveStop(stop.key)}
+              accessibilityLabel={t('stops.remove')}
+            >
+              <X size={18} color={styles.removeColor.color} />
+            </TouchableOpacity>
+          </View>
+          <GooglePlacesInput
+            label={t('stops.label', { number: index + 1 })}
+            placeholder={t('stops.placeholder')}
+            icon="destination"
+            onPlaceSelected={(address, coordinates, placeId) => handleStopSelected(stop.key, address, coordinates, placeId)}
+            value={stop.address}
+            userLocation={userLocation || undefined}
+            showCopyButton={showCopyButton}
+          />
+        </View>
+      ))}
+
+      {stops.length < MAX_INTERMEDIATE_STOPS && (
+        <TouchableOpacity style={styles.addButton} onPress={handleAddStop} activeOpacity={0.7}>
+          <Plus size={16} color={styles.controlColor.color} />
+          <Text style={styles.addButtonText}>{t('stops.add')}</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    position: 'relative',
+    zIndex: 8,
+    marginBottom: 20,
+  },
+  stopContainer: {
+    position: 'relative',
+  },
+  stopControls: {
+    position: 'absolute',
+    top: 0,
+    right: 0,
+    flexDirection: 'row',
+    zIndex: 3,
+  },
+  controlButton: {
+    padding: 4,
+    marginLeft: 4,
+    borderRadius: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: theme.colors.border,
+  },
+  addButtonText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: theme.colors.primary,
+    marginLeft: 8,
+  },
+  // Color helpers
+  controlColor: {
+    color: theme.colors.primary,
+  },
+  controlDisabledColor: {
+    color: theme.colors.textTertiary,
+  },
+  removeColor: {
+    color: theme.colors.error,
+  },
+});
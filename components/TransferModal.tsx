@@ -0,0 +1,528 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Download, FileUp, MapPin, Route, AlertTriangle } from 'lucide-react-native';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useThemedStyles } from '@/contexts/ThemeContext';
+import { useFavorites } from '@/hooks/useFavorites';
+import { useRouteFavorites } from '@/hooks/useRouteFavorites';
+import {
+  ExportFormat,
+  ImportCandidate,
+  ImportErrorLocation,
+  ImportPreview,
+  PlaceDraft,
+  RouteDraft,
+  buildExportFile,
+  buildImportPreview,
+  parseImportFile,
+  pickImportFile,
+  shareExportFile,
+} from '@/services/transfer';
+
+interface TransferModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ['json', 'gpx', 'csv'];
+
+export function TransferModal({ visible, onClose }: TransferModalProps) {
+  const { t } = useLanguage();
+  const styles = useThemedStyles(createStyles);
+  const insets = useSafeAreaInsets();
+  const { favorites, importFavorites } = useFavorites();
+  const { routeFavorites, importRouteFavorites } = useRouteFavorites();
+
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [includePlaces, setIncludePlaces] = useState(true);
+  const [includeRoutes, setIncludeRoutes] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+
+  // Start clean every time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setFileName(null);
+      setPreview(null);
+    }
+  }, [visible]);
+
+  const newPlaces = preview?.places.filter(candidate => candidate.status === 'new') || [];
+  const newRoutes = preview?.routes.filter(candidate => candidate.status === 'new') || [];
+  const newCount = newPlaces.length + newRoutes.length;
+  const duplicateCount = preview ? preview.places.length + preview.routes.length - newCount : 0;
+
+  const handleExport = async () => {
+    const places: PlaceDraft[] = includePlaces
+      ? favorites.map(({ name, address, latitude, longitude, placeId }) => ({ name, address, latitude, longitude, placeId }))
+      : [];
+    const routes: RouteDraft[] = includeRoutes
+      ? routeFavorites.map(route => ({
+          name: route.name,
+          pickup: route.pickup,
+          destination: route.destination,
+          stops: route.stops || [],
+        }))
+      : [];
+
+    if (places.length === 0 && routes.length === 0) {
+      Alert.alert(t('transfer.title'), t('transfer.nothingToExport'));
+      return;
+    }
+
+    try {
+      setIsExporting(true);
+      const file = buildExportFile(format, places, routes);
+      await shareExportFile(file, t('transfer.shareTitle'));
+      console.log('📤 Exported saved places:', { format, places: places.length, routes: routes.length, skipped: file.skipped });
+      if (file.skipped > 0) {
+        Alert.alert(t('transfer.title'), t('transfer.skipped', { count: file.skipped }));
+      }
+    } catch (error) {
+      console.error('❌ Failed to export saved places:', error);
+      Alert.alert(t('alert.error'), t('transfer.exportError'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleChooseFile = async () => {
+    try {
+      setIsReading(true);
+      const file = await pickImportFile();
+      if (!file) {
+        return;
+      }
+
+      const parsed = parseImportFile(file.name, file.content);
+      setFileName(file.name);
+      setPreview(buildImportPreview(parsed, favorites, routeFavorites));
+      console.log('📥 Import preview:', {
+        file: file.name,
+        places: parsed.places.length,
+        routes: parsed.routes.length,
+        errors: parsed.errors.length,
+      });
+    } catch (error) {
+      console.error('❌ Failed to read import file:', error);
+      Alert.alert(t('alert.error'), t('transfer.readError'));
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (newCount === 0) {
+      return;
+    }
+
+    try {
+      setIsImporting(true);
+      if (newPlaces.length > 0) {
+        await importFavorites(newPlaces.map(candidate => candidate.item));
+      }
+      if (newRoutes.length > 0) {
+        await importRouteFavorites(newRoutes.map(candidate => candidate.item));
+      }
+      onClose();
+      Alert.alert(
+        t('transfer.title'),
+        t('transfer.imported', { places: newPlaces.length, routes: newRoutes.length }),
+        [{ text: t('alert.ok') }]
+      );
+    } catch (error) {
+      Alert.alert(t('alert.error'), t('transfer.importError'));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const formatLocation = (location: ImportErrorLocation) =>
+    location.kind === 'file'
+      ? t('transfer.location.file')
+      : t(`transfer.location.${location.kind}`, { index: location.index });
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderCandidate = <T extends PlaceDraft | RouteDraft>(
+    candidate: ImportCandidate<T>,
+    index: number,
+    isRoute: boolean
+  ) => {
+    const { item } = candidate;
+    const detail = 'pickup' in item
+      ? [item.pickup, ...item.stops, item.destination].map(point => point.address).join(' → ')
+      : item.address;
+    const isNew = candidate.status === 'new';
+
+    return (
+      <View key={`${isRoute ? 'route' : 'place'}_${index}`} style={styles.candidateItem}>
+        {isRoute
+          ? <Route size={16} color={styles.candidateIconColor.color} />
+          : <MapPin size={16} color={styles.candidateIconColor.color} />}
+        <View style={styles.candidateInfo}>
+          <Text style={[styles.candidateName, !isNew && styles.candidateNameMuted]} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <Text style={styles.candidateDetail} numberOfLines={1}>{detail}</Text>
+          {!isNew && (
+            <Text style={styles.duplicateText} numberOfLines={1}>
+              {t('transfer.duplicateOf', { name: candidate.duplicateOf || '' })}
+            </Text>
+          )}
+        </View>
+        {isNew && (
+          <View style={styles.newBadge}>
+            <Text style={styles.newBadgeText}>{t('transfer.new')}</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.modalContainer, { paddingTop: insets.top }]}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.modalCancel}>{t('alert.cancel')}</Text>
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>{t('transfer.title')}</Text>
+          <TouchableOpacity onPress={handleImport} disabled={isImporting || newCount === 0}>
+            <Text style={[styles.modalSave, (isImporting || newCount === 0) && styles.modalSaveDisabled]}>
+              {t('transfer.importButton', { count: newCount })}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.modalContent}
+          contentContainerStyle={{ paddingBottom: Math.max(insets.bottom + 20, 40) }}
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={styles.sectionTitle}>{t('transfer.exportTitle')}</Text>
+          <Text style={styles.sectionHelp}>{t('transfer.exportHelp')}</Text>
+
+          <View style={styles.chipWrap}>
+            {EXPORT_FORMATS.map(option =>
+              renderChip(option, t(`transfer.format.${option}`), format === option, () => setFormat(option))
+            )}
+          </View>
+          <View style={[styles.chipWrap, styles.chipWrapSpaced]}>
+            {renderChip(
+              'places',
+              t('transfer.includePlaces', { count: favorites.length }),
+              includePlaces,
+              () => setIncludePlaces(!includePlaces)
+            )}
+            {renderChip(
+              'routes',
+              t('transfer.includeRoutes', { count: routeFavorites.length }),
+              includeRoutes,
+              () => setIncludeRoutes(!includeRoutes)
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.actionButton, isExporting && styles.actionButtonDisabled]}
+            onPress={handleExport}
+            disabled={isExporting}
+          >
+            {isExporting
+              ? <ActivityIndicator size="small" color="#ffffff" />
+              : <Download size={18} color="#ffffff" />}
+            <Text style={styles.actionButtonText}>{t('transfer.exportButton')}</Text>
+          </TouchableOpacity>
+
+          <View style={styles.divider} />
+
+          <Text style={styles.sectionTitle}>{t('transfer.importTitle')}</Text>
+          <Text style={styles.sectionHelp}>{t('transfer.importHelp')}</Text>
+
+          <TouchableOpacity
+            style={[styles.secondaryButton, isReading && styles.actionButtonDisabled]}
+            onPress={handleChooseFile}
+            disabled={isReading}
+          >
+            {isReading
+              ? <ActivityIndicator size="small" color={styles.secondaryIconColor.color} />
+              : <FileUp size={18} color={styles.secondaryIconColor.color} />}
+            <Text style={styles.secondaryButtonText} numberOfLines={1}>
+              {fileName || t('transfer.chooseFile')}
+            </Text>
+          </TouchableOpacity>
+
+          {preview && (
+            <>
+              <Text style={styles.previewSummary}>
+                {t('transfer.previewSummary', { new: newCount, duplicates: duplicateCount })}
+              </Text>
+
+              {(preview.places.length > 0 || preview.routes.length > 0) && (
+                <View style={styles.candidateList}>
+                  {preview.places.map((candidate, index) => renderCandidate(candidate, index, false))}
+                  {preview.routes.map((candidate, index) => renderCandidate(candidate, index, true))}
+                </View>
+              )}
+
+              {preview.errors.length > 0 && (
+                <View style={styles.errorBox}>
+                  <View style={styles.errorHeader}>
+                    <AlertTriangle size={16} color={styles.errorIconColor.color} />
+                    <Text style={styles.errorTitle}>
+                      {t('transfer.errorsTitle', { count: preview.errors.length })}
+                    </Text>
+                  </View>
+                  {preview.errors.map((error, index) => (
+                    <Text key={index} style={styles.errorText}>
+                      {formatLocation(error.location)}: {t(`transfer.error.${error.code}`)}
+                    </Text>
+                  ))}
+                </View>
+              )}
+            </>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  modalCancel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: theme.colors.textSecondary,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: theme.colors.text,
+  },
+  modalSave: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: theme.colors.primary,
+  },
+  modalSaveDisabled: {
+    color: theme.colors.textTertiary,
+  },
+  modalContent: {
+    flex: 1,
+    padding: 20,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: theme.colors.text,
+    marginBottom: 4,
+  },
+  sectionHelp: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    lineHeight: 18,
+    marginBottom: 16,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chipWrapSpaced: {
+    marginTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  chipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    marginTop: 20,
+    gap: 8,
+  },
+  actionButtonDisabled: {
+    opacity: 0.6,
+  },
+  actionButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#ffffff',
+  },
+  divider: {
+    height: 1,
+    backgroundColor: theme.colors.divider,
+    marginVertical: 28,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  secondaryButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: theme.colors.primary,
+    flexShrink: 1,
+  },
+  previewSummary: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: theme.colors.text,
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  candidateList: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  candidateItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.divider,
+  },
+  candidateInfo: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  candidateName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: theme.colors.text,
+  },
+  candidateNameMuted: {
+    color: theme.colors.textTertiary,
+  },
+  candidateDetail: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  duplicateText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.warning,
+    marginTop: 2,
+  },
+  newBadge: {
+    backgroundColor: theme.colors.success,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    marginLeft: 8,
+  },
+  newBadgeText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 11,
+    color: '#ffffff',
+  },
+  errorBox: {
+    backgroundColor: theme.isDark ? 'rgba(239, 68, 68, 0.1)' : '#fef2f2',
+    borderRadius: 12,
+    padding: 14,
+    marginTop: 16,
+    borderWidth: 1,
+    borderColor: theme.isDark ? 'rgba(239, 68, 68, 0.2)' : '#fecaca',
+    gap: 4,
+  },
+  errorHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  errorTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: theme.colors.error,
+    marginLeft: 8,
+  },
+  errorText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.text,
+    lineHeight: 18,
+  },
+  // Color helpers
+  candidateIconColor: {
+    color: theme.colors.primary,
+  },
+  secondaryIconColor: {
+    color: theme.colors.primary,
+  },
+  errorIconColor: {
+    color: theme.colors.error,
+  },
+});
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef } from 'react';
+import { StyleSheet } from 'react-native';
+import MapView, { Marker, Polyline, UrlTile } from 'react-native-maps';
+import { mapTileConfig } from '@/services/mapTiles';
+import {
+  FALLBACK_CENTER,
+  PIN_COLORS,
+  SINGLE_POINT_DELTA,
+  TripMapProps,
+  tripPath,
+} from './TripMap.types';
+
+const FIT_PADDING = { top: 60, right: 60, bottom: 60, left: 60 };
+
+export function TripMap({ pickup, destination, stops, initialCenter, onPinMoved, onLongPress, style }: TripMapProps) {
+  const mapRef = useRef<MapView>(null);
+  // Set while a pin is dragged, so the map doesn't jump when the new position comes back in props
+  const draggedRef = useRef(false);
+
+  const path = tripPath({ pickup, destination, stops });
+  const points = [pickup, ...stops, destination].filter(point => point !== null);
+  const pointsKey = points.map(point => `${point.latitude},${point.longitude}`).join('|');
+
+  // Keep every point in view when they are set from the address fields
+  useEffect(() => {
+    if (draggedRef.current) {
+      draggedRef.current = false;
+      return;
+    }
+    if (points.length === 1) {
+      mapRef.current?.animateToRegion({
+        ...points[0],
+        latitudeDelta: SINGLE_POINT_DELTA,
+        longitudeDelta: SINGLE_POINT_DELTA,
+      });
+    } else if (points.length > 1) {
+      mapRef.current?.fitToCoordinates(points, { edgePadding: FIT_PADDING, animated: true });
+    }
+  }, [pointsKey]);
+
+  const center = points[0] || initialCenter || FALLBACK_CENTER;
+
+  return (
+    <MapView
+      ref={mapRef}
+      style={[styles.map, style]}
+      initialRegion={{ ...center, latitudeDelta: SINGLE_POINT_DELTA, longitudeDelta: SINGLE_POINT_DELTA }}
+      onLongPress={event => onLongPress(event.nativeEvent.coordinate)}
+      showsUserLocation
+      // Android can't hide its own base map for a custom tile server otherwise
+      mapType={mapTileConfig.custom ? 'none' : 'standard'}
+    >
+      {mapTileConfig.custom && (
+        <UrlTile
+          urlTemplate={mapTileConfig.urlTemplate}
+          maximumZ={mapTileConfig.maxZoom}
+          shouldReplaceMapContent
+        />
+      )}
+
+      {path.length > 1 && (
+        <Polyline
+          coordinates={path}
+          strokeColor={PIN_COLORS.pickup}
+          strokeWidth={3}
+          lineDashPattern={[8, 6]}
+        />
+      )}
+
+      {stops.map((stop, index) => (
+        <Marker
+          key={`stop_${index}`}
+          coordinate={stop}
+          pinColor={PIN_COLORS.stop}
+        />
+      ))}
+
+      {pickup && (
+        <Marker
+          coordinate={pickup}
+          pinColor={PIN_COLORS.pickup}
+          draggable
+          onDragStart={() => { draggedRef.current = true; }}
+          onDragEnd={event => onPinMoved('pickup', event.nativeEvent.coordinate)}
+        />
+      )}
+
+      {destination && (
+        <Marker
+          coordinate={destination}
+          pinColor={PIN_COLORS.destination}
+          draggable
+          onDragStart={() => { draggedRef.current = true; }}
+          onDragEnd={event => onPinMoved('destination', event.nativeEvent.coordinate)}
+        />
+      )}
+    </MapView>
+  );
+}
+
+const styles = StyleSheet.create({
+  map: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,37 @@
+import { StyleProp, ViewStyle } from 'react-native';
+
+export interface MapCoordinate {
+  latitude: number;
+  longitude: number;
+}
+
+export type TripMapPin = 'pickup' | 'destination';
+
+// Shared by the native map (TripMap.tsx) and the web map (TripMap.web.tsx)
+export interface TripMapProps {
+  pickup: MapCoordinate | null;
+  destination: MapCoordinate | null;
+  // Shown along the line but edited in the stop list, not on the map
+  stops: MapCoordinate[];
+  // Centers the map before any point is set
+  initialCenter?: MapCoordinate | null;
+  onPinMoved: (pin: TripMapPin, coordinate: MapCoordinate) => void;
+  onLongPress: (coordinate: MapCoordinate) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+export const PIN_COLORS: Record<TripMapPin | 'stop', string> = {
+  pickup: '#10b981',
+  destination: '#f59e0b',
+  stop: '#6366f1',
+};
+
+// Roughly a city district, for a map with a single point
+export const SINGLE_POINT_DELTA = 0.01;
+export const DEFAULT_ZOOM = 15;
+
+// Shown until a point or the user's location is known
+export const FALLBACK_CENTER: MapCoordinate = { latitude: -22.9068, longitude: -43.1729 };
+
+export const tripPath = ({ pickup, destination, stops }: Pick<TripMapProps, 'pickup' | 'destination' | 'stops'>) =>
+  pickup && destination ? [pickup, ...stops, destination] : [];
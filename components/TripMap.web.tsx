@@ -0,0 +1,136 @@
+import React, { useEffect, useRef } from 'react';
+import { View, StyleSheet } from 'react-native';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { mapTileConfig } from '@/services/mapTiles';
+import {
+  DEFAULT_ZOOM,
+  FALLBACK_CENTER,
+  PIN_COLORS,
+  TripMapPin,
+  TripMapProps,
+  tripPath,
+} from './TripMap.types';
+
+const FIT_PADDING: L.PointTuple = [40, 40];
+
+// Leaflet's default marker images don't survive bundling, so pins are plain HTML
+const pinIcon = (color: string, size: number) =>
+  L.divIcon({
+    className: '',
+    html: `<div style="width:${size}px;height:${size}px;border-radius:50%;background:${color};border:3px solid #ffffff;box-shadow:0 1px 4px rgba(0,0,0,0.4)"></div>`,
+    iconSize: [size + 6, size + 6],
+    iconAnchor: [(size + 6) / 2, (size + 6) / 2],
+  });
+
+const toLatLng = ({ latitude, longitude }: { latitude: number; longitude: number }): L.LatLngTuple => [latitude, longitude];
+
+export function TripMap({ pickup, destination, stops, initialCenter, onPinMoved, onLongPress, style }: TripMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const pinsRef = useRef<Partial<Record<TripMapPin, L.Marker>>>({});
+  const overlayRef = useRef<L.LayerGroup | null>(null);
+  const draggedRef = useRef(false);
+
+  // Leaflet handlers are bound once; read the latest callbacks through a ref
+  const callbacksRef = useRef({ onPinMoved, onLongPress });
+  callbacksRef.current = { onPinMoved, onLongPress };
+
+  useEffect(() => {
+    if (!containerRef.current) {
+      return;
+    }
+
+    const center = pickup || destination || initialCenter || FALLBACK_CENTER;
+    const map = L.map(containerRef.current).setView(toLatLng(center), DEFAULT_ZOOM);
+    L.tileLayer(mapTileConfig.urlTemplate, {
+      maxZoom: mapTileConfig.maxZoom,
+      attribution: mapTileConfig.attribution,
+    }).addTo(map);
+
+    // Right click on desktop, long-press on touch screens
+    map.on('contextmenu', (event: L.LeafletMouseEvent) => {
+      callbacksRef.current.onLongPress({ latitude: event.latlng.lat, longitude: event.latlng.lng });
+    });
+
+    overlayRef.current = L.layerGroup().addTo(map);
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      overlayRef.current = null;
+      pinsRef.current = {};
+    };
+  }, []);
+
+  const placePin = (pin: TripMapPin, coordinate: { latitude: number; longitude: number } | null) => {
+    const map = mapRef.current;
+    const existing = pinsRef.current[pin];
+    if (!map) {
+      return;
+    }
+    if (!coordinate) {
+      existing?.remove();
+      delete pinsRef.current[pin];
+      return;
+    }
+    if (existing) {
+      existing.setLatLng(toLatLng(coordinate));
+      return;
+    }
+
+    const marker = L.marker(toLatLng(coordinate), { icon: pinIcon(PIN_COLORS[pin], 18), draggable: true }).addTo(map);
+    marker.on('dragstart', () => { draggedRef.current = true; });
+    marker.on('dragend', () => {
+      const { lat, lng } = marker.getLatLng();
+      callbacksRef.current.onPinMoved(pin, { latitude: lat, longitude: lng });
+    });
+    pinsRef.current[pin] = marker;
+  };
+
+  const points = [pickup, ...stops, destination].filter(point => point !== null);
+  const pointsKey = points.map(point => `${point.latitude},${point.longitude}`).join('|');
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const overlay = overlayRef.current;
+    if (!map || !overlay) {
+      return;
+    }
+
+    placePin('pickup', pickup);
+    placePin('destination', destination);
+
+    overlay.clearLayers();
+    stops.forEach(stop => {
+      L.marker(toLatLng(stop), { icon: pinIcon(PIN_COLORS.stop, 12), interactive: false }).addTo(overlay);
+    });
+    const path = tripPath({ pickup, destination, stops });
+    if (path.length > 1) {
+      L.polyline(path.map(toLatLng), { color: PIN_COLORS.pickup, weight: 3, dashArray: '8 6' }).addTo(overlay);
+    }
+
+    // Keep every point in view when they are set from the address fields
+    if (draggedRef.current) {
+      draggedRef.current = false;
+    } else if (points.length === 1) {
+      map.setView(toLatLng(points[0]), Math.max(map.getZoom(), DEFAULT_ZOOM));
+    } else if (points.length > 1) {
+      map.fitBounds(L.latLngBounds(points.map(toLatLng)), { padding: FIT_PADDING });
+    }
+  }, [pointsKey]);
+
+  return (
+    <View style={[styles.map, style]}>
+      <div ref={containerRef} style={{ width: '100%', height: '100%' }} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  map: {
+    flex: 1,
+    overflow: 'hidden',
+  },
+});
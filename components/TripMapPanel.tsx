@@ -0,0 +1,242 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Platform } from 'react-native';
+import { Map as MapIcon, ChevronDown, ChevronUp } from 'lucide-react-native';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useThemedStyles } from '@/contexts/ThemeContext';
+import { useGeocodingSettings } from '@/hooks/useGeocodingSettings';
+import { createGeocodingProvider, formatCoordinates, reverseGeocode } from '@/services/geocoding';
+import { nativeMapAvailable } from '@/services/mapTiles';
+import { TripMap } from './TripMap';
+import { MapCoordinate, PIN_COLORS, TripMapPin } from './TripMap.types';
+
+interface TripMapPanelProps {
+  pickup: MapCoordinate | null;
+  destination: MapCoordinate | null;
+  stops: MapCoordinate[];
+  userLocation?: MapCoordinate | null;
+  // Called once the new position has an address
+  onPointSelected: (pin: TripMapPin, address: string, coordinates: MapCoordinate, placeId?: string) => void;
+}
+
+const MAP_HEIGHT = 280;
+const PINS: TripMapPin[] = ['pickup', 'destination'];
+
+export function TripMapPanel({ pickup, destination, stops, userLocation, onPointSelected }: TripMapPanelProps) {
+  const { t } = useLanguage();
+  const styles = useThemedStyles(createStyles);
+  const { settings: geocodingSettings } = useGeocodingSettings();
+  const geocoder = useMemo(() => createGeocodingProvider(geocodingSettings), [geocodingSettings]);
+
+  // Without a map to show, the panel starts collapsed to just the coordinates
+  const [expanded, setExpanded] = useState(nativeMapAvailable);
+  const [longPressTarget, setLongPressTarget] = useState<TripMapPin>('pickup');
+  const [resolving, setResolving] = useState<Partial<Record<TripMapPin, boolean>>>({});
+  // Only the latest move of each pin may update it; older lookups can finish later
+  const requestIds = useRef<Record<TripMapPin, number>>({ pickup: 0, destination: 0 });
+
+  const selectPoint = async (pin: TripMapPin, coordinate: MapCoordinate) => {
+    const requestId = ++requestIds.current[pin];
+    setResolving(current => ({ ...current, [pin]: true }));
+    console.log('🗺️ Point set on map:', { pin, ...coordinate });
+
+    const { address, placeId } = await reverseGeocode(geocoder, coordinate.latitude, coordinate.longitude);
+    if (requestId !== requestIds.current[pin]) {
+      return;
+    }
+
+    setResolving(current => ({ ...current, [pin]: false }));
+    onPointSelected(pin, address, coordinate, placeId);
+  };
+
+  const handleLongPress = (coordinate: MapCoordinate) => {
+    selectPoint(longPressTarget, coordinate);
+    // Setting the pickup first is the usual order, so move on to the destination
+    if (longPressTarget === 'pickup') {
+      setLongPressTarget('destination');
+    }
+  };
+
+  const renderCoordinates = (pin: TripMapPin, coordinate: MapCoordinate | null) => (
+    <View key={pin} style={styles.coordinateRow}>
+      <View style={[styles.pinDot, { backgroundColor: PIN_COLORS[pin] }]} />
+      <Text style={styles.coordinateLabel}>{t(`map.${pin}`)}</Text>
+      {resolving[pin] ? (
+        <View style={styles.resolvingRow}>
+          <ActivityIndicator size="small" color={styles.resolvingColor.color} />
+          <Text style={styles.coordinateText}>{t('map.resolving')}</Text>
+        </View>
+      ) : (
+        <Text style={styles.coordinateText} selectable>
+          {coordinate ? formatCoordinates(coordinate.latitude, coordinate.longitude) : t('map.notSet')}
+        </Text>
+      )}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.header} onPress={() => setExpanded(!expanded)}>
+        <MapIcon size={18} color={styles.headerIconColor.color} />
+        <Text style={styles.headerTitle}>{t('map.title')}</Text>
+        {expanded
+          ? <ChevronUp size={18} color={styles.headerIconColor.color} />
+          : <ChevronDown size={18} color={styles.headerIconColor.color} />}
+      </TouchableOpacity>
+
+      {expanded && !nativeMapAvailable && (
+        <>
+          <View style={styles.coordinates}>
+            {renderCoordinates('pickup', pickup)}
+            {renderCoordinates('destination', destination)}
+          </View>
+          <Text style={styles.hint}>{t('map.unavailable')}</Text>
+        </>
+      )}
+
+      {expanded && nativeMapAvailable && (
+        <>
+          <View style={styles.targetRow}>
+            <Text style={styles.targetLabel}>
+              {Platform.OS === 'web' ? t('map.longPressTargetWeb') : t('map.longPressTarget')}
+            </Text>
+            {PINS.map(pin => (
+              <TouchableOpacity
+                key={pin}
+                style={[styles.chip, longPressTarget === pin && styles.chipActive]}
+                onPress={() => setLongPressTarget(pin)}
+              >
+                <Text style={[styles.chipText, longPressTarget === pin && styles.chipTextActive]}>
+                  {t(`map.${pin}`)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <View style={styles.mapContainer}>
+            <TripMap
+              pickup={pickup}
+              destination={destination}
+              stops={stops}
+              initialCenter={userLocation}
+              onPinMoved={selectPoint}
+              onLongPress={handleLongPress}
+            />
+          </View>
+
+          <View style={styles.coordinates}>
+            {renderCoordinates('pickup', pickup)}
+            {renderCoordinates('destination', destination)}
+          </View>
+          <Text style={styles.hint}>{t('map.dragHint')}</Text>
+        </>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (theme: any) => StyleSheet.create({
+  container: {
+    marginTop: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+  },
+  headerTitle: {
+    flex: 1,
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 15,
+    color: theme.colors.text,
+  },
+  targetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 14,
+    paddingBottom: 10,
+  },
+  targetLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.card,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  chipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: theme.colors.textSecondary,
+  },
+  chipTextActive: {
+    color: '#ffffff',
+  },
+  mapContainer: {
+    height: MAP_HEIGHT,
+  },
+  coordinates: {
+    paddingHorizontal: 14,
+    paddingTop: 10,
+    gap: 6,
+  },
+  coordinateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pinDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  coordinateLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: theme.colors.text,
+    width: 90,
+  },
+  resolvingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  coordinateText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: theme.colors.textSecondary,
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: theme.colors.textTertiary,
+    lineHeight: 16,
+    paddingHorizontal: 14,
+    paddingTop: 8,
+    paddingBottom: 12,
+  },
+  // Color helpers
+  headerIconColor: {
+    color: theme.colors.primary,
+  },
+  resolvingColor: {
+    color: theme.colors.primary,
+  },
+});
@@ -1,13 +1,22 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-export interface User {
-  id: string;
-  email: string;
-  name: string;
-  avatar?: string;
-  createdAt: Date;
-  lastLoginAt: Date;
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import {
+  createAuthBackend,
+  loadStoredSession,
+  saveStoredSession,
+  clearStoredSession,
+  AuthFailure,
+  AuthTokens,
+  ProfileUpdates,
+  User,
+} from '@/services/auth';
+import { activateUserStorage, deactivateUserStorage, clearUserStorage } from '@/services/userStorage';
+import { cancelAllRideReminders } from '@/services/rideReminders';
+
+export type { User } from '@/services/auth';
+
+export interface LogoutOptions {
+  // Remove this account's favorites, routes, history and scheduled rides from the device
+  wipeLocalData?: boolean;
 }
 
 interface AuthContextType {
@@ -16,75 +25,38 @@ interface AuthContextType {
   isAuthenticated: boolean;
   login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   register: (name: string, email: string, password: string) => Promise<{ success: boolean; error?: string }>;
-  logout: () => Promise<void>;
+  logout: (options?: LogoutOptions) => Promise<void>;
   resetPassword: (email: string) => Promise<{ success: boolean; error?: string }>;
-  updateProfile: (updates: Partial<User>) => Promise<{ success: boolean; error?: string }>;
+  updateProfile: (updates: ProfileUpdates) => Promise<{ success: boolean; error?: string }>;
+  deleteAccount: () => Promise<{ success: boolean; error?: string }>;
+  // Runs an authenticated backend call for the signed-in user
+  withAccessToken: <T extends { success: true }>(
+    call: (accessToken: string) => Promise<T | AuthFailure>
+  ) => Promise<T | AuthFailure>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const AUTH_STORAGE_KEY = 'ridelink_auth_user';
-const SESSION_STORAGE_KEY = 'ridelink_session_token';
+// Refresh a little before the access token actually expires
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+const SESSION_EXPIRED_ERROR = 'Your session has expired. Please sign in again.';
 
 interface AuthProviderProps {
   children: ReactNode;
 }
 
-// Mock API functions - replace with real API calls
-const mockApi = {
-  login: async (email: string, password: string) => {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Mock validation
-    if (email === 'demo@ridelink.com' && password === 'demo123') {
-      const user: User = {
-        id: '1',
-        email: 'demo@ridelink.com',
-        name: 'Demo User',
-        avatar: 'https://images.pexels.com/photos/220453/pexels-photo-220453.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&dpr=2',
-        createdAt: new Date('2024-01-01'),
-        lastLoginAt: new Date(),
-      };
-      return { success: true, user, token: 'mock_session_token' };
-    }
-    
-    return { success: false, error: 'Invalid email or password' };
-  },
-
-  register: async (name: string, email: string, password: string) => {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Mock email validation
-    if (email === 'existing@example.com') {
-      return { success: false, error: 'Email already exists' };
-    }
-    
-    const user: User = {
-      id: Date.now().toString(),
-      email,
-      name,
-      createdAt: new Date(),
-      lastLoginAt: new Date(),
-    };
-    
-    return { success: true, user, token: 'mock_session_token' };
-  },
-
-  resetPassword: async (email: string) => {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    return { success: true };
-  },
+const authBackend = createAuthBackend();
 
-  updateProfile: async (updates: Partial<User>) => {
-    await new Promise(resolve => setTimeout(resolve, 500));
-    return { success: true, user: updates };
-  },
-};
+const isExpiring = (tokens: AuthTokens) =>
+  tokens.expiresAt !== null && tokens.expiresAt - TOKEN_EXPIRY_MARGIN_MS <= Date.now();
 
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const tokensRef = useRef<AuthTokens | null>(null);
+  // Refresh tokens are single use, so concurrent callers share one refresh
+  const refreshPromiseRef = useRef<Promise<AuthTokens | AuthFailure> | null>(null);
 
   // Load user from storage on app start
   useEffect(() => {
@@ -96,17 +68,21 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const loadStoredUser = async () => {
     try {
-      const [storedUser, storedToken] = await Promise.all([
-        AsyncStorage.getItem(AUTH_STORAGE_KEY),
-        AsyncStorage.getItem(SESSION_STORAGE_KEY),
-      ]);
-
-      if (storedUser && storedToken) {
-        const parsedUser = JSON.parse(storedUser);
-        // Convert date strings back to Date objects
-        parsedUser.createdAt = new Date(parsedUser.createdAt);
-        parsedUser.lastLoginAt = new Date(parsedUser.lastLoginAt);
-        setUser(parsedUser);
+      const stored = await loadStoredSession();
+
+      if (stored) {
+        tokensRef.current = stored.tokens;
+
+        if (isExpiring(stored.tokens)) {
+          const refreshed = await refreshTokens(stored.user);
+          if (!('accessToken' in refreshed) && refreshed.unauthorized) {
+            // The session can't be renewed; the user has to sign in again
+            return;
+          }
+        }
+
+        await activateUserStorage(stored.user.id);
+        setUser(current => current || stored.user);
       }
     } catch (error) {
       console.error('Error loading stored user:', error);
@@ -116,12 +92,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const saveUserToStorage = async (userData: User, token: string) => {
+  const saveUserToStorage = async (userData: User, tokens: AuthTokens) => {
     try {
-      await Promise.all([
-        AsyncStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(userData)),
-        AsyncStorage.setItem(SESSION_STORAGE_KEY, token),
-      ]);
+      await saveStoredSession(userData, tokens);
     } catch (error) {
       console.error('Error saving user to storage:', error);
       // Don't throw, just log the error
@@ -130,23 +103,133 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const clearUserFromStorage = async () => {
     try {
-      await Promise.all([
-        AsyncStorage.removeItem(AUTH_STORAGE_KEY),
-        AsyncStorage.removeItem(SESSION_STORAGE_KEY),
-      ]);
+      await clearStoredSession();
     } catch (error) {
       console.error('Error clearing user from storage:', error);
       // Don't throw, just log the error
     }
   };
 
+  const startSession = async (sessionUser: User, tokens: AuthTokens) => {
+    tokensRef.current = tokens;
+    // Point storage at this account before any screen reads its data
+    await activateUserStorage(sessionUser.id);
+    setUser(sessionUser);
+    await saveUserToStorage(sessionUser, tokens);
+  };
+
+  const endSession = async ({ wipeLocalData = false }: LogoutOptions = {}) => {
+    const userId = user?.id;
+    tokensRef.current = null;
+    refreshPromiseRef.current = null;
+    setUser(null);
+    deactivateUserStorage();
+    await clearUserFromStorage();
+
+    // The account's reminders come back when it signs in again (see useScheduledRides)
+    try {
+      await cancelAllRideReminders();
+    } catch (error) {
+      console.error('❌ Error cancelling ride reminders:', error);
+    }
+
+    if (wipeLocalData && userId) {
+      try {
+        await clearUserStorage(userId);
+      } catch (error) {
+        console.error('❌ Error removing local data:', error);
+      }
+    }
+  };
+
+  /**
+   * Swaps the refresh token for a new pair. A rejected refresh token ends the
+   * session; a network error leaves it alone so the app keeps working offline.
+   */
+  const refreshTokens = (sessionUser: User): Promise<AuthTokens | AuthFailure> => {
+    if (refreshPromiseRef.current) {
+      return refreshPromiseRef.current;
+    }
+
+    const current = tokensRef.current;
+    if (!current) {
+      return Promise.resolve({ success: false, error: SESSION_EXPIRED_ERROR, unauthorized: true });
+    }
+
+    const run = async (): Promise<AuthTokens | AuthFailure> => {
+      try {
+        const result = await authBackend.refresh(current.refreshToken);
+        if (!result.success) {
+          if (result.unauthorized) {
+            console.warn('⚠️ Refresh token rejected, signing out');
+            await endSession();
+            return { success: false, error: SESSION_EXPIRED_ERROR, unauthorized: true };
+          }
+          return result;
+        }
+
+        const refreshedUser = result.user || sessionUser;
+        await startSession(refreshedUser, result.tokens);
+        console.log('🔄 Session refreshed');
+        return result.tokens;
+      } finally {
+        refreshPromiseRef.current = null;
+      }
+    };
+
+    refreshPromiseRef.current = run();
+    return refreshPromiseRef.current;
+  };
+
+  /**
+   * Runs an authenticated backend call with a valid access token. The token is
+   * refreshed when it's about to expire or the backend answers 401, and the
+   * user is signed out when the session can't be renewed.
+   */
+  const runWithAccessToken = async <T extends { success: true }>(
+    sessionUser: User,
+    call: (accessToken: string) => Promise<T | AuthFailure>
+  ): Promise<T | AuthFailure> => {
+    let tokens = tokensRef.current;
+    if (!tokens) {
+      await endSession();
+      return { success: false, error: SESSION_EXPIRED_ERROR, unauthorized: true };
+    }
+
+    if (isExpiring(tokens)) {
+      const refreshed = await refreshTokens(sessionUser);
+      if (!('accessToken' in refreshed)) {
+        return refreshed;
+      }
+      tokens = refreshed;
+    }
+
+    const result = await call(tokens.accessToken);
+    if (result.success || !result.unauthorized) {
+      return result;
+    }
+
+    // The server may have revoked the access token early; try once more with a new one
+    const refreshed = await refreshTokens(sessionUser);
+    if (!('accessToken' in refreshed)) {
+      return refreshed;
+    }
+
+    const retried = await call(refreshed.accessToken);
+    if (!retried.success && retried.unauthorized) {
+      console.warn('⚠️ Access token rejected after refresh, signing out');
+      await endSession();
+      return { success: false, error: SESSION_EXPIRED_ERROR, unauthorized: true };
+    }
+    return retried;
+  };
+
   const login = async (email: string, password: string) => {
     try {
-      const result = await mockApi.login(email, password);
+      const result = await authBackend.login(email, password);
       
-      if (result.success && result.user && result.token) {
-        setUser(result.user);
-        await saveUserToStorage(result.user, result.token);
+      if (result.success) {
+        await startSession(result.session.user, result.session.tokens);
         return { success: true };
       }
       
@@ -159,11 +242,10 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const register = async (name: string, email: string, password: string) => {
     try {
-      const result = await mockApi.register(name, email, password);
+      const result = await authBackend.register(name, email, password);
       
-      if (result.success && result.user && result.token) {
-        setUser(result.user);
-        await saveUserToStorage(result.user, result.token);
+      if (result.success) {
+        await startSession(result.session.user, result.session.tokens);
         return { success: true };
       }
       
@@ -174,10 +256,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const logout = async () => {
+  const logout = async (options: LogoutOptions = {}) => {
     try {
-      setUser(null);
-      await clearUserFromStorage();
+      await endSession(options);
     } catch (error) {
       console.error('Logout error:', error);
       // Continue with logout even if storage clearing fails
@@ -187,35 +268,64 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   const resetPassword = async (email: string) => {
     try {
-      const result = await mockApi.resetPassword(email);
-      return { success: result.success, error: result.success ? undefined : 'Failed to send reset email' };
+      const result = await authBackend.resetPassword(email);
+      return { success: result.success, error: result.success ? undefined : result.error };
     } catch (error) {
       console.error('Reset password error:', error);
       return { success: false, error: 'Network error. Please try again.' };
     }
   };
 
-  const updateProfile = async (updates: Partial<User>) => {
+  const updateProfile = async (updates: ProfileUpdates) => {
+    if (!user) {
+      return { success: false, error: 'Failed to update profile' };
+    }
+
     try {
-      const result = await mockApi.updateProfile(updates);
+      const result = await runWithAccessToken(user, accessToken => authBackend.updateProfile(accessToken, updates));
       
-      if (result.success && user) {
-        const updatedUser = { ...user, ...updates };
+      if (result.success) {
+        const updatedUser = result.user || { ...user, ...updates };
         setUser(updatedUser);
-        const token = await AsyncStorage.getItem(SESSION_STORAGE_KEY);
-        if (token) {
-          await saveUserToStorage(updatedUser, token);
+        if (tokensRef.current) {
+          await saveUserToStorage(updatedUser, tokensRef.current);
         }
         return { success: true };
       }
       
-      return { success: false, error: 'Failed to update profile' };
+      return { success: false, error: result.error || 'Failed to update profile' };
     } catch (error) {
       console.error('Update profile error:', error);
       return { success: false, error: 'Network error. Please try again.' };
     }
   };
 
+  const deleteAccount = async () => {
+    if (!user) {
+      return { success: false, error: 'Failed to delete account' };
+    }
+
+    try {
+      const result = await runWithAccessToken(user, accessToken => authBackend.deleteAccount(accessToken));
+
+      if (result.success) {
+        console.log('🗑️ Account deleted:', user.id);
+        await endSession({ wipeLocalData: true });
+        return { success: true };
+      }
+
+      return { success: false, error: result.error || 'Failed to delete account' };
+    } catch (error) {
+      console.error('Delete account error:', error);
+      return { success: false, error: 'Network error. Please try again.' };
+    }
+  };
+
+  const withAccessToken = <T extends { success: true }>(call: (accessToken: string) => Promise<T | AuthFailure>) =>
+    user
+      ? runWithAccessToken(user, call)
+      : Promise.resolve<AuthFailure>({ success: false, error: SESSION_EXPIRED_ERROR, unauthorized: true });
+
   const value: AuthContextType = {
     user,
     isLoading,
@@ -225,6 +335,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
     logout,
     resetPassword,
     updateProfile,
+    deleteAccount,
+    withAccessToken,
   };
 
   return (
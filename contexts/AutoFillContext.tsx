@@ -1,17 +1,21 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
 
-interface AutoFillData {
-  pickup?: {
-    address: string;
-    coordinates?: { latitude: number; longitude: number };
-    placeId?: string;
-  };
-  destination?: {
-    address: string;
-    coordinates?: { latitude: number; longitude: number };
-    placeId?: string;
-  };
-  source: 'favorite-place' | 'favorite-route';
+export interface AutoFillLocation {
+  address: string;
+  coordinates?: { latitude: number; longitude: number };
+  placeId?: string;
+}
+
+export interface AutoFillData {
+  pickup?: AutoFillLocation;
+  destination?: AutoFillLocation;
+  // Intermediate stops, in order; only set when filling a whole route
+  stops?: AutoFillLocation[];
+  source: 'favorite-place' | 'favorite-route' | 'deep-link' | 'history' | 'scheduled-ride';
+  // Ride app to open straight away once the route is filled
+  appId?: string;
+  // Ride app to point out without opening it
+  highlightAppId?: string;
   timestamp: number;
 }
 
@@ -111,6 +111,7 @@ const translations: Record<Language, Record<string, string>> = {
     // Navigation
     'nav.rideLauncher': 'Ride Launcher',
     'nav.favorites': 'Favorites',
+    'nav.history': 'History',
     'nav.profile': 'Profile',
     'nav.settings': 'Settings',
     
@@ -150,6 +151,7 @@ const translations: Record<Language, Record<string, string>> = {
     'alert.openBrowser': 'Open Browser',
     'alert.openSettings': 'Open Settings',
     'alert.openPlayStore': 'Open Play Store',
+    'alert.openAppStore': 'Open App Store',
     
     // Favorites Screen
     'favorites.title': 'Favorites',
@@ -238,7 +240,7 @@ const translations: Record<Language, Record<string, string>> = {
     'appManager.note': '📱 Installation Required',
     'appManager.noteDescription': 'Apps must be installed on your device to work. If an app is not installed, you\'ll be redirected to the app store.',
     'appManager.resetTitle': 'Reset to Defaults',
-    'appManager.resetConfirm': 'This will reset all app preferences to default settings. Continue?',
+    'appManager.resetConfirm': 'This will reset all app preferences to default settings. Your custom apps are kept. Continue?',
     'appManager.reset': 'Reset',
     'appManager.noAppsEnabled': 'No Apps Enabled',
     'appManager.enableAppsInSettings': 'Go to Settings > Manage Integrated Apps to enable ride apps.',
@@ -288,6 +290,320 @@ const translations: Record<Language, Record<string, string>> = {
     'rideApp.appNotAvailable': 'App Not Available',
     'rideApp.notAvailableMessage': 'is not available on this device.',
     'rideApp.errorOpening': 'Could not open the app. Please try again.',
+    
+    // Deep links
+    'deepLink.routeFilled': '🔗 Route filled from a RideLink link',
+    'deepLink.incompleteRoute': 'The link asked to open {appName}, but pickup and destination need coordinates. Select the addresses and try again.',
+    
+    // Share trip
+    'shareTrip.title': 'Share Trip',
+    'shareTrip.shareButton': 'Share trip',
+    'shareTrip.share': 'Share',
+    'shareTrip.webLink': 'Web link',
+    'shareTrip.appLink': 'App link (RideLink installed)',
+    'shareTrip.copy': 'Copy',
+    'shareTrip.copied': 'Copied',
+    'shareTrip.scanHint': 'Scan with a phone camera to open this trip',
+    'shareTrip.appScanHint': 'Scan on a phone with RideLink installed',
+    'shareTrip.message': '{name} on RideLink: {url}',
+    'shareTrip.stopsTrimmed': 'Only the first {count} stops fit in a shared link.',
+    'shareTrip.linkCopied': 'The link was copied to the clipboard.',
+    'shareTrip.copyFailed': "The link couldn't be shared or copied. Select it below to copy it yourself.",
+    
+    // Trip map
+    'map.title': 'Map',
+    'map.pickup': 'Pickup',
+    'map.destination': 'Destination',
+    'map.longPressTarget': 'Long-press sets:',
+    'map.longPressTargetWeb': 'Right-click or long-press sets:',
+    'map.resolving': 'Finding address...',
+    'map.notSet': 'Not set',
+    'map.dragHint': 'Drag a pin to fine-tune the exact pickup spot. The address updates to the new position.',
+    'map.unavailable': 'The map needs a Google Maps key on Android. Set GOOGLE_MAPS_ANDROID_API_KEY when building the app.',
+    
+    // Pickup points
+    'pickupPoints.title': 'Easier pickup points nearby',
+    'pickupPoints.find': 'Find nearby pickup points',
+    'pickupPoints.searching': 'Looking for pickup points nearby...',
+    'pickupPoints.none': 'No better pickup point found nearby',
+    'pickupPoints.accuracy': 'GPS accuracy ±{meters} m',
+    'pickupPoints.lowAccuracy': 'Your location is only accurate to more than {meters} m. Check the pickup or choose one of the points below.',
+    'pickupPoints.coordinatesOnly': 'No street address was found for this pickup, only coordinates. The driver will see a pin without an address.',
+    'pickupPoints.distance': '{meters} m',
+    'pickupPoints.kind.zone': 'Pickup zone',
+    'pickupPoints.kind.entrance': 'Entrance',
+    'pickupPoints.kind.street': 'Street address',
+    'pickupPoints.confirmTitle': 'Pickup has no address',
+    'pickupPoints.confirmMessage': 'Your pickup is only a set of coordinates. {appName} will get the pin location without a street address. Continue anyway?',
+    'pickupPoints.confirmLaunch': 'Continue',
+    
+    // Quick places
+    'quickPlaces.home': 'Home',
+    'quickPlaces.work': 'Work',
+    'quickPlaces.set.home': 'Set home',
+    'quickPlaces.set.work': 'Set work',
+    'quickPlaces.suggested': 'Suggested destinations',
+    'quickPlaces.reason.usualTime': 'You often go here around this time',
+    'quickPlaces.reason.usualDay': 'You often go here on this day',
+    'quickPlaces.reason.fromHere': 'You often go here from this area',
+    'quickPlaces.reason.savedRoute': 'Saved route from here',
+    'quickPlaces.reason.goHome': 'Heading home?',
+    'quickPlaces.reason.goToWork': 'Heading to work?',
+    'quickPlaces.typeLabel': 'Type',
+    'quickPlaces.type.plain': 'Plain',
+    'quickPlaces.type.home': 'Home',
+    'quickPlaces.type.work': 'Work',
+    'quickPlaces.type.custom': 'Custom',
+    'quickPlaces.typeHint': 'Home, work and custom places get a one-tap button on the launcher. There is one home and one work place.',
+    
+    // Return trips
+    'returnTrip.swap': 'Swap',
+    'returnTrip.returnTrip': 'Return trip',
+    'returnTrip.roundTrip': 'Round trip',
+    'returnTrip.roundTripHint': 'Show the way back next to this route in your favorites.',
+    'returnTrip.wayBack': 'Way back',
+    'returnTrip.bannerTitle': 'Back to {address}?',
+    'returnTrip.bannerSubtitle': 'Where your {appName} ride picked you up at {time}',
+    'returnTrip.dismiss': 'Dismiss',
+    'returnTrip.filled': 'Return trip filled in',
+    
+    // Organizing favorites
+    'organize.folderLabel': 'Folder',
+    'organize.folderPlaceholder': 'e.g. Family, Work trips',
+    'organize.tagsLabel': 'Tags',
+    'organize.tagsPlaceholder': 'Comma-separated, e.g. gym, weekend',
+    'organize.searchPlaceholder': 'Search places, addresses or tags',
+    'organize.clearSearch': 'Clear search',
+    'organize.sortBy': 'Sort:',
+    'organize.sort.name': 'Name',
+    'organize.sort.mostUsed': 'Most used',
+    'organize.sort.recent': 'Recent',
+    'organize.sort.distance': 'Nearest',
+    'organize.pinned': 'Pinned',
+    'organize.unfiled': 'Other',
+    'organize.pin': 'Pin to top',
+    'organize.unpin': 'Unpin',
+    'organize.dragHint': 'Drag to reorder',
+    'organize.usedTimes': 'Used {count}×',
+    'organize.noResults': 'No favorites match your search',
+    
+    // Duplicates
+    'duplicates.placeExistsTitle': 'Already saved',
+    'duplicates.placeExists': 'This place is already saved as “{name}”.',
+    'duplicates.routeExistsTitle': 'Route already saved',
+    'duplicates.routeExists': 'This route is already saved as “{name}”.',
+    'duplicates.saveAnyway': 'Save anyway',
+    'duplicates.banner': 'Possible duplicates found ({count})',
+    'duplicates.review': 'Review',
+    'duplicates.title': 'Merge Duplicates',
+    'duplicates.done': 'Done',
+    'duplicates.placesHelp': 'These saved places look like the same spot. Pick the name and location to keep; tags and usage are combined.',
+    'duplicates.routesHelp': 'These saved routes go through the same points. Pick the name and route to keep; tags and usage are combined.',
+    'duplicates.none': 'No duplicates found',
+    'duplicates.groupTitle': '{count} entries',
+    'duplicates.keepName': 'Name to keep',
+    'duplicates.keepLocation': 'Address and coordinates to keep',
+    'duplicates.keepPoints': 'Route to keep',
+    'duplicates.noCoordinates': 'no coordinates',
+    'duplicates.keepSeparate': 'Keep separate',
+    'duplicates.merge': 'Merge',
+    'duplicates.mergeError': 'Could not merge these entries',
+    
+    // Custom apps
+    'customApps.add': 'Add custom app',
+    'customApps.customLabel': 'Custom',
+    'customApps.addTitle': 'New Custom App',
+    'customApps.editTitle': 'Edit Custom App',
+    'customApps.name': 'Name',
+    'customApps.namePlaceholder': 'e.g. City Taxi',
+    'customApps.icon': 'Icon',
+    'customApps.color': 'Color',
+    'customApps.packageId': 'Package ID (optional)',
+    'customApps.storeUrl': 'Store link (optional)',
+    'customApps.template': 'Deep link template',
+    'customApps.templateHint': 'Write the app\'s link with placeholders for the trip, like {pickup.lat} or {dropoff.address|urlencode}. Tap a placeholder below to insert it.',
+    'customApps.preview': 'Preview',
+    'customApps.previewEmpty': 'Enter a template to see the link',
+    'customApps.delete': 'Delete app',
+    'customApps.deleteTitle': 'Delete Custom App',
+    'customApps.deleteConfirm': 'Are you sure you want to delete "{name}"?',
+    'customApps.saveError': 'Could not save this app',
+    'customApps.error.required': 'This field is required',
+    'customApps.error.invalidColor': 'Use a hex color like #0ea5e9',
+    'customApps.error.invalidStoreUrl': 'Use a market://, itms-apps:// or https:// link',
+    'customApps.error.empty': 'Enter the link the app opens',
+    'customApps.error.missingScheme': 'The link has to start with a scheme, like taxi:// or https://',
+    'customApps.error.unbalancedBraces': 'A { or } is missing its pair',
+    'customApps.error.unknownPlaceholder': 'Unknown placeholder: {token}',
+    'customApps.error.unknownFilter': 'Unknown filter: {token}',
+    
+    // App order and preferences
+    'appManager.reorderHint': 'Drag the handle to change the order on the main screen. Tap the star to make an app your preferred one.',
+    'appManager.preferredApp': 'Preferred app',
+    'appManager.setPreferred': 'Make preferred app',
+    'appManager.unsetPreferred': 'Remove preferred app',
+    'appManager.rideType': 'Default ride type',
+    'appManager.rideTypeSummary': 'Ride type: {rideType}',
+    'appManager.rideTypeIdPlaceholder': 'Product ID',
+    'appManager.rideTypeIdHint': '{appName} product IDs differ by city. Leave empty to let the app choose.',
+    'appManager.saveError': 'Could not save your app settings',
+    
+    // Regions
+    'regions.notAvailableHere': 'Not available here',
+    'regions.title': 'Apps for Your Region',
+    'regions.enableForMyRegion': 'Enable apps for my region',
+    'regions.locationNeeded': 'Allow location access so RideLink can tell which apps work where you are.',
+    'regions.locationError': 'Could not find your current location',
+    'regions.noChanges': 'Your apps already match your region.',
+    'regions.willEnable': 'Turn on: {apps}',
+    'regions.willDisable': 'Turn off (not available here): {apps}',
+    'regions.apply': 'Apply',
+    
+    // Installed apps
+    'rideApp.installed': 'Installed',
+    'rideApp.getApp': 'Get app',
+    
+    // Ride history
+    'history.title': 'History',
+    'history.loading': 'Loading history...',
+    'history.empty': 'No rides launched yet',
+    'history.emptySubtitle': 'Every time you open a ride app from RideLink, the trip shows up here',
+    'history.noMatches': 'No trips match these filters',
+    'history.noMatchesSubtitle': 'Try another app or a longer date range',
+    'history.filterAllTime': 'All time',
+    'history.filterToday': 'Today',
+    'history.filterWeek': 'Last 7 days',
+    'history.filterMonth': 'Last 30 days',
+    'history.filterAllApps': 'All apps',
+    'history.outcomeOpened': 'Opened',
+    'history.outcomeNotInstalled': 'Not installed',
+    'history.outcomeStoreFallback': 'Store',
+    'history.outcomeError': 'Error',
+    'history.relaunch': 'Launch again',
+    'history.routeFilled': '🔁 Trip filled from your history',
+    'history.deleteEntry': 'Remove Trip',
+    'history.deleteEntryConfirm': 'Remove this trip from your history?',
+    'history.clearTitle': 'Clear History',
+    'history.clearConfirm': 'This will remove every trip from your history. Continue?',
+    'history.clear': 'Clear',
+    
+    // Fare comparison
+    'quotes.pickupEta': 'pickup in {minutes} min',
+    'quotes.tripSummary': '≈ {distance} km · {minutes} min trip',
+    'quotes.sort.default': 'My order',
+    'quotes.sort.cheapest': 'Cheapest',
+    'quotes.sort.fastest': 'Fastest',
+    'quotes.estimateDisclaimer': 'Fares and pickup times are local estimates. The final price is set by each app.',
+    'quotes.liveDisclaimer': 'Fares come from the pricing service and may change in the app.',
+    
+    // Geocoding
+    'geocoding.offlineResult': 'Offline result · saved from an earlier search',
+    'geocoding.title': 'Address Search',
+    'geocoding.providerSection': 'Search provider',
+    'geocoding.provider.google': 'Google Maps',
+    'geocoding.provider.googleDescription': 'Accurate results worldwide. Requires a Google Maps API key.',
+    'geocoding.provider.osm': 'OpenStreetMap',
+    'geocoding.provider.osmDescription': 'Free, open data via Photon and Nominatim. No API key needed.',
+    'geocoding.selfHosted': 'Self-hosted servers',
+    'geocoding.selfHostedDescription': 'Point to your own Nominatim and Photon instances, such as a local server. Leave blank to use the public servers.',
+    'geocoding.nominatimUrl': 'Nominatim URL (details and current location)',
+    'geocoding.photonUrl': 'Photon URL (search suggestions)',
+    'geocoding.save': 'Save',
+    'geocoding.invalidUrl': 'Server URLs must start with http:// or https://',
+    'geocoding.saveError': 'Could not save address search settings. Please try again.',
+    'geocoding.note': 'Public OpenStreetMap servers have strict usage limits. For heavy use, host your own instance.',
+    
+    // Multi-stop trips
+    'stops.label': 'Stop {number}',
+    'stops.placeholder': 'Where should the driver stop?',
+    'stops.add': 'Add stop',
+    'stops.moveUp': 'Move stop up',
+    'stops.moveDown': 'Move stop down',
+    'stops.remove': 'Remove stop',
+    'stops.emptyStop': 'Fill in every stop or remove the empty ones.',
+    'stops.firstLegOnlyTitle': '{appName} doesn\'t support multiple stops',
+    'stops.firstLegOnlyMessage': '{appName} will open with only the first leg of your trip, ending at {stop}. Book the next leg once you get there.',
+    'stops.openFirstLeg': 'Open first leg',
+    'stops.firstLegNotice': '{apps} can\'t carry stops and will open with the first leg only.',
+    
+    // Scheduled rides
+    'scheduledRides.title': 'Schedule Ride',
+    'scheduledRides.scheduleRide': 'Schedule ride',
+    'scheduledRides.scheduleForLater': 'Schedule for later',
+    'scheduledRides.upcomingTitle': 'Upcoming rides',
+    'scheduledRides.nameLabel': 'Name',
+    'scheduledRides.namePlaceholder': 'e.g., Morning commute',
+    'scheduledRides.dateLabel': 'Day',
+    'scheduledRides.timeLabel': 'Time',
+    'scheduledRides.repeatLabel': 'Repeat',
+    'scheduledRides.today': 'Today',
+    'scheduledRides.tomorrow': 'Tomorrow',
+    'scheduledRides.recurrence.none': 'Once',
+    'scheduledRides.recurrence.weekdays': 'Weekdays',
+    'scheduledRides.recurrence.weekly': 'Weekly',
+    'scheduledRides.preferredAppLabel': 'Preferred app',
+    'scheduledRides.anyApp': 'Any',
+    'scheduledRides.plannedApp': 'Planned app',
+    'scheduledRides.reminderHelp': 'You\'ll get a reminder at the chosen time. Tap it to open RideLink with this route ready.',
+    'scheduledRides.webReminderHelp': 'Reminders need the mobile app. The ride will still be listed in Favorites.',
+    'scheduledRides.reminderTitle': 'Time to ride: {name}',
+    'scheduledRides.reminderBody': 'Tap to book your ride to {destination}',
+    'scheduledRides.pastTime': 'Pick a time in the future',
+    'scheduledRides.saved': '"{name}" scheduled',
+    'scheduledRides.saveError': 'Failed to schedule ride',
+    'scheduledRides.deleteTitle': 'Cancel Scheduled Ride',
+    'scheduledRides.deleteConfirm': 'Cancel "{name}" and its reminders?',
+    'scheduledRides.deleteError': 'Failed to cancel scheduled ride',
+    'scheduledRides.routeFilled': '⏰ Route filled from your scheduled ride',
+    
+    // Cloud sync
+    'sync.title': 'Cloud Sync',
+    'sync.unavailable': 'Sign in with a RideLink account to sync favorites across devices',
+    'sync.syncing': 'Syncing...',
+    'sync.pending': '{count} changes waiting to sync. Tap to sync now',
+    'sync.failed': 'Last sync failed, {count} changes waiting. Tap to retry',
+    'sync.lastSynced': 'Last synced {time}. Tap to sync now',
+    'sync.never': 'Not synced yet. Tap to sync now',
+    
+    // Import and export
+    'transfer.title': 'Import & Export',
+    'transfer.exportTitle': 'Export',
+    'transfer.exportHelp': 'RideLink JSON keeps everything. GPX opens in map apps and needs coordinates. CSV opens in spreadsheets.',
+    'transfer.format.json': 'RideLink JSON',
+    'transfer.format.gpx': 'GPX',
+    'transfer.format.csv': 'CSV',
+    'transfer.includePlaces': 'Places ({count})',
+    'transfer.includeRoutes': 'Routes ({count})',
+    'transfer.exportButton': 'Export file',
+    'transfer.shareTitle': 'Share saved places',
+    'transfer.nothingToExport': 'There is nothing to export yet.',
+    'transfer.skipped': '{count} entries without coordinates were left out of the GPX file.',
+    'transfer.exportError': 'Could not export the file. Please try again.',
+    'transfer.importTitle': 'Import',
+    'transfer.importHelp': 'Choose a RideLink JSON, GPX or CSV file. You can review everything before it is saved.',
+    'transfer.chooseFile': 'Choose file',
+    'transfer.readError': 'Could not read the file.',
+    'transfer.previewSummary': '{new} new, {duplicates} already saved',
+    'transfer.new': 'New',
+    'transfer.duplicateOf': 'Already saved as “{name}”',
+    'transfer.errorsTitle': 'Skipped entries ({count})',
+    'transfer.location.file': 'File',
+    'transfer.location.line': 'Line {index}',
+    'transfer.location.place': 'Place {index}',
+    'transfer.location.route': 'Route {index}',
+    'transfer.error.unreadableFile': 'The file could not be read',
+    'transfer.error.unsupportedFormat': 'This is not a RideLink, GPX or CSV file',
+    'transfer.error.unsupportedVersion': 'The file was made by a newer version of RideLink',
+    'transfer.error.invalidEntry': 'Entry is not a place or a point',
+    'transfer.error.missingColumns': 'The header needs a name column and an address or latitude/longitude columns',
+    'transfer.error.missingName': 'Name is missing',
+    'transfer.error.missingAddress': 'Address is missing',
+    'transfer.error.invalidCoordinates': 'Latitude or longitude is invalid',
+    'transfer.error.incompleteRoute': 'Route needs a pickup and a destination',
+    'transfer.error.unknownKind': 'Kind must be place or route',
+    'transfer.importButton': 'Import {count}',
+    'transfer.imported': 'Imported {places} places and {routes} routes.',
+    'transfer.importError': 'Could not save the imported entries. Please try again.',
   },
   
   pt: {
@@ -299,6 +615,7 @@ const translations: Record<Language, Record<string, string>> = {
     'nav.rideLauncher': 'Lançador de Corridas',
     'nav.favorites': 'Favoritos',
     'nav.profile': 'Perfil',
+    'nav.history': 'Histórico',
     'nav.settings': 'Configurações',
     
     // Main Screen
@@ -337,6 +654,7 @@ const translations: Record<Language, Record<string, string>> = {
     'alert.openBrowser': 'Abrir Navegador',
     'alert.openSettings': 'Abrir Configurações',
     'alert.openPlayStore': 'Abrir Play Store',
+    'alert.openAppStore': 'Abrir App Store',
     
     // Favorites Screen
     'favorites.title': 'Favoritos',
@@ -425,7 +743,7 @@ const translations: Record<Language, Record<string, string>> = {
     'appManager.note': '📱 Instalação Necessária',
     'appManager.noteDescription': 'Os apps devem estar instalados no seu dispositivo para funcionar. Se um app não estiver instalado, você será redirecionado para a loja de apps.',
     'appManager.resetTitle': 'Restaurar Padrões',
-    'appManager.resetConfirm': 'Isso restaurará todas as preferências de apps para as configurações padrão. Continuar?',
+    'appManager.resetConfirm': 'Isso restaurará todas as preferências de apps para as configurações padrão. Seus apps personalizados serão mantidos. Continuar?',
     'appManager.reset': 'Restaurar',
     'appManager.noAppsEnabled': 'Nenhum App Habilitado',
     'appManager.enableAppsInSettings': 'Vá para Configurações > Gerenciar Apps Integrados para habilitar apps de corrida.',
@@ -475,6 +793,320 @@ const translations: Record<Language, Record<string, string>> = {
     'rideApp.appNotAvailable': 'App Não Disponível',
     'rideApp.notAvailableMessage': 'não está disponível neste dispositivo.',
     'rideApp.errorOpening': 'Não foi possível abrir o app. Tente novamente.',
+    
+    // Deep links
+    'deepLink.routeFilled': '🔗 Rota preenchida a partir de um link RideLink',
+    'deepLink.incompleteRoute': 'O link pediu para abrir {appName}, mas a partida e o destino precisam de coordenadas. Selecione os endereços e tente novamente.',
+    
+    // Share trip
+    'shareTrip.title': 'Compartilhar Viagem',
+    'shareTrip.shareButton': 'Compartilhar viagem',
+    'shareTrip.share': 'Compartilhar',
+    'shareTrip.webLink': 'Link da web',
+    'shareTrip.appLink': 'Link do app (RideLink instalado)',
+    'shareTrip.copy': 'Copiar',
+    'shareTrip.copied': 'Copiado',
+    'shareTrip.scanHint': 'Escaneie com a câmera do celular para abrir esta viagem',
+    'shareTrip.appScanHint': 'Escaneie em um celular com o RideLink instalado',
+    'shareTrip.message': '{name} no RideLink: {url}',
+    'shareTrip.stopsTrimmed': 'Apenas as primeiras {count} paradas cabem em um link compartilhado.',
+    'shareTrip.linkCopied': 'O link foi copiado para a área de transferência.',
+    'shareTrip.copyFailed': 'Não foi possível compartilhar nem copiar o link. Selecione-o abaixo para copiá-lo.',
+    
+    // Trip map
+    'map.title': 'Mapa',
+    'map.pickup': 'Partida',
+    'map.destination': 'Destino',
+    'map.longPressTarget': 'Toque longo define:',
+    'map.longPressTargetWeb': 'Clique direito ou toque longo define:',
+    'map.resolving': 'Buscando endereço...',
+    'map.notSet': 'Não definido',
+    'map.dragHint': 'Arraste um marcador para ajustar o ponto exato de embarque. O endereço é atualizado para a nova posição.',
+    'map.unavailable': 'O mapa precisa de uma chave do Google Maps no Android. Defina GOOGLE_MAPS_ANDROID_API_KEY ao gerar o app.',
+    
+    // Pickup points
+    'pickupPoints.title': 'Pontos de embarque mais fáceis por perto',
+    'pickupPoints.find': 'Buscar pontos de embarque próximos',
+    'pickupPoints.searching': 'Buscando pontos de embarque próximos...',
+    'pickupPoints.none': 'Nenhum ponto de embarque melhor encontrado por perto',
+    'pickupPoints.accuracy': 'Precisão do GPS ±{meters} m',
+    'pickupPoints.lowAccuracy': 'Sua localização tem precisão pior que {meters} m. Confira o embarque ou escolha um dos pontos abaixo.',
+    'pickupPoints.coordinatesOnly': 'Nenhum endereço foi encontrado para este embarque, apenas coordenadas. O motorista verá um pino sem endereço.',
+    'pickupPoints.distance': '{meters} m',
+    'pickupPoints.kind.zone': 'Área de embarque',
+    'pickupPoints.kind.entrance': 'Entrada',
+    'pickupPoints.kind.street': 'Endereço',
+    'pickupPoints.confirmTitle': 'Embarque sem endereço',
+    'pickupPoints.confirmMessage': 'Seu embarque é apenas um par de coordenadas. O {appName} receberá a posição do pino sem endereço. Continuar mesmo assim?',
+    'pickupPoints.confirmLaunch': 'Continuar',
+    
+    // Quick places
+    'quickPlaces.home': 'Casa',
+    'quickPlaces.work': 'Trabalho',
+    'quickPlaces.set.home': 'Definir casa',
+    'quickPlaces.set.work': 'Definir trabalho',
+    'quickPlaces.suggested': 'Destinos sugeridos',
+    'quickPlaces.reason.usualTime': 'Você costuma ir aqui neste horário',
+    'quickPlaces.reason.usualDay': 'Você costuma ir aqui neste dia',
+    'quickPlaces.reason.fromHere': 'Você costuma ir aqui saindo desta região',
+    'quickPlaces.reason.savedRoute': 'Rota salva a partir daqui',
+    'quickPlaces.reason.goHome': 'Indo para casa?',
+    'quickPlaces.reason.goToWork': 'Indo para o trabalho?',
+    'quickPlaces.typeLabel': 'Tipo',
+    'quickPlaces.type.plain': 'Simples',
+    'quickPlaces.type.home': 'Casa',
+    'quickPlaces.type.work': 'Trabalho',
+    'quickPlaces.type.custom': 'Personalizado',
+    'quickPlaces.typeHint': 'Casa, trabalho e locais personalizados ganham um botão de um toque na tela inicial. Há apenas uma casa e um trabalho.',
+    
+    // Return trips
+    'returnTrip.swap': 'Inverter',
+    'returnTrip.returnTrip': 'Viagem de volta',
+    'returnTrip.roundTrip': 'Ida e volta',
+    'returnTrip.roundTripHint': 'Mostra o caminho de volta junto a esta rota nos seus favoritos.',
+    'returnTrip.wayBack': 'Volta',
+    'returnTrip.bannerTitle': 'Voltar para {address}?',
+    'returnTrip.bannerSubtitle': 'Onde sua corrida de {appName} buscou você às {time}',
+    'returnTrip.dismiss': 'Dispensar',
+    'returnTrip.filled': 'Viagem de volta preenchida',
+    
+    // Organizing favorites
+    'organize.folderLabel': 'Pasta',
+    'organize.folderPlaceholder': 'ex.: Família, Viagens de trabalho',
+    'organize.tagsLabel': 'Tags',
+    'organize.tagsPlaceholder': 'Separadas por vírgula, ex.: academia, fim de semana',
+    'organize.searchPlaceholder': 'Buscar locais, endereços ou tags',
+    'organize.clearSearch': 'Limpar busca',
+    'organize.sortBy': 'Ordenar:',
+    'organize.sort.name': 'Nome',
+    'organize.sort.mostUsed': 'Mais usados',
+    'organize.sort.recent': 'Recentes',
+    'organize.sort.distance': 'Mais próximos',
+    'organize.pinned': 'Fixados',
+    'organize.unfiled': 'Outros',
+    'organize.pin': 'Fixar no topo',
+    'organize.unpin': 'Desafixar',
+    'organize.dragHint': 'Arraste para reordenar',
+    'organize.usedTimes': 'Usado {count}×',
+    'organize.noResults': 'Nenhum favorito corresponde à busca',
+    
+    // Duplicates
+    'duplicates.placeExistsTitle': 'Já salvo',
+    'duplicates.placeExists': 'Este local já está salvo como “{name}”.',
+    'duplicates.routeExistsTitle': 'Rota já salva',
+    'duplicates.routeExists': 'Esta rota já está salva como “{name}”.',
+    'duplicates.saveAnyway': 'Salvar mesmo assim',
+    'duplicates.banner': 'Possíveis duplicados encontrados ({count})',
+    'duplicates.review': 'Revisar',
+    'duplicates.title': 'Mesclar Duplicados',
+    'duplicates.done': 'Concluir',
+    'duplicates.placesHelp': 'Estes locais salvos parecem ser o mesmo ponto. Escolha o nome e a localização a manter; tags e uso são combinados.',
+    'duplicates.routesHelp': 'Estas rotas salvas passam pelos mesmos pontos. Escolha o nome e a rota a manter; tags e uso são combinados.',
+    'duplicates.none': 'Nenhum duplicado encontrado',
+    'duplicates.groupTitle': '{count} itens',
+    'duplicates.keepName': 'Nome a manter',
+    'duplicates.keepLocation': 'Endereço e coordenadas a manter',
+    'duplicates.keepPoints': 'Rota a manter',
+    'duplicates.noCoordinates': 'sem coordenadas',
+    'duplicates.keepSeparate': 'Manter separados',
+    'duplicates.merge': 'Mesclar',
+    'duplicates.mergeError': 'Não foi possível mesclar estes itens',
+    
+    // Custom apps
+    'customApps.add': 'Adicionar app personalizado',
+    'customApps.customLabel': 'Personalizado',
+    'customApps.addTitle': 'Novo App Personalizado',
+    'customApps.editTitle': 'Editar App Personalizado',
+    'customApps.name': 'Nome',
+    'customApps.namePlaceholder': 'ex.: Táxi da Cidade',
+    'customApps.icon': 'Ícone',
+    'customApps.color': 'Cor',
+    'customApps.packageId': 'ID do pacote (opcional)',
+    'customApps.storeUrl': 'Link da loja (opcional)',
+    'customApps.template': 'Modelo de deep link',
+    'customApps.templateHint': 'Escreva o link do app com marcadores para a viagem, como {pickup.lat} ou {dropoff.address|urlencode}. Toque em um marcador abaixo para inseri-lo.',
+    'customApps.preview': 'Prévia',
+    'customApps.previewEmpty': 'Digite um modelo para ver o link',
+    'customApps.delete': 'Excluir app',
+    'customApps.deleteTitle': 'Excluir App Personalizado',
+    'customApps.deleteConfirm': 'Tem certeza de que deseja excluir "{name}"?',
+    'customApps.saveError': 'Não foi possível salvar este app',
+    'customApps.error.required': 'Este campo é obrigatório',
+    'customApps.error.invalidColor': 'Use uma cor hexadecimal como #0ea5e9',
+    'customApps.error.invalidStoreUrl': 'Use um link market://, itms-apps:// ou https://',
+    'customApps.error.empty': 'Digite o link que o app abre',
+    'customApps.error.missingScheme': 'O link precisa começar com um esquema, como taxi:// ou https://',
+    'customApps.error.unbalancedBraces': 'Falta o par de um { ou }',
+    'customApps.error.unknownPlaceholder': 'Marcador desconhecido: {token}',
+    'customApps.error.unknownFilter': 'Filtro desconhecido: {token}',
+    
+    // App order and preferences
+    'appManager.reorderHint': 'Arraste a alça para mudar a ordem na tela principal. Toque na estrela para tornar um app o seu preferido.',
+    'appManager.preferredApp': 'App preferido',
+    'appManager.setPreferred': 'Tornar app preferido',
+    'appManager.unsetPreferred': 'Remover app preferido',
+    'appManager.rideType': 'Tipo de corrida padrão',
+    'appManager.rideTypeSummary': 'Tipo de corrida: {rideType}',
+    'appManager.rideTypeIdPlaceholder': 'ID do produto',
+    'appManager.rideTypeIdHint': 'Os IDs de produto do {appName} mudam de cidade para cidade. Deixe em branco para o app escolher.',
+    'appManager.saveError': 'Não foi possível salvar as configurações dos apps',
+    
+    // Regions
+    'regions.notAvailableHere': 'Indisponível aqui',
+    'regions.title': 'Apps da Sua Região',
+    'regions.enableForMyRegion': 'Ativar apps da minha região',
+    'regions.locationNeeded': 'Permita o acesso à localização para o RideLink saber quais apps funcionam onde você está.',
+    'regions.locationError': 'Não foi possível encontrar sua localização atual',
+    'regions.noChanges': 'Seus apps já estão de acordo com sua região.',
+    'regions.willEnable': 'Ativar: {apps}',
+    'regions.willDisable': 'Desativar (indisponíveis aqui): {apps}',
+    'regions.apply': 'Aplicar',
+    
+    // Installed apps
+    'rideApp.installed': 'Instalado',
+    'rideApp.getApp': 'Baixar app',
+    
+    // Ride history
+    'history.title': 'Histórico',
+    'history.loading': 'Carregando histórico...',
+    'history.empty': 'Nenhuma corrida iniciada ainda',
+    'history.emptySubtitle': 'Sempre que você abrir um app de transporte pelo RideLink, a viagem aparecerá aqui',
+    'history.noMatches': 'Nenhuma viagem corresponde aos filtros',
+    'history.noMatchesSubtitle': 'Tente outro app ou um período maior',
+    'history.filterAllTime': 'Todo o período',
+    'history.filterToday': 'Hoje',
+    'history.filterWeek': 'Últimos 7 dias',
+    'history.filterMonth': 'Últimos 30 dias',
+    'history.filterAllApps': 'Todos os apps',
+    'history.outcomeOpened': 'Aberto',
+    'history.outcomeNotInstalled': 'Não instalado',
+    'history.outcomeStoreFallback': 'Loja',
+    'history.outcomeError': 'Erro',
+    'history.relaunch': 'Abrir novamente',
+    'history.routeFilled': '🔁 Viagem preenchida a partir do histórico',
+    'history.deleteEntry': 'Remover Viagem',
+    'history.deleteEntryConfirm': 'Remover esta viagem do histórico?',
+    'history.clearTitle': 'Limpar Histórico',
+    'history.clearConfirm': 'Isso removerá todas as viagens do seu histórico. Continuar?',
+    'history.clear': 'Limpar',
+    
+    // Fare comparison
+    'quotes.pickupEta': 'embarque em {minutes} min',
+    'quotes.tripSummary': '≈ {distance} km · viagem de {minutes} min',
+    'quotes.sort.default': 'Minha ordem',
+    'quotes.sort.cheapest': 'Mais barato',
+    'quotes.sort.fastest': 'Mais rápido',
+    'quotes.estimateDisclaimer': 'Preços e tempos de embarque são estimativas locais. O preço final é definido por cada app.',
+    'quotes.liveDisclaimer': 'Os preços vêm do serviço de preços e podem mudar no app.',
+    
+    // Geocoding
+    'geocoding.offlineResult': 'Resultado offline · salvo de uma busca anterior',
+    'geocoding.title': 'Busca de Endereços',
+    'geocoding.providerSection': 'Provedor de busca',
+    'geocoding.provider.google': 'Google Maps',
+    'geocoding.provider.googleDescription': 'Resultados precisos no mundo todo. Requer uma chave da API do Google Maps.',
+    'geocoding.provider.osm': 'OpenStreetMap',
+    'geocoding.provider.osmDescription': 'Dados abertos e gratuitos via Photon e Nominatim. Não precisa de chave de API.',
+    'geocoding.selfHosted': 'Servidores próprios',
+    'geocoding.selfHostedDescription': 'Use suas próprias instâncias do Nominatim e do Photon, como um servidor local. Deixe em branco para usar os servidores públicos.',
+    'geocoding.nominatimUrl': 'URL do Nominatim (detalhes e localização atual)',
+    'geocoding.photonUrl': 'URL do Photon (sugestões de busca)',
+    'geocoding.save': 'Salvar',
+    'geocoding.invalidUrl': 'As URLs dos servidores devem começar com http:// ou https://',
+    'geocoding.saveError': 'Não foi possível salvar as configurações de busca. Tente novamente.',
+    'geocoding.note': 'Os servidores públicos do OpenStreetMap têm limites de uso rígidos. Para uso intenso, hospede sua própria instância.',
+    
+    // Multi-stop trips
+    'stops.label': 'Parada {number}',
+    'stops.placeholder': 'Onde o motorista deve parar?',
+    'stops.add': 'Adicionar parada',
+    'stops.moveUp': 'Mover parada para cima',
+    'stops.moveDown': 'Mover parada para baixo',
+    'stops.remove': 'Remover parada',
+    'stops.emptyStop': 'Preencha todas as paradas ou remova as vazias.',
+    'stops.firstLegOnlyTitle': '{appName} não aceita várias paradas',
+    'stops.firstLegOnlyMessage': '{appName} vai abrir só com o primeiro trecho da viagem, terminando em {stop}. Peça o próximo trecho quando chegar lá.',
+    'stops.openFirstLeg': 'Abrir primeiro trecho',
+    'stops.firstLegNotice': '{apps} não aceitam paradas e vão abrir só com o primeiro trecho.',
+    
+    // Scheduled rides
+    'scheduledRides.title': 'Agendar Corrida',
+    'scheduledRides.scheduleRide': 'Agendar corrida',
+    'scheduledRides.scheduleForLater': 'Agendar para depois',
+    'scheduledRides.upcomingTitle': 'Próximas corridas',
+    'scheduledRides.nameLabel': 'Nome',
+    'scheduledRides.namePlaceholder': 'ex: Ida ao trabalho',
+    'scheduledRides.dateLabel': 'Dia',
+    'scheduledRides.timeLabel': 'Horário',
+    'scheduledRides.repeatLabel': 'Repetir',
+    'scheduledRides.today': 'Hoje',
+    'scheduledRides.tomorrow': 'Amanhã',
+    'scheduledRides.recurrence.none': 'Uma vez',
+    'scheduledRides.recurrence.weekdays': 'Dias úteis',
+    'scheduledRides.recurrence.weekly': 'Semanal',
+    'scheduledRides.preferredAppLabel': 'App preferido',
+    'scheduledRides.anyApp': 'Qualquer',
+    'scheduledRides.plannedApp': 'App planejado',
+    'scheduledRides.reminderHelp': 'Você receberá um lembrete no horário escolhido. Toque nele para abrir o RideLink com esta rota pronta.',
+    'scheduledRides.webReminderHelp': 'Lembretes precisam do app no celular. A corrida ainda aparecerá nos Favoritos.',
+    'scheduledRides.reminderTitle': 'Hora da corrida: {name}',
+    'scheduledRides.reminderBody': 'Toque para pedir sua corrida até {destination}',
+    'scheduledRides.pastTime': 'Escolha um horário no futuro',
+    'scheduledRides.saved': '"{name}" agendada',
+    'scheduledRides.saveError': 'Falha ao agendar corrida',
+    'scheduledRides.deleteTitle': 'Cancelar Corrida Agendada',
+    'scheduledRides.deleteConfirm': 'Cancelar "{name}" e seus lembretes?',
+    'scheduledRides.deleteError': 'Falha ao cancelar corrida agendada',
+    'scheduledRides.routeFilled': '⏰ Rota preenchida a partir da corrida agendada',
+    
+    // Cloud sync
+    'sync.title': 'Sincronização na Nuvem',
+    'sync.unavailable': 'Entre com uma conta RideLink para sincronizar favoritos entre dispositivos',
+    'sync.syncing': 'Sincronizando...',
+    'sync.pending': '{count} alterações aguardando sincronização. Toque para sincronizar',
+    'sync.failed': 'A última sincronização falhou, {count} alterações aguardando. Toque para tentar de novo',
+    'sync.lastSynced': 'Sincronizado em {time}. Toque para sincronizar',
+    'sync.never': 'Ainda não sincronizado. Toque para sincronizar',
+    
+    // Import and export
+    'transfer.title': 'Importar e Exportar',
+    'transfer.exportTitle': 'Exportar',
+    'transfer.exportHelp': 'RideLink JSON mantém tudo. GPX abre em apps de mapa e precisa de coordenadas. CSV abre em planilhas.',
+    'transfer.format.json': 'RideLink JSON',
+    'transfer.format.gpx': 'GPX',
+    'transfer.format.csv': 'CSV',
+    'transfer.includePlaces': 'Locais ({count})',
+    'transfer.includeRoutes': 'Rotas ({count})',
+    'transfer.exportButton': 'Exportar arquivo',
+    'transfer.shareTitle': 'Compartilhar locais salvos',
+    'transfer.nothingToExport': 'Ainda não há nada para exportar.',
+    'transfer.skipped': '{count} itens sem coordenadas ficaram fora do arquivo GPX.',
+    'transfer.exportError': 'Não foi possível exportar o arquivo. Tente novamente.',
+    'transfer.importTitle': 'Importar',
+    'transfer.importHelp': 'Escolha um arquivo RideLink JSON, GPX ou CSV. Você pode revisar tudo antes de salvar.',
+    'transfer.chooseFile': 'Escolher arquivo',
+    'transfer.readError': 'Não foi possível ler o arquivo.',
+    'transfer.previewSummary': '{new} novos, {duplicates} já salvos',
+    'transfer.new': 'Novo',
+    'transfer.duplicateOf': 'Já salvo como “{name}”',
+    'transfer.errorsTitle': 'Itens ignorados ({count})',
+    'transfer.location.file': 'Arquivo',
+    'transfer.location.line': 'Linha {index}',
+    'transfer.location.place': 'Local {index}',
+    'transfer.location.route': 'Rota {index}',
+    'transfer.error.unreadableFile': 'Não foi possível ler o arquivo',
+    'transfer.error.unsupportedFormat': 'Este não é um arquivo RideLink, GPX ou CSV',
+    'transfer.error.unsupportedVersion': 'O arquivo foi criado por uma versão mais nova do RideLink',
+    'transfer.error.invalidEntry': 'A entrada não é um lugar nem um ponto',
+    'transfer.error.missingColumns': 'O cabeçalho precisa de uma coluna name e de address ou latitude/longitude',
+    'transfer.error.missingName': 'Nome ausente',
+    'transfer.error.missingAddress': 'Endereço ausente',
+    'transfer.error.invalidCoordinates': 'Latitude ou longitude inválida',
+    'transfer.error.incompleteRoute': 'A rota precisa de partida e destino',
+    'transfer.error.unknownKind': 'O tipo deve ser place ou route',
+    'transfer.importButton': 'Importar {count}',
+    'transfer.imported': '{places} locais e {routes} rotas importados.',
+    'transfer.importError': 'Não foi possível salvar os itens importados. Tente novamente.',
   },
   
   es: {
@@ -486,6 +1118,7 @@ const translations: Record<Language, Record<string, string>> = {
     'nav.rideLauncher': 'Lanzador de Viajes',
     'nav.favorites': 'Favoritos',
     'nav.profile': 'Perfil',
+    'nav.history': 'Historial',
     'nav.settings': 'Configuración',
     
     // Main Screen
@@ -524,6 +1157,7 @@ const translations: Record<Language, Record<string, string>> = {
     'alert.openBrowser': 'Abrir Navegador',
     'alert.openSettings': 'Abrir Configuración',
     'alert.openPlayStore': 'Abrir Play Store',
+    'alert.openAppStore': 'Abrir App Store',
     
     // Favorites Screen
     'favorites.title': 'Favoritos',
@@ -612,7 +1246,7 @@ const translations: Record<Language, Record<string, string>> = {
     'appManager.note': '📱 Instalación Requerida',
     'appManager.noteDescription': 'Las apps deben estar instaladas en tu dispositivo para funcionar. Si una app no está instalada, serás redirigido a la tienda de apps.',
     'appManager.resetTitle': 'Restaurar Valores Predeterminados',
-    'appManager.resetConfirm': 'Esto restaurará todas las preferencias de apps a la configuración predeterminada. ¿Continuar?',
+    'appManager.resetConfirm': 'Esto restaurará todas las preferencias de apps a la configuración predeterminada. Tus apps personalizadas se conservan. ¿Continuar?',
     'appManager.reset': 'Restaurar',
     'appManager.noAppsEnabled': 'No Hay Apps Habilitadas',
     'appManager.enableAppsInSettings': 'Ve a Configuración > Gestionar Apps Integradas para habilitar apps de transporte.',
@@ -662,5 +1296,319 @@ const translations: Record<Language, Record<string, string>> = {
     'rideApp.appNotAvailable': 'App No Disponible',
     'rideApp.notAvailableMessage': 'no está disponible en este dispositivo.',
     'rideApp.errorOpening': 'No se pudo abrir la app. Inténtalo de nuevo.',
+    
+    // Deep links
+    'deepLink.routeFilled': '🔗 Ruta completada desde un enlace de RideLink',
+    'deepLink.incompleteRoute': 'El enlace pidió abrir {appName}, pero la recogida y el destino necesitan coordenadas. Selecciona las direcciones e inténtalo de nuevo.',
+    
+    // Share trip
+    'shareTrip.title': 'Compartir Viaje',
+    'shareTrip.shareButton': 'Compartir viaje',
+    'shareTrip.share': 'Compartir',
+    'shareTrip.webLink': 'Enlace web',
+    'shareTrip.appLink': 'Enlace de la app (RideLink instalado)',
+    'shareTrip.copy': 'Copiar',
+    'shareTrip.copied': 'Copiado',
+    'shareTrip.scanHint': 'Escanea con la cámara del teléfono para abrir este viaje',
+    'shareTrip.appScanHint': 'Escanea en un teléfono con RideLink instalado',
+    'shareTrip.message': '{name} en RideLink: {url}',
+    'shareTrip.stopsTrimmed': 'Solo las primeras {count} paradas caben en un enlace compartido.',
+    'shareTrip.linkCopied': 'El enlace se copió al portapapeles.',
+    'shareTrip.copyFailed': 'No se pudo compartir ni copiar el enlace. Selecciónalo abajo para copiarlo.',
+    
+    // Trip map
+    'map.title': 'Mapa',
+    'map.pickup': 'Origen',
+    'map.destination': 'Destino',
+    'map.longPressTarget': 'Mantener pulsado fija:',
+    'map.longPressTargetWeb': 'Clic derecho o mantener pulsado fija:',
+    'map.resolving': 'Buscando dirección...',
+    'map.notSet': 'Sin definir',
+    'map.dragHint': 'Arrastra un marcador para ajustar el punto exacto de recogida. La dirección se actualiza a la nueva posición.',
+    'map.unavailable': 'El mapa necesita una clave de Google Maps en Android. Define GOOGLE_MAPS_ANDROID_API_KEY al compilar la app.',
+    
+    // Pickup points
+    'pickupPoints.title': 'Puntos de recogida más fáciles cerca',
+    'pickupPoints.find': 'Buscar puntos de recogida cercanos',
+    'pickupPoints.searching': 'Buscando puntos de recogida cercanos...',
+    'pickupPoints.none': 'No se encontró un punto de recogida mejor cerca',
+    'pickupPoints.accuracy': 'Precisión del GPS ±{meters} m',
+    'pickupPoints.lowAccuracy': 'Tu ubicación tiene una precisión peor que {meters} m. Revisa la recogida o elige uno de los puntos de abajo.',
+    'pickupPoints.coordinatesOnly': 'No se encontró una dirección para esta recogida, solo coordenadas. El conductor verá un pin sin dirección.',
+    'pickupPoints.distance': '{meters} m',
+    'pickupPoints.kind.zone': 'Zona de recogida',
+    'pickupPoints.kind.entrance': 'Entrada',
+    'pickupPoints.kind.street': 'Dirección',
+    'pickupPoints.confirmTitle': 'Recogida sin dirección',
+    'pickupPoints.confirmMessage': 'Tu recogida es solo un par de coordenadas. {appName} recibirá la posición del pin sin dirección. ¿Continuar de todos modos?',
+    'pickupPoints.confirmLaunch': 'Continuar',
+    
+    // Quick places
+    'quickPlaces.home': 'Casa',
+    'quickPlaces.work': 'Trabajo',
+    'quickPlaces.set.home': 'Definir casa',
+    'quickPlaces.set.work': 'Definir trabajo',
+    'quickPlaces.suggested': 'Destinos sugeridos',
+    'quickPlaces.reason.usualTime': 'Sueles ir aquí a esta hora',
+    'quickPlaces.reason.usualDay': 'Sueles ir aquí este día',
+    'quickPlaces.reason.fromHere': 'Sueles ir aquí desde esta zona',
+    'quickPlaces.reason.savedRoute': 'Ruta guardada desde aquí',
+    'quickPlaces.reason.goHome': '¿Vuelves a casa?',
+    'quickPlaces.reason.goToWork': '¿Vas al trabajo?',
+    'quickPlaces.typeLabel': 'Tipo',
+    'quickPlaces.type.plain': 'Simple',
+    'quickPlaces.type.home': 'Casa',
+    'quickPlaces.type.work': 'Trabajo',
+    'quickPlaces.type.custom': 'Personalizado',
+    'quickPlaces.typeHint': 'Casa, trabajo y lugares personalizados tienen un botón de un toque en el inicio. Solo hay una casa y un trabajo.',
+    
+    // Return trips
+    'returnTrip.swap': 'Invertir',
+    'returnTrip.returnTrip': 'Viaje de vuelta',
+    'returnTrip.roundTrip': 'Ida y vuelta',
+    'returnTrip.roundTripHint': 'Muestra el camino de vuelta junto a esta ruta en tus favoritos.',
+    'returnTrip.wayBack': 'Vuelta',
+    'returnTrip.bannerTitle': '¿Volver a {address}?',
+    'returnTrip.bannerSubtitle': 'Donde tu viaje de {appName} te recogió a las {time}',
+    'returnTrip.dismiss': 'Descartar',
+    'returnTrip.filled': 'Viaje de vuelta completado',
+    
+    // Organizing favorites
+    'organize.folderLabel': 'Carpeta',
+    'organize.folderPlaceholder': 'p. ej.: Familia, Viajes de trabajo',
+    'organize.tagsLabel': 'Etiquetas',
+    'organize.tagsPlaceholder': 'Separadas por comas, p. ej.: gimnasio, fin de semana',
+    'organize.searchPlaceholder': 'Buscar lugares, direcciones o etiquetas',
+    'organize.clearSearch': 'Borrar búsqueda',
+    'organize.sortBy': 'Ordenar:',
+    'organize.sort.name': 'Nombre',
+    'organize.sort.mostUsed': 'Más usados',
+    'organize.sort.recent': 'Recientes',
+    'organize.sort.distance': 'Más cercanos',
+    'organize.pinned': 'Fijados',
+    'organize.unfiled': 'Otros',
+    'organize.pin': 'Fijar arriba',
+    'organize.unpin': 'Desfijar',
+    'organize.dragHint': 'Arrastra para reordenar',
+    'organize.usedTimes': 'Usado {count}×',
+    'organize.noResults': 'Ningún favorito coincide con la búsqueda',
+    
+    // Duplicates
+    'duplicates.placeExistsTitle': 'Ya guardado',
+    'duplicates.placeExists': 'Este lugar ya está guardado como “{name}”.',
+    'duplicates.routeExistsTitle': 'Ruta ya guardada',
+    'duplicates.routeExists': 'Esta ruta ya está guardada como “{name}”.',
+    'duplicates.saveAnyway': 'Guardar de todos modos',
+    'duplicates.banner': 'Posibles duplicados encontrados ({count})',
+    'duplicates.review': 'Revisar',
+    'duplicates.title': 'Combinar Duplicados',
+    'duplicates.done': 'Listo',
+    'duplicates.placesHelp': 'Estos lugares guardados parecen ser el mismo punto. Elige el nombre y la ubicación a conservar; las etiquetas y el uso se combinan.',
+    'duplicates.routesHelp': 'Estas rutas guardadas pasan por los mismos puntos. Elige el nombre y la ruta a conservar; las etiquetas y el uso se combinan.',
+    'duplicates.none': 'No se encontraron duplicados',
+    'duplicates.groupTitle': '{count} elementos',
+    'duplicates.keepName': 'Nombre a conservar',
+    'duplicates.keepLocation': 'Dirección y coordenadas a conservar',
+    'duplicates.keepPoints': 'Ruta a conservar',
+    'duplicates.noCoordinates': 'sin coordenadas',
+    'duplicates.keepSeparate': 'Mantener separados',
+    'duplicates.merge': 'Combinar',
+    'duplicates.mergeError': 'No se pudieron combinar estos elementos',
+    
+    // Custom apps
+    'customApps.add': 'Agregar app personalizada',
+    'customApps.customLabel': 'Personalizada',
+    'customApps.addTitle': 'Nueva App Personalizada',
+    'customApps.editTitle': 'Editar App Personalizada',
+    'customApps.name': 'Nombre',
+    'customApps.namePlaceholder': 'ej.: Taxi de la Ciudad',
+    'customApps.icon': 'Ícono',
+    'customApps.color': 'Color',
+    'customApps.packageId': 'ID del paquete (opcional)',
+    'customApps.storeUrl': 'Enlace de la tienda (opcional)',
+    'customApps.template': 'Plantilla de deep link',
+    'customApps.templateHint': 'Escribe el enlace de la app con marcadores para el viaje, como {pickup.lat} o {dropoff.address|urlencode}. Toca un marcador abajo para insertarlo.',
+    'customApps.preview': 'Vista previa',
+    'customApps.previewEmpty': 'Escribe una plantilla para ver el enlace',
+    'customApps.delete': 'Eliminar app',
+    'customApps.deleteTitle': 'Eliminar App Personalizada',
+    'customApps.deleteConfirm': '¿Seguro que quieres eliminar "{name}"?',
+    'customApps.saveError': 'No se pudo guardar esta app',
+    'customApps.error.required': 'Este campo es obligatorio',
+    'customApps.error.invalidColor': 'Usa un color hexadecimal como #0ea5e9',
+    'customApps.error.invalidStoreUrl': 'Usa un enlace market://, itms-apps:// o https://',
+    'customApps.error.empty': 'Escribe el enlace que abre la app',
+    'customApps.error.missingScheme': 'El enlace debe empezar con un esquema, como taxi:// o https://',
+    'customApps.error.unbalancedBraces': 'Falta el par de una { o }',
+    'customApps.error.unknownPlaceholder': 'Marcador desconocido: {token}',
+    'customApps.error.unknownFilter': 'Filtro desconocido: {token}',
+    
+    // App order and preferences
+    'appManager.reorderHint': 'Arrastra el asa para cambiar el orden en la pantalla principal. Toca la estrella para hacer de una app tu preferida.',
+    'appManager.preferredApp': 'App preferida',
+    'appManager.setPreferred': 'Hacer app preferida',
+    'appManager.unsetPreferred': 'Quitar app preferida',
+    'appManager.rideType': 'Tipo de viaje predeterminado',
+    'appManager.rideTypeSummary': 'Tipo de viaje: {rideType}',
+    'appManager.rideTypeIdPlaceholder': 'ID del producto',
+    'appManager.rideTypeIdHint': 'Los IDs de producto de {appName} cambian según la ciudad. Déjalo vacío para que la app elija.',
+    'appManager.saveError': 'No se pudo guardar la configuración de las apps',
+    
+    // Regions
+    'regions.notAvailableHere': 'No disponible aquí',
+    'regions.title': 'Apps de Tu Región',
+    'regions.enableForMyRegion': 'Activar apps de mi región',
+    'regions.locationNeeded': 'Permite el acceso a la ubicación para que RideLink sepa qué apps funcionan donde estás.',
+    'regions.locationError': 'No se pudo encontrar tu ubicación actual',
+    'regions.noChanges': 'Tus apps ya coinciden con tu región.',
+    'regions.willEnable': 'Activar: {apps}',
+    'regions.willDisable': 'Desactivar (no disponibles aquí): {apps}',
+    'regions.apply': 'Aplicar',
+    
+    // Installed apps
+    'rideApp.installed': 'Instalada',
+    'rideApp.getApp': 'Descargar app',
+    
+    // Ride history
+    'history.title': 'Historial',
+    'history.loading': 'Cargando historial...',
+    'history.empty': 'Aún no has iniciado viajes',
+    'history.emptySubtitle': 'Cada vez que abras una app de transporte desde RideLink, el viaje aparecerá aquí',
+    'history.noMatches': 'Ningún viaje coincide con los filtros',
+    'history.noMatchesSubtitle': 'Prueba otra app o un período más largo',
+    'history.filterAllTime': 'Todo el tiempo',
+    'history.filterToday': 'Hoy',
+    'history.filterWeek': 'Últimos 7 días',
+    'history.filterMonth': 'Últimos 30 días',
+    'history.filterAllApps': 'Todas las apps',
+    'history.outcomeOpened': 'Abierta',
+    'history.outcomeNotInstalled': 'No instalada',
+    'history.outcomeStoreFallback': 'Tienda',
+    'history.outcomeError': 'Error',
+    'history.relaunch': 'Abrir de nuevo',
+    'history.routeFilled': '🔁 Viaje completado desde tu historial',
+    'history.deleteEntry': 'Eliminar Viaje',
+    'history.deleteEntryConfirm': '¿Eliminar este viaje de tu historial?',
+    'history.clearTitle': 'Borrar Historial',
+    'history.clearConfirm': 'Esto eliminará todos los viajes de tu historial. ¿Continuar?',
+    'history.clear': 'Borrar',
+    
+    // Fare comparison
+    'quotes.pickupEta': 'recogida en {minutes} min',
+    'quotes.tripSummary': '≈ {distance} km · viaje de {minutes} min',
+    'quotes.sort.default': 'Mi orden',
+    'quotes.sort.cheapest': 'Más barato',
+    'quotes.sort.fastest': 'Más rápido',
+    'quotes.estimateDisclaimer': 'Las tarifas y tiempos de recogida son estimaciones locales. El precio final lo fija cada app.',
+    'quotes.liveDisclaimer': 'Las tarifas vienen del servicio de precios y pueden cambiar en la app.',
+    
+    // Geocoding
+    'geocoding.offlineResult': 'Resultado sin conexión · guardado de una búsqueda anterior',
+    'geocoding.title': 'Búsqueda de Direcciones',
+    'geocoding.providerSection': 'Proveedor de búsqueda',
+    'geocoding.provider.google': 'Google Maps',
+    'geocoding.provider.googleDescription': 'Resultados precisos en todo el mundo. Requiere una clave de API de Google Maps.',
+    'geocoding.provider.osm': 'OpenStreetMap',
+    'geocoding.provider.osmDescription': 'Datos abiertos y gratuitos mediante Photon y Nominatim. No necesita clave de API.',
+    'geocoding.selfHosted': 'Servidores propios',
+    'geocoding.selfHostedDescription': 'Usa tus propias instancias de Nominatim y Photon, como un servidor local. Déjalo en blanco para usar los servidores públicos.',
+    'geocoding.nominatimUrl': 'URL de Nominatim (detalles y ubicación actual)',
+    'geocoding.photonUrl': 'URL de Photon (sugerencias de búsqueda)',
+    'geocoding.save': 'Guardar',
+    'geocoding.invalidUrl': 'Las URL de los servidores deben comenzar con http:// o https://',
+    'geocoding.saveError': 'No se pudo guardar la configuración de búsqueda. Inténtalo de nuevo.',
+    'geocoding.note': 'Los servidores públicos de OpenStreetMap tienen límites de uso estrictos. Para un uso intensivo, aloja tu propia instancia.',
+    
+    // Multi-stop trips
+    'stops.label': 'Parada {number}',
+    'stops.placeholder': '¿Dónde debe parar el conductor?',
+    'stops.add': 'Agregar parada',
+    'stops.moveUp': 'Subir parada',
+    'stops.moveDown': 'Bajar parada',
+    'stops.remove': 'Quitar parada',
+    'stops.emptyStop': 'Completa todas las paradas o quita las vacías.',
+    'stops.firstLegOnlyTitle': '{appName} no admite varias paradas',
+    'stops.firstLegOnlyMessage': '{appName} se abrirá solo con el primer tramo del viaje, que termina en {stop}. Pide el siguiente tramo cuando llegues.',
+    'stops.openFirstLeg': 'Abrir primer tramo',
+    'stops.firstLegNotice': '{apps} no admiten paradas y se abrirán solo con el primer tramo.',
+    
+    // Scheduled rides
+    'scheduledRides.title': 'Programar Viaje',
+    'scheduledRides.scheduleRide': 'Programar viaje',
+    'scheduledRides.scheduleForLater': 'Programar para después',
+    'scheduledRides.upcomingTitle': 'Próximos viajes',
+    'scheduledRides.nameLabel': 'Nombre',
+    'scheduledRides.namePlaceholder': 'ej: Ida al trabajo',
+    'scheduledRides.dateLabel': 'Día',
+    'scheduledRides.timeLabel': 'Hora',
+    'scheduledRides.repeatLabel': 'Repetir',
+    'scheduledRides.today': 'Hoy',
+    'scheduledRides.tomorrow': 'Mañana',
+    'scheduledRides.recurrence.none': 'Una vez',
+    'scheduledRides.recurrence.weekdays': 'Días laborables',
+    'scheduledRides.recurrence.weekly': 'Semanal',
+    'scheduledRides.preferredAppLabel': 'App preferida',
+    'scheduledRides.anyApp': 'Cualquiera',
+    'scheduledRides.plannedApp': 'App planeada',
+    'scheduledRides.reminderHelp': 'Recibirás un recordatorio a la hora elegida. Tócalo para abrir RideLink con esta ruta lista.',
+    'scheduledRides.webReminderHelp': 'Los recordatorios necesitan la app móvil. El viaje seguirá apareciendo en Favoritos.',
+    'scheduledRides.reminderTitle': 'Hora de viajar: {name}',
+    'scheduledRides.reminderBody': 'Toca para pedir tu viaje a {destination}',
+    'scheduledRides.pastTime': 'Elige una hora en el futuro',
+    'scheduledRides.saved': '"{name}" programado',
+    'scheduledRides.saveError': 'Error al programar el viaje',
+    'scheduledRides.deleteTitle': 'Cancelar Viaje Programado',
+    'scheduledRides.deleteConfirm': '¿Cancelar "{name}" y sus recordatorios?',
+    'scheduledRides.deleteError': 'Error al cancelar el viaje programado',
+    'scheduledRides.routeFilled': '⏰ Ruta completada desde tu viaje programado',
+    
+    // Cloud sync
+    'sync.title': 'Sincronización en la Nube',
+    'sync.unavailable': 'Inicia sesión con una cuenta RideLink para sincronizar favoritos entre dispositivos',
+    'sync.syncing': 'Sincronizando...',
+    'sync.pending': '{count} cambios pendientes de sincronizar. Toca para sincronizar',
+    'sync.failed': 'La última sincronización falló, {count} cambios pendientes. Toca para reintentar',
+    'sync.lastSynced': 'Sincronizado el {time}. Toca para sincronizar',
+    'sync.never': 'Aún sin sincronizar. Toca para sincronizar',
+    
+    // Import and export
+    'transfer.title': 'Importar y Exportar',
+    'transfer.exportTitle': 'Exportar',
+    'transfer.exportHelp': 'RideLink JSON conserva todo. GPX se abre en apps de mapas y necesita coordenadas. CSV se abre en hojas de cálculo.',
+    'transfer.format.json': 'RideLink JSON',
+    'transfer.format.gpx': 'GPX',
+    'transfer.format.csv': 'CSV',
+    'transfer.includePlaces': 'Lugares ({count})',
+    'transfer.includeRoutes': 'Rutas ({count})',
+    'transfer.exportButton': 'Exportar archivo',
+    'transfer.shareTitle': 'Compartir lugares guardados',
+    'transfer.nothingToExport': 'Todavía no hay nada para exportar.',
+    'transfer.skipped': '{count} elementos sin coordenadas quedaron fuera del archivo GPX.',
+    'transfer.exportError': 'No se pudo exportar el archivo. Inténtalo de nuevo.',
+    'transfer.importTitle': 'Importar',
+    'transfer.importHelp': 'Elige un archivo RideLink JSON, GPX o CSV. Puedes revisar todo antes de guardarlo.',
+    'transfer.chooseFile': 'Elegir archivo',
+    'transfer.readError': 'No se pudo leer el archivo.',
+    'transfer.previewSummary': '{new} nuevos, {duplicates} ya guardados',
+    'transfer.new': 'Nuevo',
+    'transfer.duplicateOf': 'Ya guardado como “{name}”',
+    'transfer.errorsTitle': 'Elementos omitidos ({count})',
+    'transfer.location.file': 'Archivo',
+    'transfer.location.line': 'Línea {index}',
+    'transfer.location.place': 'Lugar {index}',
+    'transfer.location.route': 'Ruta {index}',
+    'transfer.error.unreadableFile': 'No se pudo leer el archivo',
+    'transfer.error.unsupportedFormat': 'No es un archivo RideLink, GPX o CSV',
+    'transfer.error.unsupportedVersion': 'El archivo fue creado por una versión más nueva de RideLink',
+    'transfer.error.invalidEntry': 'La entrada no es un lugar ni un punto',
+    'transfer.error.missingColumns': 'El encabezado necesita una columna name y address o latitude/longitude',
+    'transfer.error.missingName': 'Falta el nombre',
+    'transfer.error.missingAddress': 'Falta la dirección',
+    'transfer.error.invalidCoordinates': 'Latitud o longitud no válida',
+    'transfer.error.incompleteRoute': 'La ruta necesita origen y destino',
+    'transfer.error.unknownKind': 'El tipo debe ser place o route',
+    'transfer.importButton': 'Importar {count}',
+    'transfer.imported': 'Se importaron {places} lugares y {routes} rutas.',
+    'transfer.importError': 'No se pudieron guardar los elementos importados. Inténtalo de nuevo.',
   },
 };
\ No newline at end of file
@@ -1,122 +1,47 @@
 import { useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { USER_STORAGE_KEYS, userStorageKey } from '@/services/userStorage';
+import {
+  RIDE_PROVIDERS,
+  BUNDLED_APP_REGIONS,
+  AppRegions,
+  RideAppConfig,
+  RegionQuery,
+  CustomRideAppDefinition,
+  createCustomAppId,
+  customAppConfig,
+  customAppDefinition,
+  loadAppRegions,
+  regionChanges,
+} from '@/services/rideProviders';
+import { SyncCollectionAdapter, queueSyncChanges, queueSyncDeletions } from '@/services/sync';
 
-export interface RideAppConfig {
+export type { RideAppConfig };
+
+const withRegions = (apps: RideAppConfig[], regions: Record<string, AppRegions>) =>
+  apps.map(app => (regions[app.id] ? { ...app, regions: regions[app.id] } : app));
+
+// Until the region list is loaded, built-in apps use the bundled regions
+const DEFAULT_RIDE_APPS: RideAppConfig[] = withRegions(
+  RIDE_PROVIDERS.map(provider => provider.config),
+  BUNDLED_APP_REGIONS
+);
+
+const APP_MANAGER_STORAGE_KEY = USER_STORAGE_KEYS.appManager;
+
+// What gets stored (and synced) per app; everything else comes from the provider.
+// Custom apps carry their whole definition.
+interface AppPreference {
   id: string;
-  name: string;
-  icon: string;
-  color: string;
-  packageId: string;
   enabled: boolean;
-  deepLinkScheme: string;
-  playStoreUrl: string;
+  // Place in the rider's order; apps saved before reordering existed have none
+  position?: number;
+  preferred?: boolean;
+  rideType?: string;
+  custom?: CustomRideAppDefinition;
+  updatedAt?: Date;
 }
 
-const DEFAULT_RIDE_APPS: RideAppConfig[] = [
-  {
-    id: 'uber',
-    name: 'Uber',
-    icon: '🚗',
-    color: '#000000',
-    packageId: 'com.ubercab',
-    enabled: true,
-    deepLinkScheme: 'uber',
-    playStoreUrl: 'market://details?id=com.ubercab',
-  },
-  {
-    id: '99',
-    name: '99',
-    icon: '🟡',
-    color: '#ffd700',
-    packageId: 'com.taxis99',
-    enabled: true,
-    deepLinkScheme: 'taxis99',
-    playStoreUrl: 'market://details?id=com.taxis99',
-  },
-  {
-    id: 'lyft',
-    name: 'Lyft',
-    icon: '🟣',
-    color: '#ff00bf',
-    packageId: 'com.lyft',
-    enabled: true,
-    deepLinkScheme: 'lyft',
-    playStoreUrl: 'market://details?id=com.lyft',
-  },
-  {
-    id: 'taxirio',
-    name: 'Taxi.Rio',
-    icon: '🚕',
-    color: '#ff6b35',
-    packageId: 'br.gov.rj.taxi.rio.passenger',
-    enabled: false,
-    deepLinkScheme: 'br.gov.rj.taxi.rio.passenger',
-    playStoreUrl: 'market://details?id=br.gov.rj.taxi.rio.passenger',
-  },
-  {
-    id: 'indriver',
-    name: 'inDriver',
-    icon: '🔵',
-    color: '#1e40af',
-    packageId: 'sinet.startup.inDriver',
-    enabled: false,
-    deepLinkScheme: 'indriver',
-    playStoreUrl: 'market://details?id=sinet.startup.inDriver',
-  },
-  {
-    id: 'bolt',
-    name: 'Bolt',
-    icon: '⚡',
-    color: '#34d399',
-    packageId: 'ee.mtakso.client',
-    enabled: false,
-    deepLinkScheme: 'bolt',
-    playStoreUrl: 'market://details?id=ee.mtakso.client',
-  },
-  {
-    id: 'grab',
-    name: 'Grab',
-    icon: '🟢',
-    color: '#00b14f',
-    packageId: 'com.grabtaxi.passenger',
-    enabled: false,
-    deepLinkScheme: 'grab',
-    playStoreUrl: 'market://details?id=com.grabtaxi.passenger',
-  },
-  {
-    id: 'careem',
-    name: 'Careem',
-    icon: '🟤',
-    color: '#8b5a2b',
-    packageId: 'com.careem.acma',
-    enabled: false,
-    deepLinkScheme: 'careem',
-    playStoreUrl: 'market://details?id=com.careem.acma',
-  },
-  {
-    id: 'ola',
-    name: 'Ola',
-    icon: '🟠',
-    color: '#f97316',
-    packageId: 'com.olacabs.customer',
-    enabled: false,
-    deepLinkScheme: 'olacabs',
-    playStoreUrl: 'market://details?id=com.olacabs.customer',
-  },
-  {
-    id: 'yandex',
-    name: 'Yandex Go',
-    icon: '🔴',
-    color: '#dc2626',
-    packageId: 'ru.yandex.taxi',
-    enabled: false,
-    deepLinkScheme: 'yandextaxi',
-    playStoreUrl: 'market://details?id=ru.yandex.taxi',
-  },
-];
-
-const APP_MANAGER_STORAGE_KEY = 'ridelink_app_manager_config';
-
 // Create a simple event emitter for app config changes
 class AppConfigEventEmitter {
   private listeners: (() => void)[] = [];
@@ -135,6 +60,33 @@ class AppConfigEventEmitter {
 
 const appConfigEmitter = new AppConfigEventEmitter();
 
+export const appPreferencesSyncCollection: SyncCollectionAdapter = {
+  storageKey: APP_MANAGER_STORAGE_KEY,
+  onChange: () => appConfigEmitter.emit(),
+};
+
+const readAppPreferences = async (): Promise<AppPreference[]> => {
+  const stored = await AsyncStorage.getItem(userStorageKey(APP_MANAGER_STORAGE_KEY));
+  return stored ? JSON.parse(stored) : [];
+};
+
+// Rider settings kept per app on top of the provider's config
+const storedSettings = (pref: AppPreference): Partial<RideAppConfig> => ({
+  enabled: pref.enabled,
+  preferred: pref.preferred,
+  rideType: pref.rideType,
+});
+
+// Apps without a stored position keep their place in the default order
+const sortByPosition = (apps: RideAppConfig[], preferences: AppPreference[]) => {
+  const positionOf = (app: RideAppConfig, index: number) =>
+    preferences.find(pref => pref.id === app.id)?.position ?? index;
+  return apps
+    .map((app, index) => ({ app, position: positionOf(app, index) }))
+    .sort((a, b) => a.position - b.position)
+    .map(({ app }) => app);
+};
+
 export function useAppManager() {
   const [rideApps, setRideApps] = useState<RideAppConfig[]>(DEFAULT_RIDE_APPS);
   const [loading, setLoading] = useState(true);
@@ -159,16 +111,18 @@ export function useAppManager() {
 
   const loadAppConfiguration = async () => {
     try {
-      const stored = await AsyncStorage.getItem(APP_MANAGER_STORAGE_KEY);
-      if (stored) {
-        const storedConfig = JSON.parse(stored);
-        // Merge with default apps to ensure new apps are included
-        const mergedApps = DEFAULT_RIDE_APPS.map(defaultApp => {
-          const storedApp = storedConfig.find((app: RideAppConfig) => app.id === defaultApp.id);
-          return storedApp ? { ...defaultApp, enabled: storedApp.enabled } : defaultApp;
-        });
-        setRideApps(mergedApps);
-      }
+      const [storedConfig, regions] = await Promise.all([readAppPreferences(), loadAppRegions()]);
+      // Merge with default apps to ensure new apps are included
+      const mergedApps = withRegions(DEFAULT_RIDE_APPS, regions).map(defaultApp => {
+        const storedApp = storedConfig.find(app => app.id === defaultApp.id);
+        return storedApp ? { ...defaultApp, ...storedSettings(storedApp) } : defaultApp;
+      });
+      // Custom apps follow the built-in ones. Preferences for ids this version
+      // doesn't know stay in storage for the versions that do.
+      const customApps = storedConfig
+        .filter(pref => pref.custom && !DEFAULT_RIDE_APPS.some(app => app.id === pref.id))
+        .map(pref => ({ ...customAppConfig(pref.id, pref.custom!), ...storedSettings(pref) }));
+      setRideApps(sortByPosition([...mergedApps, ...customApps], storedConfig));
     } catch (error) {
       console.error('Error loading app configuration:', error);
       // Don't throw, just use defaults
@@ -177,10 +131,32 @@ export function useAppManager() {
     }
   };
 
-  const saveAppConfiguration = async (newConfig: RideAppConfig[]) => {
+  const saveAppConfiguration = async (newConfig: RideAppConfig[], changedIds: string[], removedIds: string[] = []) => {
     try {
-      await AsyncStorage.setItem(APP_MANAGER_STORAGE_KEY, JSON.stringify(newConfig));
+      const now = new Date();
+      const previous = await readAppPreferences();
+      const preferences: AppPreference[] = newConfig.map((app, index) => ({
+        id: app.id,
+        enabled: app.enabled,
+        position: index,
+        preferred: app.preferred || undefined,
+        rideType: app.rideType || undefined,
+        custom: app.custom ? customAppDefinition(app) : undefined,
+        updatedAt: changedIds.includes(app.id)
+          ? now
+          : previous.find(pref => pref.id === app.id)?.updatedAt,
+      }));
+      const unknown = previous.filter(pref =>
+        !newConfig.some(app => app.id === pref.id) && !removedIds.includes(pref.id)
+      );
+      preferences.push(...unknown);
+
+      await AsyncStorage.setItem(userStorageKey(APP_MANAGER_STORAGE_KEY), JSON.stringify(preferences));
       setRideApps(newConfig);
+      queueSyncChanges('appPreferences', preferences.filter(pref => changedIds.includes(pref.id)));
+      if (removedIds.length > 0) {
+        queueSyncDeletions('appPreferences', removedIds);
+      }
       // Emit change event to notify other components
       appConfigEmitter.emit();
     } catch (error) {
@@ -194,7 +170,7 @@ export function useAppManager() {
       const updatedApps = rideApps.map(app =>
         app.id === appId ? { ...app, enabled: !app.enabled } : app
       );
-      await saveAppConfiguration(updatedApps);
+      await saveAppConfiguration(updatedApps, [appId]);
     } catch (error) {
       console.error('Error toggling app enabled state:', error);
       throw error;
@@ -205,9 +181,109 @@ export function useAppManager() {
     return rideApps.filter(app => app.enabled);
   };
 
+  const addCustomApp = async (definition: CustomRideAppDefinition) => {
+    try {
+      const app = customAppConfig(createCustomAppId(), definition);
+      await saveAppConfiguration([...rideApps, app], [app.id]);
+      console.log('➕ Custom ride app added:', app.name);
+      return app;
+    } catch (error) {
+      console.error('Error adding custom app:', error);
+      throw error;
+    }
+  };
+
+  const updateCustomApp = async (appId: string, definition: CustomRideAppDefinition) => {
+    try {
+      const updatedApps = rideApps.map(app =>
+        app.id === appId ? { ...customAppConfig(appId, definition, app.enabled), preferred: app.preferred } : app
+      );
+      await saveAppConfiguration(updatedApps, [appId]);
+    } catch (error) {
+      console.error('Error updating custom app:', error);
+      throw error;
+    }
+  };
+
+  const removeCustomApp = async (appId: string) => {
+    try {
+      await saveAppConfiguration(rideApps.filter(app => app.id !== appId), [], [appId]);
+    } catch (error) {
+      console.error('Error removing custom app:', error);
+      throw error;
+    }
+  };
+
+  // Saves the app order after a drag
+  const reorderApps = async (orderedIds: string[]) => {
+    try {
+      const reordered = orderedIds
+        .map(id => rideApps.find(app => app.id === id))
+        .filter((app): app is RideAppConfig => !!app);
+      const newConfig = [...reordered, ...rideApps.filter(app => !orderedIds.includes(app.id))];
+      const movedIds = newConfig.filter((app, index) => rideApps[index]?.id !== app.id).map(app => app.id);
+      await saveAppConfiguration(newConfig, movedIds);
+    } catch (error) {
+      console.error('Error reordering apps:', error);
+      throw error;
+    }
+  };
+
+  // Makes the app the launcher's primary button, or clears it with null
+  const setPreferredApp = async (appId: string | null) => {
+    try {
+      const changedIds = rideApps
+        .filter(app => !!app.preferred !== (app.id === appId))
+        .map(app => app.id);
+      const updatedApps = rideApps.map(app => ({ ...app, preferred: app.id === appId || undefined }));
+      await saveAppConfiguration(updatedApps, changedIds);
+    } catch (error) {
+      console.error('Error setting preferred app:', error);
+      throw error;
+    }
+  };
+
+  const setAppRideType = async (appId: string, rideType: string | undefined) => {
+    try {
+      const updatedApps = rideApps.map(app =>
+        app.id === appId ? { ...app, rideType: rideType?.trim() || undefined } : app
+      );
+      await saveAppConfiguration(updatedApps, [appId]);
+    } catch (error) {
+      console.error('Error setting app ride type:', error);
+      throw error;
+    }
+  };
+
+  // Turns regional apps on or off for where the rider is (see regionChanges)
+  const enableAppsForRegion = async (query: RegionQuery) => {
+    try {
+      const { enable, disable } = regionChanges(rideApps, query);
+      const changedIds = [...enable, ...disable].map(app => app.id);
+      if (changedIds.length === 0) {
+        return;
+      }
+      const updatedApps = rideApps.map(app =>
+        changedIds.includes(app.id) ? { ...app, enabled: enable.includes(app) } : app
+      );
+      await saveAppConfiguration(updatedApps, changedIds);
+      console.log('🌍 Apps updated for region:', { enabled: enable.length, disabled: disable.length });
+    } catch (error) {
+      console.error('Error enabling apps for region:', error);
+      throw error;
+    }
+  };
+
+  // Restores the built-in apps' on/off state, order and ride types; custom apps are kept after them
   const resetToDefaults = async () => {
     try {
-      await saveAppConfiguration(DEFAULT_RIDE_APPS);
+      const customApps = rideApps
+        .filter(app => app.custom)
+        .map(app => ({ ...app, preferred: undefined }));
+      await saveAppConfiguration(
+        [...DEFAULT_RIDE_APPS, ...customApps],
+        [...DEFAULT_RIDE_APPS, ...customApps].map(app => app.id)
+      );
     } catch (error) {
       console.error('Error resetting to defaults:', error);
       throw error;
@@ -219,6 +295,13 @@ export function useAppManager() {
     loading,
     toggleAppEnabled,
     getEnabledApps,
+    addCustomApp,
+    updateCustomApp,
+    removeCustomApp,
+    reorderApps,
+    setPreferredApp,
+    setAppRideType,
+    enableAppsForRegion,
     resetToDefaults,
     refresh: loadAppConfiguration,
   };
@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  registerSyncCollection,
+  syncNow,
+  syncTransport,
+  getSyncStatus,
+  loadSyncStatus,
+  syncStatusEmitter,
+  SyncStatus,
+} from '@/services/sync';
+import { favoritesSyncCollection } from './useFavorites';
+import { routeFavoritesSyncCollection } from './useRouteFavorites';
+import { appPreferencesSyncCollection } from './useAppManager';
+
+registerSyncCollection('favorites', favoritesSyncCollection);
+registerSyncCollection('routes', routeFavoritesSyncCollection);
+registerSyncCollection('appPreferences', appPreferencesSyncCollection);
+
+export function useCloudSync() {
+  const { user, withAccessToken } = useAuth();
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus);
+
+  // Subscribe to sync status changes
+  useEffect(() => {
+    return syncStatusEmitter.subscribe(() => setStatus(getSyncStatus()));
+  }, []);
+
+  // The user is set once their storage is active, so this reads their own status
+  useEffect(() => {
+    loadSyncStatus(user?.id ?? null).catch((error) => {
+      console.error('❌ Failed to load sync status:', error);
+    });
+  }, [user?.id]);
+
+  const enabled = !!syncTransport && !!user;
+
+  const sync = useCallback(async () => {
+    if (!syncTransport || !user) {
+      return;
+    }
+    await syncNow(user.id, syncTransport, withAccessToken);
+  }, [user?.id, withAccessToken]);
+
+  return {
+    enabled,
+    status,
+    syncNow: sync,
+  };
+}
@@ -1,17 +1,77 @@
 import { useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { USER_STORAGE_KEYS, userStorageKey } from '@/services/userStorage';
+import { SyncCollectionAdapter, queueSyncChanges, queueSyncDeletions } from '@/services/sync';
+import { FavoriteOrganization, mergeOrganization, nextPinOrder } from '@/services/favoriteOrganizer';
+import { isSamePoint } from '@/services/transfer/dedupe';
 
-export interface FavoriteDestination {
+// Home and work are single slots; any number of places can be custom
+export type FavoriteCategory = 'home' | 'work' | 'custom';
+
+export const FAVORITE_ICONS = [
+  'star', 'heart', 'dumbbell', 'school', 'shopping', 'coffee', 'food', 'hospital', 'plane',
+] as const;
+
+export type FavoriteIcon = typeof FAVORITE_ICONS[number];
+
+export interface FavoriteDestination extends FavoriteOrganization {
   id: string;
   name: string;
   address: string;
   latitude?: number;
   longitude?: number;
   placeId?: string;
+  // Typed favorites get a one-tap chip on the launcher; plain ones don't have this field
+  category?: FavoriteCategory;
+  // Only used by custom favorites
+  icon?: FavoriteIcon;
   createdAt: Date;
+  // Favorites saved before cloud sync don't have this field
+  updatedAt?: Date;
+}
+
+const FAVORITES_KEY = USER_STORAGE_KEYS.favorites;
+
+// Create a simple event emitter for favorites changes
+class FavoritesEventEmitter {
+  private listeners: (() => void)[] = [];
+
+  subscribe(listener: () => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  emit() {
+    this.listeners.forEach(listener => listener());
+  }
 }
 
-const FAVORITES_KEY = 'ride_launcher_favorites';
+const favoritesEmitter = new FavoritesEventEmitter();
+
+// Giving a place the home or work slot turns the previous holder into a custom favorite
+const releaseSlot = (favorites: FavoriteDestination[], category: FavoriteCategory | undefined, keepId: string) => {
+  if (category !== 'home' && category !== 'work') {
+    return { favorites, released: [] as FavoriteDestination[] };
+  }
+
+  const released: FavoriteDestination[] = [];
+  const updated = favorites.map(fav => {
+    if (fav.id === keepId || fav.category !== category) {
+      return fav;
+    }
+    const demoted: FavoriteDestination = { ...fav, category: 'custom', icon: fav.icon || 'star', updatedAt: new Date() };
+    released.push(demoted);
+    return demoted;
+  });
+  return { favorites: updated, released };
+};
+
+export const favoritesSyncCollection: SyncCollectionAdapter = {
+  storageKey: FAVORITES_KEY,
+  onChange: () => favoritesEmitter.emit(),
+};
 
 export function useFavorites() {
   const [favorites, setFavorites] = useState<FavoriteDestination[]>([]);
@@ -25,15 +85,29 @@ export function useFavorites() {
     });
   }, []);
 
+  // Subscribe to favorites changes
+  useEffect(() => {
+    const unsubscribe = favoritesEmitter.subscribe(() => {
+      loadFavorites().catch((error) => {
+        console.error('❌ Failed to reload favorites:', error);
+      });
+    });
+    return unsubscribe;
+  }, []);
+
   const loadFavorites = async () => {
     try {
-      const stored = await AsyncStorage.getItem(FAVORITES_KEY);
+      const stored = await AsyncStorage.getItem(userStorageKey(FAVORITES_KEY));
       if (stored) {
         const parsed = JSON.parse(stored);
         setFavorites(parsed.map((fav: any) => ({
           ...fav,
           createdAt: new Date(fav.createdAt),
+          updatedAt: fav.updatedAt ? new Date(fav.updatedAt) : undefined,
+          lastUsedAt: fav.lastUsedAt ? new Date(fav.lastUsedAt) : undefined,
         })));
+      } else {
+        setFavorites([]);
       }
     } catch (error) {
       console.error('Error loading favorites:', error);
@@ -45,15 +119,23 @@ export function useFavorites() {
 
   const saveFavorites = async (newFavorites: FavoriteDestination[]) => {
     try {
-      await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(newFavorites));
+      await AsyncStorage.setItem(userStorageKey(FAVORITES_KEY), JSON.stringify(newFavorites));
       setFavorites(newFavorites);
+      // Emit change event to notify other components
+      favoritesEmitter.emit();
     } catch (error) {
       console.error('Error saving favorites:', error);
       throw error; // Re-throw so UI can handle the error
     }
   };
 
-  const addFavorite = async (name: string, address: string, coordinates?: { latitude: number; longitude: number }, placeId?: string) => {
+  const addFavorite = async (
+    name: string,
+    address: string,
+    coordinates?: { latitude: number; longitude: number },
+    placeId?: string,
+    details: { category?: FavoriteCategory; icon?: FavoriteIcon } & Pick<FavoriteOrganization, 'folder' | 'tags'> = {}
+  ) => {
     try {
       const newFavorite: FavoriteDestination = {
         id: Date.now().toString(),
@@ -62,21 +144,48 @@ export function useFavorites() {
         latitude: coordinates?.latitude,
         longitude: coordinates?.longitude,
         placeId,
+        category: details.category,
+        icon: details.category === 'custom' ? details.icon : undefined,
+        folder: details.folder,
+        tags: details.tags,
         createdAt: new Date(),
+        updatedAt: new Date(),
       };
 
-      const newFavorites = [newFavorite, ...favorites];
-      await saveFavorites(newFavorites);
+      const { favorites: others, released } = releaseSlot(favorites, newFavorite.category, newFavorite.id);
+      await saveFavorites([newFavorite, ...others]);
+      queueSyncChanges('favorites', [newFavorite, ...released]);
     } catch (error) {
       console.error('Error adding favorite:', error);
       throw error;
     }
   };
 
+  // Adds many favorites with a single write, e.g. from an imported file
+  const importFavorites = async (drafts: Omit<FavoriteDestination, 'id' | 'createdAt' | 'updatedAt'>[]) => {
+    try {
+      const now = new Date();
+      const imported: FavoriteDestination[] = drafts.map((draft, index) => ({
+        ...draft,
+        id: `${now.getTime()}_${index}`,
+        createdAt: now,
+        updatedAt: now,
+      }));
+
+      await saveFavorites([...imported, ...favorites]);
+      queueSyncChanges('favorites', imported);
+      return imported;
+    } catch (error) {
+      console.error('Error importing favorites:', error);
+      throw error;
+    }
+  };
+
   const removeFavorite = async (id: string) => {
     try {
       const newFavorites = favorites.filter(fav => fav.id !== id);
       await saveFavorites(newFavorites);
+      queueSyncDeletions('favorites', [id]);
     } catch (error) {
       console.error('Error removing favorite:', error);
       throw error;
@@ -85,22 +194,106 @@ export function useFavorites() {
 
   const updateFavorite = async (id: string, updates: Partial<FavoriteDestination>) => {
     try {
-      const newFavorites = favorites.map(fav =>
-        fav.id === id ? { ...fav, ...updates } : fav
+      const updated = favorites.map(fav =>
+        fav.id === id ? { ...fav, ...updates, updatedAt: new Date() } : fav
       );
+      const category = updated.find(fav => fav.id === id)?.category;
+      const { favorites: newFavorites, released } = releaseSlot(updated, category, id);
       await saveFavorites(newFavorites);
+      queueSyncChanges('favorites', [...newFavorites.filter(fav => fav.id === id), ...released]);
     } catch (error) {
       console.error('Error updating favorite:', error);
       throw error;
     }
   };
 
+  // Counts a use from the Favorites screen, for the "most used" and "recent" sorting
+  const recordFavoriteUse = async (id: string) => {
+    try {
+      const now = new Date();
+      const newFavorites = favorites.map(fav =>
+        fav.id === id ? { ...fav, useCount: (fav.useCount || 0) + 1, lastUsedAt: now, updatedAt: now } : fav
+      );
+      await saveFavorites(newFavorites);
+      queueSyncChanges('favorites', newFavorites.filter(fav => fav.id === id));
+    } catch (error) {
+      console.error('Error recording favorite use:', error);
+      throw error;
+    }
+  };
+
+  const setFavoritePinned = async (id: string, pinned: boolean) => {
+    await updateFavorite(id, { pinOrder: pinned ? nextPinOrder(favorites) : undefined });
+  };
+
+  // Saves the order of pinned favorites after a drag
+  const reorderPinnedFavorites = async (orderedIds: string[]) => {
+    try {
+      const now = new Date();
+      const newFavorites = favorites.map(fav => {
+        const index = orderedIds.indexOf(fav.id);
+        return index === -1 || fav.pinOrder === index ? fav : { ...fav, pinOrder: index, updatedAt: now };
+      });
+      await saveFavorites(newFavorites);
+      queueSyncChanges('favorites', newFavorites.filter(fav => fav.updatedAt === now));
+    } catch (error) {
+      console.error('Error reordering favorites:', error);
+      throw error;
+    }
+  };
+
+  // Saved place at the same spot, to warn before adding it again
+  const findDuplicateFavorite = (place: Pick<FavoriteDestination, 'address' | 'latitude' | 'longitude' | 'placeId'>) =>
+    favorites.find(fav => isSamePoint(fav, place));
+
+  /**
+   * Folds duplicates into the favorite `keepId`, whose address and coordinates
+   * survive, under the chosen name. Tags, use counts and pins are combined and
+   * the others are deleted.
+   */
+  const mergeFavorites = async (ids: string[], keepId: string, name: string) => {
+    try {
+      const merged = favorites.filter(fav => ids.includes(fav.id));
+      const keeper = merged.find(fav => fav.id === keepId);
+      if (!keeper) {
+        throw new Error(`Favorite ${keepId} is not part of the merge`);
+      }
+      const typed = keeper.category ? keeper : merged.find(fav => fav.category);
+      const survivor: FavoriteDestination = {
+        ...keeper,
+        ...mergeOrganization(merged),
+        name,
+        category: typed?.category,
+        icon: typed?.icon,
+        updatedAt: new Date(),
+      };
+      const removedIds = ids.filter(id => id !== keepId);
+
+      const newFavorites = favorites
+        .filter(fav => !removedIds.includes(fav.id))
+        .map(fav => (fav.id === keepId ? survivor : fav));
+      await saveFavorites(newFavorites);
+      queueSyncChanges('favorites', [survivor]);
+      queueSyncDeletions('favorites', removedIds);
+      console.log('🔗 Merged favorites:', { kept: keepId, removed: removedIds.length });
+    } catch (error) {
+      console.error('Error merging favorites:', error);
+      throw error;
+    }
+  };
+
   return {
     favorites,
     loading,
     addFavorite,
+    importFavorites,
     removeFavorite,
     updateFavorite,
+    recordFavoriteUse,
+    setFavoritePinned,
+    reorderPinnedFavorites,
+    findDuplicateFavorite,
+    mergeFavorites,
     refresh: loadFavorites,
   };
 }
\ No newline at end of file
@@ -0,0 +1,75 @@
+import { useState, useEffect } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_GEOCODING_SETTINGS, GeocodingSettings } from '@/services/geocoding';
+
+const GEOCODING_SETTINGS_KEY = 'ridelink_geocoding_settings';
+
+// Create a simple event emitter for geocoding settings changes
+class GeocodingSettingsEventEmitter {
+  private listeners: (() => void)[] = [];
+
+  subscribe(listener: () => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const geocodingSettingsEmitter = new GeocodingSettingsEventEmitter();
+
+export function useGeocodingSettings() {
+  const [settings, setSettings] = useState<GeocodingSettings>(DEFAULT_GEOCODING_SETTINGS);
+  const [loading, setLoading] = useState(true);
+
+  // Load geocoding settings from storage
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  // Subscribe to geocoding settings changes
+  useEffect(() => {
+    const unsubscribe = geocodingSettingsEmitter.subscribe(() => {
+      loadSettings();
+    });
+    return unsubscribe;
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const stored = await AsyncStorage.getItem(GEOCODING_SETTINGS_KEY);
+      // Merge over the defaults so settings saved by older versions stay valid
+      setSettings(stored ? { ...DEFAULT_GEOCODING_SETTINGS, ...JSON.parse(stored) } : DEFAULT_GEOCODING_SETTINGS);
+    } catch (error) {
+      console.error('❌ Error loading geocoding settings:', error);
+      setSettings(DEFAULT_GEOCODING_SETTINGS);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSettings = async (updates: Partial<GeocodingSettings>) => {
+    try {
+      const newSettings = { ...settings, ...updates };
+      await AsyncStorage.setItem(GEOCODING_SETTINGS_KEY, JSON.stringify(newSettings));
+      setSettings(newSettings);
+      // Emit change event to notify other components
+      geocodingSettingsEmitter.emit();
+      console.log('🗺️ Geocoding settings updated:', newSettings.provider);
+    } catch (error) {
+      console.error('❌ Error saving geocoding settings:', error);
+      throw error; // Re-throw so UI can handle the error
+    }
+  };
+
+  return {
+    settings,
+    loading,
+    updateSettings,
+    refresh: loadSettings,
+  };
+}
@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AppState, Linking, Platform } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { RideAppConfig } from '@/services/rideProviders';
+
+// 'unknown' when the platform can't tell: on web, and for custom apps, whose
+// schemes aren't declared in the app's query lists (see plugins/withRideAppQueries.js)
+export type InstallStatus = 'installed' | 'missing' | 'unknown';
+
+// Coming back to the foreground always probes again, since that's when apps get installed
+const INSTALL_CHECK_TTL_MS = 5 * 60 * 1000;
+
+interface InstallCheck {
+  status: InstallStatus;
+  checkedAt: number;
+}
+
+// Shared by every screen for the session, keyed by app id
+const installChecks = new Map<string, InstallCheck>();
+
+class InstallStatusEventEmitter {
+  private listeners: (() => void)[] = [];
+
+  subscribe(listener: () => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const installStatusEmitter = new InstallStatusEventEmitter();
+
+const canProbe = (app: RideAppConfig) => Platform.OS !== 'web' && !app.custom && !!app.deepLinkScheme;
+
+const probeApp = async (app: RideAppConfig): Promise<InstallStatus> => {
+  if (!canProbe(app)) {
+    return 'unknown';
+  }
+  try {
+    return (await Linking.canOpenURL(`${app.deepLinkScheme}://`)) ? 'installed' : 'missing';
+  } catch (error) {
+    console.log(`⚠️ Could not check whether ${app.name} is installed:`, error);
+    return 'unknown';
+  }
+};
+
+/** Records what a launch found out, so the badges don't wait for the next probe. */
+export function recordInstallStatus(app: RideAppConfig, installed: boolean) {
+  if (!canProbe(app)) {
+    return;
+  }
+  const status: InstallStatus = installed ? 'installed' : 'missing';
+  if (installChecks.get(app.id)?.status !== status) {
+    installChecks.set(app.id, { status, checkedAt: Date.now() });
+    installStatusEmitter.emit();
+  }
+}
+
+const snapshot = (apps: RideAppConfig[]) =>
+  Object.fromEntries(apps.map(app => [app.id, installChecks.get(app.id)?.status || 'unknown'])) as Record<string, InstallStatus>;
+
+/**
+ * Install status per app id. Probes when the screen gains focus (reusing
+ * results younger than INSTALL_CHECK_TTL_MS) and whenever the app returns to
+ * the foreground.
+ */
+export function useInstalledApps(apps: RideAppConfig[]) {
+  const [installStatus, setInstallStatus] = useState<Record<string, InstallStatus>>(() => snapshot(apps));
+  const appIds = apps.map(app => app.id).join(',');
+
+  const refresh = useCallback(async (force: boolean) => {
+    const now = Date.now();
+    const stale = apps.filter(app => {
+      const check = installChecks.get(app.id);
+      return force || !check || now - check.checkedAt > INSTALL_CHECK_TTL_MS;
+    });
+    if (stale.length === 0) {
+      return;
+    }
+
+    const results = await Promise.all(stale.map(probeApp));
+    stale.forEach((app, index) => {
+      installChecks.set(app.id, { status: results[index], checkedAt: now });
+    });
+    console.log('📲 Installed apps:', stale.filter((_, index) => results[index] === 'installed').map(app => app.name));
+    installStatusEmitter.emit();
+  }, [appIds]);
+
+  useEffect(() => {
+    setInstallStatus(snapshot(apps));
+    return installStatusEmitter.subscribe(() => setInstallStatus(snapshot(apps)));
+  }, [appIds]);
+
+  useFocusEffect(useCallback(() => {
+    refresh(false);
+  }, [refresh]));
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        refresh(true);
+      }
+    });
+    return () => subscription.remove();
+  }, [refresh]);
+
+  return {
+    installStatus,
+    refresh: () => refresh(true),
+  };
+}
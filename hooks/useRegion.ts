@@ -0,0 +1,46 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useGeocodingSettings } from './useGeocodingSettings';
+import { createGeocodingProvider, reverseGeocode } from '@/services/geocoding';
+
+interface Point {
+  latitude: number;
+  longitude: number;
+}
+
+// Country of a position through the configured geocoder; lookups share the reverse geocoding cache
+export function useCountryLookup() {
+  const { settings } = useGeocodingSettings();
+  const geocoder = useMemo(() => createGeocodingProvider(settings), [settings]);
+
+  return useCallback(async (point: Point): Promise<string | null> => {
+    const result = await reverseGeocode(geocoder, point.latitude, point.longitude);
+    return result.countryCode || null;
+  }, [geocoder]);
+}
+
+/** Country code of the pickup, or null while unknown. */
+export function usePickupCountry(pickup: Point | null) {
+  const lookupCountry = useCountryLookup();
+  const [countryCode, setCountryCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!pickup) {
+      setCountryCode(null);
+      return;
+    }
+
+    let cancelled = false;
+    lookupCountry(pickup).then((code) => {
+      if (!cancelled) {
+        setCountryCode(code);
+        console.log('🌍 Pickup country:', code);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [lookupCountry, pickup?.latitude, pickup?.longitude]);
+
+  return countryCode;
+}
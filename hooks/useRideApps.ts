@@ -2,164 +2,189 @@ import { useState, useCallback, useEffect } from 'react';
 import { Alert, Platform, Linking } from 'react-native';
 import * as WebBrowser from 'expo-web-browser';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { providerForApp, planTrip, storeLinkFor, AppStore, LocationData, TripPlan } from '@/services/rideProviders';
 import { useAppManager, RideAppConfig } from './useAppManager';
+import { useRideHistory, RideLaunchOutcome } from './useRideHistory';
+import { recordInstallStatus } from './useInstalledApps';
 
-interface LocationData {
-  latitude: number;
-  longitude: number;
-  address: string;
-  placeId?: string;
-}
+const STORE_LABELS: Record<AppStore, string> = {
+  'app-store': 'alert.openAppStore',
+  'play-store': 'alert.openPlayStore',
+  web: 'rideApp.getApp',
+};
 
 export function useRideApps() {
   const { t } = useLanguage();
   const { rideApps: allApps, loading: appsLoading } = useAppManager();
+  const { recordLaunch } = useRideHistory();
   const [isLoading, setIsLoading] = useState(false);
 
   // Filter enabled apps reactively
   const rideApps = allApps.filter(app => app.enabled);
 
-  const createDeepLink = (app: RideAppConfig, pickup: LocationData, destination: LocationData): string => {
-    const pickupAddress = encodeURIComponent(pickup.address);
-    const destinationAddress = encodeURIComponent(destination.address);
-    const { latitude: latO, longitude: lngO } = pickup;
-    const { latitude: latD, longitude: lngD } = destination;
-
-    switch (app.id) {
-      case 'uber':
-        if (Platform.OS !== 'web') {
-          // Mobile deep link with proper URL encoding
-          // Format: uber://?action=setPickup&pickup[formatted_address]={origem}&dropoff[formatted_address]={destino}
-          const uberDeepLink = `uber://?action=setPickup&pickup[formatted_address]=${pickupAddress}&dropoff[formatted_address]=${destinationAddress}`;
-          console.log('🚗 Uber deep link:', uberDeepLink);
-          return uberDeepLink;
-        }
-        // Web fallback - use Uber's web interface
-        const uberParams = new URLSearchParams();
-        uberParams.append('action', 'setPickup');
-        uberParams.append('pickup[formatted_address]', pickup.address);
-        uberParams.append('dropoff[formatted_address]', destination.address);
-        if (latO && lngO) {
-          uberParams.append('pickup[latitude]', latO.toString());
-          uberParams.append('pickup[longitude]', lngO.toString());
-        }
-        if (latD && lngD) {
-          uberParams.append('dropoff[latitude]', latD.toString());
-          uberParams.append('dropoff[longitude]', lngD.toString());
-        }
-        return `https://m.uber.com/ul/?${uberParams.toString()}`;
-
-      case '99':
-        return `taxis99://call?pickup_latitude=${latO}&pickup_longitude=${lngO}&pickup_title=${pickupAddress}&dropoff_latitude=${latD}&dropoff_longitude=${lngD}&dropoff_title=${destinationAddress}`;
-
-      case 'taxirio':
-        return `br.gov.rj.taxi.rio.passenger://ride`;
-
-      case 'indriver':
-        // inDriver doesn't support deep links with route, so we just open the app
-        return `indriver://open`;
-
-      case 'lyft':
-        return `lyft://ridetype?id=lyft&pickup[latitude]=${latO}&pickup[longitude]=${lngO}&destination[latitude]=${latD}&destination[longitude]=${lngD}`;
-
-      case 'bolt':
-        return `bolt://ride?pickup_lat=${latO}&pickup_lng=${lngO}&destination_lat=${latD}&destination_lng=${lngD}`;
-
-      case 'grab':
-        return `grab://open?screenType=BOOK&type=TRANSPORT&pickup.latitude=${latO}&pickup.longitude=${lngO}&dropoff.latitude=${latD}&dropoff.longitude=${lngD}`;
-
-      case 'careem':
-        return `careem://ride?pickup_latitude=${latO}&pickup_longitude=${lngO}&dropoff_latitude=${latD}&dropoff_longitude=${lngD}`;
-
-      case 'ola':
-        return `olacabs://app/setpickup?lat=${latO}&lng=${lngO}&drop_lat=${latD}&drop_lng=${lngD}`;
-
-      case 'yandex':
-        return `yandextaxi://route?start-lat=${latO}&start-lon=${lngO}&end-lat=${latD}&end-lon=${lngD}`;
+  // Expects a trip already planned for the app, so stops are only passed where supported
+  const createDeepLink = (app: RideAppConfig, pickup: LocationData, trip: TripPlan): string => {
+    const provider = providerForApp(app);
+    return provider ? provider.buildDeepLink(pickup, trip.destination, trip.stops, { rideType: app.rideType }) : '';
+  };
 
-      default:
-        return '';
-    }
+  // Empty when the app has no https link
+  const createWebLink = (app: RideAppConfig, pickup: LocationData, trip: TripPlan): string => {
+    const provider = providerForApp(app);
+    return provider?.buildWebLink?.(pickup, trip.destination, trip.stops, { rideType: app.rideType }) || '';
   };
 
-  const openRideApp = useCallback(async (
+  const describeRoute = (pickup: LocationData, trip: TripPlan) => [
+    `${t('rideApp.pickup')} ${pickup.address}`,
+    ...trip.stops.map((stop, index) => `${t('stops.label', { number: index + 1 })}: ${stop.address}`),
+    `${t('rideApp.destination')} ${trip.destination.address}`,
+  ].join('\n');
+
+  const launchRideApp = useCallback(async (
     app: RideAppConfig,
     pickup: LocationData,
-    destination: LocationData
+    trip: TripPlan
   ) => {
     setIsLoading(true);
 
+    const logLaunch = (outcome: RideLaunchOutcome) => {
+      recordLaunch({
+        appId: app.id,
+        appName: app.name,
+        pickup,
+        destination: trip.destination,
+        ...(trip.stops.length > 0 && { stops: trip.stops }),
+        outcome,
+      }).catch((error) => {
+        console.error('❌ Failed to record ride launch:', error);
+      });
+    };
+
+    const storeButtons = (onPress?: () => void) => {
+      // Custom apps may have no store link, or none for this platform
+      const store = storeLinkFor(app);
+      return store ? [{
+        text: t(STORE_LABELS[store.store]),
+        onPress: () => {
+          onPress?.();
+          Linking.openURL(store.url);
+        },
+      }] : [];
+    };
+
+    const confirmOpened = () => {
+      logLaunch('opened');
+      // Show success message for apps that support route pre-filling
+      if (providerForApp(app)?.supportsPrefill) {
+        setTimeout(() => {
+          Alert.alert(
+            `${app.name} ${t('rideApp.opened')}`,
+            `${t('rideApp.verifyAddresses')}\n\n${describeRoute(pickup, trip)}`,
+            [{ text: t('alert.ok') }]
+          );
+        }, 1000);
+      }
+    };
+
     try {
-      const deepLink = createDeepLink(app, pickup, destination);
-      console.log(`🚗 Opening ${app.name} with deep link:`, deepLink);
+      const deepLink = createDeepLink(app, pickup, trip);
+      const webLink = createWebLink(app, pickup, trip);
 
-      // Special handling for web platform
+      // The web build can only open the universal link or booking page
       if (Platform.OS === 'web') {
-        if (app.id === 'uber') {
-          await WebBrowser.openBrowserAsync(deepLink);
+        if (webLink) {
+          console.log(`🌐 Opening ${app.name} on the web:`, webLink);
+          await WebBrowser.openBrowserAsync(webLink);
           console.log(`✅ ${app.name} opened in browser`);
+          logLaunch('opened');
         } else {
-          // For other apps on web, show message and open Play Store
           Alert.alert(
             `${app.name} ${t('rideApp.notInstalled')}`,
             t('rideApp.webNotSupported'),
             [
-              { text: t('alert.cancel'), style: 'cancel' },
-              { text: t('alert.openPlayStore'), onPress: () => window.open(app.playStoreUrl.replace('market://', 'https://play.google.com/store/apps/'), '_blank') },
+              { text: t('alert.cancel'), style: 'cancel', onPress: () => logLaunch('not-installed') },
+              ...storeButtons(() => logLaunch('store-fallback')),
             ]
           );
         }
         return;
       }
 
-      // For mobile platforms, try deep link first
+      // On devices: the app's own scheme, then the universal link, then the store
+      console.log(`🚗 Opening ${app.name} with deep link:`, deepLink);
       try {
-        const canOpen = await Linking.canOpenURL(deepLink);
-        
+        const canOpen = !!deepLink && await Linking.canOpenURL(deepLink);
+        // Web links open either way, so only the app's own scheme says whether it's installed
+        if (deepLink.startsWith(`${app.deepLinkScheme}:`)) {
+          recordInstallStatus(app, canOpen);
+        }
+
         if (canOpen) {
           await Linking.openURL(deepLink);
           console.log(`✅ ${app.name} app opened successfully`);
-          
-          // Show success message for apps that support route pre-filling
-          if (['uber', '99', 'lyft', 'bolt', 'grab', 'careem', 'ola', 'yandex'].includes(app.id)) {
-            setTimeout(() => {
-              Alert.alert(
-                `${app.name} ${t('rideApp.opened')}`,
-                `${t('rideApp.verifyAddresses')}\n\n${t('rideApp.pickup')} ${pickup.address}\n${t('rideApp.destination')} ${destination.address}`,
-                [{ text: t('alert.ok') }]
-              );
-            }, 1000);
-          }
+          confirmOpened();
+        } else if (webLink && webLink !== deepLink) {
+          // Opens the app through its universal link when it's there, the booking page otherwise
+          console.log(`🌐 ${app.name} scheme unavailable, opening universal link:`, webLink);
+          await Linking.openURL(webLink);
+          confirmOpened();
         } else {
-          // App not installed - show Play Store option
+          // App not installed - offer the store for this platform
           Alert.alert(
             `${app.name} ${t('rideApp.notInstalled')}`,
-            `${t('rideApp.appNotInstalled', { appName: app.name })}\n\n${t('rideApp.manualEntry')}\n${t('rideApp.pickup')} ${pickup.address}\n${t('rideApp.destination')} ${destination.address}`,
+            `${t('rideApp.appNotInstalled', { appName: app.name })}\n\n${t('rideApp.manualEntry')}\n${describeRoute(pickup, trip)}`,
             [
-              { text: t('alert.cancel'), style: 'cancel' },
-              { text: t('alert.openPlayStore'), onPress: () => Linking.openURL(app.playStoreUrl) },
+              { text: t('alert.cancel'), style: 'cancel', onPress: () => logLaunch('not-installed') },
+              ...storeButtons(() => logLaunch('store-fallback')),
             ]
           );
         }
       } catch (linkingError) {
         console.log('❌ Linking error:', linkingError);
-        // Fallback to Play Store
+        logLaunch('error');
+        // Fallback to the store
         Alert.alert(
           t('rideApp.openingPlayStore'),
-          `${t('rideApp.manualEntry')}\n\n${t('rideApp.pickup')} ${pickup.address}\n${t('rideApp.destination')} ${destination.address}`,
+          `${t('rideApp.manualEntry')}\n\n${describeRoute(pickup, trip)}`,
           [
             { text: t('alert.cancel'), style: 'cancel' },
-            { text: t('alert.openPlayStore'), onPress: () => Linking.openURL(app.playStoreUrl) },
+            ...storeButtons(),
           ]
         );
       }
     } catch (error) {
       console.error('❌ Error opening ride app:', error);
+      logLaunch('error');
       Alert.alert(t('alert.error'), t('rideApp.errorOpening'));
     } finally {
       setIsLoading(false);
     }
-  }, [t]);
+  }, [t, recordLaunch]);
+
+  const openRideApp = useCallback(async (
+    app: RideAppConfig,
+    pickup: LocationData,
+    destination: LocationData,
+    stops: LocationData[] = []
+  ) => {
+    const trip = planTrip(providerForApp(app), destination, stops);
+
+    if (!trip.firstLegOnly) {
+      await launchRideApp(app, pickup, trip);
+      return;
+    }
+
+    // The app can't take the extra stops; confirm before sending only the first leg
+    console.log(`⚠️ ${app.name} doesn't support ${stops.length} stops, opening first leg only`);
+    Alert.alert(
+      t('stops.firstLegOnlyTitle', { appName: app.name }),
+      t('stops.firstLegOnlyMessage', { appName: app.name, stop: trip.destination.address }),
+      [
+        { text: t('alert.cancel'), style: 'cancel' },
+        { text: t('stops.openFirstLeg'), onPress: () => launchRideApp(app, pickup, trip) },
+      ]
+    );
+  }, [t, launchRideApp]);
 
   return {
     rideApps,
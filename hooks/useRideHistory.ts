@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { USER_STORAGE_KEYS, userStorageKey } from '@/services/userStorage';
+
+export type RideLaunchOutcome = 'opened' | 'not-installed' | 'store-fallback' | 'error';
+
+export interface RideLaunchLocation {
+  address: string;
+  latitude: number;
+  longitude: number;
+  placeId?: string;
+}
+
+export interface RideLaunchEntry {
+  id: string;
+  appId: string;
+  appName: string;
+  pickup: RideLaunchLocation;
+  destination: RideLaunchLocation;
+  // Intermediate stops that were sent to the app, when there were any
+  stops?: RideLaunchLocation[];
+  outcome: RideLaunchOutcome;
+  launchedAt: Date;
+}
+
+const RIDE_HISTORY_KEY = USER_STORAGE_KEYS.rideHistory;
+
+// Keep the log bounded so AsyncStorage reads stay fast
+const MAX_HISTORY_ENTRIES = 500;
+
+// How long after a launch the launcher offers the way back to its pickup
+export const RETURN_TRIP_WINDOW_HOURS = 12;
+
+/** The latest ride that opened within RETURN_TRIP_WINDOW_HOURS, if any. */
+export function findReturnTripCandidate(history: RideLaunchEntry[], now = new Date()): RideLaunchEntry | undefined {
+  const windowStart = now.getTime() - RETURN_TRIP_WINDOW_HOURS * 60 * 60 * 1000;
+  // History is kept newest first
+  return history.find(entry => entry.outcome === 'opened' && entry.launchedAt.getTime() >= windowStart);
+}
+
+// Create a simple event emitter for ride history changes
+class RideHistoryEventEmitter {
+  private listeners: (() => void)[] = [];
+
+  subscribe(listener: () => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const rideHistoryEmitter = new RideHistoryEventEmitter();
+
+const readStoredHistory = async (): Promise<RideLaunchEntry[]> => {
+  const stored = await AsyncStorage.getItem(userStorageKey(RIDE_HISTORY_KEY));
+  if (!stored) {
+    return [];
+  }
+  const parsed = JSON.parse(stored);
+  return parsed.map((entry: any) => ({
+    ...entry,
+    launchedAt: new Date(entry.launchedAt),
+  }));
+};
+
+export function useRideHistory() {
+  const [history, setHistory] = useState<RideLaunchEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Load ride history from storage
+  useEffect(() => {
+    loadHistory().catch((error) => {
+      console.error('❌ Failed to load ride history:', error);
+      setLoading(false);
+    });
+  }, []);
+
+  // Subscribe to ride history changes
+  useEffect(() => {
+    const unsubscribe = rideHistoryEmitter.subscribe(() => {
+      loadHistory().catch((error) => {
+        console.error('❌ Failed to reload ride history:', error);
+      });
+    });
+    return unsubscribe;
+  }, []);
+
+  const loadHistory = async () => {
+    try {
+      setHistory(await readStoredHistory());
+    } catch (error) {
+      console.error('❌ Error loading ride history:', error);
+      setHistory([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveHistory = async (newHistory: RideLaunchEntry[]) => {
+    try {
+      await AsyncStorage.setItem(userStorageKey(RIDE_HISTORY_KEY), JSON.stringify(newHistory));
+      setHistory(newHistory);
+      // Emit change event to notify other components
+      rideHistoryEmitter.emit();
+    } catch (error) {
+      console.error('❌ Error saving ride history:', error);
+      throw error; // Re-throw so UI can handle the error
+    }
+  };
+
+  const recordLaunch = async (entry: Omit<RideLaunchEntry, 'id' | 'launchedAt'>) => {
+    try {
+      const now = new Date();
+      const newEntry: RideLaunchEntry = {
+        ...entry,
+        // Launches can land in the same millisecond; removeEntry must only hit one
+        id: `${now.getTime()}_${Math.random().toString(36).slice(2, 10)}`,
+        launchedAt: now,
+      };
+
+      // Read from storage rather than state so launches from other screens aren't lost
+      const current = await readStoredHistory();
+      await saveHistory([newEntry, ...current].slice(0, MAX_HISTORY_ENTRIES));
+      console.log('📝 Ride launch recorded:', { app: entry.appId, outcome: entry.outcome });
+      return newEntry;
+    } catch (error) {
+      console.error('❌ Error recording ride launch:', error);
+      throw error;
+    }
+  };
+
+  const removeEntry = async (id: string) => {
+    try {
+      await saveHistory(history.filter(entry => entry.id !== id));
+    } catch (error) {
+      console.error('❌ Error removing ride history entry:', error);
+      throw error;
+    }
+  };
+
+  const clearHistory = async () => {
+    try {
+      await saveHistory([]);
+    } catch (error) {
+      console.error('❌ Error clearing ride history:', error);
+      throw error;
+    }
+  };
+
+  const openedLaunches = history.filter(entry => entry.outcome === 'opened');
+  const stats = {
+    ridesLaunched: openedLaunches.length,
+    appsUsed: new Set(openedLaunches.map(entry => entry.appId)).size,
+  };
+
+  return {
+    history,
+    loading,
+    stats,
+    recordLaunch,
+    removeEntry,
+    clearHistory,
+    refresh: loadHistory,
+  };
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect } from 'react';
+import { RideAppConfig, LocationData } from '@/services/rideProviders';
+import { fetchRideQuote, RideQuote } from '@/services/quotes';
+
+export type QuoteSortMode = 'default' | 'cheapest' | 'fastest';
+
+export function useRideQuotes(
+  apps: RideAppConfig[],
+  pickup: LocationData | null,
+  destination: LocationData | null,
+  stops: LocationData[] = []
+) {
+  const [quotes, setQuotes] = useState<Record<string, RideQuote>>({});
+  const [loading, setLoading] = useState(false);
+
+  const appIds = apps.map(app => app.id).join(',');
+  const stopsKey = stops.map(stop => `${stop.latitude},${stop.longitude}`).join('|');
+
+  useEffect(() => {
+    if (!pickup || !destination || apps.length === 0) {
+      setQuotes({});
+      return;
+    }
+
+    let cancelled = false;
+    const request = { pickup, destination, stops, requestedAt: new Date() };
+
+    setLoading(true);
+    Promise.all(apps.map(app => fetchRideQuote(app, request)))
+      .then((results) => {
+        if (cancelled) return;
+        const byApp: Record<string, RideQuote> = {};
+        results.forEach(quote => {
+          if (quote) {
+            byApp[quote.appId] = quote;
+          }
+        });
+        setQuotes(byApp);
+        console.log('💰 Ride quotes updated:', Object.keys(byApp).length, 'apps');
+      })
+      .catch((error) => {
+        console.error('❌ Failed to load ride quotes:', error);
+        if (!cancelled) setQuotes({});
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [appIds, pickup?.latitude, pickup?.longitude, destination?.latitude, destination?.longitude, stopsKey]);
+
+  // Apps without a quote keep their configured order at the end of the list
+  const sortApps = (appsToSort: RideAppConfig[], mode: QuoteSortMode): RideAppConfig[] => {
+    if (mode === 'default') {
+      return appsToSort;
+    }
+
+    const score = (app: RideAppConfig) => {
+      const quote = quotes[app.id];
+      if (!quote) return null;
+      return mode === 'cheapest'
+        ? quote.priceRange.low
+        : quote.pickupEtaMinutes + quote.durationMinutes;
+    };
+
+    return [...appsToSort].sort((a, b) => {
+      const scoreA = score(a);
+      const scoreB = score(b);
+      if (scoreA === null || scoreB === null) {
+        // Array.sort is stable, so unquoted apps stay in their configured order
+        return (scoreA === null ? 1 : 0) - (scoreB === null ? 1 : 0);
+      }
+      return scoreA - scoreB;
+    });
+  };
+
+  return {
+    quotes,
+    loading,
+    sortApps,
+  };
+}
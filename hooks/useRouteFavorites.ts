@@ -1,25 +1,50 @@
 import { useState, useEffect } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { USER_STORAGE_KEYS, userStorageKey } from '@/services/userStorage';
+import { AutoFillLocation } from '@/contexts/AutoFillContext';
+import { SyncCollectionAdapter, queueSyncChanges, queueSyncDeletions } from '@/services/sync';
+import { FavoriteOrganization, mergeOrganization, nextPinOrder } from '@/services/favoriteOrganizer';
+import { isSameRoute } from '@/services/transfer/dedupe';
 
-export interface FavoriteRoute {
+export interface RoutePoint {
+  address: string;
+  latitude?: number;
+  longitude?: number;
+  placeId?: string;
+}
+
+export interface FavoriteRoute extends FavoriteOrganization {
   id: string;
   name: string;
-  pickup: {
-    address: string;
-    latitude?: number;
-    longitude?: number;
-    placeId?: string;
-  };
-  destination: {
-    address: string;
-    latitude?: number;
-    longitude?: number;
-    placeId?: string;
-  };
+  pickup: RoutePoint;
+  destination: RoutePoint;
+  // Intermediate stops between pickup and destination, in order.
+  // Routes saved before multi-stop support don't have this field.
+  stops?: RoutePoint[];
+  // Round trips show the way back next to the way out
+  roundTrip?: boolean;
   createdAt: Date;
+  // Routes saved before cloud sync don't have this field
+  updatedAt?: Date;
 }
 
-const ROUTE_FAVORITES_KEY = 'ride_launcher_route_favorites';
+export const toAutoFillLocation = (point: RoutePoint): AutoFillLocation => ({
+  address: point.address,
+  coordinates: point.latitude && point.longitude
+    ? { latitude: point.latitude, longitude: point.longitude }
+    : undefined,
+  placeId: point.placeId,
+});
+
+// The way back: destination to pickup, through the same stops in reverse order
+export const reverseRoute = <T extends Pick<FavoriteRoute, 'pickup' | 'destination' | 'stops'>>(route: T): T => ({
+  ...route,
+  pickup: route.destination,
+  destination: route.pickup,
+  stops: [...(route.stops || [])].reverse(),
+});
+
+const ROUTE_FAVORITES_KEY = USER_STORAGE_KEYS.routeFavorites;
 
 // Create a simple event emitter for route favorites changes
 class RouteFavoritesEventEmitter {
@@ -39,6 +64,11 @@ class RouteFavoritesEventEmitter {
 
 const routeFavoritesEmitter = new RouteFavoritesEventEmitter();
 
+export const routeFavoritesSyncCollection: SyncCollectionAdapter = {
+  storageKey: ROUTE_FAVORITES_KEY,
+  onChange: () => routeFavoritesEmitter.emit(),
+};
+
 export function useRouteFavorites() {
   const [routeFavorites, setRouteFavorites] = useState<FavoriteRoute[]>([]);
   const [loading, setLoading] = useState(true);
@@ -63,12 +93,14 @@ export function useRouteFavorites() {
 
   const loadRouteFavorites = async () => {
     try {
-      const stored = await AsyncStorage.getItem(ROUTE_FAVORITES_KEY);
+      const stored = await AsyncStorage.getItem(userStorageKey(ROUTE_FAVORITES_KEY));
       if (stored) {
         const parsed = JSON.parse(stored);
         const routes = parsed.map((route: any) => ({
           ...route,
           createdAt: new Date(route.createdAt),
+          updatedAt: route.updatedAt ? new Date(route.updatedAt) : undefined,
+          lastUsedAt: route.lastUsedAt ? new Date(route.lastUsedAt) : undefined,
         }));
         setRouteFavorites(routes);
         console.log('✅ Route favorites loaded:', routes.length, 'routes');
@@ -86,7 +118,7 @@ export function useRouteFavorites() {
 
   const saveRouteFavorites = async (newRouteFavorites: FavoriteRoute[]) => {
     try {
-      await AsyncStorage.setItem(ROUTE_FAVORITES_KEY, JSON.stringify(newRouteFavorites));
+      await AsyncStorage.setItem(userStorageKey(ROUTE_FAVORITES_KEY), JSON.stringify(newRouteFavorites));
       setRouteFavorites(newRouteFavorites);
       // Emit change event to notify other components
       routeFavoritesEmitter.emit();
@@ -99,8 +131,11 @@ export function useRouteFavorites() {
 
   const addRouteFavorite = async (
     name: string,
-    pickup: { address: string; latitude?: number; longitude?: number; placeId?: string },
-    destination: { address: string; latitude?: number; longitude?: number; placeId?: string }
+    pickup: RoutePoint,
+    destination: RoutePoint,
+    stops: RoutePoint[] = [],
+    roundTrip = false,
+    organization: Pick<FavoriteOrganization, 'folder' | 'tags'> = {}
   ) => {
     try {
       const newRouteFavorite: FavoriteRoute = {
@@ -108,17 +143,25 @@ export function useRouteFavorites() {
         name,
         pickup,
         destination,
+        stops,
+        roundTrip,
+        folder: organization.folder,
+        tags: organization.tags,
         createdAt: new Date(),
+        updatedAt: new Date(),
       };
 
       console.log('💾 Adding new route favorite:', {
         name,
         pickup: pickup.address,
-        destination: destination.address
+        stops: stops.length,
+        destination: destination.address,
+        roundTrip
       });
 
       const newRouteFavorites = [newRouteFavorite, ...routeFavorites];
       await saveRouteFavorites(newRouteFavorites);
+      queueSyncChanges('routes', [newRouteFavorite]);
       
       console.log('✅ Route favorite added successfully');
       return newRouteFavorite;
@@ -128,11 +171,33 @@ export function useRouteFavorites() {
     }
   };
 
+  // Adds many routes with a single write, e.g. from an imported file
+  const importRouteFavorites = async (drafts: Omit<FavoriteRoute, 'id' | 'createdAt' | 'updatedAt'>[]) => {
+    try {
+      const now = new Date();
+      const imported: FavoriteRoute[] = drafts.map((draft, index) => ({
+        ...draft,
+        id: `${now.getTime()}_${index}`,
+        createdAt: now,
+        updatedAt: now,
+      }));
+
+      await saveRouteFavorites([...imported, ...routeFavorites]);
+      queueSyncChanges('routes', imported);
+      console.log('✅ Route favorites imported:', imported.length);
+      return imported;
+    } catch (error) {
+      console.error('❌ Error importing route favorites:', error);
+      throw error;
+    }
+  };
+
   const removeRouteFavorite = async (id: string) => {
     try {
       console.log('🗑️ Removing route favorite:', id);
       const newRouteFavorites = routeFavorites.filter(route => route.id !== id);
       await saveRouteFavorites(newRouteFavorites);
+      queueSyncDeletions('routes', [id]);
       console.log('✅ Route favorite removed successfully');
     } catch (error) {
       console.error('❌ Error removing route favorite:', error);
@@ -144,9 +209,10 @@ export function useRouteFavorites() {
     try {
       console.log('✏️ Updating route favorite:', id);
       const newRouteFavorites = routeFavorites.map(route =>
-        route.id === id ? { ...route, ...updates } : route
+        route.id === id ? { ...route, ...updates, updatedAt: new Date() } : route
       );
       await saveRouteFavorites(newRouteFavorites);
+      queueSyncChanges('routes', newRouteFavorites.filter(route => route.id === id));
       console.log('✅ Route favorite updated successfully');
     } catch (error) {
       console.error('❌ Error updating route favorite:', error);
@@ -154,12 +220,91 @@ export function useRouteFavorites() {
     }
   };
 
+  // Counts a use from the Favorites screen, for the "most used" and "recent" sorting
+  const recordRouteUse = async (id: string) => {
+    try {
+      const now = new Date();
+      const newRouteFavorites = routeFavorites.map(route =>
+        route.id === id ? { ...route, useCount: (route.useCount || 0) + 1, lastUsedAt: now, updatedAt: now } : route
+      );
+      await saveRouteFavorites(newRouteFavorites);
+      queueSyncChanges('routes', newRouteFavorites.filter(route => route.id === id));
+    } catch (error) {
+      console.error('❌ Error recording route use:', error);
+      throw error;
+    }
+  };
+
+  const setRoutePinned = async (id: string, pinned: boolean) => {
+    await updateRouteFavorite(id, { pinOrder: pinned ? nextPinOrder(routeFavorites) : undefined });
+  };
+
+  // Saves the order of pinned routes after a drag
+  const reorderPinnedRoutes = async (orderedIds: string[]) => {
+    try {
+      const now = new Date();
+      const newRouteFavorites = routeFavorites.map(route => {
+        const index = orderedIds.indexOf(route.id);
+        return index === -1 || route.pinOrder === index ? route : { ...route, pinOrder: index, updatedAt: now };
+      });
+      await saveRouteFavorites(newRouteFavorites);
+      queueSyncChanges('routes', newRouteFavorites.filter(route => route.updatedAt === now));
+    } catch (error) {
+      console.error('❌ Error reordering route favorites:', error);
+      throw error;
+    }
+  };
+
+  // Saved route over the same points, to warn before adding it again
+  const findDuplicateRoute = (route: Pick<FavoriteRoute, 'pickup' | 'destination' | 'stops'>) =>
+    routeFavorites.find(existing => isSameRoute(existing, route));
+
+  /**
+   * Folds duplicate routes into `keepId`, whose points survive, under the
+   * chosen name. Tags, use counts and pins are combined and the others are
+   * deleted.
+   */
+  const mergeRouteFavorites = async (ids: string[], keepId: string, name: string) => {
+    try {
+      const merged = routeFavorites.filter(route => ids.includes(route.id));
+      const keeper = merged.find(route => route.id === keepId);
+      if (!keeper) {
+        throw new Error(`Route ${keepId} is not part of the merge`);
+      }
+      const survivor: FavoriteRoute = {
+        ...keeper,
+        ...mergeOrganization(merged),
+        name,
+        roundTrip: merged.some(route => route.roundTrip),
+        updatedAt: new Date(),
+      };
+      const removedIds = ids.filter(id => id !== keepId);
+
+      const newRouteFavorites = routeFavorites
+        .filter(route => !removedIds.includes(route.id))
+        .map(route => (route.id === keepId ? survivor : route));
+      await saveRouteFavorites(newRouteFavorites);
+      queueSyncChanges('routes', [survivor]);
+      queueSyncDeletions('routes', removedIds);
+      console.log('🔗 Merged route favorites:', { kept: keepId, removed: removedIds.length });
+    } catch (error) {
+      console.error('❌ Error merging route favorites:', error);
+      throw error;
+    }
+  };
+
   return {
     routeFavorites,
     loading,
     addRouteFavorite,
+    importRouteFavorites,
     removeRouteFavorite,
     updateRouteFavorite,
+    recordRouteUse,
+    setRoutePinned,
+    reorderPinnedRoutes,
+    findDuplicateRoute,
+    mergeRouteFavorites,
     refresh: loadRouteFavorites,
   };
 }
\ No newline at end of file
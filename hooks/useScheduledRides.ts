@@ -0,0 +1,246 @@
+import { useState, useEffect } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { USER_STORAGE_KEYS, onUserStorageActivated, userStorageKey } from '@/services/userStorage';
+import { AutoFillData } from '@/contexts/AutoFillContext';
+import { RoutePoint, toAutoFillLocation } from './useRouteFavorites';
+import { Clock, RideRecurrence, systemClock, getNextOccurrence, needsReminderRefresh } from '@/services/scheduling';
+import { scheduleRideReminders, cancelRideReminders, ReminderContent } from '@/services/rideReminders';
+
+export interface ScheduledRide {
+  id: string;
+  name: string;
+  // Saved route this ride was planned from, if any
+  routeId?: string;
+  pickup: RoutePoint;
+  destination: RoutePoint;
+  stops?: RoutePoint[];
+  // Ride app to highlight when the reminder opens the launcher
+  preferredAppId?: string;
+  // First occurrence picked by the user; recurring rides repeat from here
+  scheduledAt: Date;
+  recurrence: RideRecurrence;
+  notificationIds: string[];
+  // Text of the reminder, kept so it can be scheduled again
+  reminder?: ReminderContent;
+  // The reminders are dated one-shots because the recurring ride hadn't started yet
+  datedReminders?: boolean;
+  createdAt: Date;
+}
+
+export interface UpcomingRide {
+  ride: ScheduledRide;
+  nextAt: Date;
+}
+
+export type NewScheduledRide = Omit<ScheduledRide, 'id' | 'notificationIds' | 'reminder' | 'datedReminders' | 'createdAt'>;
+
+const SCHEDULED_RIDES_KEY = USER_STORAGE_KEYS.scheduledRides;
+
+// One-off rides stay around for a while after they're due so tapping a late reminder still works
+const PAST_RIDE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Create a simple event emitter for scheduled ride changes
+class ScheduledRidesEventEmitter {
+  private listeners: (() => void)[] = [];
+
+  subscribe(listener: () => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const scheduledRidesEmitter = new ScheduledRidesEventEmitter();
+
+// The signed-in user's rides, or `userId`'s
+export const readStoredScheduledRides = async (userId?: string): Promise<ScheduledRide[]> => {
+  const stored = await AsyncStorage.getItem(userStorageKey(SCHEDULED_RIDES_KEY, userId));
+  if (!stored) {
+    return [];
+  }
+  const parsed = JSON.parse(stored);
+  return parsed.map((ride: any) => ({
+    ...ride,
+    scheduledAt: new Date(ride.scheduledAt),
+    createdAt: new Date(ride.createdAt),
+  }));
+};
+
+// Prefills the launcher with the ride's route and points out its preferred app
+export const scheduledRideToAutoFill = (ride: ScheduledRide): AutoFillData => ({
+  pickup: toAutoFillLocation(ride.pickup),
+  destination: toAutoFillLocation(ride.destination),
+  stops: (ride.stops || []).map(toAutoFillLocation),
+  source: 'scheduled-ride',
+  highlightAppId: ride.preferredAppId,
+  timestamp: Date.now(),
+});
+
+const isExpired = (ride: ScheduledRide, now: Date) =>
+  ride.recurrence === 'none' && now.getTime() - ride.scheduledAt.getTime() > PAST_RIDE_RETENTION_MS;
+
+// Rides saved before the reminder text was kept get a plain one
+const reminderContentFor = (ride: ScheduledRide): ReminderContent =>
+  ride.reminder || { title: ride.name, body: ride.destination.address };
+
+// Replaces a ride's reminders with the ones it should have at `now`
+const rescheduleReminders = async (ride: ScheduledRide, now: Date): Promise<ScheduledRide> => {
+  await cancelRideReminders(ride.notificationIds);
+  const notificationIds = await scheduleRideReminders(
+    ride.id,
+    ride.scheduledAt,
+    ride.recurrence,
+    reminderContentFor(ride),
+    now
+  );
+  return { ...ride, notificationIds, datedReminders: ride.recurrence !== 'none' && ride.scheduledAt > now };
+};
+
+// Signing out cancels every reminder, so an account's are scheduled again when
+// it signs in. This also runs on app start, which refreshes them anyway.
+onUserStorageActivated(async (userId) => {
+  const rides = await readStoredScheduledRides(userId);
+  if (rides.length === 0) {
+    return;
+  }
+
+  const now = systemClock.now();
+  const restored: ScheduledRide[] = [];
+  for (const ride of rides) {
+    restored.push(isExpired(ride, now) ? ride : await rescheduleReminders(ride, now));
+  }
+  await AsyncStorage.setItem(userStorageKey(SCHEDULED_RIDES_KEY, userId), JSON.stringify(restored));
+  scheduledRidesEmitter.emit();
+  console.log('⏰ Ride reminders restored for account:', { userId, rides: rides.length });
+});
+
+interface UseScheduledRidesOptions {
+  clock?: Clock;
+}
+
+export function useScheduledRides({ clock = systemClock }: UseScheduledRidesOptions = {}) {
+  const [scheduledRides, setScheduledRides] = useState<ScheduledRide[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Load scheduled rides from storage
+  useEffect(() => {
+    loadScheduledRides().catch((error) => {
+      console.error('❌ Failed to load scheduled rides:', error);
+      setLoading(false);
+    });
+  }, []);
+
+  // Subscribe to scheduled ride changes
+  useEffect(() => {
+    const unsubscribe = scheduledRidesEmitter.subscribe(() => {
+      loadScheduledRides().catch((error) => {
+        console.error('❌ Failed to reload scheduled rides:', error);
+      });
+    });
+    return unsubscribe;
+  }, []);
+
+  const loadScheduledRides = async () => {
+    try {
+      const now = clock.now();
+      const rides = await readStoredScheduledRides();
+      const active = rides.filter(ride => !isExpired(ride, now));
+
+      // Recurring rides that have started swap their dated reminders for repeating ones
+      const current: ScheduledRide[] = [];
+      for (const ride of active) {
+        current.push(needsReminderRefresh(ride, now) ? await rescheduleReminders(ride, now) : ride);
+      }
+      const refreshed = current.filter((ride, index) => ride !== active[index]).length;
+
+      if (active.length !== rides.length || refreshed > 0) {
+        // Drops one-off rides that are long past and keeps the new reminder ids
+        await AsyncStorage.setItem(userStorageKey(SCHEDULED_RIDES_KEY), JSON.stringify(current));
+        console.log('🧹 Updated stored scheduled rides:', { removed: rides.length - active.length, refreshed });
+      }
+      setScheduledRides(current);
+    } catch (error) {
+      console.error('❌ Error loading scheduled rides:', error);
+      setScheduledRides([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveScheduledRides = async (newScheduledRides: ScheduledRide[]) => {
+    try {
+      await AsyncStorage.setItem(userStorageKey(SCHEDULED_RIDES_KEY), JSON.stringify(newScheduledRides));
+      setScheduledRides(newScheduledRides);
+      // Emit change event to notify other components
+      scheduledRidesEmitter.emit();
+    } catch (error) {
+      console.error('❌ Error saving scheduled rides:', error);
+      throw error; // Re-throw so UI can handle the error
+    }
+  };
+
+  const addScheduledRide = async (
+    ride: NewScheduledRide,
+    reminder: ReminderContent
+  ) => {
+    try {
+      const now = clock.now();
+      const id = now.getTime().toString();
+      const notificationIds = await scheduleRideReminders(id, ride.scheduledAt, ride.recurrence, reminder, now);
+      const newRide: ScheduledRide = {
+        ...ride,
+        id,
+        notificationIds,
+        reminder,
+        datedReminders: ride.recurrence !== 'none' && ride.scheduledAt > now,
+        createdAt: now,
+      };
+
+      console.log('📅 Adding scheduled ride:', {
+        name: ride.name,
+        scheduledAt: ride.scheduledAt.toISOString(),
+        recurrence: ride.recurrence,
+      });
+
+      await saveScheduledRides([...scheduledRides, newRide]);
+      return newRide;
+    } catch (error) {
+      console.error('❌ Error adding scheduled ride:', error);
+      throw error;
+    }
+  };
+
+  const removeScheduledRide = async (id: string) => {
+    try {
+      const ride = scheduledRides.find(item => item.id === id);
+      if (ride) {
+        await cancelRideReminders(ride.notificationIds);
+      }
+      await saveScheduledRides(scheduledRides.filter(item => item.id !== id));
+      console.log('🗑️ Scheduled ride removed:', id);
+    } catch (error) {
+      console.error('❌ Error removing scheduled ride:', error);
+      throw error;
+    }
+  };
+
+  const now = clock.now();
+  const upcomingRides: UpcomingRide[] = scheduledRides
+    .map(ride => ({ ride, nextAt: getNextOccurrence(ride.scheduledAt, ride.recurrence, now) }))
+    .filter((item): item is UpcomingRide => item.nextAt !== null)
+    .sort((a, b) => a.nextAt.getTime() - b.nextAt.getTime());
+
+  return {
+    scheduledRides,
+    upcomingRides,
+    loading,
+    addScheduledRide,
+    removeScheduledRide,
+    refresh: loadScheduledRides,
+  };
+}
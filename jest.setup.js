@@ -0,0 +1,4 @@
+// Native modules the tested code imports that have no JavaScript fallback under Jest
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
@@ -0,0 +1,60 @@
+import APP_IDENTITIES from '@/services/rideProviders/appIdentities.json';
+import { RIDE_PROVIDERS } from '@/services/rideProviders';
+import { BUILT_IN_RIDE_APP_IDS } from '@/services/rideProviders/identities';
+
+// Runs each mod on the config right away, with the native file it edits kept on the config
+jest.mock('expo/config-plugins', () => ({
+  withInfoPlist: (config: any, mod: any) => ({ ...config, infoPlist: mod({ modResults: config.infoPlist }).modResults }),
+  withAndroidManifest: (config: any, mod: any) => ({ ...config, manifest: mod({ modResults: config.manifest }).modResults }),
+}));
+
+const loadPlugin = (identities: unknown) => {
+  let plugin: any;
+  jest.isolateModules(() => {
+    jest.doMock('../../services/rideProviders/appIdentities.json', () => identities);
+    plugin = require('../withRideAppQueries');
+  });
+  return plugin;
+};
+
+const baseConfig = () => ({
+  infoPlist: { LSApplicationQueriesSchemes: ['comgooglemaps'] },
+  manifest: { manifest: { queries: [{ package: [{ $: { 'android:name': 'com.ubercab' } }] }] } },
+});
+
+describe('appIdentities.json', () => {
+  it('gives every built-in provider its scheme and package', () => {
+    const builtIn = RIDE_PROVIDERS.filter(provider => !provider.config.custom);
+
+    expect(builtIn.map(provider => provider.config.id).sort()).toEqual([...BUILT_IN_RIDE_APP_IDS].sort());
+    builtIn.forEach(({ config }) => {
+      const identity = APP_IDENTITIES[config.id as keyof typeof APP_IDENTITIES];
+      expect(config).toMatchObject({ deepLinkScheme: identity.scheme, packageId: identity.packageId });
+    });
+  });
+});
+
+describe('withRideAppQueries', () => {
+  it('declares each scheme and package once, next to existing entries', () => {
+    const withRideAppQueries = loadPlugin(APP_IDENTITIES);
+    const identities = Object.values(APP_IDENTITIES);
+
+    const config = withRideAppQueries(baseConfig());
+    const queries = config.manifest.manifest.queries[0];
+    const declaredPackages = queries.package.map((entry: any) => entry.$['android:name']);
+    const declaredSchemes = queries.intent.map((intent: any) => intent.data[0].$['android:scheme']);
+
+    expect(config.infoPlist.LSApplicationQueriesSchemes).toEqual(
+      expect.arrayContaining(['comgooglemaps', ...identities.map(app => app.scheme)])
+    );
+    expect(new Set(declaredPackages).size).toBe(declaredPackages.length);
+    expect(declaredPackages).toEqual(expect.arrayContaining(identities.map(app => app.packageId)));
+    expect(declaredSchemes).toEqual(expect.arrayContaining(identities.map(app => app.scheme)));
+  });
+
+  it('fails the prebuild when the table is empty or incomplete', () => {
+    expect(() => loadPlugin({})(baseConfig())).toThrow('lists no ride apps');
+    expect(() => loadPlugin({ bolt: { scheme: 'bolt', packageId: ' ' }, ola: { packageId: 'com.olacabs.customer' } })(baseConfig()))
+      .toThrow('without a scheme or package id in appIdentities.json: bolt, ola');
+  });
+});
@@ -0,0 +1,76 @@
+/*
+ * Lets the app ask whether ride apps are installed.
+ *
+ * iOS only answers Linking.canOpenURL for schemes listed in
+ * LSApplicationQueriesSchemes, and Android 11+ hides other apps unless the
+ * manifest declares them under <queries>. Both lists are built from
+ * services/rideProviders/appIdentities.json, the table the built-in providers
+ * take their scheme and package from, so adding an app there is enough.
+ * Custom apps added at runtime can't be declared this way.
+ */
+const { withInfoPlist, withAndroidManifest } = require('expo/config-plugins');
+const APP_IDENTITIES = require('../services/rideProviders/appIdentities.json');
+
+const isFilled = value => typeof value === 'string' && value.trim() !== '';
+
+// A missing scheme would only show up as an installed app reported missing, so fail the build instead
+function readRideApps() {
+  const apps = Object.entries(APP_IDENTITIES);
+  if (apps.length === 0) {
+    throw new Error('withRideAppQueries: services/rideProviders/appIdentities.json lists no ride apps');
+  }
+
+  const incomplete = apps
+    .filter(([, app]) => !isFilled(app && app.scheme) || !isFilled(app && app.packageId))
+    .map(([id]) => id);
+  if (incomplete.length > 0) {
+    throw new Error(`withRideAppQueries: ride apps without a scheme or package id in appIdentities.json: ${incomplete.join(', ')}`);
+  }
+
+  return apps.map(([, app]) => ({ scheme: app.scheme, packageId: app.packageId }));
+}
+
+const unique = values => [...new Set(values.filter(Boolean))];
+
+function withRideAppQueries(config) {
+  const apps = readRideApps();
+  const schemes = unique(apps.map(app => app.scheme));
+  const packageIds = unique(apps.map(app => app.packageId));
+
+  config = withInfoPlist(config, (mod) => {
+    mod.modResults.LSApplicationQueriesSchemes = unique([
+      ...(mod.modResults.LSApplicationQueriesSchemes || []),
+      ...schemes,
+    ]);
+    return mod;
+  });
+
+  config = withAndroidManifest(config, (mod) => {
+    const manifest = mod.modResults.manifest;
+    const queries = manifest.queries?.[0] || {};
+    const declaredPackages = (queries.package || []).map(entry => entry.$['android:name']);
+    const declaredSchemes = (queries.intent || []).flatMap(intent => (intent.data || []).map(data => data.$['android:scheme']));
+
+    queries.package = [
+      ...(queries.package || []),
+      ...packageIds
+        .filter(packageId => !declaredPackages.includes(packageId))
+        .map(packageId => ({ $: { 'android:name': packageId } })),
+    ];
+    queries.intent = [
+      ...(queries.intent || []),
+      ...schemes
+        .filter(scheme => !declaredSchemes.includes(scheme))
+        .map(scheme => ({
+          action: [{ $: { 'android:name': 'android.intent.action.VIEW' } }],
+          data: [{ $: { 'android:scheme': scheme } }],
+        })),
+    ];
+    manifest.queries = [queries];
+    return mod;
+  });
+
+  return config;
+}
+
+module.exports = withRideAppQueries;
@@ -0,0 +1,226 @@
+#!/usr/bin/env node
+/*
+ * Local stub of the RideLink account and sync API, for development and tests.
+ *
+ *   node scripts/stub-server.js
+ *   EXPO_PUBLIC_AUTH_API_URL=http://localhost:4001 npm run dev
+ *
+ * State lives in memory and is lost on restart. The demo account
+ * (demo@ridelink.com / demo123) is always there. Set ACCESS_TOKEN_TTL to a
+ * few seconds to exercise token refresh.
+ */
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.PORT || 4001);
+const ACCESS_TOKEN_TTL = Number(process.env.ACCESS_TOKEN_TTL || 15 * 60); // seconds
+
+const users = new Map(); // id -> user (with password)
+const accessTokens = new Map(); // token -> { userId, expiresAt }
+const refreshTokens = new Map(); // token -> userId
+const spentRefreshTokens = new Map(); // token -> userId
+const syncStores = new Map(); // userId -> Map(collection -> Map(id -> { record, seq }))
+let syncSeq = 0;
+
+const newId = () => crypto.randomBytes(8).toString('hex');
+const newToken = () => crypto.randomBytes(24).toString('base64url');
+
+function createUser({ name, email, password }) {
+  const now = new Date().toISOString();
+  const user = { id: newId(), name, email: email.toLowerCase(), password, createdAt: now, lastLoginAt: now };
+  users.set(user.id, user);
+  return user;
+}
+
+createUser({ name: 'Demo User', email: 'demo@ridelink.com', password: 'demo123' });
+
+const publicUser = ({ password, ...user }) => user;
+
+const findUserByEmail = (email) =>
+  [...users.values()].find(user => user.email === String(email || '').toLowerCase());
+
+function revokeUserTokens(userId) {
+  for (const [token, entry] of accessTokens) {
+    if (entry.userId === userId) accessTokens.delete(token);
+  }
+  for (const [token, owner] of refreshTokens) {
+    if (owner === userId) refreshTokens.delete(token);
+  }
+}
+
+function issueTokens(user) {
+  const accessToken = newToken();
+  const refreshToken = newToken();
+  accessTokens.set(accessToken, { userId: user.id, expiresAt: Date.now() + ACCESS_TOKEN_TTL * 1000 });
+  refreshTokens.set(refreshToken, user.id);
+  return { user: publicUser(user), accessToken, refreshToken, expiresIn: ACCESS_TOKEN_TTL };
+}
+
+function authenticate(req) {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  const entry = match && accessTokens.get(match[1]);
+  if (!entry || entry.expiresAt <= Date.now()) {
+    return null;
+  }
+  return users.get(entry.userId) || null;
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(raw ? JSON.parse(raw) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// Last writer wins; on a tie a deletion beats an edit (same rule as the app)
+const isNewer = (incoming, current) =>
+  !current ||
+  incoming.updatedAt > current.updatedAt ||
+  (incoming.updatedAt === current.updatedAt && incoming.deleted && !current.deleted);
+
+function applySync(userId, { cursor, changes = {} }) {
+  if (!syncStores.has(userId)) syncStores.set(userId, new Map());
+  const store = syncStores.get(userId);
+
+  for (const [collection, records] of Object.entries(changes)) {
+    if (!store.has(collection)) store.set(collection, new Map());
+    const items = store.get(collection);
+    for (const record of records || []) {
+      if (!record || typeof record.id !== 'string' || typeof record.updatedAt !== 'number') continue;
+      const current = items.get(record.id);
+      if (isNewer(record, current && current.record)) {
+        const stored = record.deleted
+          ? { id: record.id, updatedAt: record.updatedAt, deleted: true }
+          : { id: record.id, updatedAt: record.updatedAt, data: record.data };
+        items.set(record.id, { record: stored, seq: ++syncSeq });
+      }
+    }
+  }
+
+  const since = Number(cursor) || 0;
+  const result = {};
+  for (const [collection, items] of store) {
+    const newer = [...items.values()].filter(item => item.seq > since).map(item => item.record);
+    if (newer.length) result[collection] = newer;
+  }
+  return { cursor: String(syncSeq), changes: result };
+}
+
+const routes = {
+  'POST /auth/login': async (req, res, body) => {
+    const user = findUserByEmail(body.email);
+    if (!user || user.password !== body.password) {
+      return send(res, 401, { error: 'Invalid email or password' });
+    }
+    user.lastLoginAt = new Date().toISOString();
+    send(res, 200, issueTokens(user));
+  },
+
+  'POST /auth/register': async (req, res, body) => {
+    if (!body.name || !body.email || !body.password) {
+      return send(res, 400, { error: 'Name, email and password are required' });
+    }
+    if (findUserByEmail(body.email)) {
+      return send(res, 409, { error: 'Email already exists' });
+    }
+    send(res, 201, issueTokens(createUser(body)));
+  },
+
+  'POST /auth/refresh': async (req, res, body) => {
+    const userId = refreshTokens.get(body.refreshToken);
+    if (!userId) {
+      // A spent token coming back means it leaked; end every session of that user
+      const owner = spentRefreshTokens.get(body.refreshToken);
+      if (owner) {
+        console.warn(`Refresh token reuse for ${owner}, revoking all sessions`);
+        revokeUserTokens(owner);
+      }
+      return send(res, 401, { error: 'Session expired' });
+    }
+    refreshTokens.delete(body.refreshToken);
+    spentRefreshTokens.set(body.refreshToken, userId);
+    send(res, 200, issueTokens(users.get(userId)));
+  },
+
+  'POST /auth/password-reset': async (req, res, body) => {
+    // Always succeed so the endpoint doesn't reveal which emails exist
+    if (findUserByEmail(body.email)) {
+      console.log(`Password reset requested for ${body.email}`);
+    }
+    send(res, 204);
+  },
+
+  'PATCH /auth/me': async (req, res, body) => {
+    const user = authenticate(req);
+    if (!user) {
+      return send(res, 401, { error: 'Unauthorized' });
+    }
+    if (typeof body.name === 'string') user.name = body.name;
+    if (typeof body.avatar === 'string') user.avatar = body.avatar;
+    send(res, 200, { user: publicUser(user) });
+  },
+
+  'DELETE /auth/me': async (req, res) => {
+    const user = authenticate(req);
+    if (!user) {
+      return send(res, 401, { error: 'Unauthorized' });
+    }
+    revokeUserTokens(user.id);
+    users.delete(user.id);
+    syncStores.delete(user.id);
+    send(res, 204);
+  },
+
+  'POST /sync': async (req, res, body) => {
+    const user = authenticate(req);
+    if (!user) {
+      return send(res, 401, { error: 'Unauthorized' });
+    }
+    send(res, 200, applySync(user.id, body));
+  },
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    return send(res, 204);
+  }
+
+  const path = new URL(req.url, `http://localhost:${PORT}`).pathname;
+  const handler = routes[`${req.method} ${path}`];
+  if (!handler) {
+    return send(res, 404, { error: 'Not found' });
+  }
+
+  try {
+    const body = await readBody(req);
+    await handler(req, res, body);
+  } catch (error) {
+    send(res, 400, { error: 'Invalid JSON body' });
+  }
+});
+
+if (require.main === module) {
+  server.listen(PORT, () => {
+    console.log(`RideLink stub server listening on http://localhost:${PORT}`);
+  });
+}
+
+module.exports = { server };
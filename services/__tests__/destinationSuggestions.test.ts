@@ -0,0 +1,117 @@
+import { FavoriteDestination } from '@/hooks/useFavorites';
+import { RideLaunchEntry, RideLaunchLocation } from '@/hooks/useRideHistory';
+import { suggestDestinations } from '../destinationSuggestions';
+
+// Wednesday 8 January 2025, 08:30 local time
+const NOW = new Date(2025, 0, 8, 8, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ORIGIN = { latitude: -23.55, longitude: -46.63 };
+// About 5 km from ORIGIN, so launches from there aren't "from here"
+const ELSEWHERE: RideLaunchLocation = { address: 'Elsewhere', latitude: -23.6, longitude: -46.63 };
+
+const place = (address: string, latitude: number, longitude = -46.7): RideLaunchLocation =>
+  ({ address, latitude, longitude });
+
+const launch = (destination: RideLaunchLocation, launchedAt: Date): RideLaunchEntry => ({
+  id: launchedAt.toISOString(),
+  appId: 'uber',
+  appName: 'Uber',
+  pickup: ELSEWHERE,
+  destination,
+  outcome: 'opened',
+  launchedAt,
+});
+
+const suggest = (history: RideLaunchEntry[], options: {
+  now?: Date;
+  favorites?: FavoriteDestination[];
+  origin?: { latitude: number; longitude: number } | null;
+} = {}) =>
+  suggestDestinations({ history, routes: [], favorites: [], now: NOW, ...options });
+
+const recency = (days: number) => 0.5 ** (days / 30);
+
+describe('suggestDestinations', () => {
+  it('halves the weight of a launch every 30 days', () => {
+    // Monday 9 December, at the same time of day on another weekday
+    const [suggestion] = suggest([launch(place('Mall', -23.5), new Date(NOW.getTime() - 30 * DAY_MS))]);
+
+    expect(suggestion.score).toBeCloseTo(0.5 * 0.6);
+  });
+
+  it('counts launches across midnight as close in time of day', () => {
+    // Wednesday 23:30 against a launch the previous Wednesday at 00:30, an hour apart
+    const [suggestion] = suggest(
+      [launch(place('Club', -23.5), new Date(2025, 0, 1, 0, 30))],
+      { now: new Date(2025, 0, 8, 23, 30) }
+    );
+
+    expect(suggestion.reason).toBe('usualTime');
+    expect(suggestion.score).toBeCloseTo(recency(8 - 1 / 24) * Math.exp(-1 / (2 * 1.5 ** 2)));
+  });
+
+  it('weighs the same weekday over other weekdays over weekends', () => {
+    const suggestions = suggest([
+      launch(place('Saturday', -23.4), new Date(2025, 0, 4, 8, 30)),
+      launch(place('Monday', -23.5), new Date(2025, 0, 6, 8, 30)),
+      launch(place('Wednesday', -23.6), new Date(2025, 0, 1, 8, 30)),
+    ]);
+
+    expect(suggestions.map(suggestion => suggestion.destination.address)).toEqual(['Wednesday', 'Monday', 'Saturday']);
+    expect(suggestions.map(suggestion => suggestion.score)).toEqual([
+      expect.closeTo(recency(7)),
+      expect.closeTo(recency(2) * 0.6),
+      expect.closeTo(recency(4) * 0.2),
+    ]);
+  });
+
+  it('leaves out destinations within 300 m of the rider', () => {
+    const yesterday = new Date(2025, 0, 7, 8, 30);
+    const suggestions = suggest(
+      [
+        launch(place('Next door', ORIGIN.latitude - 0.001, ORIGIN.longitude), yesterday),
+        launch(place('Across town', -23.5), yesterday),
+      ],
+      { origin: ORIGIN }
+    );
+
+    expect(suggestions.map(suggestion => suggestion.destination.address)).toEqual(['Across town']);
+  });
+
+  it('drops destinations scoring under the cutoff', () => {
+    const suggestions = suggest([
+      // Three hours off the current time: weight about 0.14
+      launch(place('Too early', -23.4), new Date(2025, 0, 8, 5, 30)),
+      // Two and a half hours off: weight about 0.25
+      launch(place('Early', -23.5), new Date(2025, 0, 8, 6, 0)),
+    ]);
+
+    expect(suggestions.map(suggestion => suggestion.destination.address)).toEqual(['Early']);
+  });
+
+  it('shows a matching favorite with its saved address', () => {
+    const office: FavoriteDestination = {
+      id: 'office',
+      name: 'Office',
+      address: 'Av. Paulista, 1000',
+      latitude: -23.5614,
+      longitude: -46.6559,
+      placeId: 'paulista-1000',
+      createdAt: new Date(2024, 0, 1),
+    };
+
+    const [suggestion] = suggest(
+      [launch(place('av paulista 1000', -23.5615, -46.656), new Date(2025, 0, 7, 8, 30))],
+      { favorites: [office] }
+    );
+
+    expect(suggestion.favorite).toBe(office);
+    expect(suggestion.destination).toEqual({
+      address: 'Av. Paulista, 1000',
+      latitude: -23.5614,
+      longitude: -46.6559,
+      placeId: 'paulista-1000',
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  groupByFolder,
+  matchesSearch,
+  mergeOrganization,
+  nextPinOrder,
+  parseTags,
+  sortFavorites,
+} from '../favoriteOrganizer';
+
+interface Place {
+  id: string;
+  name: string;
+  createdAt: Date;
+  latitude?: number;
+  longitude?: number;
+  folder?: string;
+  tags?: string[];
+  useCount?: number;
+  lastUsedAt?: Date;
+  pinOrder?: number;
+}
+
+const place = (name: string, details: Partial<Place> = {}): Place => ({
+  id: name.toLowerCase(),
+  name,
+  createdAt: new Date(2025, 0, 1),
+  ...details,
+});
+
+const names = (items: Place[]) => items.map(item => item.name);
+const pointOf = (item: Place) => item;
+
+describe('parseTags', () => {
+  it('lowercases, trims and drops repeats and empty entries', () => {
+    expect(parseTags('work, Gym ,work')).toEqual(['work', 'gym']);
+    expect(parseTags(' #Night   Out,, ,')).toEqual(['night out']);
+    expect(parseTags('')).toEqual([]);
+  });
+});
+
+describe('matchesSearch', () => {
+  const gym = place('Academia São Jorge', { folder: 'Sports', tags: ['weekly'] });
+
+  it('needs every word somewhere in the name, addresses, folder or tags', () => {
+    expect(matchesSearch(gym, ['Rua Augusta, 500'], 'augusta weekly')).toBe(true);
+    expect(matchesSearch(gym, ['Rua Augusta, 500'], 'sports jorge')).toBe(true);
+    expect(matchesSearch(gym, ['Rua Augusta, 500'], 'augusta daily')).toBe(false);
+  });
+
+  it('ignores accents and case', () => {
+    expect(matchesSearch(gym, [], 'SAO jorge')).toBe(true);
+  });
+
+  it('matches everything on an empty query', () => {
+    expect(matchesSearch(gym, [], '   ')).toBe(true);
+  });
+});
+
+describe('sortFavorites', () => {
+  const items = [
+    place('Bakery', { useCount: 2, lastUsedAt: new Date(2025, 0, 5), latitude: -23.6, longitude: -46.6 }),
+    place('Airport', { useCount: 5, latitude: -23.43, longitude: -46.47 }),
+    place('Cafe', { useCount: 2, createdAt: new Date(2025, 0, 9) }),
+  ];
+  const origin = { latitude: -23.55, longitude: -46.63 };
+
+  it('sorts by name', () => {
+    expect(names(sortFavorites(items, 'name', pointOf))).toEqual(['Airport', 'Bakery', 'Cafe']);
+  });
+
+  it('sorts by use count, ties by name', () => {
+    expect(names(sortFavorites(items, 'mostUsed', pointOf))).toEqual(['Airport', 'Bakery', 'Cafe']);
+  });
+
+  it('sorts by last use, or creation when never used', () => {
+    expect(names(sortFavorites(items, 'recent', pointOf))).toEqual(['Cafe', 'Bakery', 'Airport']);
+  });
+
+  it('sorts by distance with places lacking coordinates last', () => {
+    expect(names(sortFavorites(items, 'distance', pointOf, origin))).toEqual(['Bakery', 'Airport', 'Cafe']);
+  });
+
+  it('falls back to name order when the origin is unknown', () => {
+    expect(names(sortFavorites(items, 'distance', pointOf, null))).toEqual(['Airport', 'Bakery', 'Cafe']);
+    expect(names(sortFavorites([...items].reverse(), 'distance', pointOf))).toEqual(['Airport', 'Bakery', 'Cafe']);
+  });
+
+  it('leaves the input array alone', () => {
+    const input = [...items].reverse();
+    sortFavorites(input, 'name', pointOf);
+    expect(names(input)).toEqual(['Cafe', 'Airport', 'Bakery']);
+  });
+});
+
+describe('groupByFolder', () => {
+  it('orders folders by name and puts unfiled items last', () => {
+    const groups = groupByFolder([
+      place('Home'),
+      place('Office', { folder: 'Work' }),
+      place('Gym', { folder: 'Sports' }),
+      place('Client', { folder: 'Work' }),
+    ]);
+
+    expect(groups.map(group => [group.folder, names(group.items)])).toEqual([
+      ['Sports', ['Gym']],
+      ['Work', ['Office', 'Client']],
+      [null, ['Home']],
+    ]);
+  });
+});
+
+describe('nextPinOrder', () => {
+  it('goes after the highest pin, starting at 0', () => {
+    expect(nextPinOrder([])).toBe(0);
+    expect(nextPinOrder([{ pinOrder: 0 }, {}, { pinOrder: 3 }, { pinOrder: 1 }])).toBe(4);
+  });
+});
+
+describe('mergeOrganization', () => {
+  it('keeps the first folder, every tag, the summed uses, the latest use and the highest pin', () => {
+    expect(mergeOrganization([
+      { tags: ['gym'], useCount: 2, lastUsedAt: new Date(2025, 0, 3), pinOrder: 4 },
+      { folder: 'Sports', tags: ['gym', 'weekly'], useCount: 3, lastUsedAt: new Date(2025, 0, 7), pinOrder: 1 },
+      { folder: 'Health' },
+    ])).toEqual({
+      folder: 'Sports',
+      tags: ['gym', 'weekly'],
+      useCount: 5,
+      lastUsedAt: new Date(2025, 0, 7),
+      pinOrder: 1,
+    });
+  });
+
+  it('leaves fields unset when no entry has them', () => {
+    expect(mergeOrganization([{}, { tags: [] }])).toEqual({
+      folder: undefined,
+      tags: undefined,
+      useCount: undefined,
+      lastUsedAt: undefined,
+      pinOrder: undefined,
+    });
+  });
+});
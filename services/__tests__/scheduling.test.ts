@@ -0,0 +1,86 @@
+import {
+  createFakeClock,
+  getNextOccurrence,
+  getReminderTriggers,
+  needsReminderRefresh,
+  DATED_REMINDER_WEEKS,
+} from '../scheduling';
+
+// Monday 6 January 2025, 08:30 local time
+const MONDAY = new Date(2025, 0, 6, 8, 30);
+const at = (day: number, hour = 8, minute = 30) => new Date(2025, 0, day, hour, minute);
+
+describe('getNextOccurrence', () => {
+  it('returns a one-off ride until it has passed', () => {
+    expect(getNextOccurrence(MONDAY, 'none', at(6, 8, 0))).toEqual(MONDAY);
+    expect(getNextOccurrence(MONDAY, 'none', at(6, 9, 0))).toBeNull();
+  });
+
+  it('steps weekly rides a week at a time', () => {
+    expect(getNextOccurrence(MONDAY, 'weekly', at(1))).toEqual(MONDAY);
+    expect(getNextOccurrence(MONDAY, 'weekly', at(6, 9, 0))).toEqual(at(13));
+    expect(getNextOccurrence(MONDAY, 'weekly', at(20, 8, 30))).toEqual(at(20));
+  });
+
+  it('skips weekends for weekday rides', () => {
+    // Friday after the ride time moves to Monday
+    expect(getNextOccurrence(MONDAY, 'weekdays', at(10, 9, 0))).toEqual(at(13));
+    expect(getNextOccurrence(MONDAY, 'weekdays', at(11, 12, 0))).toEqual(at(13));
+    expect(getNextOccurrence(MONDAY, 'weekdays', at(7, 7, 0))).toEqual(at(7));
+  });
+
+  it('never returns a weekday ride before its start', () => {
+    expect(getNextOccurrence(at(20), 'weekdays', at(6))).toEqual(at(20));
+  });
+});
+
+describe('getReminderTriggers', () => {
+  it('gives a one-off ride a single dated reminder, and none once past', () => {
+    expect(getReminderTriggers(MONDAY, 'none', at(1))).toEqual([{ type: 'date', date: MONDAY }]);
+    expect(getReminderTriggers(MONDAY, 'none', at(7))).toEqual([]);
+  });
+
+  it('repeats weekly and weekday rides that have started', () => {
+    expect(getReminderTriggers(MONDAY, 'weekly', at(7))).toEqual([
+      { type: 'weekly', weekday: 2, hour: 8, minute: 30 },
+    ]);
+    expect(getReminderTriggers(MONDAY, 'weekdays', at(7)).map(trigger => trigger.type === 'weekly' && trigger.weekday))
+      .toEqual([2, 3, 4, 5, 6]);
+  });
+
+  it('uses dated reminders for a recurring ride that starts weeks from now', () => {
+    const start = at(27);
+    const triggers = getReminderTriggers(start, 'weekly', at(6));
+
+    expect(triggers).toHaveLength(DATED_REMINDER_WEEKS);
+    expect(triggers[0]).toEqual({ type: 'date', date: start });
+    triggers.forEach(trigger => {
+      expect(trigger.type).toBe('date');
+      expect(trigger.type === 'date' && trigger.date >= start).toBe(true);
+    });
+  });
+
+  it('dates every weekday of the first weeks and none on weekends', () => {
+    const triggers = getReminderTriggers(at(20), 'weekdays', at(6));
+
+    expect(triggers).toHaveLength(5 * DATED_REMINDER_WEEKS);
+    triggers.forEach(trigger => {
+      const date = trigger.type === 'date' ? trigger.date : null;
+      expect(date && date.getDay() >= 1 && date.getDay() <= 5).toBe(true);
+      expect(date && date >= at(20)).toBe(true);
+    });
+  });
+});
+
+describe('needsReminderRefresh', () => {
+  it('asks for repeating reminders once a recurring ride with dated ones has started', () => {
+    const clock = createFakeClock(at(6));
+    const ride = { scheduledAt: at(20), recurrence: 'weekly' as const, datedReminders: true };
+
+    expect(needsReminderRefresh(ride, clock.now())).toBe(false);
+    clock.advance(14 * 24 * 60 * 60 * 1000);
+    expect(needsReminderRefresh(ride, clock.now())).toBe(true);
+    expect(needsReminderRefresh({ ...ride, datedReminders: false }, clock.now())).toBe(false);
+    expect(needsReminderRefresh({ ...ride, recurrence: 'none' }, clock.now())).toBe(false);
+  });
+});
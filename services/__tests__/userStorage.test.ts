@@ -0,0 +1,69 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  USER_STORAGE_KEYS,
+  activateUserStorage,
+  clearUserStorage,
+  deactivateUserStorage,
+  onUserStorageActivated,
+  userStorageKey,
+} from '../userStorage';
+
+const activated = jest.fn(async (_userId: string) => {});
+onUserStorageActivated(activated);
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+beforeEach(async () => {
+  deactivateUserStorage();
+  activated.mockClear();
+  await AsyncStorage.clear();
+});
+
+describe('userStorageKey', () => {
+  it('refuses to build a key without an account', () => {
+    expect(() => userStorageKey(USER_STORAGE_KEYS.favorites)).toThrow('No account is signed in');
+  });
+
+  it('scopes keys to the signed-in account unless one is given', async () => {
+    await activateUserStorage('alice');
+    expect(userStorageKey(USER_STORAGE_KEYS.favorites)).toBe('ride_launcher_favorites:alice');
+    expect(userStorageKey(USER_STORAGE_KEYS.favorites, 'bob')).toBe('ride_launcher_favorites:bob');
+  });
+});
+
+describe('activateUserStorage', () => {
+  it('runs activation listeners only when the account changes', async () => {
+    await activateUserStorage('alice');
+    await activateUserStorage('alice');
+    await activateUserStorage('bob');
+
+    expect(activated.mock.calls).toEqual([['alice'], ['bob']]);
+  });
+
+  it('gives data saved before accounts to the first account only', async () => {
+    await AsyncStorage.setItem(USER_STORAGE_KEYS.favorites, '[{"id":"home"}]');
+
+    await activateUserStorage('alice');
+    await activateUserStorage('bob');
+
+    expect(await AsyncStorage.getItem(USER_STORAGE_KEYS.favorites)).toBeNull();
+    expect(await AsyncStorage.getItem('ride_launcher_favorites:alice')).toBe('[{"id":"home"}]');
+    expect(await AsyncStorage.getItem('ride_launcher_favorites:bob')).toBeNull();
+  });
+});
+
+describe('clearUserStorage', () => {
+  it("removes one account's data and leaves the others", async () => {
+    await AsyncStorage.multiSet([
+      ['ride_launcher_favorites:alice', '[]'],
+      ['ride_launcher_favorites:bob', '[]'],
+    ]);
+
+    await clearUserStorage('alice');
+
+    expect(await AsyncStorage.getItem('ride_launcher_favorites:alice')).toBeNull();
+    expect(await AsyncStorage.getItem('ride_launcher_favorites:bob')).toBe('[]');
+  });
+});
@@ -0,0 +1,118 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createRestAuthBackend } from '../rest';
+import { AuthBackend } from '../types';
+
+const { server } = require('../../../scripts/stub-server');
+
+const listen = async (target: http.Server) => {
+  await new Promise<void>(resolve => target.listen(0, resolve));
+  return `http://127.0.0.1:${(target.address() as AddressInfo).port}`;
+};
+
+const close = (target: http.Server) => new Promise(resolve => target.close(resolve));
+
+describe('createRestAuthBackend against the stub server', () => {
+  let backend: AuthBackend;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    backend = createRestAuthBackend(await listen(server));
+  });
+
+  afterAll(() => close(server));
+
+  it('signs in the demo account', async () => {
+    const result = await backend.login('Demo@RideLink.com', 'demo123');
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.session.user).toMatchObject({ email: 'demo@ridelink.com', name: 'Demo User' });
+      expect(result.session.user.createdAt).toBeInstanceOf(Date);
+      expect(result.session.tokens.expiresAt).toBeGreaterThan(Date.now());
+    }
+  });
+
+  it("reports the server's error for a wrong password", async () => {
+    await expect(backend.login('demo@ridelink.com', 'wrong')).resolves.toEqual({
+      success: false,
+      error: 'Invalid email or password',
+      unauthorized: true,
+    });
+  });
+
+  it('refuses to register a taken email', async () => {
+    await expect(backend.register('Demo', 'demo@ridelink.com', 'demo123')).resolves.toMatchObject({
+      success: false,
+      error: 'Email already exists',
+    });
+  });
+
+  it('spends refresh tokens and ends every session when one is reused', async () => {
+    const login = await backend.login('demo@ridelink.com', 'demo123');
+    if (!login.success) throw new Error(login.error);
+    const { refreshToken } = login.session.tokens;
+
+    const refreshed = await backend.refresh(refreshToken);
+    expect(refreshed.success).toBe(true);
+    if (!refreshed.success) return;
+
+    await expect(backend.refresh(refreshToken)).resolves.toMatchObject({ success: false, unauthorized: true });
+    await expect(backend.refresh(refreshed.tokens.refreshToken)).resolves.toMatchObject({ success: false });
+  });
+
+  it('updates and deletes an account with its access token', async () => {
+    const registered = await backend.register('Rider', 'rider@example.com', 'secret1');
+    if (!registered.success) throw new Error(registered.error);
+    const { accessToken } = registered.session.tokens;
+
+    await expect(backend.updateProfile(accessToken, { name: 'Renamed' })).resolves.toMatchObject({
+      success: true,
+      user: { name: 'Renamed' },
+    });
+    await expect(backend.deleteAccount(accessToken)).resolves.toEqual({ success: true });
+    await expect(backend.login('rider@example.com', 'secret1')).resolves.toMatchObject({ success: false });
+  });
+});
+
+describe('createRestAuthBackend behind a proxy', () => {
+  let reply: { status: number; contentType: string; body: string };
+  let proxy: http.Server;
+  let backend: AuthBackend;
+
+  beforeAll(async () => {
+    proxy = http.createServer((req, res) => {
+      res.writeHead(reply.status, { 'Content-Type': reply.contentType });
+      res.end(reply.body);
+    });
+    backend = createRestAuthBackend(await listen(proxy));
+  });
+
+  afterAll(() => close(proxy));
+
+  it('reports an HTML error page by its status', async () => {
+    reply = { status: 502, contentType: 'text/html', body: '<html><body>Bad Gateway</body></html>' };
+
+    await expect(backend.login('demo@ridelink.com', 'demo123')).resolves.toEqual({
+      success: false,
+      error: 'Server error (502 Bad Gateway)',
+      unauthorized: undefined,
+    });
+  });
+
+  it('keeps the 401 flag on a plain text error', async () => {
+    reply = { status: 401, contentType: 'text/plain', body: 'Unauthorized' };
+
+    await expect(backend.updateProfile('token', { name: 'x' })).resolves.toMatchObject({
+      success: false,
+      unauthorized: true,
+    });
+  });
+
+  it('throws when a success answer is not JSON', async () => {
+    reply = { status: 200, contentType: 'text/html', body: '<html>Captive portal</html>' };
+
+    await expect(backend.login('demo@ridelink.com', 'demo123')).rejects.toThrow('200 without JSON');
+  });
+});
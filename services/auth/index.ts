@@ -0,0 +1,35 @@
+import { AuthBackend, AuthBackendId } from './types';
+import { createMockAuthBackend } from './mock';
+import { createRestAuthBackend } from './rest';
+
+export * from './types';
+export { createMockAuthBackend } from './mock';
+export { createRestAuthBackend } from './rest';
+export { secureStorage } from './secureStorage';
+export type { SecureStorage } from './secureStorage';
+export { loadStoredSession, saveStoredSession, clearStoredSession } from './sessionStore';
+export type { StoredSession } from './sessionStore';
+
+const authApiUrl = process.env.EXPO_PUBLIC_AUTH_API_URL;
+
+// The REST backend is used whenever a server is configured, unless
+// EXPO_PUBLIC_AUTH_BACKEND=mock asks for the offline demo account.
+export function getAuthBackendId(): AuthBackendId {
+  if (process.env.EXPO_PUBLIC_AUTH_BACKEND === 'mock' || !authApiUrl) {
+    return 'mock';
+  }
+  return 'rest';
+}
+
+export function createAuthBackend(id: AuthBackendId = getAuthBackendId()): AuthBackend {
+  switch (id) {
+    case 'rest':
+      if (!authApiUrl) {
+        throw new Error('EXPO_PUBLIC_AUTH_API_URL must be set to use the REST auth backend');
+      }
+      return createRestAuthBackend(authApiUrl);
+    case 'mock':
+    default:
+      return createMockAuthBackend();
+  }
+}
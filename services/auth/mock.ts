@@ -0,0 +1,78 @@
+import { AuthBackend, AuthTokens, User } from './types';
+
+const MOCK_DELAY_MS = 1000;
+const MOCK_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const issueTokens = (): AuthTokens => {
+  const nonce = `${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+  return {
+    accessToken: `mock_access_${nonce}`,
+    refreshToken: `mock_refresh_${nonce}`,
+    expiresAt: Date.now() + MOCK_TOKEN_TTL_MS,
+  };
+};
+
+const demoUser = (): User => ({
+  id: '1',
+  email: 'demo@ridelink.com',
+  name: 'Demo User',
+  avatar: 'https://images.pexels.com/photos/220453/pexels-photo-220453.jpeg?auto=compress&cs=tinysrgb&w=150&h=150&dpr=2',
+  createdAt: new Date('2024-01-01'),
+  lastLoginAt: new Date(),
+});
+
+// Offline stand-in used when no auth server is configured. Only the demo
+// account can sign in, and any token is accepted.
+export function createMockAuthBackend(): AuthBackend {
+  return {
+    id: 'mock',
+
+    login: async (email, password) => {
+      await delay(MOCK_DELAY_MS);
+
+      if (email === 'demo@ridelink.com' && password === 'demo123') {
+        return { success: true, session: { user: demoUser(), tokens: issueTokens() } };
+      }
+
+      return { success: false, error: 'Invalid email or password' };
+    },
+
+    register: async (name, email) => {
+      await delay(MOCK_DELAY_MS);
+
+      if (email === 'existing@example.com') {
+        return { success: false, error: 'Email already exists' };
+      }
+
+      const user: User = {
+        id: Date.now().toString(),
+        email,
+        name,
+        createdAt: new Date(),
+        lastLoginAt: new Date(),
+      };
+      return { success: true, session: { user, tokens: issueTokens() } };
+    },
+
+    refresh: async () => {
+      return { success: true, tokens: issueTokens() };
+    },
+
+    resetPassword: async () => {
+      await delay(MOCK_DELAY_MS);
+      return { success: true };
+    },
+
+    updateProfile: async () => {
+      await delay(500);
+      return { success: true };
+    },
+
+    deleteAccount: async () => {
+      await delay(500);
+      return { success: true };
+    },
+  };
+}
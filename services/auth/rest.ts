@@ -0,0 +1,139 @@
+import { AuthBackend, AuthFailure, AuthTokens, User } from './types';
+
+/*
+ * JSON API expected by the REST backend (see scripts/stub-server.js):
+ *
+ *   POST   /auth/login           { email, password }        -> 200 TokenResponse
+ *   POST   /auth/register        { name, email, password }  -> 201 TokenResponse
+ *   POST   /auth/refresh         { refreshToken }           -> 200 TokenResponse
+ *   POST   /auth/password-reset  { email }                  -> 204
+ *   PATCH  /auth/me              { name?, avatar? }         -> 200 { user }
+ *   DELETE /auth/me                                         -> 204
+ *
+ * TokenResponse is { user, accessToken, refreshToken, expiresIn } with
+ * `expiresIn` in seconds. Errors answer with { error: string }; error pages
+ * that are not JSON (from a proxy, say) are reported by their HTTP status.
+ */
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  accessToken?: string;
+}
+
+const parseUser = (raw: any): User => ({
+  ...raw,
+  createdAt: new Date(raw.createdAt),
+  lastLoginAt: new Date(raw.lastLoginAt),
+});
+
+const parseTokens = (data: any): AuthTokens => ({
+  accessToken: data.accessToken,
+  refreshToken: data.refreshToken,
+  expiresAt: typeof data.expiresIn === 'number' ? Date.now() + data.expiresIn * 1000 : null,
+});
+
+export function createRestAuthBackend(baseUrl: string, timeoutMs = 10000): AuthBackend {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, { method = 'POST', body, accessToken }: RequestOptions = {}) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const headers: Record<string, string> = { Accept: 'application/json' };
+      if (body !== undefined) {
+        headers['Content-Type'] = 'application/json';
+      }
+      if (accessToken) {
+        headers.Authorization = `Bearer ${accessToken}`;
+      }
+
+      const response = await fetch(`${root}${path}`, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+
+      // Proxies answer errors with HTML or plain text; data is undefined then
+      const text = await response.text();
+      const isJson = /\bjson\b/i.test(response.headers.get('content-type') || '');
+      if (!isJson && text) {
+        if (response.ok) {
+          throw new Error(`Auth server answered ${response.status} without JSON`);
+        }
+        return { response, data: undefined };
+      }
+      const data = text ? JSON.parse(text) : null;
+      return { response, data };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const statusError = (response: Response) =>
+    `Server error (${[response.status, response.statusText].filter(Boolean).join(' ')})`;
+
+  const failure = (response: Response, data: any, fallback: string): AuthFailure => ({
+    success: false,
+    error: typeof data?.error === 'string' ? data.error : data === undefined ? statusError(response) : fallback,
+    unauthorized: response.status === 401 || undefined,
+  });
+
+  return {
+    id: 'rest',
+
+    login: async (email, password) => {
+      const { response, data } = await request('/auth/login', { body: { email, password } });
+      if (!response.ok) {
+        return failure(response, data, 'Invalid email or password');
+      }
+      return { success: true, session: { user: parseUser(data.user), tokens: parseTokens(data) } };
+    },
+
+    register: async (name, email, password) => {
+      const { response, data } = await request('/auth/register', { body: { name, email, password } });
+      if (!response.ok) {
+        return failure(response, data, 'Registration failed');
+      }
+      return { success: true, session: { user: parseUser(data.user), tokens: parseTokens(data) } };
+    },
+
+    refresh: async (refreshToken) => {
+      const { response, data } = await request('/auth/refresh', { body: { refreshToken } });
+      if (!response.ok) {
+        return failure(response, data, 'Session expired');
+      }
+      return {
+        success: true,
+        tokens: parseTokens(data),
+        user: data.user ? parseUser(data.user) : undefined,
+      };
+    },
+
+    resetPassword: async (email) => {
+      const { response, data } = await request('/auth/password-reset', { body: { email } });
+      if (!response.ok) {
+        return failure(response, data, 'Failed to send reset email');
+      }
+      return { success: true };
+    },
+
+    updateProfile: async (accessToken, updates) => {
+      const { response, data } = await request('/auth/me', { method: 'PATCH', body: updates, accessToken });
+      if (!response.ok) {
+        return failure(response, data, 'Failed to update profile');
+      }
+      return { success: true, user: data?.user ? parseUser(data.user) : undefined };
+    },
+
+    deleteAccount: async (accessToken) => {
+      const { response, data } = await request('/auth/me', { method: 'DELETE', accessToken });
+      if (!response.ok) {
+        return failure(response, data, 'Failed to delete account');
+      }
+      return { success: true };
+    },
+  };
+}
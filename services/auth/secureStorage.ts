@@ -0,0 +1,120 @@
+import { Platform } from 'react-native';
+import * as SecureStore from 'expo-secure-store';
+
+export interface SecureStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+// Keychain on iOS, Keystore-backed storage on Android. Items never leave the
+// device through backups or restores onto another phone.
+const SECURE_STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+};
+
+const nativeSecureStorage: SecureStorage = {
+  getItem: key => SecureStore.getItemAsync(key, SECURE_STORE_OPTIONS),
+  setItem: (key, value) => SecureStore.setItemAsync(key, value, SECURE_STORE_OPTIONS),
+  removeItem: key => SecureStore.deleteItemAsync(key, SECURE_STORE_OPTIONS),
+};
+
+/*
+ * Browsers have no secure store. Values are encrypted with AES-GCM before they
+ * go into localStorage, under a key that is generated as non-extractable and
+ * kept in IndexedDB. Script running in the page can still ask the browser to
+ * decrypt, but the raw key and plain tokens can't be copied out of storage.
+ */
+const WEB_DB_NAME = 'ridelink_secure_storage';
+const WEB_DB_STORE = 'keys';
+const WEB_KEY_ID = 'session';
+const WEB_ITEM_PREFIX = 'ridelink_secure:';
+
+const requestToPromise = <T,>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openKeyDatabase = () => {
+  const request = indexedDB.open(WEB_DB_NAME, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(WEB_DB_STORE);
+  };
+  return requestToPromise(request);
+};
+
+let webKeyPromise: Promise<CryptoKey> | null = null;
+
+const getWebKey = () => {
+  if (!webKeyPromise) {
+    webKeyPromise = (async () => {
+      const db = await openKeyDatabase();
+      const existing = await requestToPromise<CryptoKey | undefined>(
+        db.transaction(WEB_DB_STORE, 'readonly').objectStore(WEB_DB_STORE).get(WEB_KEY_ID)
+      );
+      if (existing) {
+        return existing;
+      }
+
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+      await requestToPromise(
+        db.transaction(WEB_DB_STORE, 'readwrite').objectStore(WEB_DB_STORE).put(key, WEB_KEY_ID)
+      );
+      return key;
+    })();
+    webKeyPromise.catch(() => {
+      webKeyPromise = null;
+    });
+  }
+  return webKeyPromise;
+};
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const encryptedWebStorage: SecureStorage = {
+  getItem: async (key) => {
+    const stored = localStorage.getItem(WEB_ITEM_PREFIX + key);
+    if (!stored) {
+      return null;
+    }
+
+    try {
+      const [iv, data] = stored.split('.').map(fromBase64);
+      const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, await getWebKey(), data);
+      return new TextDecoder().decode(plain);
+    } catch (error) {
+      // The key is gone (site data partly cleared) or the value was tampered with
+      console.warn('⚠️ Discarding unreadable secure item:', key);
+      localStorage.removeItem(WEB_ITEM_PREFIX + key);
+      return null;
+    }
+  },
+  setItem: async (key, value) => {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await getWebKey(), new TextEncoder().encode(value));
+    localStorage.setItem(WEB_ITEM_PREFIX + key, `${toBase64(iv)}.${toBase64(new Uint8Array(data))}`);
+  },
+  removeItem: async (key) => {
+    localStorage.removeItem(WEB_ITEM_PREFIX + key);
+  },
+};
+
+// Without WebCrypto (e.g. plain http on a LAN address) the session only lives
+// as long as the tab, instead of sitting unencrypted in localStorage.
+const tabWebStorage: SecureStorage = {
+  getItem: async key => sessionStorage.getItem(WEB_ITEM_PREFIX + key),
+  setItem: async (key, value) => sessionStorage.setItem(WEB_ITEM_PREFIX + key, value),
+  removeItem: async key => sessionStorage.removeItem(WEB_ITEM_PREFIX + key),
+};
+
+const createSecureStorage = (): SecureStorage => {
+  if (Platform.OS !== 'web') {
+    return nativeSecureStorage;
+  }
+  const hasWebCrypto = typeof crypto !== 'undefined' && !!crypto.subtle && typeof indexedDB !== 'undefined';
+  return hasWebCrypto ? encryptedWebStorage : tabWebStorage;
+};
+
+export const secureStorage = createSecureStorage();
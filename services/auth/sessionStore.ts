@@ -0,0 +1,90 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { secureStorage } from './secureStorage';
+import { AuthTokens, User } from './types';
+
+const AUTH_STORAGE_KEY = 'ridelink_auth_user';
+const SESSION_STORAGE_KEY = 'ridelink_session_token';
+
+export interface StoredSession {
+  user: User;
+  tokens: AuthTokens;
+}
+
+const parseStoredTokens = (stored: string): AuthTokens => {
+  try {
+    const parsed = JSON.parse(stored);
+    if (parsed && typeof parsed.accessToken === 'string') {
+      return parsed;
+    }
+  } catch {
+    // Sessions saved before token rotation hold a bare token string
+  }
+  return { accessToken: stored, refreshToken: stored, expiresAt: null };
+};
+
+const parseStoredUser = (stored: string): User => {
+  const parsedUser = JSON.parse(stored);
+  // Convert date strings back to Date objects
+  parsedUser.createdAt = new Date(parsedUser.createdAt);
+  parsedUser.lastLoginAt = new Date(parsedUser.lastLoginAt);
+  return parsedUser;
+};
+
+/**
+ * Earlier versions kept the session in plain AsyncStorage. Moves it into the
+ * secure store once and deletes the old copies, even when they can't be used.
+ */
+const migrateLegacySession = async () => {
+  const [legacyUser, legacyToken] = await Promise.all([
+    AsyncStorage.getItem(AUTH_STORAGE_KEY),
+    AsyncStorage.getItem(SESSION_STORAGE_KEY),
+  ]);
+  if (!legacyUser && !legacyToken) {
+    return;
+  }
+
+  if (legacyUser && legacyToken) {
+    const existing = await secureStorage.getItem(SESSION_STORAGE_KEY);
+    if (!existing) {
+      await Promise.all([
+        secureStorage.setItem(AUTH_STORAGE_KEY, legacyUser),
+        secureStorage.setItem(SESSION_STORAGE_KEY, legacyToken),
+      ]);
+      console.log('🔐 Moved saved session into secure storage');
+    }
+  }
+
+  await AsyncStorage.multiRemove([AUTH_STORAGE_KEY, SESSION_STORAGE_KEY]);
+};
+
+export async function loadStoredSession(): Promise<StoredSession | null> {
+  try {
+    await migrateLegacySession();
+  } catch (error) {
+    console.error('❌ Failed to migrate saved session:', error);
+  }
+
+  const [storedUser, storedToken] = await Promise.all([
+    secureStorage.getItem(AUTH_STORAGE_KEY),
+    secureStorage.getItem(SESSION_STORAGE_KEY),
+  ]);
+  if (!storedUser || !storedToken) {
+    return null;
+  }
+
+  return { user: parseStoredUser(storedUser), tokens: parseStoredTokens(storedToken) };
+}
+
+export async function saveStoredSession(user: User, tokens: AuthTokens) {
+  await Promise.all([
+    secureStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(user)),
+    secureStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(tokens)),
+  ]);
+}
+
+export async function clearStoredSession() {
+  await Promise.all([
+    secureStorage.removeItem(AUTH_STORAGE_KEY),
+    secureStorage.removeItem(SESSION_STORAGE_KEY),
+  ]);
+}
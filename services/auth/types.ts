@@ -0,0 +1,50 @@
+export type AuthBackendId = 'mock' | 'rest';
+
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+  avatar?: string;
+  createdAt: Date;
+  lastLoginAt: Date;
+}
+
+export type ProfileUpdates = Partial<Pick<User, 'name' | 'avatar'>>;
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  // Epoch milliseconds; null when the backend doesn't say
+  expiresAt: number | null;
+}
+
+export interface AuthSession {
+  user: User;
+  tokens: AuthTokens;
+}
+
+// `unauthorized` is set when the backend rejected the token (HTTP 401), so the
+// caller can try a refresh or sign the user out.
+export type AuthFailure = { success: false; error: string; unauthorized?: boolean };
+
+export type SessionResult = { success: true; session: AuthSession } | AuthFailure;
+// A refresh may also return the latest profile
+export type RefreshResult = { success: true; tokens: AuthTokens; user?: User } | AuthFailure;
+// Backends that don't echo the saved profile leave `user` out
+export type UserResult = { success: true; user?: User } | AuthFailure;
+export type ActionResult = { success: true } | AuthFailure;
+
+/**
+ * Account operations behind AuthContext. Expected failures (bad password,
+ * taken email, expired token) come back as results; network errors throw.
+ */
+export interface AuthBackend {
+  id: AuthBackendId;
+  login(email: string, password: string): Promise<SessionResult>;
+  register(name: string, email: string, password: string): Promise<SessionResult>;
+  // Exchanges a refresh token for a new token pair; the old refresh token is spent
+  refresh(refreshToken: string): Promise<RefreshResult>;
+  resetPassword(email: string): Promise<ActionResult>;
+  updateProfile(accessToken: string, updates: ProfileUpdates): Promise<UserResult>;
+  deleteAccount(accessToken: string): Promise<ActionResult>;
+}
@@ -0,0 +1,150 @@
+import { FavoriteDestination } from '@/hooks/useFavorites';
+import { FavoriteRoute, RoutePoint } from '@/hooks/useRouteFavorites';
+import { RideLaunchEntry } from '@/hooks/useRideHistory';
+import { haversineKm } from '@/services/quotes';
+import { isSamePoint } from '@/services/transfer/dedupe';
+
+export type SuggestionReason = 'usualTime' | 'usualDay' | 'fromHere' | 'savedRoute' | 'goHome' | 'goToWork';
+
+export interface DestinationSuggestion {
+  destination: RoutePoint;
+  // Favorite matching the destination, for its name and icon
+  favorite?: FavoriteDestination;
+  // Main reason the destination was picked, for the label under it
+  reason: SuggestionReason;
+  score: number;
+}
+
+interface SuggestionContext {
+  history: RideLaunchEntry[];
+  routes: FavoriteRoute[];
+  favorites: FavoriteDestination[];
+  now: Date;
+  // Where the rider is, or the pickup they chose
+  origin?: { latitude: number; longitude: number } | null;
+}
+
+// How fast a launch stops counting; one from a month ago counts half
+const HISTORY_HALF_LIFE_DAYS = 30;
+// Launches within about this many hours of the current time count most
+const HOUR_SPREAD = 1.5;
+// A past trip started "from here" when its pickup was this close
+const SAME_ORIGIN_KM = 1;
+// Don't suggest going where the rider already is
+const ALREADY_THERE_KM = 0.3;
+const SAVED_ROUTE_SCORE = 0.8;
+const HOME_WORK_SCORE = 1;
+const MAX_SUGGESTIONS = 3;
+// Below this a destination is more noise than habit, e.g. one trip months ago
+const MIN_SCORE = 0.15;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isWeekend = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+
+const hasCoordinates = (point: RoutePoint): point is RoutePoint & { latitude: number; longitude: number } =>
+  point.latitude !== undefined && point.longitude !== undefined;
+
+const distanceKm = (point: RoutePoint, origin: { latitude: number; longitude: number }) =>
+  hasCoordinates(point) ? haversineKm(point, origin) : Infinity;
+
+// Closeness in time of day, wrapping around midnight: 1 at the same hour, near 0 six hours off
+const timeOfDayWeight = (launchedAt: Date, now: Date) => {
+  const hours = (date: Date) => date.getHours() + date.getMinutes() / 60;
+  const difference = Math.abs(hours(launchedAt) - hours(now));
+  const wrapped = Math.min(difference, 24 - difference);
+  return Math.exp(-(wrapped ** 2) / (2 * HOUR_SPREAD ** 2));
+};
+
+const dayWeight = (launchedAt: Date, now: Date) => {
+  if (launchedAt.getDay() === now.getDay()) {
+    return 1;
+  }
+  return isWeekend(launchedAt) === isWeekend(now) ? 0.6 : 0.2;
+};
+
+// Home in the evening and at night, work on weekday mornings
+const homeWorkReason = (category: FavoriteDestination['category'], now: Date): SuggestionReason | null => {
+  const hour = now.getHours();
+  if (category === 'home' && (hour >= 16 || hour < 4)) {
+    return 'goHome';
+  }
+  if (category === 'work' && !isWeekend(now) && hour >= 6 && hour < 11) {
+    return 'goToWork';
+  }
+  return null;
+};
+
+interface Candidate {
+  destination: RoutePoint;
+  score: number;
+  reasons: Partial<Record<SuggestionReason, number>>;
+}
+
+/**
+ * Likely destinations for a ride starting now, from launch history (weighted
+ * by time of day, day of week, starting point and recency), saved routes
+ * starting near the rider, and the home and work favorites at the hours
+ * people usually head there.
+ */
+export function suggestDestinations({ history, routes, favorites, now, origin }: SuggestionContext): DestinationSuggestion[] {
+  const candidates: Candidate[] = [];
+
+  const addScore = (destination: RoutePoint, score: number, reason: SuggestionReason) => {
+    if (score <= 0 || (origin && distanceKm(destination, origin) <= ALREADY_THERE_KM)) {
+      return;
+    }
+    let candidate = candidates.find(existing => isSamePoint(existing.destination, destination));
+    if (!candidate) {
+      candidate = { destination, score: 0, reasons: {} };
+      candidates.push(candidate);
+    }
+    candidate.score += score;
+    candidate.reasons[reason] = (candidate.reasons[reason] || 0) + score;
+  };
+
+  history
+    .filter(entry => entry.outcome === 'opened')
+    .forEach(entry => {
+      const ageDays = Math.max(0, now.getTime() - entry.launchedAt.getTime()) / DAY_MS;
+      const recency = 0.5 ** (ageDays / HISTORY_HALF_LIFE_DAYS);
+      const timeWeight = timeOfDayWeight(entry.launchedAt, now);
+      const fromHere = !!origin && distanceKm(entry.pickup, origin) <= SAME_ORIGIN_KM;
+      const score = recency * timeWeight * dayWeight(entry.launchedAt, now) * (fromHere ? 1.5 : 1);
+
+      const reason: SuggestionReason = fromHere ? 'fromHere' : timeWeight >= 0.5 ? 'usualTime' : 'usualDay';
+      addScore(entry.destination, score, reason);
+    });
+
+  if (origin) {
+    routes
+      .filter(route => distanceKm(route.pickup, origin) <= SAME_ORIGIN_KM)
+      .forEach(route => addScore(route.destination, SAVED_ROUTE_SCORE, 'savedRoute'));
+  }
+
+  favorites.forEach(favorite => {
+    const reason = homeWorkReason(favorite.category, now);
+    if (reason) {
+      addScore(favorite, HOME_WORK_SCORE, reason);
+    }
+  });
+
+  return candidates
+    .filter(candidate => candidate.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(candidate => {
+      const [reason] = (Object.entries(candidate.reasons) as [SuggestionReason, number][])
+        .sort((a, b) => b[1] - a[1])[0];
+      const favorite = favorites.find(fav => isSamePoint(fav, candidate.destination));
+      return {
+        // A saved favorite has the tidier name and address
+        destination: favorite
+          ? { address: favorite.address, latitude: favorite.latitude, longitude: favorite.longitude, placeId: favorite.placeId }
+          : candidate.destination,
+        favorite,
+        reason,
+        score: candidate.score,
+      };
+    });
+}
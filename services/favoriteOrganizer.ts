@@ -0,0 +1,125 @@
+import { haversineKm } from '@/services/quotes';
+
+// Fields shared by saved places and routes for grouping, filtering and sorting
+export interface FavoriteOrganization {
+  folder?: string;
+  tags?: string[];
+  // Times the favorite was used to fill the launcher
+  useCount?: number;
+  lastUsedAt?: Date;
+  // Set on pinned favorites; lower comes first
+  pinOrder?: number;
+}
+
+interface Organizable extends FavoriteOrganization {
+  id: string;
+  name: string;
+  createdAt: Date;
+}
+
+export type FavoriteSortMode = 'name' | 'mostUsed' | 'recent' | 'distance';
+
+export const FAVORITE_SORT_MODES: FavoriteSortMode[] = ['name', 'mostUsed', 'recent', 'distance'];
+
+const normalizeText = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+export const normalizeFolder = (folder?: string) => folder?.trim().replace(/\s+/g, ' ') || undefined;
+
+/** Splits "work, Gym ,work" into ['work', 'gym'], lowercased and without repeats. */
+export function parseTags(text: string): string[] {
+  const tags = text
+    .split(',')
+    .map(tag => tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, ' '))
+    .filter(Boolean);
+  return [...new Set(tags)];
+}
+
+export const isPinned = (item: FavoriteOrganization) => item.pinOrder !== undefined;
+
+export const collectFolders = (items: FavoriteOrganization[]) =>
+  [...new Set(items.map(item => item.folder).filter((folder): folder is string => !!folder))]
+    .sort((a, b) => a.localeCompare(b));
+
+export const collectTags = (items: FavoriteOrganization[]) =>
+  [...new Set(items.flatMap(item => item.tags || []))].sort((a, b) => a.localeCompare(b));
+
+/**
+ * Every word of the query has to appear in the name, an address, the folder
+ * or a tag. Accents and case are ignored, so "sao" finds "São Paulo".
+ */
+export function matchesSearch(item: Organizable, addresses: string[], query: string): boolean {
+  const words = normalizeText(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return true;
+  }
+  const haystack = normalizeText([item.name, ...addresses, item.folder || '', ...(item.tags || [])].join(' '));
+  return words.every(word => haystack.includes(word));
+}
+
+/**
+ * Sorts a copy of `items`. `pointOf` gives the position used for distance
+ * sorting; items without one, or any item when `origin` is unknown, go last.
+ */
+export function sortFavorites<T extends Organizable>(
+  items: T[],
+  mode: FavoriteSortMode,
+  pointOf: (item: T) => { latitude?: number; longitude?: number },
+  origin?: { latitude: number; longitude: number } | null
+): T[] {
+  const byName = (a: T, b: T) => a.name.localeCompare(b.name);
+  const distanceOf = (item: T) => {
+    const point = pointOf(item);
+    return origin && point.latitude !== undefined && point.longitude !== undefined
+      ? haversineKm(origin, { latitude: point.latitude, longitude: point.longitude })
+      : Infinity;
+  };
+
+  const compare: Record<FavoriteSortMode, (a: T, b: T) => number> = {
+    name: byName,
+    mostUsed: (a, b) => (b.useCount || 0) - (a.useCount || 0) || byName(a, b),
+    recent: (a, b) =>
+      (b.lastUsedAt || b.createdAt).getTime() - (a.lastUsedAt || a.createdAt).getTime(),
+    distance: (a, b) => {
+      const difference = distanceOf(a) - distanceOf(b);
+      return Number.isNaN(difference) ? byName(a, b) : difference || byName(a, b);
+    },
+  };
+  return [...items].sort(compare[mode]);
+}
+
+export const sortPinned = <T extends FavoriteOrganization>(items: T[]) =>
+  items.filter(isPinned).sort((a, b) => (a.pinOrder as number) - (b.pinOrder as number));
+
+/** Groups items by folder in folder name order, unfiled items last. */
+export function groupByFolder<T extends FavoriteOrganization>(items: T[]): { folder: string | null; items: T[] }[] {
+  const groups = new Map<string | null, T[]>();
+  items.forEach(item => {
+    const folder = item.folder || null;
+    groups.set(folder, [...(groups.get(folder) || []), item]);
+  });
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === null ? 1 : b === null ? -1 : a.localeCompare(b)))
+    .map(([folder, grouped]) => ({ folder, items: grouped }));
+}
+
+/** Next pinOrder value, so a newly pinned favorite goes to the end of the pinned list. */
+export const nextPinOrder = (items: FavoriteOrganization[]) =>
+  items.reduce((max, item) => (item.pinOrder !== undefined && item.pinOrder >= max ? item.pinOrder + 1 : max), 0);
+
+/**
+ * Organization of an entry merged from duplicates: the first folder found,
+ * every tag, the summed use count, the latest use and the highest pin.
+ */
+export function mergeOrganization(items: FavoriteOrganization[]): FavoriteOrganization {
+  const pinOrders = items.map(item => item.pinOrder).filter((order): order is number => order !== undefined);
+  const lastUses = items.map(item => item.lastUsedAt?.getTime()).filter((time): time is number => time !== undefined);
+  const tags = [...new Set(items.flatMap(item => item.tags || []))];
+  return {
+    folder: items.find(item => item.folder)?.folder,
+    tags: tags.length > 0 ? tags : undefined,
+    useCount: items.reduce((sum, item) => sum + (item.useCount || 0), 0) || undefined,
+    lastUsedAt: lastUses.length > 0 ? new Date(Math.max(...lastUses)) : undefined,
+    pinOrder: pinOrders.length > 0 ? Math.min(...pinOrders) : undefined,
+  };
+}
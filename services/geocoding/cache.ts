@@ -0,0 +1,171 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PlacePrediction, PlaceDetails, ReverseGeocodeResult } from './types';
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+interface CacheOptions {
+  maxEntries: number;
+  ttlMs: number;
+}
+
+export interface CachedLookup<T> {
+  value: T;
+  // True when the network failed and an earlier (possibly expired) result was served
+  offline: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Writes are batched so a burst of lookups doesn't hit AsyncStorage on every keystroke
+const PERSIST_DELAY_MS = 1000;
+
+// Least-recently-used cache persisted to AsyncStorage as a single JSON blob.
+// Map insertion order doubles as recency order: reads move an entry to the end
+// and eviction removes from the front.
+export class PersistentLruCache<T> {
+  private entries: Map<string, CacheEntry<T>> | null = null;
+  private loadPromise: Promise<Map<string, CacheEntry<T>>> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private storageKey: string, private options: CacheOptions) {}
+
+  private async load(): Promise<Map<string, CacheEntry<T>>> {
+    if (this.entries) {
+      return this.entries;
+    }
+    if (!this.loadPromise) {
+      this.loadPromise = AsyncStorage.getItem(this.storageKey)
+        .then((stored) => {
+          const parsed: [string, CacheEntry<T>][] = stored ? JSON.parse(stored) : [];
+          this.entries = new Map(parsed);
+          return this.entries;
+        })
+        .catch((error) => {
+          console.error(`❌ Error loading cache ${this.storageKey}:`, error);
+          this.entries = new Map();
+          return this.entries;
+        });
+    }
+    return this.loadPromise;
+  }
+
+  private schedulePersist() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+    }
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      if (!this.entries) return;
+      AsyncStorage.setItem(this.storageKey, JSON.stringify(Array.from(this.entries.entries())))
+        .catch((error) => {
+          console.error(`❌ Error saving cache ${this.storageKey}:`, error);
+        });
+    }, PERSIST_DELAY_MS);
+  }
+
+  // Returns expired entries too, flagged, so callers can fall back to them offline
+  async get(key: string): Promise<{ value: T; expired: boolean } | null> {
+    const entries = await this.load();
+    const entry = entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    entries.delete(key);
+    entries.set(key, entry);
+    this.schedulePersist();
+
+    return {
+      value: entry.value,
+      expired: Date.now() - entry.storedAt > this.options.ttlMs,
+    };
+  }
+
+  async set(key: string, value: T) {
+    const entries = await this.load();
+    entries.delete(key);
+    entries.set(key, { value, storedAt: Date.now() });
+
+    while (entries.size > this.options.maxEntries) {
+      const oldestKey = entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      entries.delete(oldestKey);
+    }
+    this.schedulePersist();
+  }
+
+  async clear() {
+    this.entries = new Map();
+    this.loadPromise = null;
+    await AsyncStorage.removeItem(this.storageKey);
+  }
+}
+
+// Serve a fresh cache hit, otherwise ask the network and remember the answer.
+// When the network call throws (offline, DNS, timeout) any cached entry is served,
+// even an expired one. A fetcher returning null means "no answer worth caching".
+export async function cachedLookup<T>(
+  cache: PersistentLruCache<T>,
+  key: string,
+  fetcher: () => Promise<T | null>
+): Promise<CachedLookup<T> | null> {
+  const cached = await cache.get(key);
+  if (cached && !cached.expired) {
+    return { value: cached.value, offline: false };
+  }
+
+  try {
+    const value = await fetcher();
+    if (value === null) {
+      return null;
+    }
+    await cache.set(key, value);
+    return { value, offline: false };
+  } catch (error) {
+    if (cached) {
+      console.log('📴 Network lookup failed, serving cached result for:', key);
+      return { value: cached.value, offline: true };
+    }
+    throw error;
+  }
+}
+
+const normalizeQuery = (query: string) =>
+  query
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// ~1 km buckets for the location bias, ~11 m for reverse geocoding
+export const autocompleteCacheKey = (query: string, bias?: { latitude: number; longitude: number } | null) =>
+  `${normalizeQuery(query)}|${bias ? `${bias.latitude.toFixed(2)},${bias.longitude.toFixed(2)}` : 'none'}`;
+
+export const reverseGeocodeCacheKey = (latitude: number, longitude: number) =>
+  `${latitude.toFixed(4)},${longitude.toFixed(4)}`;
+
+export const autocompleteCache = new PersistentLruCache<PlacePrediction[]>('ridelink_geocache_autocomplete', {
+  maxEntries: 200,
+  ttlMs: DAY_MS,
+});
+
+export const placeDetailsCache = new PersistentLruCache<PlaceDetails>('ridelink_geocache_details', {
+  maxEntries: 500,
+  ttlMs: 30 * DAY_MS,
+});
+
+// v2: entries carry countryCode, which region detection needs; older ones are dropped
+export const reverseGeocodeCache = new PersistentLruCache<ReverseGeocodeResult>('ridelink_geocache_reverse_v2', {
+  maxEntries: 200,
+  ttlMs: 7 * DAY_MS,
+});
+
+// The superseded blob; removing it again once it's gone does nothing
+AsyncStorage.removeItem('ridelink_geocache_reverse').catch((error) => {
+  console.error('❌ Error removing old reverse geocoding cache:', error);
+});
@@ -0,0 +1,10 @@
+export const formatCoordinates = (latitude: number, longitude: number) =>
+  `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+
+const COORDINATE_ADDRESS = /^\s*-?\d{1,3}\.\d+\s*,\s*-?\d{1,3}\.\d+\s*$/;
+
+/**
+ * True for the "lat, lng" text used when no address could be found. Ride apps
+ * should get the coordinates themselves, not this text as an address.
+ */
+export const isCoordinateAddress = (address: string) => COORDINATE_ADDRESS.test(address);
@@ -0,0 +1,98 @@
+import { GeocodingProvider, PlacePrediction } from './types';
+
+const GOOGLE_MAPS_BASE_URL = 'https://maps.googleapis.com/maps/api';
+
+const countryCodeOf = (result: any): string | undefined =>
+  result.address_components.find((component: any) => component.types.includes('country'))?.short_name;
+
+const hasStreetNumber = (result: any) =>
+  result.address_components.some((component: any) => component.types.includes('street_number'));
+
+// Prefer rooftop street addresses, then interpolated ones, then anything with a number
+const pickBestReverseResult = (results: any[]) =>
+  results.find(result => hasStreetNumber(result) && result.geometry.location_type === 'ROOFTOP')
+  || results.find(result => hasStreetNumber(result) && result.geometry.location_type === 'RANGE_INTERPOLATED')
+  || results.find(hasStreetNumber)
+  || results[0];
+
+export function createGoogleGeocodingProvider(apiKey: string | undefined): GeocodingProvider {
+  const isConfigured = () => !!apiKey && apiKey !== 'YOUR_GOOGLE_MAPS_API_KEY_HERE';
+
+  const request = async (path: string, params: Record<string, string>) => {
+    const query = new URLSearchParams({ ...params, key: apiKey || '', language: 'en' });
+    const url = `${GOOGLE_MAPS_BASE_URL}/${path}?${query.toString()}`;
+    console.log('🌐 Google request:', url.replace(apiKey || '', 'API_KEY_HIDDEN'));
+    const response = await fetch(url);
+    return response.json();
+  };
+
+  return {
+    id: 'google',
+    cacheNamespace: 'google',
+    isConfigured,
+
+    autocomplete: async (input, { bias } = {}) => {
+      const params: Record<string, string> = {
+        input,
+        types: 'address',
+        components: 'country:us|country:br|country:ca',
+      };
+      if (bias) {
+        params.location = `${bias.latitude},${bias.longitude}`;
+        params.radius = '50000';
+        params.strictbounds = 'false';
+      }
+
+      const data = await request('place/autocomplete/json', params);
+      if (data.status === 'OK' && data.predictions) {
+        return data.predictions as PlacePrediction[];
+      }
+      if (data.status === 'ZERO_RESULTS') {
+        return [];
+      }
+      console.warn('⚠️ Places API error:', data.status, data.error_message);
+      return null;
+    },
+
+    details: async (placeId) => {
+      const data = await request('place/details/json', {
+        place_id: placeId,
+        fields: 'geometry,formatted_address',
+      });
+      if (data.status === 'OK' && data.result) {
+        return {
+          coordinates: {
+            latitude: data.result.geometry.location.lat,
+            longitude: data.result.geometry.location.lng,
+          },
+          address: data.result.formatted_address,
+        };
+      }
+      console.warn('⚠️ Place details error:', data.status, data.error_message);
+      return null;
+    },
+
+    reverse: async (latitude, longitude) => {
+      const data = await request('geocode/json', {
+        latlng: `${latitude},${longitude}`,
+        result_type: 'street_address',
+        location_type: 'ROOFTOP',
+      });
+      if (!data.results || data.results.length === 0) {
+        return null;
+      }
+      const best = pickBestReverseResult(data.results);
+      console.log('📍 Reverse geocoded address:', {
+        address: best.formatted_address,
+        placeId: best.place_id,
+        locationType: best.geometry.location_type,
+      });
+      return {
+        address: best.formatted_address,
+        placeId: best.place_id,
+        coordinates: { latitude: best.geometry.location.lat, longitude: best.geometry.location.lng },
+        countryCode: countryCodeOf(best),
+      };
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import { GeocodingProvider, GeocodingSettings } from './types';
+import { createGoogleGeocodingProvider } from './google';
+import { createOsmGeocodingProvider } from './osm';
+
+export * from './types';
+export { createGoogleGeocodingProvider } from './google';
+export { createOsmGeocodingProvider, DEFAULT_NOMINATIM_URL, DEFAULT_PHOTON_URL } from './osm';
+export { reverseGeocode } from './reverse';
+export type { ResolvedAddress } from './reverse';
+export { formatCoordinates, isCoordinateAddress } from './coordinates';
+
+export const DEFAULT_GEOCODING_SETTINGS: GeocodingSettings = {
+  provider: 'google',
+  nominatimUrl: '',
+  photonUrl: '',
+};
+
+export function createGeocodingProvider(settings: GeocodingSettings): GeocodingProvider {
+  switch (settings.provider) {
+    case 'osm':
+      return createOsmGeocodingProvider({
+        nominatimUrl: settings.nominatimUrl,
+        photonUrl: settings.photonUrl,
+      });
+    case 'google':
+    default:
+      return createGoogleGeocodingProvider(process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY);
+  }
+}
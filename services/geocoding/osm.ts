@@ -0,0 +1,121 @@
+import { GeocodingProvider, PlacePrediction } from './types';
+
+export const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+export const DEFAULT_PHOTON_URL = 'https://photon.komoot.io';
+
+interface OsmProviderOptions {
+  nominatimUrl?: string;
+  photonUrl?: string;
+}
+
+const trimSlashes = (url: string) => url.replace(/\/+$/, '');
+
+// Place ids look like "osm:N240109189" so they never collide with Google ids
+const OSM_PLACE_PREFIX = 'osm:';
+const OSM_TYPE_LETTERS: Record<string, string> = { node: 'N', way: 'W', relation: 'R', N: 'N', W: 'W', R: 'R' };
+
+const toPlaceId = (osmType: string, osmId: number | string) =>
+  `${OSM_PLACE_PREFIX}${OSM_TYPE_LETTERS[osmType] || osmType}${osmId}`;
+
+const formatPhotonFeature = (properties: any) => {
+  const street = [properties.street, properties.housenumber].filter(Boolean).join(', ');
+  const mainText = properties.name || street || properties.city || '';
+  const secondaryText = [
+    properties.name ? street : undefined,
+    properties.district,
+    properties.city,
+    properties.state,
+    properties.country,
+  ].filter(Boolean).join(', ');
+  return { mainText, secondaryText };
+};
+
+const getJson = async (url: string) => {
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    console.warn('⚠️ OpenStreetMap geocoder error:', response.status, url);
+    return null;
+  }
+  return response.json();
+};
+
+// Photon handles search-as-you-type, Nominatim handles lookups and reverse geocoding.
+// Both accept a self-hosted base URL.
+export function createOsmGeocodingProvider({ nominatimUrl, photonUrl }: OsmProviderOptions = {}): GeocodingProvider {
+  const nominatim = trimSlashes(nominatimUrl || DEFAULT_NOMINATIM_URL);
+  const photon = trimSlashes(photonUrl || DEFAULT_PHOTON_URL);
+
+  return {
+    id: 'osm',
+    cacheNamespace: `osm(${photon}|${nominatim})`,
+    isConfigured: () => true,
+
+    autocomplete: async (input, { bias } = {}) => {
+      const params = new URLSearchParams({ q: input, limit: '5', lang: 'en' });
+      if (bias) {
+        params.append('lat', bias.latitude.toString());
+        params.append('lon', bias.longitude.toString());
+      }
+
+      const data = await getJson(`${photon}/api?${params.toString()}`);
+      if (!data || !Array.isArray(data.features)) {
+        return null;
+      }
+
+      return data.features.map((feature: any): PlacePrediction => {
+        const { mainText, secondaryText } = formatPhotonFeature(feature.properties);
+        return {
+          place_id: toPlaceId(feature.properties.osm_type, feature.properties.osm_id),
+          description: [mainText, secondaryText].filter(Boolean).join(', '),
+          structured_formatting: {
+            main_text: mainText,
+            secondary_text: secondaryText,
+          },
+        };
+      });
+    },
+
+    details: async (placeId) => {
+      if (!placeId.startsWith(OSM_PLACE_PREFIX)) {
+        return null;
+      }
+      const params = new URLSearchParams({
+        osm_ids: placeId.slice(OSM_PLACE_PREFIX.length),
+        format: 'jsonv2',
+      });
+
+      const data = await getJson(`${nominatim}/lookup?${params.toString()}`);
+      const result = Array.isArray(data) ? data[0] : null;
+      if (!result) {
+        return null;
+      }
+      return {
+        coordinates: {
+          latitude: parseFloat(result.lat),
+          longitude: parseFloat(result.lon),
+        },
+        address: result.display_name,
+      };
+    },
+
+    reverse: async (latitude, longitude) => {
+      const params = new URLSearchParams({
+        lat: latitude.toString(),
+        lon: longitude.toString(),
+        format: 'jsonv2',
+        addressdetails: '1',
+      });
+
+      const data = await getJson(`${nominatim}/reverse?${params.toString()}`);
+      if (!data || data.error || !data.display_name) {
+        return null;
+      }
+      return {
+        address: data.display_name,
+        placeId: data.osm_type && data.osm_id ? toPlaceId(data.osm_type, data.osm_id) : undefined,
+        coordinates: data.lat && data.lon ? { latitude: Number(data.lat), longitude: Number(data.lon) } : undefined,
+        countryCode: data.address?.country_code?.toUpperCase(),
+      };
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { Platform } from 'react-native';
+import * as Location from 'expo-location';
+import { GeocodingProvider, ReverseGeocodeResult } from './types';
+import { cachedLookup, reverseGeocodeCache, reverseGeocodeCacheKey } from './cache';
+import { formatCoordinates } from './coordinates';
+
+export interface ResolvedAddress extends ReverseGeocodeResult {
+  // No address was found and `address` holds the coordinates as text
+  fromCoordinates: boolean;
+}
+
+const lookupAddress = async (
+  geocoder: GeocodingProvider,
+  latitude: number,
+  longitude: number
+): Promise<ReverseGeocodeResult | null> => {
+  if (geocoder.isConfigured()) {
+    return geocoder.reverse(latitude, longitude);
+  }
+
+  if (Platform.OS !== 'web') {
+    const addressResult = await Location.reverseGeocodeAsync({
+      latitude,
+      longitude,
+    });
+
+    if (addressResult.length > 0) {
+      const addr = addressResult[0];
+      const formattedAddress = [
+        addr.street && addr.streetNumber ? `${addr.street}, ${addr.streetNumber}` : addr.street,
+        addr.district,
+        addr.city,
+        addr.region
+      ].filter(Boolean).join(', ');
+
+      return formattedAddress
+        ? { address: formattedAddress, countryCode: addr.isoCountryCode?.toUpperCase() }
+        : null;
+    }
+  }
+  return null;
+};
+
+/**
+ * Address of a position through the configured geocoder (the device geocoder
+ * when it has no key), cached. Without any answer the coordinates are used as
+ * the address and the result is flagged `fromCoordinates`.
+ */
+export async function reverseGeocode(
+  geocoder: GeocodingProvider,
+  latitude: number,
+  longitude: number
+): Promise<ResolvedAddress> {
+  const coordinatesOnly = { address: formatCoordinates(latitude, longitude), fromCoordinates: true };
+  try {
+    const result = await cachedLookup(
+      reverseGeocodeCache,
+      `${geocoder.cacheNamespace}:${reverseGeocodeCacheKey(latitude, longitude)}`,
+      () => lookupAddress(geocoder, latitude, longitude)
+    );
+    return result ? { ...result.value, fromCoordinates: false } : coordinatesOnly;
+  } catch (error) {
+    console.log('❌ Address error:', error);
+    return coordinatesOnly;
+  }
+}
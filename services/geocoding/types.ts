@@ -0,0 +1,48 @@
+export interface PlacePrediction {
+  place_id: string;
+  description: string;
+  structured_formatting: {
+    main_text: string;
+    secondary_text: string;
+  };
+}
+
+export interface PlaceDetails {
+  coordinates: { latitude: number; longitude: number };
+  address: string;
+}
+
+export interface ReverseGeocodeResult {
+  address: string;
+  placeId?: string;
+  // Where the matched address is, which can be a few meters from the queried point
+  coordinates?: { latitude: number; longitude: number };
+  // ISO 3166-1 alpha-2, upper case, e.g. "BR"
+  countryCode?: string;
+}
+
+export type GeocodingProviderId = 'google' | 'osm';
+
+export interface AutocompleteOptions {
+  bias?: { latitude: number; longitude: number } | null;
+}
+
+// Lookups resolve to null when the service answered with an error (nothing to cache)
+// and throw when the service could not be reached, so callers can fall back offline.
+export interface GeocodingProvider {
+  id: GeocodingProviderId;
+  // Prefix for cache keys: the provider and the servers it talks to, so
+  // switching to another server doesn't serve the previous one's results
+  cacheNamespace: string;
+  isConfigured: () => boolean;
+  autocomplete: (query: string, options?: AutocompleteOptions) => Promise<PlacePrediction[] | null>;
+  details: (placeId: string) => Promise<PlaceDetails | null>;
+  reverse: (latitude: number, longitude: number) => Promise<ReverseGeocodeResult | null>;
+}
+
+export interface GeocodingSettings {
+  provider: GeocodingProviderId;
+  // Self-hosted endpoints for the OpenStreetMap provider; empty uses the public servers
+  nominatimUrl: string;
+  photonUrl: string;
+}
@@ -0,0 +1,33 @@
+import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+
+export interface MapTileConfig {
+  // XYZ template with {z}, {x} and {y}, e.g. http://localhost:8080/tile/{z}/{x}/{y}.png
+  urlTemplate: string;
+  attribution: string;
+  maxZoom: number;
+  // True when the tiles come from EXPO_PUBLIC_MAP_TILE_URL instead of the default
+  custom: boolean;
+}
+
+export const DEFAULT_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+const DEFAULT_ATTRIBUTION = '© OpenStreetMap contributors';
+const DEFAULT_MAX_ZOOM = 19;
+
+const configuredUrl = process.env.EXPO_PUBLIC_MAP_TILE_URL;
+const configuredMaxZoom = Number(process.env.EXPO_PUBLIC_MAP_TILE_MAX_ZOOM);
+
+/**
+ * Tile source for the trip map. The web map always draws these tiles; native
+ * maps draw them over the platform map only when a server is configured.
+ */
+export const mapTileConfig: MapTileConfig = {
+  urlTemplate: configuredUrl || DEFAULT_TILE_URL,
+  attribution: process.env.EXPO_PUBLIC_MAP_TILE_ATTRIBUTION || DEFAULT_ATTRIBUTION,
+  maxZoom: Number.isFinite(configuredMaxZoom) && configuredMaxZoom > 0 ? configuredMaxZoom : DEFAULT_MAX_ZOOM,
+  custom: !!configuredUrl,
+};
+
+// Android's map is Google Maps, whose SDK crashes without a key (see app.config.js)
+export const nativeMapAvailable = Platform.OS !== 'android'
+  || !!Constants.expoConfig?.extra?.androidMapsKeyConfigured;
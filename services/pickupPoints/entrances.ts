@@ -0,0 +1,61 @@
+export interface BuildingEntrance {
+  id: string;
+  // Entrance name or reference ("Main entrance", "B"), when mapped
+  label?: string;
+  // Street address tagged on the entrance itself, when mapped
+  address?: string;
+  latitude: number;
+  longitude: number;
+}
+
+export const DEFAULT_OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
+
+const overpassUrl = process.env.EXPO_PUBLIC_OVERPASS_URL || DEFAULT_OVERPASS_URL;
+
+// Entrances that riders shouldn't be sent to
+const EXCLUDED_ENTRANCES = ['emergency', 'exit', 'service'];
+
+const toEntrance = (element: any): BuildingEntrance => {
+  const tags: Record<string, string> = element.tags || {};
+  const street = [tags['addr:street'], tags['addr:housenumber']].filter(Boolean).join(', ');
+  return {
+    id: `osm:N${element.id}`,
+    label: tags.name || tags.ref || undefined,
+    address: tags['addr:street'] ? street : undefined,
+    latitude: element.lat,
+    longitude: element.lon,
+  };
+};
+
+/** Building entrances mapped in OpenStreetMap within `radiusMeters` of a point. */
+export async function findNearbyEntrances(
+  latitude: number,
+  longitude: number,
+  radiusMeters: number,
+  timeoutMs = 6000
+): Promise<BuildingEntrance[]> {
+  const query = `[out:json][timeout:${Math.ceil(timeoutMs / 1000)}];`
+    + `node(around:${Math.round(radiusMeters)},${latitude},${longitude})[entrance];out 20;`;
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(overpassUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: `data=${encodeURIComponent(query)}`,
+      signal: controller.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Entrance lookup failed with status ${response.status}`);
+    }
+
+    const data = await response.json();
+    return (data.elements || [])
+      .filter((element: any) => !EXCLUDED_ENTRANCES.includes(element.tags?.entrance))
+      .map(toEntrance);
+  } finally {
+    clearTimeout(timer);
+  }
+}
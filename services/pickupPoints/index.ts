@@ -0,0 +1,107 @@
+import { GeocodingProvider, reverseGeocode } from '@/services/geocoding';
+import { haversineKm } from '@/services/quotes';
+import { PickupSuggestion, PickupZone } from './types';
+import { findNearbyEntrances } from './entrances';
+import { loadPickupZones } from './zones';
+
+export * from './types';
+export { DEFAULT_PICKUP_ZONES, loadPickupZones } from './zones';
+export { DEFAULT_OVERPASS_URL } from './entrances';
+
+// GPS fixes less precise than this get a warning next to the pickup
+export const ACCURACY_WARNING_METERS = 50;
+
+// Entrances are searched within the accuracy radius, kept inside these bounds
+const MIN_SEARCH_RADIUS_METERS = 40;
+const MAX_SEARCH_RADIUS_METERS = 150;
+const MAX_SUGGESTIONS = 5;
+// Closer than this to the current pickup and a suggestion adds nothing
+const SAME_POINT_METERS = 5;
+
+interface SuggestOptions {
+  // Accuracy radius of the GPS fix, in meters
+  accuracy?: number;
+  // Address currently set as pickup; a suggestion repeating it is dropped
+  currentAddress?: string;
+}
+
+const distanceMeters = (
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+) => Math.round(haversineKm(from, to) * 1000);
+
+const zoneSuggestion = (zone: PickupZone, distance: number): PickupSuggestion => ({
+  id: `zone:${zone.id}`,
+  kind: 'zone',
+  name: zone.name,
+  address: zone.address || zone.name,
+  latitude: zone.latitude,
+  longitude: zone.longitude,
+  distanceMeters: distance,
+});
+
+/**
+ * Pickup points near a position a driver can find more easily than raw GPS:
+ * known pickup zones, mapped building entrances and the nearest street
+ * address. Zones come first, the rest nearest first. Lookups that fail are
+ * left out rather than failing the whole list.
+ */
+export async function suggestPickupPoints(
+  geocoder: GeocodingProvider,
+  point: { latitude: number; longitude: number },
+  { accuracy, currentAddress }: SuggestOptions = {}
+): Promise<PickupSuggestion[]> {
+  const searchRadius = Math.min(
+    Math.max(accuracy || 0, MIN_SEARCH_RADIUS_METERS),
+    MAX_SEARCH_RADIUS_METERS
+  );
+
+  const [zones, entrances, street] = await Promise.all([
+    loadPickupZones(),
+    findNearbyEntrances(point.latitude, point.longitude, searchRadius).catch(error => {
+      console.warn('⚠️ Entrance lookup failed:', error);
+      return [];
+    }),
+    reverseGeocode(geocoder, point.latitude, point.longitude),
+  ]);
+
+  const zoneSuggestions = zones
+    .map(zone => ({ zone, distance: distanceMeters(point, zone) }))
+    .filter(({ zone, distance }) => distance <= zone.radiusMeters)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ zone, distance }) => zoneSuggestion(zone, distance));
+
+  const nearby: PickupSuggestion[] = entrances.map(entrance => ({
+    id: entrance.id,
+    kind: 'entrance',
+    name: entrance.label,
+    // Entrances rarely carry an address of their own; the building's is close enough
+    address: entrance.address || street.address,
+    latitude: entrance.latitude,
+    longitude: entrance.longitude,
+    distanceMeters: distanceMeters(point, entrance),
+  }));
+
+  if (!street.fromCoordinates) {
+    const streetPoint = street.coordinates || point;
+    nearby.push({
+      id: `street:${street.placeId || street.address}`,
+      kind: 'street',
+      address: street.address,
+      latitude: streetPoint.latitude,
+      longitude: streetPoint.longitude,
+      distanceMeters: distanceMeters(point, streetPoint),
+      placeId: street.placeId,
+    });
+  }
+
+  const suggestions = [...zoneSuggestions, ...nearby.sort((a, b) => a.distanceMeters - b.distanceMeters)]
+    .filter(suggestion => !(suggestion.address === currentAddress && suggestion.distanceMeters < SAME_POINT_METERS));
+
+  console.log('📍 Pickup suggestions:', {
+    zones: zoneSuggestions.length,
+    entrances: entrances.length,
+    street: !street.fromCoordinates,
+  });
+  return suggestions.slice(0, MAX_SUGGESTIONS);
+}
@@ -0,0 +1,26 @@
+export interface PickupZone {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  // How far from the zone a rider can be and still get it suggested
+  radiusMeters: number;
+  // Address handed to ride apps; defaults to the zone name
+  address?: string;
+}
+
+export type PickupSuggestionKind = 'zone' | 'entrance' | 'street';
+
+export interface PickupSuggestion {
+  // Stable key for lists
+  id: string;
+  kind: PickupSuggestionKind;
+  // Zone name or entrance label, when there is one
+  name?: string;
+  address: string;
+  latitude: number;
+  longitude: number;
+  // Straight-line distance from the rider's position
+  distanceMeters: number;
+  placeId?: string;
+}
@@ -0,0 +1,87 @@
+import { PickupZone } from './types';
+
+// Designated rideshare pickup areas where drivers can't stop at the curb
+export const DEFAULT_PICKUP_ZONES: PickupZone[] = [
+  {
+    id: 'gig-t2',
+    name: 'Galeão Airport T2 · App pickup',
+    latitude: -22.8136,
+    longitude: -43.2494,
+    radiusMeters: 800,
+    address: 'Aeroporto Internacional do Rio de Janeiro, Terminal 2, Rio de Janeiro - RJ',
+  },
+  {
+    id: 'sdu',
+    name: 'Santos Dumont Airport · App pickup',
+    latitude: -22.9105,
+    longitude: -43.1631,
+    radiusMeters: 500,
+    address: 'Aeroporto Santos Dumont, Praça Senador Salgado Filho, Rio de Janeiro - RJ',
+  },
+  {
+    id: 'gru-t3',
+    name: 'Guarulhos Airport T3 · App pickup',
+    latitude: -23.4262,
+    longitude: -46.4695,
+    radiusMeters: 900,
+    address: 'Aeroporto Internacional de Guarulhos, Terminal 3, Guarulhos - SP',
+  },
+  {
+    id: 'cgh',
+    name: 'Congonhas Airport · App pickup',
+    latitude: -23.6273,
+    longitude: -46.6566,
+    radiusMeters: 500,
+    address: 'Aeroporto de Congonhas, Av. Washington Luís, São Paulo - SP',
+  },
+  {
+    id: 'lis-t1',
+    name: 'Lisbon Airport T1 · Kiss & Fly',
+    latitude: 38.7700,
+    longitude: -9.1281,
+    radiusMeters: 700,
+    address: 'Aeroporto Humberto Delgado, Terminal 1, Lisboa',
+  },
+];
+
+const zonesUrl = process.env.EXPO_PUBLIC_PICKUP_ZONES_URL;
+
+const isZone = (value: any): value is PickupZone =>
+  !!value
+  && typeof value.id === 'string'
+  && typeof value.name === 'string'
+  && Number.isFinite(value.latitude)
+  && Number.isFinite(value.longitude)
+  && Number.isFinite(value.radiusMeters);
+
+let loadedZones: Promise<PickupZone[]> | null = null;
+
+/**
+ * Pickup zones from EXPO_PUBLIC_PICKUP_ZONES_URL (a JSON array of zones),
+ * loaded once. Falls back to the bundled list when unset or unreachable.
+ */
+export function loadPickupZones(): Promise<PickupZone[]> {
+  if (!zonesUrl) {
+    return Promise.resolve(DEFAULT_PICKUP_ZONES);
+  }
+
+  if (!loadedZones) {
+    loadedZones = fetch(zonesUrl, { headers: { Accept: 'application/json' } })
+      .then(async response => {
+        if (!response.ok) {
+          throw new Error(`Pickup zones request failed with status ${response.status}`);
+        }
+        const data = await response.json();
+        const zones = Array.isArray(data) ? data.filter(isZone) : [];
+        console.log('📍 Pickup zones loaded:', zones.length);
+        return zones;
+      })
+      .catch(error => {
+        console.warn('⚠️ Could not load pickup zones, using bundled list:', error);
+        // Try again next time instead of keeping the failure
+        loadedZones = null;
+        return DEFAULT_PICKUP_ZONES;
+      });
+  }
+  return loadedZones;
+}
@@ -0,0 +1,111 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { RideAppConfig } from '@/services/rideProviders/types';
+import { createHttpQuoteAdapter } from '../http';
+
+// Mock pricing server: answers POST /quotes with whatever the test set
+let reply: { status: number; body?: unknown } = { status: 200 };
+const server = http.createServer((req, res) => {
+  req.resume();
+  req.on('end', () => {
+    res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+    res.end(reply.body === undefined ? undefined : JSON.stringify(reply.body));
+  });
+});
+let baseUrl = '';
+
+beforeAll(done => {
+  server.listen(0, () => {
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    done();
+  });
+});
+
+afterAll(done => {
+  server.close(done);
+});
+
+const app = { id: 'uber', name: 'Uber' } as RideAppConfig;
+const request = {
+  pickup: { address: 'Av. Paulista, 1578', latitude: -23.561414, longitude: -46.655881 },
+  destination: { address: 'Parque Ibirapuera', latitude: -23.587416, longitude: -46.657634 },
+  requestedAt: new Date(2025, 0, 6, 8, 30),
+};
+
+const validQuote = {
+  currency: 'BRL',
+  priceRange: { low: 18.5, high: 24 },
+  pickupEtaMinutes: 4,
+  distanceKm: 3.2,
+  durationMinutes: 12,
+  surgeFactor: 1,
+};
+
+describe('createHttpQuoteAdapter', () => {
+  it('returns the server quote as a live quote for the app', async () => {
+    reply = { status: 200, body: { ...validQuote, appId: 'someone-else', extra: 'ignored' } };
+
+    const quote = await createHttpQuoteAdapter(baseUrl).getQuote(app, request);
+
+    expect(quote).toEqual({ ...validQuote, appId: 'uber', source: 'live' });
+  });
+
+  it('has no quote when the server does not know the app', async () => {
+    reply = { status: 404, body: { error: 'Unknown app' } };
+
+    await expect(createHttpQuoteAdapter(baseUrl).getQuote(app, request)).resolves.toBeNull();
+  });
+
+  it('throws on server errors', async () => {
+    reply = { status: 500, body: { error: 'Boom' } };
+
+    await expect(createHttpQuoteAdapter(baseUrl).getQuote(app, request)).rejects.toThrow('status 500');
+  });
+
+  it.each([
+    ['a missing currency', { ...validQuote, currency: undefined }],
+    ['a lower-case currency', { ...validQuote, currency: 'brl' }],
+    ['a price given as text', { ...validQuote, priceRange: { low: '18.5', high: 24 } }],
+    ['a missing price range', { ...validQuote, priceRange: undefined }],
+    ['a low price above the high one', { ...validQuote, priceRange: { low: 30, high: 24 } }],
+    ['a negative ETA', { ...validQuote, pickupEtaMinutes: -1 }],
+    ['a missing duration', { ...validQuote, durationMinutes: undefined }],
+    ['a zero surge factor', { ...validQuote, surgeFactor: 0 }],
+  ])('rejects a reply with %s so the local estimate is used', async (_, body) => {
+    reply = { status: 200, body };
+
+    await expect(createHttpQuoteAdapter(baseUrl).getQuote(app, request)).rejects.toThrow('Quote has an invalid');
+  });
+});
+
+describe('fetchRideQuote with a pricing server', () => {
+  const loadQuotes = (): typeof import('../index') => {
+    process.env.EXPO_PUBLIC_QUOTES_API_URL = baseUrl;
+    let quotes!: typeof import('../index');
+    jest.isolateModules(() => {
+      quotes = require('../index');
+    });
+    return quotes;
+  };
+
+  afterEach(() => {
+    delete process.env.EXPO_PUBLIC_QUOTES_API_URL;
+  });
+
+  it('falls back to the local estimate when the reply is incomplete', async () => {
+    reply = { status: 200, body: { ...validQuote, priceRange: { low: null, high: null } } };
+    const { fetchRideQuote } = loadQuotes();
+
+    const quote = await fetchRideQuote(app, request);
+
+    expect(quote?.source).toBe('estimate');
+    expect(Number.isFinite(quote?.priceRange.low)).toBe(true);
+  });
+
+  it('uses the live quote when the reply is complete', async () => {
+    reply = { status: 200, body: validQuote };
+    const { fetchRideQuote } = loadQuotes();
+
+    await expect(fetchRideQuote(app, request)).resolves.toMatchObject({ source: 'live', currency: 'BRL' });
+  });
+});
@@ -0,0 +1,80 @@
+import { LocationData } from '@/services/rideProviders/types';
+import { QuoteAdapter } from './types';
+import { CITY_PRICING, DEFAULT_PRICING, CityPricing, FareRates } from './pricing';
+
+// Straight-line distance underestimates real routes; this is a typical urban detour ratio
+const ROAD_DISTANCE_FACTOR = 1.3;
+
+// Estimates are given as a range to account for traffic and route choice
+const RANGE_LOW_FACTOR = 0.9;
+const RANGE_HIGH_FACTOR = 1.2;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export function haversineKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const earthRadiusKm = 6371;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * earthRadiusKm * Math.asin(Math.sqrt(a));
+}
+
+// Straight-line distance along every leg of the trip, in order
+export function routeHaversineKm(points: { latitude: number; longitude: number }[]): number {
+  return points.slice(1).reduce((total, point, index) => total + haversineKm(points[index], point), 0);
+}
+
+export function findCityPricing(location: LocationData, cities: CityPricing[] = CITY_PRICING): CityPricing {
+  return cities.find(city => haversineKm(city.center, location) <= city.radiusKm) || DEFAULT_PRICING;
+}
+
+export function getSurgeFactor(city: CityPricing, date: Date): number {
+  const day = date.getDay();
+  const hour = date.getHours();
+  const isWeekday = day >= 1 && day <= 5;
+  const isRushHour = (hour >= 7 && hour < 10) || (hour >= 17 && hour < 20);
+  return isWeekday && isRushHour ? city.peakSurgeFactor : 1;
+}
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+interface HeuristicQuoteOptions {
+  cities?: CityPricing[];
+}
+
+export function createHeuristicQuoteAdapter({ cities = CITY_PRICING }: HeuristicQuoteOptions = {}): QuoteAdapter {
+  return {
+    id: 'heuristic',
+    getQuote: async (app, { pickup, destination, stops = [], requestedAt }) => {
+      const city = findCityPricing(pickup, cities);
+      const rates: FareRates = { ...city.rates, ...city.appRates?.[app.id] };
+
+      const distanceKm = routeHaversineKm([pickup, ...stops, destination]) * ROAD_DISTANCE_FACTOR;
+      const durationMinutes = Math.max(1, Math.round((distanceKm / city.averageSpeedKmh) * 60));
+      const surgeFactor = getSurgeFactor(city, requestedAt);
+
+      const fare = Math.max(
+        rates.minimumFare,
+        rates.baseFare + rates.perKm * distanceKm + rates.perMinute * durationMinutes
+      ) * surgeFactor;
+
+      return {
+        appId: app.id,
+        currency: city.currency,
+        priceRange: {
+          low: roundPrice(fare * RANGE_LOW_FACTOR),
+          high: roundPrice(fare * RANGE_HIGH_FACTOR),
+        },
+        pickupEtaMinutes: rates.pickupEtaMinutes,
+        distanceKm: Math.round(distanceKm * 10) / 10,
+        durationMinutes,
+        surgeFactor,
+        source: 'estimate',
+      };
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { QuoteAdapter, RideQuote } from './types';
+
+const isAmount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Checks a server reply before it reaches the UI. Throws on anything that
+ * isn't a complete quote, so the caller falls back to the local estimate.
+ */
+const parseQuote = (data: any): Omit<RideQuote, 'appId' | 'source'> => {
+  const low = data?.priceRange?.low;
+  const high = data?.priceRange?.high;
+  if (typeof data?.currency !== 'string' || !/^[A-Z]{3}$/.test(data.currency)) {
+    throw new Error(`Quote has an invalid currency: ${JSON.stringify(data?.currency)}`);
+  }
+  if (!isAmount(low) || !isAmount(high) || low > high) {
+    throw new Error(`Quote has an invalid price range: ${JSON.stringify(data?.priceRange)}`);
+  }
+  const fields = ['pickupEtaMinutes', 'distanceKm', 'durationMinutes'] as const;
+  const invalid = fields.find(field => !isAmount(data[field]));
+  if (invalid) {
+    throw new Error(`Quote has an invalid ${invalid}: ${JSON.stringify(data[invalid])}`);
+  }
+  if (!isAmount(data.surgeFactor) || data.surgeFactor === 0) {
+    throw new Error(`Quote has an invalid surgeFactor: ${JSON.stringify(data.surgeFactor)}`);
+  }
+
+  return {
+    currency: data.currency,
+    priceRange: { low, high },
+    pickupEtaMinutes: data.pickupEtaMinutes,
+    distanceKm: data.distanceKm,
+    durationMinutes: data.durationMinutes,
+    surgeFactor: data.surgeFactor,
+  };
+};
+
+// Adapter for a pricing service (or a local mock server) that answers
+// POST {baseUrl}/quotes with a RideQuote-shaped JSON body.
+export function createHttpQuoteAdapter(baseUrl: string, timeoutMs = 5000): QuoteAdapter {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/quotes`;
+
+  return {
+    id: 'http',
+    getQuote: async (app, { pickup, destination, stops = [], requestedAt }) => {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            appId: app.id,
+            pickup: { latitude: pickup.latitude, longitude: pickup.longitude, address: pickup.address },
+            destination: { latitude: destination.latitude, longitude: destination.longitude, address: destination.address },
+            stops: stops.map(stop => ({ latitude: stop.latitude, longitude: stop.longitude, address: stop.address })),
+            requestedAt: requestedAt.toISOString(),
+          }),
+          signal: controller.signal,
+        });
+
+        if (response.status === 404) {
+          return null;
+        }
+        if (!response.ok) {
+          throw new Error(`Quote request failed with status ${response.status}`);
+        }
+
+        const quote = parseQuote(await response.json());
+        return { ...quote, appId: app.id, source: 'live' };
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
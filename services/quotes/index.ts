@@ -0,0 +1,31 @@
+import { getRideProvider, RideAppConfig } from '@/services/rideProviders';
+import { QuoteAdapter, QuoteRequest, RideQuote } from './types';
+import { createHeuristicQuoteAdapter } from './heuristic';
+import { createHttpQuoteAdapter } from './http';
+
+export * from './types';
+export { createHeuristicQuoteAdapter, haversineKm, routeHaversineKm } from './heuristic';
+export { createHttpQuoteAdapter } from './http';
+
+const quotesApiUrl = process.env.EXPO_PUBLIC_QUOTES_API_URL;
+
+export const heuristicQuoteAdapter = createHeuristicQuoteAdapter();
+
+// A pricing service configured through the environment replaces the local estimator
+const defaultQuoteAdapter: QuoteAdapter = quotesApiUrl
+  ? createHttpQuoteAdapter(quotesApiUrl)
+  : heuristicQuoteAdapter;
+
+export function getQuoteAdapter(appId: string): QuoteAdapter {
+  return getRideProvider(appId)?.quoteAdapter || defaultQuoteAdapter;
+}
+
+export async function fetchRideQuote(app: RideAppConfig, request: QuoteRequest): Promise<RideQuote | null> {
+  const adapter = getQuoteAdapter(app.id);
+  try {
+    return await adapter.getQuote(app, request);
+  } catch (error) {
+    console.warn(`⚠️ ${adapter.id} quote failed for ${app.id}, using local estimate:`, error);
+    return adapter === heuristicQuoteAdapter ? null : heuristicQuoteAdapter.getQuote(app, request);
+  }
+}
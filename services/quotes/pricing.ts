@@ -0,0 +1,104 @@
+export interface FareRates {
+  baseFare: number;
+  perKm: number;
+  perMinute: number;
+  minimumFare: number;
+  pickupEtaMinutes: number;
+}
+
+export interface CityPricing {
+  id: string;
+  name: string;
+  center: { latitude: number; longitude: number };
+  radiusKm: number;
+  currency: string;
+  // Average door-to-door speed used to turn distance into trip duration
+  averageSpeedKmh: number;
+  // Multiplier applied during weekday rush hours
+  peakSurgeFactor: number;
+  rates: FareRates;
+  // Per-app overrides on top of the city rates, keyed by ride app id
+  appRates?: Record<string, Partial<FareRates>>;
+}
+
+export const DEFAULT_PRICING: CityPricing = {
+  id: 'default',
+  name: 'Default',
+  center: { latitude: 0, longitude: 0 },
+  radiusKm: 0,
+  currency: 'USD',
+  averageSpeedKmh: 28,
+  peakSurgeFactor: 1.25,
+  rates: { baseFare: 2.5, perKm: 1.2, perMinute: 0.3, minimumFare: 7, pickupEtaMinutes: 6 },
+  appRates: {
+    taxirio: { baseFare: 3.5, perKm: 1.6, pickupEtaMinutes: 8 },
+    indriver: { perKm: 1.0, pickupEtaMinutes: 8 },
+  },
+};
+
+export const CITY_PRICING: CityPricing[] = [
+  {
+    id: 'rio-de-janeiro',
+    name: 'Rio de Janeiro',
+    center: { latitude: -22.9068, longitude: -43.1729 },
+    radiusKm: 60,
+    currency: 'BRL',
+    averageSpeedKmh: 24,
+    peakSurgeFactor: 1.4,
+    rates: { baseFare: 5, perKm: 1.6, perMinute: 0.3, minimumFare: 8, pickupEtaMinutes: 5 },
+    appRates: {
+      '99': { baseFare: 4.5, perKm: 1.5, minimumFare: 7.5 },
+      taxirio: { baseFare: 5.5, perKm: 2.8, perMinute: 0.55, minimumFare: 10, pickupEtaMinutes: 7 },
+      indriver: { baseFare: 4, perKm: 1.4, pickupEtaMinutes: 8 },
+    },
+  },
+  {
+    id: 'sao-paulo',
+    name: 'São Paulo',
+    center: { latitude: -23.5505, longitude: -46.6333 },
+    radiusKm: 70,
+    currency: 'BRL',
+    averageSpeedKmh: 20,
+    peakSurgeFactor: 1.5,
+    rates: { baseFare: 5.5, perKm: 1.7, perMinute: 0.35, minimumFare: 9, pickupEtaMinutes: 6 },
+    appRates: {
+      '99': { baseFare: 5, perKm: 1.6, minimumFare: 8 },
+    },
+  },
+  {
+    id: 'new-york',
+    name: 'New York',
+    center: { latitude: 40.7128, longitude: -74.006 },
+    radiusKm: 50,
+    currency: 'USD',
+    averageSpeedKmh: 18,
+    peakSurgeFactor: 1.6,
+    rates: { baseFare: 3, perKm: 1.5, perMinute: 0.55, minimumFare: 10, pickupEtaMinutes: 5 },
+    appRates: {
+      lyft: { baseFare: 2.8, perKm: 1.45 },
+    },
+  },
+  {
+    id: 'san-francisco',
+    name: 'San Francisco',
+    center: { latitude: 37.7749, longitude: -122.4194 },
+    radiusKm: 50,
+    currency: 'USD',
+    averageSpeedKmh: 26,
+    peakSurgeFactor: 1.5,
+    rates: { baseFare: 2.8, perKm: 1.4, perMinute: 0.45, minimumFare: 9, pickupEtaMinutes: 4 },
+    appRates: {
+      lyft: { baseFare: 2.6, perKm: 1.35 },
+    },
+  },
+  {
+    id: 'toronto',
+    name: 'Toronto',
+    center: { latitude: 43.6532, longitude: -79.3832 },
+    radiusKm: 50,
+    currency: 'CAD',
+    averageSpeedKmh: 25,
+    peakSurgeFactor: 1.35,
+    rates: { baseFare: 3.5, perKm: 1.3, perMinute: 0.3, minimumFare: 8, pickupEtaMinutes: 5 },
+  },
+];
@@ -0,0 +1,27 @@
+import { LocationData, RideAppConfig } from '@/services/rideProviders/types';
+
+export interface QuoteRequest {
+  pickup: LocationData;
+  destination: LocationData;
+  // Intermediate stops, in order, between pickup and destination
+  stops?: LocationData[];
+  requestedAt: Date;
+}
+
+export interface RideQuote {
+  appId: string;
+  currency: string;
+  priceRange: { low: number; high: number };
+  pickupEtaMinutes: number;
+  distanceKm: number;
+  durationMinutes: number;
+  surgeFactor: number;
+  // 'estimate' for local heuristics, 'live' when a pricing API answered
+  source: 'estimate' | 'live';
+}
+
+export interface QuoteAdapter {
+  id: string;
+  // Resolves to null when the adapter has no quote for this app/trip
+  getQuote: (app: RideAppConfig, request: QuoteRequest) => Promise<RideQuote | null>;
+}
@@ -0,0 +1,119 @@
+import { Platform } from 'react-native';
+import { AutoFillData } from '@/contexts/AutoFillContext';
+import { RoutePoint } from '@/hooks/useRouteFavorites';
+
+type LinkParams = Record<string, string | string[] | undefined>;
+type AutoFillLocation = NonNullable<AutoFillData['pickup']>;
+
+// Query parameters accepted by ridelink://ride, e.g.
+// ridelink://ride?pickup_lat=-22.97&pickup_lng=-43.18&dropoff_address=Aeroporto%20Santos%20Dumont&app=uber
+// Stops use the stop1_, stop2_, ... prefixes in order.
+export const RIDE_LINK_SCHEME = 'ridelink';
+
+// Keeps shared links short enough for a QR code that still scans easily
+export const MAX_RIDE_LINK_STOPS = 5;
+
+const getParam = (params: LinkParams, key: string): string | undefined => {
+  const value = params[key];
+  const single = Array.isArray(value) ? value[0] : value;
+  return single && single.trim() ? single.trim() : undefined;
+};
+
+const parseCoordinate = (value: string | undefined, limit: number): number | undefined => {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && Math.abs(parsed) <= limit ? parsed : undefined;
+};
+
+const parseLocation = (params: LinkParams, prefix: string): AutoFillLocation | undefined => {
+  const latitude = parseCoordinate(getParam(params, `${prefix}_lat`), 90);
+  const longitude = parseCoordinate(getParam(params, `${prefix}_lng`), 180);
+  const coordinates = latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined;
+  const address = getParam(params, `${prefix}_address`)
+    || (coordinates ? `${coordinates.latitude.toFixed(6)}, ${coordinates.longitude.toFixed(6)}` : undefined);
+
+  if (!address) return undefined;
+
+  return {
+    address,
+    coordinates,
+    placeId: getParam(params, `${prefix}_place_id`),
+  };
+};
+
+export function parseRideLinkParams(params: LinkParams): AutoFillData | null {
+  const pickup = parseLocation(params, 'pickup');
+  const destination = parseLocation(params, 'dropoff');
+
+  if (!pickup && !destination) {
+    return null;
+  }
+
+  const stops: AutoFillLocation[] = [];
+  for (let index = 1; index <= MAX_RIDE_LINK_STOPS; index++) {
+    const stop = parseLocation(params, `stop${index}`);
+    if (!stop) break;
+    stops.push(stop);
+  }
+
+  return {
+    pickup,
+    destination,
+    // A link describes the whole trip, so stops left from an earlier one are cleared
+    stops,
+    source: 'deep-link',
+    appId: getParam(params, 'app'),
+    timestamp: Date.now(),
+  };
+}
+
+export interface SharedTrip {
+  pickup: RoutePoint;
+  destination: RoutePoint;
+  stops?: RoutePoint[];
+}
+
+const pointParams = (prefix: string, point: RoutePoint): [string, string][] => {
+  const params: [string, string][] = [[`${prefix}_address`, point.address]];
+  if (point.latitude !== undefined && point.longitude !== undefined) {
+    params.push([`${prefix}_lat`, point.latitude.toFixed(6)], [`${prefix}_lng`, point.longitude.toFixed(6)]);
+  }
+  if (point.placeId) {
+    params.push([`${prefix}_place_id`, point.placeId]);
+  }
+  return params;
+};
+
+const buildQuery = (trip: SharedTrip) =>
+  [
+    ...pointParams('pickup', trip.pickup),
+    ...(trip.stops || []).slice(0, MAX_RIDE_LINK_STOPS).flatMap((stop, index) => pointParams(`stop${index + 1}`, stop)),
+    ...pointParams('dropoff', trip.destination),
+  ]
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+
+/** Link that opens the trip in the installed app. */
+export function buildRideLink(trip: SharedTrip): string {
+  return `${RIDE_LINK_SCHEME}://ride?${buildQuery(trip)}`;
+}
+
+/**
+ * Base URL of the hosted web build: EXPO_PUBLIC_WEB_URL, or the current site
+ * when running on web. Null when neither is known.
+ */
+export function getRideLinkWebUrl(): string | null {
+  const configured = process.env.EXPO_PUBLIC_WEB_URL;
+  if (configured) {
+    return configured.replace(/\/+$/, '');
+  }
+  if (Platform.OS === 'web' && typeof window !== 'undefined') {
+    return window.location.origin;
+  }
+  return null;
+}
+
+/** Same trip on the web build's /ride path, which opens anywhere. */
+export function buildRideWebLink(trip: SharedTrip, baseUrl = getRideLinkWebUrl()): string | null {
+  return baseUrl ? `${baseUrl}/ride?${buildQuery(trip)}` : null;
+}
@@ -0,0 +1,110 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { appAvailability, regionChanges, BUNDLED_APP_REGIONS } from '../regions';
+import { RideAppConfig } from '../types';
+
+const RIO = { latitude: -22.9068, longitude: -43.1729 };
+const SAO_PAULO = { latitude: -23.5505, longitude: -46.6333 };
+
+const app = (id: string, enabled: boolean): RideAppConfig => ({
+  id,
+  name: id,
+  icon: '',
+  color: '',
+  packageId: '',
+  enabled,
+  deepLinkScheme: `${id}://`,
+  playStoreUrl: '',
+  regions: BUNDLED_APP_REGIONS[id],
+});
+
+describe('appAvailability', () => {
+  it('treats apps without regions as available everywhere', () => {
+    expect(appAvailability(undefined, {})).toBe('available');
+    expect(appAvailability({ countries: [] }, { countryCode: 'BR' })).toBe('available');
+  });
+
+  it('matches countries regardless of case', () => {
+    expect(appAvailability(BUNDLED_APP_REGIONS['99'], { countryCode: 'br' })).toBe('available');
+    expect(appAvailability(BUNDLED_APP_REGIONS['99'], { countryCode: 'US' })).toBe('unavailable');
+  });
+
+  it('checks areas by point', () => {
+    expect(appAvailability(BUNDLED_APP_REGIONS.taxirio, { point: RIO })).toBe('available');
+    expect(appAvailability(BUNDLED_APP_REGIONS.taxirio, { point: SAO_PAULO, countryCode: 'BR' })).toBe('unavailable');
+  });
+
+  it("can't tell without what the regions need", () => {
+    expect(appAvailability(BUNDLED_APP_REGIONS['99'], { point: SAO_PAULO })).toBe('unknown');
+    expect(appAvailability(BUNDLED_APP_REGIONS.taxirio, { countryCode: 'BR' })).toBe('unknown');
+    expect(appAvailability(BUNDLED_APP_REGIONS.lyft, { countryCode: null, point: null })).toBe('unknown');
+  });
+});
+
+describe('regionChanges', () => {
+  it('switches only regional apps that can be told either way', () => {
+    const apps = [app('uber', false), app('99', false), app('lyft', true), app('taxirio', true), app('ola', false)];
+
+    const changes = regionChanges(apps, { countryCode: 'BR' });
+
+    expect(changes.enable.map(item => item.id)).toEqual(['99']);
+    expect(changes.disable.map(item => item.id)).toEqual(['lyft']);
+  });
+
+  it('leaves apps already in the right state alone', () => {
+    const changes = regionChanges([app('99', true), app('lyft', false)], { countryCode: 'BR', point: SAO_PAULO });
+    expect(changes).toEqual({ enable: [], disable: [] });
+  });
+});
+
+describe('loadAppRegions', () => {
+  let reply: { status: number; body: unknown };
+  const server = http.createServer((req, res) => {
+    res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(reply.body));
+  });
+
+  const loadRegions = (): typeof import('../regions') => {
+    let regions!: typeof import('../regions');
+    jest.isolateModules(() => {
+      regions = require('../regions');
+    });
+    return regions;
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    process.env.EXPO_PUBLIC_APP_REGIONS_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/regions.json`;
+  });
+
+  afterAll(async () => {
+    delete process.env.EXPO_PUBLIC_APP_REGIONS_URL;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('layers valid remote entries over the bundled list', async () => {
+    reply = {
+      status: 200,
+      body: {
+        '99': { countries: ['BR', 'AR'] },
+        bolt: { areas: [[[0, 0], [1]]] },
+        uber: 'everywhere',
+        lyft: [],
+      },
+    };
+
+    const regions = await loadRegions().loadAppRegions();
+
+    expect(regions['99']).toEqual({ countries: ['BR', 'AR'] });
+    expect(regions.bolt).toBeUndefined();
+    expect(regions.uber).toBeUndefined();
+    expect(regions.lyft).toEqual(BUNDLED_APP_REGIONS.lyft);
+  });
+
+  it('falls back to the bundled list when the server fails', async () => {
+    reply = { status: 503, body: {} };
+    await expect(loadRegions().loadAppRegions()).resolves.toEqual(BUNDLED_APP_REGIONS);
+  });
+});
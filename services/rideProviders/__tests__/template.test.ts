@@ -0,0 +1,110 @@
+import { renderTemplate, templateProvider, templateScheme, validateTemplate } from '../template';
+import { LocationData, RideAppConfig } from '../types';
+
+const pickup: LocationData = { latitude: -23.5649, longitude: -46.6527, address: 'Av. Paulista, 1000 & Co', placeId: 'ChIJ-office' };
+const dropoff: LocationData = { latitude: -23.58, longitude: -46.68, address: '-23.580000, -46.680000' };
+
+const config = (overrides: Partial<RideAppConfig> & { deepLinkTemplate: string }) => ({
+  id: 'custom-taxi',
+  name: 'Taxi',
+  icon: '🚕',
+  color: '#000000',
+  packageId: 'com.example.taxi',
+  enabled: true,
+  deepLinkScheme: 'taxi://',
+  playStoreUrl: '',
+  ...overrides,
+});
+
+describe('validateTemplate', () => {
+  it('accepts known placeholders, aliases and filters', () => {
+    expect(validateTemplate('taxi://book?from={pickup.lat},{pickup.lng}&to={destination.address|urlencode}&type={rideType}'))
+      .toEqual([]);
+  });
+
+  it('reports an empty template or one without a scheme', () => {
+    expect(validateTemplate('   ')).toEqual([{ code: 'empty' }]);
+    expect(validateTemplate('book?to={dropoff.lat}')).toEqual([{ code: 'missingScheme' }]);
+  });
+
+  it('reports stray braces', () => {
+    expect(validateTemplate('taxi://book?to={dropoff.lat')).toEqual([{ code: 'unbalancedBraces' }]);
+    expect(validateTemplate('taxi://book?to=dropoff.lat}')).toEqual([{ code: 'unbalancedBraces' }]);
+  });
+
+  it('names each unknown placeholder and filter once', () => {
+    expect(validateTemplate('taxi://book?a={stop.lat}&b={stop.lat}&c={pickup.lat.x}&d={pickup.lat|upper}')).toEqual([
+      { code: 'unknownPlaceholder', token: '{stop.lat}' },
+      { code: 'unknownPlaceholder', token: '{pickup.lat.x}' },
+      { code: 'unknownFilter', token: 'upper' },
+    ]);
+  });
+
+  it('rejects Object.prototype member names as points', () => {
+    expect(validateTemplate('taxi://book?a={constructor.lat}&b={__proto__.address}')).toEqual([
+      { code: 'unknownPlaceholder', token: '{constructor.lat}' },
+      { code: 'unknownPlaceholder', token: '{__proto__.address}' },
+    ]);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills in fields and applies filters', () => {
+    expect(renderTemplate(
+      ' taxi://book?lat={pickup.lat}&to={pickup.address|urlencode}&id={pickup.placeId}&type={rideType} ',
+      { pickup, dropoff, rideType: 'comfort' }
+    )).toBe('taxi://book?lat=-23.5649&to=Av.%20Paulista%2C%201000%20%26%20Co&id=ChIJ-office&type=comfort');
+  });
+
+  it('leaves the title empty for coordinate addresses', () => {
+    expect(renderTemplate('taxi://book?title={dropoff.title}&place={dropoff.placeId}', { pickup, dropoff }))
+      .toBe('taxi://book?title=&place=');
+  });
+
+  it('keeps placeholders that do not parse', () => {
+    expect(renderTemplate('taxi://book?to={stop.lat}', { pickup, dropoff })).toBe('taxi://book?to={stop.lat}');
+  });
+
+  it('keeps Object.prototype member names as written instead of throwing', () => {
+    expect(renderTemplate('x://{constructor.lat}/{__proto__.address}', { pickup, dropoff }))
+      .toBe('x://{constructor.lat}/{__proto__.address}');
+  });
+});
+
+describe('templateScheme', () => {
+  it('reads the lower-cased scheme', () => {
+    expect(templateScheme(' Taxi+App://book')).toBe('taxi+app');
+    expect(templateScheme('book')).toBe('');
+  });
+});
+
+describe('templateProvider', () => {
+  it('supports prefill only when the template uses the dropoff', () => {
+    expect(templateProvider({ config: config({ deepLinkTemplate: 'taxi://book?to={dropoff.lat}' }) }).supportsPrefill)
+      .toBe(true);
+    expect(templateProvider({ config: config({ deepLinkTemplate: 'taxi://open?from={pickup.lat}' }) }).supportsPrefill)
+      .toBe(false);
+  });
+
+  it('falls back to the first ride type', () => {
+    const provider = templateProvider({
+      config: config({ deepLinkTemplate: 'taxi://book?type={rideType}' }),
+      rideTypes: [{ id: 'economy', name: 'Economy' }, { id: 'xl', name: 'XL' }],
+    });
+
+    expect(provider.buildDeepLink(pickup, dropoff)).toBe('taxi://book?type=economy');
+    expect(provider.buildDeepLink(pickup, dropoff, [], { rideType: 'xl' })).toBe('taxi://book?type=xl');
+  });
+
+  it('builds web links from their template or an https deep link', () => {
+    const withWeb = templateProvider({
+      config: config({ deepLinkTemplate: 'taxi://book', webLinkTemplate: 'https://taxi.example/book?to={dropoff.lat}' }),
+    });
+    const httpsOnly = templateProvider({ config: config({ deepLinkTemplate: 'https://taxi.example/r?to={dropoff.lng}' }) });
+    const schemeOnly = templateProvider({ config: config({ deepLinkTemplate: 'taxi://book' }) });
+
+    expect(withWeb.buildWebLink?.(pickup, dropoff)).toBe('https://taxi.example/book?to=-23.58');
+    expect(httpsOnly.buildWebLink?.(pickup, dropoff)).toBe('https://taxi.example/r?to=-46.68');
+    expect(schemeOnly.buildWebLink).toBeUndefined();
+  });
+});
@@ -0,0 +1,16 @@
+import { RideProvider } from './types';
+import { templateProvider } from './template';
+import { rideAppIdentity } from './identities';
+
+export const boltProvider: RideProvider = templateProvider({
+  config: {
+    ...rideAppIdentity('bolt'),
+    name: 'Bolt',
+    icon: '⚡',
+    color: '#34d399',
+    enabled: false,
+    playStoreUrl: 'market://details?id=ee.mtakso.client',
+    appStoreUrl: 'https://apps.apple.com/app/id675033630',
+    deepLinkTemplate: 'bolt://ride?pickup_lat={pickup.lat}&pickup_lng={pickup.lng}&destination_lat={dropoff.lat}&destination_lng={dropoff.lng}',
+  },
+});
@@ -0,0 +1,16 @@
+import { RideProvider } from './types';
+import { templateProvider } from './template';
+import { rideAppIdentity } from './identities';
+
+export const careemProvider: RideProvider = templateProvider({
+  config: {
+    ...rideAppIdentity('careem'),
+    name: 'Careem',
+    icon: '🟤',
+    color: '#8b5a2b',
+    enabled: false,
+    playStoreUrl: 'market://details?id=com.careem.acma',
+    appStoreUrl: 'https://apps.apple.com/app/id592978487',
+    deepLinkTemplate: 'careem://ride?pickup_latitude={pickup.lat}&pickup_longitude={pickup.lng}&dropoff_latitude={dropoff.lat}&dropoff_longitude={dropoff.lng}',
+  },
+});
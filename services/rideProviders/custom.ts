@@ -0,0 +1,102 @@
+import { RideAppConfig, RideProvider } from './types';
+import { TemplateErrorCode, TemplateTrip, templateProvider, templateScheme, validateTemplate } from './template';
+
+export const CUSTOM_APP_ID_PREFIX = 'custom_';
+
+// What the user enters for a custom app; the rest of its config is derived
+export interface CustomRideAppDefinition {
+  name: string;
+  icon: string;
+  color: string;
+  packageId: string;
+  playStoreUrl: string;
+  deepLinkTemplate: string;
+}
+
+export type CustomAppField = keyof CustomRideAppDefinition;
+
+export type CustomAppErrorCode = 'required' | 'invalidColor' | 'invalidStoreUrl' | TemplateErrorCode;
+
+export interface CustomAppError {
+  field: CustomAppField;
+  code: CustomAppErrorCode;
+  token?: string;
+}
+
+// Sample trip for the live link preview
+export const SAMPLE_TEMPLATE_TRIP: TemplateTrip = {
+  pickup: {
+    address: 'Av. Paulista, 1578 - Bela Vista, São Paulo',
+    latitude: -23.561414,
+    longitude: -46.655881,
+  },
+  dropoff: {
+    address: 'Parque Ibirapuera, São Paulo',
+    latitude: -23.587416,
+    longitude: -46.657634,
+  },
+};
+
+export const EMPTY_CUSTOM_APP: CustomRideAppDefinition = {
+  name: '',
+  icon: '🚕',
+  color: '#0ea5e9',
+  packageId: '',
+  playStoreUrl: '',
+  deepLinkTemplate: '',
+};
+
+export const createCustomAppId = () => `${CUSTOM_APP_ID_PREFIX}${Date.now().toString(36)}`;
+
+export const isCustomAppId = (appId: string) => appId.startsWith(CUSTOM_APP_ID_PREFIX);
+
+export function validateCustomApp(definition: CustomRideAppDefinition): CustomAppError[] {
+  const errors: CustomAppError[] = [];
+  if (!definition.name.trim()) {
+    errors.push({ field: 'name', code: 'required' });
+  }
+  if (!definition.icon.trim()) {
+    errors.push({ field: 'icon', code: 'required' });
+  }
+  if (!/^#[0-9a-f]{6}$/i.test(definition.color.trim())) {
+    errors.push({ field: 'color', code: 'invalidColor' });
+  }
+  // The store link is optional, but has to be something Linking can open
+  const storeUrl = definition.playStoreUrl.trim();
+  if (storeUrl && !/^(market|https?|itms-apps):\/\/\S+$/i.test(storeUrl)) {
+    errors.push({ field: 'playStoreUrl', code: 'invalidStoreUrl' });
+  }
+  validateTemplate(definition.deepLinkTemplate).forEach(error => {
+    errors.push({ field: 'deepLinkTemplate', ...error });
+  });
+  return errors;
+}
+
+export function customAppConfig(id: string, definition: CustomRideAppDefinition, enabled = true): RideAppConfig {
+  const deepLinkTemplate = definition.deepLinkTemplate.trim();
+  return {
+    id,
+    name: definition.name.trim(),
+    icon: definition.icon.trim(),
+    color: definition.color.trim(),
+    packageId: definition.packageId.trim(),
+    playStoreUrl: definition.playStoreUrl.trim(),
+    deepLinkTemplate,
+    deepLinkScheme: templateScheme(deepLinkTemplate),
+    enabled,
+    custom: true,
+  };
+}
+
+export const customAppDefinition = (app: RideAppConfig): CustomRideAppDefinition => ({
+  name: app.name,
+  icon: app.icon,
+  color: app.color,
+  packageId: app.packageId,
+  playStoreUrl: app.playStoreUrl,
+  deepLinkTemplate: app.deepLinkTemplate || '',
+});
+
+export function createCustomProvider(app: RideAppConfig): RideProvider | undefined {
+  return app.deepLinkTemplate ? templateProvider({ config: { ...app, deepLinkTemplate: app.deepLinkTemplate } }) : undefined;
+}
@@ -0,0 +1,16 @@
+import { RideProvider } from './types';
+import { templateProvider } from './template';
+import { rideAppIdentity } from './identities';
+
+export const grabProvider: RideProvider = templateProvider({
+  config: {
+    ...rideAppIdentity('grab'),
+    name: 'Grab',
+    icon: '🟢',
+    color: '#00b14f',
+    enabled: false,
+    playStoreUrl: 'market://details?id=com.grabtaxi.passenger',
+    appStoreUrl: 'https://apps.apple.com/app/id647268330',
+    deepLinkTemplate: 'grab://open?screenType=BOOK&type=TRANSPORT&pickup.latitude={pickup.lat}&pickup.longitude={pickup.lng}&dropoff.latitude={dropoff.lat}&dropoff.longitude={dropoff.lng}',
+  },
+});
@@ -0,0 +1,14 @@
+import APP_IDENTITIES from './appIdentities.json';
+
+// Built-in apps by id. appIdentities.json is also read at build time by
+// plugins/withRideAppQueries.js, which declares the schemes and packages so
+// the app may ask whether they're installed.
+export type BuiltInRideAppId = keyof typeof APP_IDENTITIES;
+
+export const BUILT_IN_RIDE_APP_IDS = Object.keys(APP_IDENTITIES) as BuiltInRideAppId[];
+
+/** The id, scheme and package of a built-in app, to spread into its config. */
+export function rideAppIdentity(id: BuiltInRideAppId) {
+  const { scheme, packageId } = APP_IDENTITIES[id];
+  return { id, deepLinkScheme: scheme, packageId };
+}
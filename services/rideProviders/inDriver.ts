@@ -0,0 +1,17 @@
+import { RideProvider } from './types';
+import { templateProvider } from './template';
+import { rideAppIdentity } from './identities';
+
+export const inDriverProvider: RideProvider = templateProvider({
+  config: {
+    ...rideAppIdentity('indriver'),
+    name: 'inDriver',
+    icon: '🔵',
+    color: '#1e40af',
+    enabled: false,
+    playStoreUrl: 'market://details?id=sinet.startup.inDriver',
+    appStoreUrl: 'https://apps.apple.com/app/id780125801',
+    // inDriver doesn't support deep links with route, so we just open the app
+    deepLinkTemplate: 'indriver://open',
+  },
+});
@@ -0,0 +1,85 @@
+import { LocationData, RideAppConfig, RideProvider } from './types';
+import { createCustomProvider } from './custom';
+import { uberProvider } from './uber';
+import { ninetyNineProvider } from './ninetyNine';
+import { lyftProvider } from './lyft';
+import { taxiRioProvider } from './taxiRio';
+import { inDriverProvider } from './inDriver';
+import { boltProvider } from './bolt';
+import { grabProvider } from './grab';
+import { careemProvider } from './careem';
+import { olaProvider } from './ola';
+import { yandexProvider } from './yandex';
+
+export * from './types';
+export {
+  renderTemplate,
+  templateProvider,
+  templateScheme,
+  validateTemplate,
+  TEMPLATE_FIELDS,
+  TEMPLATE_FILTERS,
+  TEMPLATE_POINTS,
+} from './template';
+export type { TemplateError, TemplateErrorCode, TemplateTrip } from './template';
+export {
+  createCustomAppId,
+  customAppConfig,
+  customAppDefinition,
+  isCustomAppId,
+  validateCustomApp,
+  EMPTY_CUSTOM_APP,
+  SAMPLE_TEMPLATE_TRIP,
+} from './custom';
+export type { CustomAppError, CustomAppErrorCode, CustomAppField, CustomRideAppDefinition } from './custom';
+export { appAvailability, isUnavailableAt, loadAppRegions, regionChanges, BUNDLED_APP_REGIONS } from './regions';
+export type { RegionAvailability, RegionChanges, RegionQuery } from './regions';
+export { storeLinkFor } from './stores';
+export type { AppStore, StoreLink } from './stores';
+
+// Order here is the order apps appear in the launcher and app manager.
+// To add a ride app, create a module next to this file and list it here.
+// Users can add their own from the app manager (see custom.ts).
+export const RIDE_PROVIDERS: RideProvider[] = [
+  uberProvider,
+  ninetyNineProvider,
+  lyftProvider,
+  taxiRioProvider,
+  inDriverProvider,
+  boltProvider,
+  grabProvider,
+  careemProvider,
+  olaProvider,
+  yandexProvider,
+];
+
+export function getRideProvider(appId: string): RideProvider | undefined {
+  return RIDE_PROVIDERS.find(provider => provider.config.id === appId);
+}
+
+/** The built-in provider for an app, or one built from a custom app's template. */
+export function providerForApp(app: RideAppConfig): RideProvider | undefined {
+  return getRideProvider(app.id) || (app.custom ? createCustomProvider(app) : undefined);
+}
+
+export interface TripPlan {
+  destination: LocationData;
+  stops: LocationData[];
+  // True when the app can't carry the stops, so only pickup → first stop is sent
+  firstLegOnly: boolean;
+}
+
+export function planTrip(
+  provider: RideProvider | undefined,
+  destination: LocationData,
+  stops: LocationData[] = []
+): TripPlan {
+  if (stops.length === 0 || (provider?.maxStops ?? 0) >= stops.length) {
+    return { destination, stops, firstLegOnly: false };
+  }
+  return { destination: stops[0], stops: [], firstLegOnly: true };
+}
+
+export function supportsMultiStop(appId: string, stopCount: number): boolean {
+  return (getRideProvider(appId)?.maxStops ?? 0) >= stopCount;
+}
@@ -0,0 +1,25 @@
+import { RideProvider } from './types';
+import { templateProvider } from './template';
+import { rideAppIdentity } from './identities';
+
+export const lyftProvider: RideProvider = templateProvider({
+  config: {
+    ...rideAppIdentity('lyft'),
+    name: 'Lyft',
+    icon: '🟣',
+    color: '#ff00bf',
+    enabled: true,
+    playStoreUrl: 'market://details?id=com.lyft',
+    appStoreUrl: 'https://apps.apple.com/app/id529379082',
+    deepLinkTemplate: 'lyft://ridetype?id={rideType}&pickup[latitude]={pickup.lat}&pickup[longitude]={pickup.lng}&destination[latitude]={dropoff.lat}&destination[longitude]={dropoff.lng}',
+    webLinkTemplate: 'https://lyft.com/ride?id={rideType}&pickup[latitude]={pickup.lat}&pickup[longitude]={pickup.lng}&destination[latitude]={dropoff.lat}&destination[longitude]={dropoff.lng}',
+  },
+  // Ids from Lyft's deep link docs; not every city has every type
+  rideTypes: [
+    { id: 'lyft', name: 'Lyft' },
+    { id: 'lyft_plus', name: 'Lyft XL' },
+    { id: 'lyft_premier', name: 'Lux' },
+    { id: 'lyft_lux', name: 'Lux Black' },
+    { id: 'lyft_luxsuv', name: 'Lux Black XL' },
+  ],
+});
@@ -0,0 +1,17 @@
+import { RideProvider } from './types';
+import { templateProvider } from './template';
+import { rideAppIdentity } from './identities';
+
+export const ninetyNineProvider: RideProvider = templateProvider({
+  config: {
+    ...rideAppIdentity('99'),
+    name: '99',
+    icon: '🟡',
+    color: '#ffd700',
+    enabled: true,
+    playStoreUrl: 'market://details?id=com.taxis99',
+    appStoreUrl: 'https://apps.apple.com/app/id553663691',
+    // 99 shows the title as the address; `title` is empty for "lat, lng" text so the app looks one up
+    deepLinkTemplate: 'taxis99://call?pickup_latitude={pickup.lat}&pickup_longitude={pickup.lng}&pickup_title={pickup.title|urlencode}&dropoff_latitude={dropoff.lat}&dropoff_longitude={dropoff.lng}&dropoff_title={dropoff.title|urlencode}',
+  },
+});
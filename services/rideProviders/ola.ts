@@ -0,0 +1,17 @@
+import { RideProvider } from './types';
+import { templateProvider } from './template';
+import { rideAppIdentity } from './identities';
+
+export const olaProvider: RideProvider = templateProvider({
+  config: {
+    ...rideAppIdentity('ola'),
+    name: 'Ola',
+    icon: '🟠',
+    color: '#f97316',
+    enabled: false,
+    playStoreUrl: 'market://details?id=com.olacabs.customer',
+    appStoreUrl: 'https://apps.apple.com/app/id539179365',
+    deepLinkTemplate: 'olacabs://app/setpickup?lat={pickup.lat}&lng={pickup.lng}&drop_lat={dropoff.lat}&drop_lng={dropoff.lng}',
+    webLinkTemplate: 'https://book.olacabs.com/?lat={pickup.lat}&lng={pickup.lng}&drop_lat={dropoff.lat}&drop_lng={dropoff.lng}',
+  },
+});
@@ -0,0 +1,137 @@
+import { AppRegions, RegionPolygon, RideAppConfig } from './types';
+
+export type RegionAvailability = 'available' | 'unavailable' | 'unknown';
+
+export interface RegionQuery {
+  point?: { latitude: number; longitude: number } | null;
+  countryCode?: string | null;
+}
+
+// Where each app takes rides. Apps that aren't listed are treated as available everywhere.
+export const BUNDLED_APP_REGIONS: Record<string, AppRegions> = {
+  '99': { countries: ['BR'] },
+  lyft: { countries: ['US', 'CA'] },
+  // The city of Rio de Janeiro, roughly
+  taxirio: {
+    areas: [[
+      [-22.74, -43.80],
+      [-22.74, -43.16],
+      [-22.86, -43.10],
+      [-22.99, -43.15],
+      [-23.03, -43.40],
+      [-23.08, -43.58],
+      [-22.98, -43.80],
+    ]],
+  },
+  grab: { countries: ['SG', 'MY', 'ID', 'TH', 'VN', 'PH', 'MM', 'KH'] },
+  careem: { countries: ['AE', 'SA', 'QA', 'KW', 'BH', 'OM', 'JO', 'PK', 'IQ'] },
+  ola: { countries: ['IN'] },
+  yandex: { countries: ['RU', 'BY', 'KZ', 'UZ', 'KG', 'AM', 'GE', 'AZ', 'MD'] },
+};
+
+const regionsUrl = process.env.EXPO_PUBLIC_APP_REGIONS_URL;
+
+const isPolygon = (value: any): value is RegionPolygon =>
+  Array.isArray(value)
+  && value.length >= 3
+  && value.every(corner => Array.isArray(corner) && corner.length === 2 && corner.every(Number.isFinite));
+
+const isAppRegions = (value: any): value is AppRegions =>
+  !!value
+  && typeof value === 'object'
+  && !Array.isArray(value)
+  && (value.countries === undefined || (Array.isArray(value.countries) && value.countries.every((code: any) => typeof code === 'string')))
+  && (value.areas === undefined || (Array.isArray(value.areas) && value.areas.every(isPolygon)));
+
+let loadedRegions: Promise<Record<string, AppRegions>> | null = null;
+
+/**
+ * Regions from EXPO_PUBLIC_APP_REGIONS_URL (a JSON object keyed by app id),
+ * layered over the bundled list and loaded once. Falls back to the bundled
+ * list when unset or unreachable.
+ */
+export function loadAppRegions(): Promise<Record<string, AppRegions>> {
+  if (!regionsUrl) {
+    return Promise.resolve(BUNDLED_APP_REGIONS);
+  }
+
+  if (!loadedRegions) {
+    loadedRegions = fetch(regionsUrl, { headers: { Accept: 'application/json' } })
+      .then(async response => {
+        if (!response.ok) {
+          throw new Error(`App regions request failed with status ${response.status}`);
+        }
+        const data = await response.json();
+        const updates = Object.entries(data && typeof data === 'object' ? data : {})
+          .filter((entry): entry is [string, AppRegions] => isAppRegions(entry[1]));
+        console.log('🌍 App regions loaded:', updates.length);
+        return { ...BUNDLED_APP_REGIONS, ...Object.fromEntries(updates) };
+      })
+      .catch(error => {
+        console.warn('⚠️ Could not load app regions, using bundled list:', error);
+        loadedRegions = null;
+        return BUNDLED_APP_REGIONS;
+      });
+  }
+  return loadedRegions;
+}
+
+// Ray casting; good enough for city-sized areas away from the antimeridian
+const isInsidePolygon = (point: { latitude: number; longitude: number }, polygon: RegionPolygon) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    const crosses = (latI > point.latitude) !== (latJ > point.latitude)
+      && point.longitude < ((lngJ - lngI) * (point.latitude - latI)) / (latJ - latI) + lngI;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Whether an app takes rides at a place. 'unknown' means the place is missing
+ * what the app's regions need (no country for a country list, no point for an
+ * area), so callers should not hide the app for it.
+ */
+export function appAvailability(regions: AppRegions | undefined, { point, countryCode }: RegionQuery): RegionAvailability {
+  const countries = regions?.countries || [];
+  const areas = regions?.areas || [];
+  if (countries.length === 0 && areas.length === 0) {
+    return 'available';
+  }
+
+  if (point && areas.some(area => isInsidePolygon(point, area))) {
+    return 'available';
+  }
+  if (countryCode && countries.includes(countryCode.toUpperCase())) {
+    return 'available';
+  }
+
+  const checkedAreas = areas.length === 0 || !!point;
+  const checkedCountries = countries.length === 0 || !!countryCode;
+  return checkedAreas && checkedCountries ? 'unavailable' : 'unknown';
+}
+
+export const isUnavailableAt = (app: RideAppConfig, query: RegionQuery) =>
+  appAvailability(app.regions, query) === 'unavailable';
+
+export interface RegionChanges {
+  enable: RideAppConfig[];
+  disable: RideAppConfig[];
+}
+
+/**
+ * What "enable apps for my region" would switch: regional apps that run here
+ * are turned on and ones that don't are turned off. Apps without regions, or
+ * that can't be told either way, are left as they are.
+ */
+export function regionChanges(apps: RideAppConfig[], query: RegionQuery): RegionChanges {
+  const regional = apps.filter(app => app.regions?.countries?.length || app.regions?.areas?.length);
+  return {
+    enable: regional.filter(app => !app.enabled && appAvailability(app.regions, query) === 'available'),
+    disable: regional.filter(app => app.enabled && appAvailability(app.regions, query) === 'unavailable'),
+  };
+}
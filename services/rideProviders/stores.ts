@@ -0,0 +1,52 @@
+import { Platform } from 'react-native';
+import { RideAppConfig } from './types';
+
+export type AppStore = 'app-store' | 'play-store' | 'web';
+
+export interface StoreLink {
+  url: string;
+  store: AppStore;
+}
+
+const storeOf = (url: string): AppStore => {
+  if (/^itms-apps:|^https?:\/\/(apps|itunes)\.apple\.com\//i.test(url)) {
+    return 'app-store';
+  }
+  if (/^market:|^https?:\/\/play\.google\.com\//i.test(url)) {
+    return 'play-store';
+  }
+  return 'web';
+};
+
+// Browsers can't open market:// links
+const toPlayWebUrl = (url: string) =>
+  url.replace(/^market:\/\/details/i, 'https://play.google.com/store/apps/details');
+
+const isAppleDevice = () => Platform.OS === 'ios'
+  || (Platform.OS === 'web' && typeof navigator !== 'undefined' && /iPhone|iPad|iPod/i.test(navigator.userAgent));
+
+/**
+ * Where to send a rider who doesn't have the app: the App Store on Apple
+ * devices, Play everywhere else (its web page when running in a browser).
+ * Null when the app has no link this platform can open, e.g. a custom app
+ * with only a Play link on an iPhone.
+ */
+export function storeLinkFor(app: RideAppConfig): StoreLink | null {
+  const links = [app.appStoreUrl, app.playStoreUrl]
+    .map(url => url?.trim())
+    .filter((url): url is string => !!url)
+    .map(url => ({ url, store: storeOf(url) }));
+
+  const preferred: AppStore = isAppleDevice() ? 'app-store' : 'play-store';
+  // A browser can show either store's page, a phone only its own store
+  const link = links.find(candidate => candidate.store === preferred)
+    || links.find(candidate => candidate.store === 'web')
+    || (Platform.OS === 'web' ? links[0] : undefined);
+
+  if (!link) {
+    return null;
+  }
+  return Platform.OS === 'web' && link.store === 'play-store'
+    ? { ...link, url: toPlayWebUrl(link.url) }
+    : link;
+}
@@ -0,0 +1,16 @@
+import { RideProvider } from './types';
+import { templateProvider } from './template';
+import { rideAppIdentity } from './identities';
+
+export const taxiRioProvider: RideProvider = templateProvider({
+  config: {
+    ...rideAppIdentity('taxirio'),
+    name: 'Taxi.Rio',
+    icon: '🚕',
+    color: '#ff6b35',
+    enabled: false,
+    playStoreUrl: 'market://details?id=br.gov.rj.taxi.rio.passenger',
+    // Taxi.Rio has no route parameters, the link only opens the app
+    deepLinkTemplate: 'br.gov.rj.taxi.rio.passenger://ride',
+  },
+});
@@ -0,0 +1,168 @@
+import { isCoordinateAddress } from '@/services/geocoding/coordinates';
+import { LocationData, RideAppConfig, RideLinkBuilder, RideProvider } from './types';
+
+/**
+ * Deep links are written as URL templates with `{point.field|filter}`
+ * placeholders, e.g. `bolt://ride?pickup_lat={pickup.lat}&destination_lat={dropoff.lat}`
+ * or `taxi://book?to={dropoff.address|urlencode}`. `{rideType}` is the ride
+ * type the rider picked, or the app's default one.
+ */
+
+export const TEMPLATE_POINTS = ['pickup', 'dropoff'] as const;
+export const TEMPLATE_FIELDS = ['lat', 'lng', 'address', 'title', 'placeId'] as const;
+export const TEMPLATE_FILTERS = ['urlencode'] as const;
+const RIDE_TYPE_PLACEHOLDER = 'rideType';
+
+type TemplatePoint = typeof TEMPLATE_POINTS[number];
+type TemplateField = typeof TEMPLATE_FIELDS[number];
+type TemplateFilter = typeof TEMPLATE_FILTERS[number];
+
+// `destination` reads better to some; both name the end of the trip. A Map, so
+// names like `constructor` don't resolve to Object.prototype members.
+const POINT_ALIASES = new Map<string, TemplatePoint>([
+  ['pickup', 'pickup'],
+  ['dropoff', 'dropoff'],
+  ['destination', 'dropoff'],
+]);
+
+const FIELD_VALUES: Record<TemplateField, (location: LocationData) => string> = {
+  lat: location => location.latitude.toString(),
+  lng: location => location.longitude.toString(),
+  address: location => location.address,
+  // The address, or nothing for "lat, lng" text, for apps that show it as a title
+  title: location => (isCoordinateAddress(location.address) ? '' : location.address),
+  placeId: location => location.placeId || '',
+};
+
+const FILTERS: Record<TemplateFilter, (value: string) => string> = {
+  urlencode: value => encodeURIComponent(value),
+};
+
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+const SCHEME_PATTERN = /^([a-z][a-z0-9+.-]*):/i;
+
+export interface TemplateTrip {
+  pickup: LocationData;
+  dropoff: LocationData;
+  rideType?: string;
+}
+
+export type TemplateErrorCode =
+  | 'empty'
+  | 'missingScheme'
+  | 'unbalancedBraces'
+  | 'unknownPlaceholder'
+  | 'unknownFilter';
+
+export interface TemplateError {
+  code: TemplateErrorCode;
+  // The placeholder or filter at fault
+  token?: string;
+}
+
+interface ParsedPlaceholder {
+  // No point means the trip-wide `{rideType}`
+  point?: TemplatePoint;
+  field?: TemplateField;
+  filters: TemplateFilter[];
+}
+
+const parsePlaceholder = (body: string): ParsedPlaceholder | TemplateError => {
+  const [path, ...filterNames] = body.split('|').map(part => part.trim());
+  const [pointName, fieldName, ...extra] = path.split('.');
+  const point = POINT_ALIASES.get(pointName);
+  const field = TEMPLATE_FIELDS.find(known => known === fieldName);
+  const isRideType = path === RIDE_TYPE_PLACEHOLDER;
+  if (!isRideType && (!point || !field || extra.length > 0)) {
+    return { code: 'unknownPlaceholder', token: `{${body}}` };
+  }
+
+  const unknownFilter = filterNames.find(name => !TEMPLATE_FILTERS.includes(name as TemplateFilter));
+  if (unknownFilter !== undefined) {
+    return { code: 'unknownFilter', token: unknownFilter };
+  }
+  return isRideType
+    ? { filters: filterNames as TemplateFilter[] }
+    : { point, field, filters: filterNames as TemplateFilter[] };
+};
+
+const isTemplateError = (value: ParsedPlaceholder | TemplateError): value is TemplateError => 'code' in value;
+
+/** Everything wrong with a template, or an empty list when it can be used. */
+export function validateTemplate(template: string): TemplateError[] {
+  const trimmed = template.trim();
+  if (!trimmed) {
+    return [{ code: 'empty' }];
+  }
+
+  const errors: TemplateError[] = [];
+  if (!SCHEME_PATTERN.test(trimmed)) {
+    errors.push({ code: 'missingScheme' });
+  }
+  if (/[{}]/.test(trimmed.replace(PLACEHOLDER_PATTERN, ''))) {
+    errors.push({ code: 'unbalancedBraces' });
+  }
+  for (const match of trimmed.matchAll(PLACEHOLDER_PATTERN)) {
+    const parsed = parsePlaceholder(match[1]);
+    if (isTemplateError(parsed) && !errors.some(error => error.token === parsed.token)) {
+      errors.push(parsed);
+    }
+  }
+  return errors;
+}
+
+/** Fills in the placeholders; ones that don't parse are left as written. */
+export function renderTemplate(template: string, trip: TemplateTrip): string {
+  return template.trim().replace(PLACEHOLDER_PATTERN, (placeholder, body: string) => {
+    const parsed = parsePlaceholder(body);
+    if (isTemplateError(parsed)) {
+      return placeholder;
+    }
+    const value = parsed.point && parsed.field
+      ? FIELD_VALUES[parsed.field](trip[parsed.point])
+      : trip.rideType || '';
+    return parsed.filters.reduce((result, filter) => FILTERS[filter](result), value);
+  });
+}
+
+/** The URL scheme a template opens, e.g. `bolt` for `bolt://ride?...`. */
+export const templateScheme = (template: string) =>
+  SCHEME_PATTERN.exec(template.trim())?.[1].toLowerCase() || '';
+
+// Without a dropoff placeholder the link only opens the app
+const usesDropoff = (template: string) =>
+  [...template.matchAll(PLACEHOLDER_PATTERN)].some(match => {
+    const parsed = parsePlaceholder(match[1]);
+    return !isTemplateError(parsed) && parsed.point === 'dropoff';
+  });
+
+type TemplateProviderOptions = Omit<RideProvider, 'config' | 'buildDeepLink' | 'buildWebLink' | 'supportsPrefill'> & {
+  config: RideAppConfig & { deepLinkTemplate: string };
+};
+
+const isWebLink = (template: string) => /^https?:\/\//i.test(template.trim());
+
+/**
+ * A provider whose links come from `config.deepLinkTemplate` and, when set,
+ * `config.webLinkTemplate`. Prefill support follows from the template using
+ * the dropoff. A deep link that is already https doubles as the web link.
+ */
+export function templateProvider({ config, ...rest }: TemplateProviderOptions): RideProvider {
+  const webLinkTemplate = config.webLinkTemplate
+    || (isWebLink(config.deepLinkTemplate) ? config.deepLinkTemplate : undefined);
+
+  const linkBuilder = (template: string): RideLinkBuilder => (pickup, destination, _stops, options = {}) =>
+    renderTemplate(template, {
+      pickup,
+      dropoff: destination,
+      rideType: options.rideType || rest.rideTypes?.[0]?.id,
+    });
+
+  return {
+    ...rest,
+    config,
+    supportsPrefill: usesDropoff(config.deepLinkTemplate),
+    buildDeepLink: linkBuilder(config.deepLinkTemplate),
+    buildWebLink: webLinkTemplate ? linkBuilder(webLinkTemplate) : undefined,
+  };
+}
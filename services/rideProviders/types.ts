@@ -0,0 +1,81 @@
+import type { QuoteAdapter } from '@/services/quotes/types';
+
+export interface RideAppConfig {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  packageId: string;
+  enabled: boolean;
+  deepLinkScheme: string;
+  playStoreUrl: string;
+  // App Store page, used instead of the Play Store link on iOS (see stores.ts)
+  appStoreUrl?: string;
+  // URL template the deep link is built from (see template.ts); Uber builds its links in code
+  deepLinkTemplate?: string;
+  // https template for a universal link or web booking page with the same trip
+  webLinkTemplate?: string;
+  // Added by the user in the app manager rather than shipped with the app
+  custom?: boolean;
+  // Shown as the primary button on the launcher; at most one app has it
+  preferred?: boolean;
+  // Ride type the rider picked for this app (see RideProvider.rideTypes)
+  rideType?: string;
+  // Where the app takes rides, from the region list (see regions.ts); none means everywhere
+  regions?: AppRegions;
+}
+
+// A closed area as [latitude, longitude] corners, for apps that only run in part of a country
+export type RegionPolygon = [number, number][];
+
+export interface AppRegions {
+  // ISO 3166-1 alpha-2 codes, upper case
+  countries?: string[];
+  areas?: RegionPolygon[];
+}
+
+export interface RideType {
+  // Value the app's deep link takes, e.g. Lyft's `lyft_plus`
+  id: string;
+  // Brand names, so they are not translated
+  name: string;
+}
+
+// Rider choices that shape the link beyond the route itself
+export interface DeepLinkOptions {
+  rideType?: string;
+}
+
+export interface LocationData {
+  latitude: number;
+  longitude: number;
+  address: string;
+  placeId?: string;
+}
+
+export type RideLinkBuilder = (
+  pickup: LocationData,
+  destination: LocationData,
+  stops?: LocationData[],
+  options?: DeepLinkOptions
+) => string;
+
+export interface RideProvider {
+  // Metadata shown in the app manager; `enabled` is the default state
+  config: RideAppConfig;
+  // Whether the deep link carries pickup/dropoff so the app opens with the route filled in
+  supportsPrefill: boolean;
+  // How many intermediate stops the deep link can carry; apps without it only get the first leg
+  maxStops?: number;
+  // Ride types the link can preselect; the first one is what the app opens with by default
+  rideTypes?: RideType[];
+  // Whether the rider can type in a ride type id instead, for apps whose ids differ by city
+  freeformRideType?: boolean;
+  buildDeepLink: RideLinkBuilder;
+  // https link with the route filled in: a universal link that opens the app
+  // when it's installed, or the web booking page. Used on web and when the
+  // app's own scheme can't be opened.
+  buildWebLink?: RideLinkBuilder;
+  // Live pricing for this app; apps without one use the default estimator
+  quoteAdapter?: QuoteAdapter;
+}
@@ -0,0 +1,88 @@
+import { isCoordinateAddress } from '@/services/geocoding/coordinates';
+import { DeepLinkOptions, LocationData, RideProvider } from './types';
+import { rideAppIdentity } from './identities';
+
+// "lat, lng" text isn't an address; Uber finds one itself from the coordinates
+const addressOf = (location: LocationData) =>
+  isCoordinateAddress(location.address) ? undefined : location.address;
+
+const toUberPlace = (location: LocationData) => JSON.stringify({
+  latitude: location.latitude,
+  longitude: location.longitude,
+  addressLine1: addressOf(location),
+});
+
+const appendPlace = (params: URLSearchParams, name: 'pickup' | 'dropoff', location: LocationData) => {
+  const address = addressOf(location);
+  if (address) {
+    params.append(`${name}[formatted_address]`, address);
+  }
+  if (location.latitude && location.longitude) {
+    params.append(`${name}[latitude]`, location.latitude.toString());
+    params.append(`${name}[longitude]`, location.longitude.toString());
+  }
+};
+
+// The legacy `uber://?action=setPickup` link only takes one dropoff. The universal
+// "looking" link takes indexed drops and opens the app when it's installed.
+const buildMultiStopLink = (pickup: LocationData, drops: LocationData[], productId?: string) => {
+  const params = new URLSearchParams();
+  params.append('pickup', toUberPlace(pickup));
+  drops.forEach((drop, index) => {
+    params.append(`drop[${index}]`, toUberPlace(drop));
+  });
+  if (productId) {
+    params.append('product_id', productId);
+  }
+  const link = `https://m.uber.com/looking?${params.toString()}`;
+  console.log('🚗 Uber multi-stop link:', link);
+  return link;
+};
+
+const setPickupParams = (pickup: LocationData, destination: LocationData, options: DeepLinkOptions) => {
+  const params = new URLSearchParams();
+  params.append('action', 'setPickup');
+  appendPlace(params, 'pickup', pickup);
+  appendPlace(params, 'dropoff', destination);
+  if (options.rideType) {
+    params.append('product_id', options.rideType);
+  }
+  return params;
+};
+
+// Not a templateProvider: templates have one pickup and one dropoff and fill in
+// every parameter, while Uber's links carry stops as JSON-encoded `drop[n]`
+// entries and must leave out an empty address or product id.
+export const uberProvider: RideProvider = {
+  config: {
+    ...rideAppIdentity('uber'),
+    name: 'Uber',
+    icon: '🚗',
+    color: '#000000',
+    enabled: true,
+    playStoreUrl: 'market://details?id=com.ubercab',
+    appStoreUrl: 'https://apps.apple.com/app/id368677368',
+  },
+  supportsPrefill: true,
+  // Uber lets riders add up to two stops before the final destination
+  maxStops: 2,
+  // Uber product ids are different in every city, so riders paste the one they want
+  freeformRideType: true,
+  buildDeepLink: (pickup, destination, stops = [], options = {}) => {
+    if (stops.length > 0) {
+      return buildMultiStopLink(pickup, [...stops, destination], options.rideType);
+    }
+
+    // Format: uber://?action=setPickup&pickup[formatted_address]=...&pickup[latitude]=...&dropoff[...]=...
+    const uberDeepLink = `uber://?${setPickupParams(pickup, destination, options).toString()}`;
+    console.log('🚗 Uber deep link:', uberDeepLink);
+    return uberDeepLink;
+  },
+  // Universal link: opens the app when installed, Uber's web booking otherwise
+  buildWebLink: (pickup, destination, stops = [], options = {}) => {
+    if (stops.length > 0) {
+      return buildMultiStopLink(pickup, [...stops, destination], options.rideType);
+    }
+    return `https://m.uber.com/ul/?${setPickupParams(pickup, destination, options).toString()}`;
+  },
+};
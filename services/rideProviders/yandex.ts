@@ -0,0 +1,17 @@
+import { RideProvider } from './types';
+import { templateProvider } from './template';
+import { rideAppIdentity } from './identities';
+
+export const yandexProvider: RideProvider = templateProvider({
+  config: {
+    ...rideAppIdentity('yandex'),
+    name: 'Yandex Go',
+    icon: '🔴',
+    color: '#dc2626',
+    enabled: false,
+    playStoreUrl: 'market://details?id=ru.yandex.taxi',
+    appStoreUrl: 'https://apps.apple.com/app/id472650686',
+    deepLinkTemplate: 'yandextaxi://route?start-lat={pickup.lat}&start-lon={pickup.lng}&end-lat={dropoff.lat}&end-lon={dropoff.lng}',
+    webLinkTemplate: 'https://3.redirect.appmetrica.yandex.com/route?start-lat={pickup.lat}&start-lon={pickup.lng}&end-lat={dropoff.lat}&end-lon={dropoff.lng}&appmetrica_tracking_id=1178268795219780156',
+  },
+});
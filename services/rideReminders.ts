@@ -0,0 +1,116 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { getReminderTriggers, RideRecurrence } from './scheduling';
+
+// Notification payload key pointing back at the scheduled ride
+export const SCHEDULED_RIDE_ID_KEY = 'scheduledRideId';
+
+const ANDROID_CHANNEL_ID = 'ride-reminders';
+
+export interface ReminderContent {
+  title: string;
+  body: string;
+}
+
+// Local notifications aren't available in the browser; rides are still listed there
+export const remindersSupported = Platform.OS !== 'web';
+
+export function configureRideReminders() {
+  if (!remindersSupported) {
+    return;
+  }
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === 'android') {
+    Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: 'Ride reminders',
+      importance: Notifications.AndroidImportance.HIGH,
+    }).catch((error) => {
+      console.error('❌ Failed to create ride reminder channel:', error);
+    });
+  }
+}
+
+export async function requestReminderPermission(): Promise<boolean> {
+  if (!remindersSupported) {
+    return false;
+  }
+
+  const { status: existingStatus } = await Notifications.getPermissionsAsync();
+  if (existingStatus === 'granted') {
+    return true;
+  }
+  const { status } = await Notifications.requestPermissionsAsync();
+  return status === 'granted';
+}
+
+/**
+ * Schedules the local notifications for a ride and returns their ids.
+ * Weekday rides need one weekly notification per day; see getReminderTriggers
+ * for rides that haven't started yet.
+ */
+export async function scheduleRideReminders(
+  rideId: string,
+  start: Date,
+  recurrence: RideRecurrence,
+  content: ReminderContent,
+  now: Date
+): Promise<string[]> {
+  if (!remindersSupported) {
+    console.log('ℹ️ Ride reminders are not supported on web');
+    return [];
+  }
+
+  const granted = await requestReminderPermission();
+  if (!granted) {
+    console.warn('⚠️ Notification permission denied, ride saved without a reminder');
+    return [];
+  }
+
+  const channelId = Platform.OS === 'android' ? ANDROID_CHANNEL_ID : undefined;
+  const ids: string[] = [];
+  for (const trigger of getReminderTriggers(start, recurrence, now)) {
+    const id = await Notifications.scheduleNotificationAsync({
+      content: {
+        ...content,
+        data: { [SCHEDULED_RIDE_ID_KEY]: rideId },
+      },
+      trigger: trigger.type === 'date'
+        ? { type: Notifications.SchedulableTriggerInputTypes.DATE, date: trigger.date, channelId }
+        : {
+            type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+            weekday: trigger.weekday,
+            hour: trigger.hour,
+            minute: trigger.minute,
+            channelId,
+          },
+    });
+    ids.push(id);
+  }
+
+  console.log('⏰ Ride reminders scheduled:', { rideId, recurrence, count: ids.length });
+  return ids;
+}
+
+export async function cancelRideReminders(notificationIds: string[]) {
+  if (!remindersSupported) {
+    return;
+  }
+  await Promise.all(notificationIds.map(id => Notifications.cancelScheduledNotificationAsync(id)));
+}
+
+// Ride reminders are the only notifications RideLink schedules
+export async function cancelAllRideReminders() {
+  if (!remindersSupported) {
+    return;
+  }
+  await Notifications.cancelAllScheduledNotificationsAsync();
+}
@@ -0,0 +1,108 @@
+export type RideRecurrence = 'none' | 'weekdays' | 'weekly';
+
+// Scheduling code asks a clock for the time so it can run against a fake one
+export interface Clock {
+  now: () => Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+export function createFakeClock(initial: Date): Clock & { set: (date: Date) => void; advance: (ms: number) => void } {
+  let current = new Date(initial);
+  return {
+    now: () => new Date(current),
+    set: (date) => {
+      current = new Date(date);
+    },
+    advance: (ms) => {
+      current = new Date(current.getTime() + ms);
+    },
+  };
+}
+
+const isWeekday = (date: Date) => date.getDay() >= 1 && date.getDay() <= 5;
+
+/**
+ * Next time a ride first scheduled for `start` is due, at or after `now`.
+ * Returns null once a one-off ride has passed.
+ */
+export function getNextOccurrence(start: Date, recurrence: RideRecurrence, now: Date): Date | null {
+  switch (recurrence) {
+    case 'none':
+      return start >= now ? new Date(start) : null;
+
+    case 'weekly': {
+      const next = new Date(start);
+      // Stepping with setDate keeps the local time across DST changes
+      while (next < now) {
+        next.setDate(next.getDate() + 7);
+      }
+      return next;
+    }
+
+    case 'weekdays': {
+      let next = new Date(start);
+      if (next < now) {
+        next = new Date(now);
+        next.setHours(start.getHours(), start.getMinutes(), 0, 0);
+      }
+      while (next < now || !isWeekday(next)) {
+        next.setDate(next.getDate() + 1);
+      }
+      return next;
+    }
+  }
+}
+
+export type ReminderTrigger =
+  | { type: 'date'; date: Date }
+  // `weekday` follows the notification APIs: 1 is Sunday, 7 is Saturday
+  | { type: 'weekly'; weekday: number; hour: number; minute: number };
+
+// Dated reminders cover this many weeks of a recurring ride that hasn't started yet
+export const DATED_REMINDER_WEEKS = 2;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Notification triggers for a ride. Repeating triggers fire at the next
+ * matching weekday, so a recurring ride that starts later gets dated one-shot
+ * reminders for its first DATED_REMINDER_WEEKS weeks instead, and is
+ * rescheduled with repeating ones once it has started (`needsReminderRefresh`).
+ */
+export function getReminderTriggers(start: Date, recurrence: RideRecurrence, now: Date): ReminderTrigger[] {
+  const hour = start.getHours();
+  const minute = start.getMinutes();
+
+  if (recurrence === 'none') {
+    return start > now ? [{ type: 'date', date: new Date(start) }] : [];
+  }
+
+  if (start > now) {
+    const until = start.getTime() + DATED_REMINDER_WEEKS * WEEK_MS;
+    const triggers: ReminderTrigger[] = [];
+    let next = getNextOccurrence(start, recurrence, start);
+    while (next && next.getTime() < until) {
+      triggers.push({ type: 'date', date: next });
+      const after = new Date(next.getTime() + 60 * 1000);
+      next = getNextOccurrence(start, recurrence, after);
+    }
+    return triggers;
+  }
+
+  switch (recurrence) {
+    case 'weekly':
+      return [{ type: 'weekly', weekday: start.getDay() + 1, hour, minute }];
+    case 'weekdays':
+      // Monday (2) through Friday (6)
+      return [2, 3, 4, 5, 6].map(weekday => ({ type: 'weekly' as const, weekday, hour, minute }));
+  }
+}
+
+/** Whether a recurring ride's dated reminders should now become repeating ones. */
+export const needsReminderRefresh = (
+  ride: { scheduledAt: Date; recurrence: RideRecurrence; datedReminders?: boolean },
+  now: Date
+) => ride.recurrence !== 'none' && !!ride.datedReminders && ride.scheduledAt <= now;
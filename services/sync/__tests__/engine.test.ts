@@ -0,0 +1,159 @@
+import { AddressInfo } from 'net';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AuthFailure, createRestAuthBackend } from '@/services/auth';
+import { USER_STORAGE_KEYS, activateUserStorage, userStorageKey } from '@/services/userStorage';
+import { createHttpSyncTransport } from '../http';
+import { getSyncStatus, queueSyncDeletions, registerSyncCollection, syncNow } from '../engine';
+import { SyncTransport } from '../types';
+
+const { server } = require('../../../scripts/stub-server');
+
+const FAVORITES_KEY = USER_STORAGE_KEYS.favorites;
+
+let baseUrl: string;
+let transport: SyncTransport;
+const onChange = jest.fn();
+
+interface Account {
+  userId: string;
+  accessToken: string;
+}
+
+const signUp = async (name: string): Promise<Account> => {
+  const result = await createRestAuthBackend(baseUrl).register(name, `${name}@example.com`, 'secret1');
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return { userId: result.session.user.id, accessToken: result.session.tokens.accessToken };
+};
+
+const withToken = (account: Account) =>
+  <T extends { success: true }>(call: (accessToken: string) => Promise<T | AuthFailure>) =>
+    call(account.accessToken);
+
+const readFavorites = async (userId: string) => {
+  const stored = await AsyncStorage.getItem(userStorageKey(FAVORITES_KEY, userId));
+  return stored ? JSON.parse(stored) : null;
+};
+
+const favorite = (id: string, name: string, updatedAt: string) => ({
+  id,
+  name,
+  address: `${name} street`,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt,
+});
+
+// A fresh install on another device: nothing stored locally, same account
+const switchDevice = async (account: Account) => {
+  await AsyncStorage.clear();
+  await activateUserStorage(account.userId);
+};
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  transport = createHttpSyncTransport(baseUrl);
+  registerSyncCollection('favorites', { storageKey: FAVORITES_KEY, onChange });
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('syncNow against the stub server', () => {
+  it('uploads local records on the first sync and restores them on another device', async () => {
+    const account = await signUp('first');
+    await switchDevice(account);
+    await AsyncStorage.setItem(
+      userStorageKey(FAVORITES_KEY, account.userId),
+      JSON.stringify([favorite('home', 'Home', '2025-01-02T00:00:00.000Z')])
+    );
+
+    await syncNow(account.userId, transport, withToken(account));
+    expect(getSyncStatus()).toMatchObject({ pendingChanges: 0, lastError: null });
+
+    await switchDevice(account);
+    await syncNow(account.userId, transport, withToken(account));
+
+    expect(await readFavorites(account.userId)).toEqual([
+      expect.objectContaining({ id: 'home', name: 'Home', updatedAt: '2025-01-02T00:00:00.000Z' }),
+    ]);
+    expect(onChange).toHaveBeenCalled();
+  });
+
+  it('carries deletions to other devices', async () => {
+    const account = await signUp('second');
+    await switchDevice(account);
+    await AsyncStorage.setItem(
+      userStorageKey(FAVORITES_KEY, account.userId),
+      JSON.stringify([
+        favorite('home', 'Home', '2025-01-02T00:00:00.000Z'),
+        favorite('work', 'Work', '2025-01-02T00:00:00.000Z'),
+      ])
+    );
+    await syncNow(account.userId, transport, withToken(account));
+
+    await queueSyncDeletions('favorites', ['work'], Date.parse('2025-01-03T00:00:00.000Z'));
+    await syncNow(account.userId, transport, withToken(account));
+
+    await switchDevice(account);
+    await syncNow(account.userId, transport, withToken(account));
+    expect((await readFavorites(account.userId)).map((record: { id: string }) => record.id)).toEqual(['home']);
+  });
+
+  it('keeps accounts apart on the server', async () => {
+    const first = await signUp('third');
+    const second = await signUp('fourth');
+    await switchDevice(first);
+    await AsyncStorage.setItem(
+      userStorageKey(FAVORITES_KEY, first.userId),
+      JSON.stringify([favorite('gym', 'Gym', '2025-01-02T00:00:00.000Z')])
+    );
+    await syncNow(first.userId, transport, withToken(first));
+
+    await switchDevice(second);
+    await syncNow(second.userId, transport, withToken(second));
+    expect(await readFavorites(second.userId)).toBeNull();
+  });
+
+  it('reports a rejected token without touching the queue', async () => {
+    const account = await signUp('fifth');
+    await switchDevice(account);
+    await AsyncStorage.setItem(
+      userStorageKey(FAVORITES_KEY, account.userId),
+      JSON.stringify([favorite('home', 'Home', '2025-01-02T00:00:00.000Z')])
+    );
+
+    await syncNow(account.userId, transport, withToken({ ...account, accessToken: 'expired' }));
+
+    expect(getSyncStatus()).toMatchObject({ lastError: 'Unauthorized', pendingChanges: 1 });
+  });
+
+  it('drops the result when another account signs in during the sync', async () => {
+    const first = await signUp('sixth');
+    const second = await signUp('seventh');
+    await switchDevice(first);
+    await AsyncStorage.setItem(
+      userStorageKey(FAVORITES_KEY, first.userId),
+      JSON.stringify([favorite('home', 'Home', '2025-01-02T00:00:00.000Z')])
+    );
+    await syncNow(first.userId, transport, withToken(first));
+    await switchDevice(first);
+
+    const switching: SyncTransport = {
+      id: 'switching',
+      sync: async (accessToken, request) => {
+        const result = await transport.sync(accessToken, request);
+        await activateUserStorage(second.userId);
+        return result;
+      },
+    };
+    await syncNow(first.userId, switching, withToken(first));
+
+    expect(await readFavorites(first.userId)).toBeNull();
+    expect(await readFavorites(second.userId)).toBeNull();
+    expect(await AsyncStorage.getItem(userStorageKey(USER_STORAGE_KEYS.syncQueue, second.userId))).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import { applyRemoteRecords, getRecordTimestamp, pickWinner, toSyncRecord, toTombstone } from '../merge';
+
+const place = (id: string, name: string, updatedAt: string) => ({ id, name, createdAt: '2025-01-01T00:00:00.000Z', updatedAt });
+const remote = (id: string, name: string, updatedAt: string) => toSyncRecord(place(id, name, updatedAt));
+
+describe('getRecordTimestamp', () => {
+  it('reads Date, string and number timestamps', () => {
+    expect(getRecordTimestamp({ updatedAt: new Date(1000) })).toBe(1000);
+    expect(getRecordTimestamp({ updatedAt: '1970-01-01T00:00:02.000Z' })).toBe(2000);
+    expect(getRecordTimestamp({ updatedAt: 3000 })).toBe(3000);
+  });
+
+  it('falls back to the creation time, then to zero', () => {
+    expect(getRecordTimestamp({ createdAt: '1970-01-01T00:00:05.000Z' })).toBe(5000);
+    expect(getRecordTimestamp({ updatedAt: 'not a date' })).toBe(0);
+    expect(getRecordTimestamp({})).toBe(0);
+  });
+});
+
+describe('pickWinner', () => {
+  const edit = { id: 'a', updatedAt: 100, data: {} };
+
+  it('takes the newer record', () => {
+    expect(pickWinner(undefined, edit)).toBe(edit);
+    const newer = { ...edit, updatedAt: 200 };
+    expect(pickWinner(edit, newer)).toBe(newer);
+    expect(pickWinner(newer, edit)).toBe(newer);
+  });
+
+  it('lets a deletion win a tie against an edit', () => {
+    const tombstone = toTombstone('a', 100);
+    expect(pickWinner(edit, tombstone)).toBe(tombstone);
+    expect(pickWinner(tombstone, { ...edit })).toBe(tombstone);
+  });
+});
+
+describe('applyRemoteRecords', () => {
+  const home = place('home', 'Home', '2025-01-02T00:00:00.000Z');
+  const work = place('work', 'Work', '2025-01-02T00:00:00.000Z');
+
+  it('returns null when nothing changed', () => {
+    expect(applyRemoteRecords([home], [])).toBeNull();
+    expect(applyRemoteRecords([home], [remote('home', 'Old home', '2025-01-01T12:00:00.000Z')])).toBeNull();
+    expect(applyRemoteRecords([home], [toTombstone('gym', Date.now())])).toBeNull();
+  });
+
+  it('applies newer edits in place and puts new records first', () => {
+    const result = applyRemoteRecords(
+      [home, work],
+      [remote('work', 'Office', '2025-01-03T00:00:00.000Z'), remote('gym', 'Gym', '2025-01-03T00:00:00.000Z')]
+    );
+
+    expect(result?.map(record => record.id)).toEqual(['gym', 'home', 'work']);
+    expect(result?.[2]).toMatchObject({ name: 'Office', updatedAt: '2025-01-03T00:00:00.000Z' });
+  });
+
+  it('removes records with a newer or tied tombstone', () => {
+    const tied = toTombstone('home', getRecordTimestamp(home));
+    const older = toTombstone('work', getRecordTimestamp(work) - 1);
+
+    expect(applyRemoteRecords([home, work], [tied, older])?.map(record => record.id)).toEqual(['work']);
+  });
+});
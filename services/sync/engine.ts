@@ -0,0 +1,304 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AuthFailure } from '@/services/auth';
+import { USER_STORAGE_KEYS, getStorageUserId, userStorageKey } from '@/services/userStorage';
+import { SyncChanges, SyncCollectionId, SyncRecord, SyncTransport } from './types';
+import { applyRemoteRecords, pickWinner, toSyncRecord, toTombstone } from './merge';
+
+// A collection whose records live as a JSON array under one AsyncStorage key
+export interface SyncCollectionAdapter {
+  // Base key; the signed-in user's copy is read and written
+  storageKey: string;
+  // Tells mounted hooks to reload after remote changes were written
+  onChange: () => void;
+}
+
+export interface SyncStatus {
+  syncing: boolean;
+  pendingChanges: number;
+  lastSyncedAt: Date | null;
+  lastError: string | null;
+}
+
+type WithAccessToken = <T extends { success: true }>(
+  call: (accessToken: string) => Promise<T | AuthFailure>
+) => Promise<T | AuthFailure>;
+
+const SYNC_QUEUE_KEY = USER_STORAGE_KEYS.syncQueue;
+const SYNC_STATE_KEY = USER_STORAGE_KEYS.syncState;
+
+interface SyncState {
+  userId: string;
+  cursor: string | null;
+  lastSyncedAt: string | null;
+}
+
+const collections = new Map<SyncCollectionId, SyncCollectionAdapter>();
+
+export function registerSyncCollection(id: SyncCollectionId, adapter: SyncCollectionAdapter) {
+  collections.set(id, adapter);
+}
+
+// Create a simple event emitter for sync status changes
+class SyncEventEmitter {
+  private listeners: (() => void)[] = [];
+
+  subscribe(listener: () => void) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  emit() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Fires when local changes were queued, so a sync can be scheduled
+export const syncQueueEmitter = new SyncEventEmitter();
+export const syncStatusEmitter = new SyncEventEmitter();
+
+let status: SyncStatus = { syncing: false, pendingChanges: 0, lastSyncedAt: null, lastError: null };
+
+export const getSyncStatus = () => status;
+
+const setStatus = (updates: Partial<SyncStatus>) => {
+  status = { ...status, ...updates };
+  syncStatusEmitter.emit();
+};
+
+// Queue and collection writes are read-modify-write on AsyncStorage, so they run one at a time
+let exclusive: Promise<unknown> = Promise.resolve();
+const runExclusive = <T,>(task: () => Promise<T>): Promise<T> => {
+  const result = exclusive.then(task, task);
+  exclusive = result.catch(() => undefined);
+  return result;
+};
+
+const countChanges = (changes: SyncChanges) =>
+  Object.values(changes).reduce((total, records) => total + (records?.length || 0), 0);
+
+// One account's keys, resolved up front so a sign-out or account switch
+// halfway through never sends a write to another account's data
+interface SyncKeys {
+  userId: string;
+  queue: string;
+  state: string;
+  collection: (adapter: SyncCollectionAdapter) => string;
+}
+
+const syncKeys = (userId: string): SyncKeys => ({
+  userId,
+  queue: userStorageKey(SYNC_QUEUE_KEY, userId),
+  state: userStorageKey(SYNC_STATE_KEY, userId),
+  collection: adapter => userStorageKey(adapter.storageKey, userId),
+});
+
+const isActiveAccount = (keys: SyncKeys) => getStorageUserId() === keys.userId;
+
+const readQueue = async (keys: SyncKeys): Promise<SyncChanges> => {
+  const stored = await AsyncStorage.getItem(keys.queue);
+  return stored ? JSON.parse(stored) : {};
+};
+
+const writeQueue = async (keys: SyncKeys, queue: SyncChanges) => {
+  await AsyncStorage.setItem(keys.queue, JSON.stringify(queue));
+  if (isActiveAccount(keys)) {
+    setStatus({ pendingChanges: countChanges(queue) });
+  }
+};
+
+const readState = async (keys: SyncKeys): Promise<SyncState | null> => {
+  const stored = await AsyncStorage.getItem(keys.state);
+  return stored ? JSON.parse(stored) : null;
+};
+
+const readCollection = async (keys: SyncKeys, adapter: SyncCollectionAdapter): Promise<{ id: string }[]> => {
+  const stored = await AsyncStorage.getItem(keys.collection(adapter));
+  return stored ? JSON.parse(stored) : [];
+};
+
+const mergeIntoQueue = (queue: SyncChanges, collection: SyncCollectionId, records: SyncRecord[]) => {
+  const byId = new Map((queue[collection] || []).map(record => [record.id, record]));
+  records.forEach(record => {
+    byId.set(record.id, pickWinner(byId.get(record.id), record));
+  });
+  queue[collection] = [...byId.values()];
+};
+
+const enqueue = (collection: SyncCollectionId, records: SyncRecord[]) => {
+  // Queued for the account that made the change, even if another signs in before it's written
+  const userId = getStorageUserId();
+  return runExclusive(async () => {
+    if (!userId) {
+      throw new Error('No account is signed in to queue changes for');
+    }
+    const keys = syncKeys(userId);
+    const queue = await readQueue(keys);
+    mergeIntoQueue(queue, collection, records);
+    await writeQueue(keys, queue);
+  })
+    .then(() => syncQueueEmitter.emit())
+    .catch((error) => {
+      // The local save already happened; the change will go up with the next full sync
+      console.error('❌ Failed to queue sync changes:', error);
+    });
+};
+
+/** Queues saved or edited records for upload. */
+export function queueSyncChanges(
+  collection: SyncCollectionId,
+  records: { id: string; updatedAt?: unknown; createdAt?: unknown }[]
+) {
+  return enqueue(collection, records.map(toSyncRecord));
+}
+
+/** Queues tombstones for deleted records. */
+export function queueSyncDeletions(collection: SyncCollectionId, ids: string[], deletedAt = Date.now()) {
+  return enqueue(collection, ids.map(id => toTombstone(id, deletedAt)));
+}
+
+// A first sync for this user uploads everything stored for them on the
+// device, so data saved before sync was set up isn't lost
+const seedQueueFromLocal = async (keys: SyncKeys) => {
+  const queue = await readQueue(keys);
+  for (const [collection, adapter] of collections) {
+    const records = await readCollection(keys, adapter);
+    mergeIntoQueue(queue, collection, records.map(toSyncRecord));
+  }
+  await writeQueue(keys, queue);
+};
+
+// Drops queued records that were uploaded and haven't changed again since
+const removeSentFromQueue = (queue: SyncChanges, sent: SyncChanges) => {
+  (Object.keys(sent) as SyncCollectionId[]).forEach(collection => {
+    const sentRecords = new Map((sent[collection] || []).map(record => [record.id, record]));
+    queue[collection] = (queue[collection] || []).filter(record => {
+      const uploaded = sentRecords.get(record.id);
+      return !uploaded || uploaded.updatedAt !== record.updatedAt || !!uploaded.deleted !== !!record.deleted;
+    });
+  });
+};
+
+const applyRemoteChanges = async (keys: SyncKeys, remote: SyncChanges, queue: SyncChanges) => {
+  for (const collection of Object.keys(remote) as SyncCollectionId[]) {
+    const adapter = collections.get(collection);
+    const records = remote[collection];
+    if (!adapter || !records?.length) {
+      continue;
+    }
+
+    // Edits made while the request was in flight still win over older remote copies
+    const pending = new Map((queue[collection] || []).map(record => [record.id, record]));
+    const accepted = records.filter(record => {
+      const queued = pending.get(record.id);
+      return !queued || pickWinner(queued, record) === record;
+    });
+
+    const local = await readCollection(keys, adapter);
+    const merged = applyRemoteRecords(local, accepted);
+    if (merged) {
+      await AsyncStorage.setItem(keys.collection(adapter), JSON.stringify(merged));
+      adapter.onChange();
+      console.log(`☁️ Applied remote ${collection} changes:`, accepted.length);
+    }
+  }
+};
+
+let inFlight: { userId: string; promise: Promise<void> } | null = null;
+
+/**
+ * Pushes queued changes for the signed-in user and pulls what changed on the
+ * server. Network failures leave the queue in place for the next attempt, and
+ * the result is dropped if the user signed out or switched accounts meanwhile.
+ */
+export function syncNow(userId: string, transport: SyncTransport, withAccessToken: WithAccessToken): Promise<void> {
+  if (inFlight) {
+    // Another account's sync finishes (or is dropped) before this one starts
+    return inFlight.userId === userId
+      ? inFlight.promise
+      : inFlight.promise.then(() => syncNow(userId, transport, withAccessToken));
+  }
+
+  const run = async () => {
+    const keys = syncKeys(userId);
+    const report = (updates: Partial<SyncStatus>) => {
+      if (isActiveAccount(keys)) {
+        setStatus(updates);
+      }
+    };
+
+    report({ syncing: true });
+    try {
+      if (!isActiveAccount(keys)) {
+        console.log('ℹ️ Skipping sync for an account that is no longer signed in');
+        return;
+      }
+
+      const { cursor, sent } = await runExclusive(async () => {
+        const state = await readState(keys);
+        if (!state || state.userId !== userId) {
+          await AsyncStorage.setItem(keys.state, JSON.stringify({ userId, cursor: null, lastSyncedAt: null }));
+          await seedQueueFromLocal(keys);
+          return { cursor: null, sent: await readQueue(keys) };
+        }
+        return { cursor: state.cursor, sent: await readQueue(keys) };
+      });
+
+      const result = await withAccessToken(accessToken => transport.sync(accessToken, { cursor, changes: sent }));
+      if (!result.success) {
+        report({ lastError: result.error });
+        return;
+      }
+
+      await runExclusive(async () => {
+        if (!isActiveAccount(keys)) {
+          console.log('ℹ️ Account changed during sync, dropping the result');
+          return;
+        }
+
+        const queue = await readQueue(keys);
+        removeSentFromQueue(queue, sent);
+        await applyRemoteChanges(keys, result.changes, queue);
+        await writeQueue(keys, queue);
+
+        const lastSyncedAt = new Date();
+        await AsyncStorage.setItem(
+          keys.state,
+          JSON.stringify({ userId, cursor: result.cursor, lastSyncedAt: lastSyncedAt.toISOString() })
+        );
+        report({ lastSyncedAt, lastError: null });
+        console.log('✅ Sync complete:', { pushed: countChanges(sent), pulled: countChanges(result.changes) });
+      });
+    } catch (error) {
+      console.warn('⚠️ Sync failed, changes stay queued:', error);
+      report({ lastError: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setStatus({ syncing: false });
+      inFlight = null;
+    }
+  };
+
+  inFlight = { userId, promise: run() };
+  return inFlight.promise;
+}
+
+/**
+ * Loads an account's persisted queue size and last sync time into the status,
+ * or clears it when nobody is signed in.
+ */
+export async function loadSyncStatus(userId: string | null) {
+  if (!userId) {
+    setStatus({ pendingChanges: 0, lastSyncedAt: null, lastError: null });
+    return;
+  }
+
+  const keys = syncKeys(userId);
+  const [queue, state] = await Promise.all([readQueue(keys), readState(keys)]);
+  if (isActiveAccount(keys)) {
+    setStatus({
+      pendingChanges: countChanges(queue),
+      lastSyncedAt: state?.lastSyncedAt ? new Date(state.lastSyncedAt) : null,
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import { SyncTransport } from './types';
+
+/*
+ * POST {baseUrl}/sync with a bearer token and { cursor, changes }. The server
+ * applies each pushed record only when it's newer than its copy, then answers
+ * { cursor, changes } with the records stored after the given cursor.
+ */
+export function createHttpSyncTransport(baseUrl: string, timeoutMs = 15000): SyncTransport {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/sync`;
+
+  return {
+    id: 'http',
+    sync: async (accessToken, request) => {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${accessToken}`,
+          },
+          body: JSON.stringify(request),
+          signal: controller.signal,
+        });
+
+        if (response.status === 401) {
+          return { success: false, error: 'Unauthorized', unauthorized: true };
+        }
+        if (!response.ok) {
+          throw new Error(`Sync request failed with status ${response.status}`);
+        }
+
+        const data = await response.json();
+        return { success: true, cursor: String(data.cursor), changes: data.changes || {} };
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
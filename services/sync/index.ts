@@ -0,0 +1,24 @@
+import { getAuthBackendId } from '@/services/auth';
+import { SyncTransport } from './types';
+import { createHttpSyncTransport } from './http';
+
+export * from './types';
+export { createHttpSyncTransport } from './http';
+export { applyRemoteRecords, getRecordTimestamp, pickWinner, toSyncRecord, toTombstone } from './merge';
+export {
+  registerSyncCollection,
+  queueSyncChanges,
+  queueSyncDeletions,
+  syncNow,
+  loadSyncStatus,
+  getSyncStatus,
+  syncQueueEmitter,
+  syncStatusEmitter,
+} from './engine';
+export type { SyncCollectionAdapter, SyncStatus } from './engine';
+
+const syncApiUrl = process.env.EXPO_PUBLIC_SYNC_API_URL || process.env.EXPO_PUBLIC_AUTH_API_URL;
+
+// Sync needs real accounts; with the offline mock everything stays on the device
+export const syncTransport: SyncTransport | null =
+  syncApiUrl && getAuthBackendId() === 'rest' ? createHttpSyncTransport(syncApiUrl) : null;
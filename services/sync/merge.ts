@@ -0,0 +1,71 @@
+import { SyncRecord } from './types';
+
+// Local records carry `updatedAt` as a Date (an ISO string once stored).
+// Records saved before sync existed fall back to their creation time.
+export function getRecordTimestamp(record: { updatedAt?: unknown; createdAt?: unknown }): number {
+  const value = record.updatedAt ?? record.createdAt;
+  const time = value instanceof Date ? value.getTime() : typeof value === 'string' || typeof value === 'number' ? new Date(value).getTime() : NaN;
+  return Number.isNaN(time) ? 0 : time;
+}
+
+export function toSyncRecord(record: { id: string; updatedAt?: unknown; createdAt?: unknown }): SyncRecord {
+  return {
+    id: record.id,
+    updatedAt: getRecordTimestamp(record),
+    data: JSON.parse(JSON.stringify(record)),
+  };
+}
+
+export function toTombstone(id: string, deletedAt: number): SyncRecord {
+  return { id, updatedAt: deletedAt, deleted: true };
+}
+
+// Last writer wins. On a tie a deletion beats an edit, so a record deleted on
+// one device can't come back from another.
+export function pickWinner(current: SyncRecord | undefined, incoming: SyncRecord): SyncRecord {
+  if (!current || incoming.updatedAt > current.updatedAt) {
+    return incoming;
+  }
+  if (incoming.updatedAt === current.updatedAt && incoming.deleted && !current.deleted) {
+    return incoming;
+  }
+  return current;
+}
+
+/**
+ * Applies remote records to a stored collection (raw JSON as kept in
+ * AsyncStorage). Returns null when nothing changed.
+ */
+export function applyRemoteRecords<T extends { id: string }>(local: T[], remote: SyncRecord[]): T[] | null {
+  const byId = new Map(local.map(record => [record.id, record]));
+  let changed = false;
+
+  for (const incoming of remote) {
+    const existing = byId.get(incoming.id);
+    const current = existing ? toSyncRecord(existing) : undefined;
+    if (pickWinner(current, incoming) !== incoming || (!existing && incoming.deleted)) {
+      continue;
+    }
+
+    if (incoming.deleted) {
+      byId.delete(incoming.id);
+    } else if (incoming.data) {
+      byId.set(incoming.id, {
+        ...(incoming.data as unknown as T),
+        id: incoming.id,
+        updatedAt: new Date(incoming.updatedAt).toISOString(),
+      });
+    }
+    changed = true;
+  }
+
+  if (!changed) {
+    return null;
+  }
+
+  // Keep the local order for records that stayed, new ones go first like a fresh add
+  const kept = local.filter(record => byId.has(record.id)).map(record => byId.get(record.id)!);
+  const keptIds = new Set(kept.map(record => record.id));
+  const added = [...byId.values()].filter(record => !keptIds.has(record.id));
+  return [...added, ...kept];
+}
@@ -0,0 +1,33 @@
+import { AuthFailure } from '@/services/auth';
+
+export type SyncCollectionId = 'favorites' | 'routes' | 'appPreferences';
+
+/**
+ * One record as it travels to and from the server. `updatedAt` is epoch
+ * milliseconds; a deleted record is kept as a tombstone without `data` so the
+ * deletion reaches the user's other devices.
+ */
+export interface SyncRecord {
+  id: string;
+  updatedAt: number;
+  deleted?: boolean;
+  data?: Record<string, unknown>;
+}
+
+export type SyncChanges = Partial<Record<SyncCollectionId, SyncRecord[]>>;
+
+export interface SyncRequest {
+  // Server position from the last pull; null pulls everything
+  cursor: string | null;
+  changes: SyncChanges;
+}
+
+export type SyncResult =
+  | { success: true; cursor: string; changes: SyncChanges }
+  | AuthFailure;
+
+export interface SyncTransport {
+  id: string;
+  // Pushes local changes and returns everything newer than the cursor in one round trip
+  sync(accessToken: string, request: SyncRequest): Promise<SyncResult>;
+}
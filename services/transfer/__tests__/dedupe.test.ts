@@ -0,0 +1,80 @@
+import { FavoriteDestination } from '@/hooks/useFavorites';
+import { buildImportPreview, findDuplicateGroups, isSamePoint, isSameRoute, normalizeAddress } from '../dedupe';
+
+describe('normalizeAddress', () => {
+  it('ignores case, accents and punctuation', () => {
+    expect(normalizeAddress('Av. São Paulo, 1000')).toBe(normalizeAddress('av sao paulo 1000'));
+  });
+
+  it('keeps minus signs on numbers', () => {
+    expect(normalizeAddress('-23.5, -46.6')).not.toBe(normalizeAddress('23.5, 46.6'));
+    expect(normalizeAddress('Rua A - Centro')).toBe('rua a centro');
+  });
+});
+
+describe('isSamePoint', () => {
+  it('matches on place id, address or distance', () => {
+    expect(isSamePoint({ address: 'A', placeId: 'p1' }, { address: 'B', placeId: 'p1' })).toBe(true);
+    expect(isSamePoint({ address: 'Rua Augusta, 10' }, { address: 'rua augusta 10' })).toBe(true);
+    expect(isSamePoint(
+      { address: 'Office', latitude: -23.5649, longitude: -46.6527 },
+      { address: 'Work', latitude: -23.5651, longitude: -46.6528 }
+    )).toBe(true);
+    expect(isSamePoint(
+      { address: 'Office', latitude: -23.5649, longitude: -46.6527 },
+      { address: 'Work', latitude: -23.57, longitude: -46.6527 }
+    )).toBe(false);
+  });
+
+  it('compares coordinate addresses as numbers', () => {
+    // Opposite hemispheres must not collapse into one address
+    expect(isSamePoint({ address: '-23.564900, -46.652700' }, { address: '23.564900, 46.652700' })).toBe(false);
+    expect(isSamePoint({ address: '-23.564900, -46.652700' }, { address: '-23.5649, -46.6527' })).toBe(true);
+    expect(isSamePoint(
+      { address: '-23.564900, -46.652700' },
+      { address: 'Office', latitude: -23.5649, longitude: -46.6527 }
+    )).toBe(true);
+  });
+});
+
+describe('isSameRoute', () => {
+  const route = { pickup: { address: 'Home' }, destination: { address: 'Office' }, stops: [{ address: 'School' }] };
+
+  it('needs the same points in the same order', () => {
+    expect(isSameRoute(route, { ...route, stops: [{ address: 'school' }] })).toBe(true);
+    expect(isSameRoute(route, { ...route, stops: [] })).toBe(false);
+    expect(isSameRoute(route, { ...route, pickup: route.destination, destination: route.pickup })).toBe(false);
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('chains matches into one group', () => {
+    const near = (a: number, b: number) => Math.abs(a - b) <= 1;
+    expect(findDuplicateGroups([1, 2, 3, 10, 20, 21], near)).toEqual([[1, 2, 3], [20, 21]]);
+  });
+});
+
+describe('buildImportPreview', () => {
+  it('marks rows matching saved places or earlier rows as duplicates', () => {
+    const saved = [{ id: '1', name: 'Home', address: 'Rua A, 10', createdAt: new Date() }] as FavoriteDestination[];
+    const preview = buildImportPreview(
+      {
+        places: [
+          { name: 'Casa', address: 'rua a 10' },
+          { name: 'Gym', address: 'Rua B' },
+          { name: 'Gym again', address: 'Rua B' },
+        ],
+        routes: [],
+        errors: [],
+      },
+      saved,
+      []
+    );
+
+    expect(preview.places.map(({ status, duplicateOf }) => ({ status, duplicateOf }))).toEqual([
+      { status: 'duplicate', duplicateOf: 'Home' },
+      { status: 'new', duplicateOf: undefined },
+      { status: 'duplicate', duplicateOf: 'Gym' },
+    ]);
+  });
+});
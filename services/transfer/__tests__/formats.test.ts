@@ -0,0 +1,98 @@
+import { buildExportFile, parseImportFile, ExportFormat, PlaceDraft, RouteDraft } from '..';
+
+const places: PlaceDraft[] = [
+  { name: 'Head office', address: 'Av. Paulista, 1000', latitude: -23.5649, longitude: -46.6527, placeId: 'ChIJ-office' },
+  { name: 'Bar "Amigos", & co', address: 'Rua Augusta <2000>', latitude: -23.556, longitude: -46.662 },
+];
+
+const routes: RouteDraft[] = [
+  {
+    name: 'Commute',
+    pickup: { address: 'Home', latitude: -23.58, longitude: -46.68 },
+    stops: [{ address: 'School, gate 2', latitude: -23.57, longitude: -46.67, placeId: 'ChIJ-school' }],
+    destination: { address: 'Av. Paulista, 1000', latitude: -23.5649, longitude: -46.6527 },
+  },
+];
+
+const EXPORTED_AT = new Date('2025-01-06T12:00:00.000Z');
+
+describe.each<ExportFormat>(['json', 'csv', 'gpx'])('%s round trip', format => {
+  it('reads back the places and routes it wrote', () => {
+    const file = buildExportFile(format, places, routes, EXPORTED_AT);
+    expect(file.filename).toBe(`ridelink-favorites-2025-01-06.${format}`);
+    expect(file.skipped).toBe(0);
+
+    const parsed = parseImportFile(file.filename, file.content);
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.places).toEqual(places);
+    expect(parsed.routes).toEqual(routes);
+  });
+
+  it('detects the format from the content when the extension is missing', () => {
+    const file = buildExportFile(format, places, [], EXPORTED_AT);
+    expect(parseImportFile('favorites', file.content).places).toEqual(places);
+  });
+});
+
+describe('GPX export', () => {
+  it('skips entries without coordinates', () => {
+    const file = buildExportFile('gpx', [...places, { name: 'Gym', address: 'Rua Oscar Freire' }], routes);
+
+    expect(file.skipped).toBe(1);
+    expect(parseImportFile(file.filename, file.content).places).toHaveLength(places.length);
+  });
+});
+
+describe('JSON import', () => {
+  const file = (body: object) =>
+    JSON.stringify({ format: 'ridelink-favorites', version: 1, exportedAt: EXPORTED_AT.toISOString(), ...body });
+
+  it('reports malformed entries per row and keeps the rest', () => {
+    const parsed = parseImportFile('favorites.json', file({
+      places: [null, 'Home', { name: 'Gym', address: 'Rua Oscar Freire' }, { name: 'Park' }],
+      routes: [null, { name: 'Broken', pickup: 'Home', destination: { address: 'Office' } }],
+    }));
+
+    expect(parsed.places).toEqual([{ name: 'Gym', address: 'Rua Oscar Freire' }]);
+    expect(parsed.errors).toEqual([
+      { location: { kind: 'place', index: 1 }, code: 'invalidEntry' },
+      { location: { kind: 'place', index: 2 }, code: 'invalidEntry' },
+      { location: { kind: 'place', index: 4 }, code: 'missingAddress' },
+      { location: { kind: 'route', index: 1 }, code: 'invalidEntry' },
+      { location: { kind: 'route', index: 2 }, code: 'invalidEntry' },
+    ]);
+  });
+
+  it('rejects other files and newer versions', () => {
+    expect(parseImportFile('a.json', '{ not json').errors[0].code).toBe('unreadableFile');
+    expect(parseImportFile('a.json', '{"format":"other"}').errors[0].code).toBe('unsupportedFormat');
+    expect(parseImportFile('a.json', file({ version: 2 })).errors[0].code).toBe('unsupportedVersion');
+  });
+});
+
+describe('CSV import', () => {
+  it('reads a plain list of places from a spreadsheet', () => {
+    const parsed = parseImportFile('places.csv', '﻿Name,Address\nHome,"Rua A, 10"\n,Rua B\n');
+
+    expect(parsed.places).toEqual([{ name: 'Home', address: 'Rua A, 10' }]);
+    expect(parsed.errors).toEqual([{ location: { kind: 'line', index: 3 }, code: 'missingName' }]);
+  });
+
+  it('drops routes that never reach a destination', () => {
+    const parsed = parseImportFile('routes.csv', [
+      'kind,name,role,address,latitude,longitude',
+      'route,Open,pickup,Home,,',
+      'route,Open,stop,School,,',
+      'route,Next,pickup,Home,,',
+      'route,Next,destination,Office,,',
+      'route,Bad,pickup,Home,91,0',
+    ].join('\n'));
+
+    expect(parsed.routes.map(route => route.name)).toEqual(['Next']);
+    expect(parsed.errors).toEqual([
+      { location: { kind: 'line', index: 2 }, code: 'incompleteRoute' },
+      { location: { kind: 'line', index: 6 }, code: 'invalidCoordinates' },
+    ]);
+  });
+});
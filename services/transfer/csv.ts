@@ -0,0 +1,184 @@
+import { RoutePoint } from '@/hooks/useRouteFavorites';
+import { ParsedImport, PlaceDraft, RouteDraft } from './types';
+import { isPoint, parsePoint } from './points';
+
+/*
+ * One row per place, or one row per point of a route:
+ *
+ *   kind,name,role,address,latitude,longitude,place_id
+ *   place,Head office,,Av. Paulista 1000,-23.5649,-46.6527,
+ *   route,Commute,pickup,Home,,,
+ *   route,Commute,stop,School,,,
+ *   route,Commute,destination,Office,,,
+ *
+ * A route starts at its pickup row and ends at its destination row. Files
+ * without a kind column are read as a list of places.
+ */
+export const CSV_COLUMNS = ['kind', 'name', 'role', 'address', 'latitude', 'longitude', 'place_id'];
+
+const escapeCell = (value: string | number | undefined) => {
+  if (value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const pointRow = (kind: string, name: string, role: string, point: RoutePoint) =>
+  [kind, name, role, point.address, point.latitude, point.longitude, point.placeId].map(escapeCell).join(',');
+
+export function toCsv(places: PlaceDraft[], routes: RouteDraft[]): string {
+  const rows = [CSV_COLUMNS.join(',')];
+  places.forEach(({ name, ...point }) => rows.push(pointRow('place', name, '', point)));
+  routes.forEach(route => {
+    rows.push(pointRow('route', route.name, 'pickup', route.pickup));
+    route.stops.forEach(stop => rows.push(pointRow('route', route.name, 'stop', stop)));
+    rows.push(pointRow('route', route.name, 'destination', route.destination));
+  });
+  return rows.join('\r\n') + '\r\n';
+}
+
+// Splits CSV text into rows of cells, keeping the line each row starts on
+const readRows = (content: string) => {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== '')) {
+      rows.push({ line: rowLine, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  // Spreadsheet apps often start the file with a byte order mark
+  const text = content.replace(/^\uFEFF/, '');
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+};
+
+export function parseCsv(content: string): ParsedImport {
+  const result: ParsedImport = { places: [], routes: [], errors: [] };
+  const [header, ...rows] = readRows(content);
+  if (!header) {
+    result.errors.push({ location: { kind: 'file' }, code: 'unreadableFile' });
+    return result;
+  }
+
+  const columns = header.cells.map(cell => cell.trim().toLowerCase());
+  const column = (name: string) => columns.indexOf(name);
+  const hasCoordinates = column('latitude') >= 0 && column('longitude') >= 0;
+  if (column('name') < 0 || (column('address') < 0 && !hasCoordinates)) {
+    result.errors.push({ location: { kind: 'line', index: 1 }, code: 'missingColumns' });
+    return result;
+  }
+
+  const cellAt = (cells: string[], name: string) => {
+    const index = column(name);
+    return index >= 0 ? (cells[index] || '').trim() : '';
+  };
+
+  let openRoute: { line: number; name: string; pickup: RoutePoint; stops: RoutePoint[] } | null = null;
+  const closeOpenRoute = () => {
+    if (openRoute) {
+      result.errors.push({ location: { kind: 'line', index: openRoute.line }, code: 'incompleteRoute' });
+      openRoute = null;
+    }
+  };
+
+  rows.forEach(({ line, cells }) => {
+    const location = { kind: 'line' as const, index: line };
+    const kind = cellAt(cells, 'kind').toLowerCase() || 'place';
+    const name = cellAt(cells, 'name');
+    const point = parsePoint({
+      address: cellAt(cells, 'address'),
+      latitude: cellAt(cells, 'latitude'),
+      longitude: cellAt(cells, 'longitude'),
+      placeId: cellAt(cells, 'place_id'),
+    });
+
+    if (kind === 'place') {
+      if (!name) {
+        result.errors.push({ location, code: 'missingName' });
+      } else if (!isPoint(point)) {
+        result.errors.push({ location, code: point });
+      } else {
+        result.places.push({ name, ...point });
+      }
+      return;
+    }
+
+    if (kind !== 'route') {
+      result.errors.push({ location, code: 'unknownKind' });
+      return;
+    }
+
+    const role = cellAt(cells, 'role').toLowerCase();
+    if (role === 'pickup') {
+      closeOpenRoute();
+      if (!name) {
+        result.errors.push({ location, code: 'missingName' });
+      } else if (!isPoint(point)) {
+        result.errors.push({ location, code: point });
+      } else {
+        openRoute = { line, name, pickup: point, stops: [] };
+      }
+      return;
+    }
+
+    // Stop and destination rows belong to the route opened by the last pickup row
+    const route = openRoute;
+    if (!route || (name && name !== route.name) || (role !== 'stop' && role !== 'destination')) {
+      closeOpenRoute();
+      result.errors.push({ location, code: 'incompleteRoute' });
+      return;
+    }
+    if (!isPoint(point)) {
+      // Drop the whole route rather than import it with a point missing
+      openRoute = null;
+      result.errors.push({ location, code: point });
+      return;
+    }
+
+    if (role === 'stop') {
+      route.stops.push(point);
+    } else {
+      result.routes.push({ name: route.name, pickup: route.pickup, destination: point, stops: route.stops });
+      openRoute = null;
+    }
+  });
+  closeOpenRoute();
+
+  return result;
+}
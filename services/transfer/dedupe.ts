@@ -0,0 +1,123 @@
+import { FavoriteDestination } from '@/hooks/useFavorites';
+import { FavoriteRoute, RoutePoint } from '@/hooks/useRouteFavorites';
+import { haversineKm } from '@/services/quotes';
+import { isCoordinateAddress } from '@/services/geocoding/coordinates';
+import { ImportCandidate, ImportPreview, ParsedImport, PlaceDraft, RouteDraft } from './types';
+
+// Geocoders place the same building a few meters apart depending on the source.
+// EXPO_PUBLIC_DUPLICATE_DISTANCE_METERS widens or narrows the match.
+const DEFAULT_DUPLICATE_DISTANCE_METERS = 50;
+const configuredDistance = Number(process.env.EXPO_PUBLIC_DUPLICATE_DISTANCE_METERS);
+
+export const DUPLICATE_DISTANCE_METERS = configuredDistance > 0
+  ? configuredDistance
+  : DEFAULT_DUPLICATE_DISTANCE_METERS;
+
+/**
+ * "Av. Paulista, 1000" and "av paulista 1000" compare equal; so do "São" and
+ * "Sao". A minus sign in front of a number is kept.
+ */
+export const normalizeAddress = (address: string) =>
+  address
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[.,;:#()]|-(?!\d)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// A point's coordinates, read from "lat, lng" address text when that's all it has
+const coordinatesOf = (point: RoutePoint) => {
+  if (point.latitude !== undefined && point.longitude !== undefined) {
+    return { latitude: point.latitude, longitude: point.longitude };
+  }
+  if (isCoordinateAddress(point.address)) {
+    const [latitude, longitude] = point.address.split(',').map(Number);
+    return { latitude, longitude };
+  }
+  return null;
+};
+
+/**
+ * Two points are the same place when they share a place id, have the same
+ * normalized address, or sit within `thresholdMeters` of each other.
+ * Coordinates written as the address are compared as numbers.
+ */
+export function isSamePoint(a: RoutePoint, b: RoutePoint, thresholdMeters = DUPLICATE_DISTANCE_METERS): boolean {
+  if (a.placeId && b.placeId && a.placeId === b.placeId) {
+    return true;
+  }
+  const addressText = !isCoordinateAddress(a.address) && !isCoordinateAddress(b.address);
+  if (addressText && normalizeAddress(a.address) === normalizeAddress(b.address)) {
+    return true;
+  }
+  const from = coordinatesOf(a);
+  const to = coordinatesOf(b);
+  return !!from && !!to && haversineKm(from, to) * 1000 <= thresholdMeters;
+}
+
+export function isSameRoute(
+  a: Pick<FavoriteRoute, 'pickup' | 'destination' | 'stops'>,
+  b: Pick<FavoriteRoute, 'pickup' | 'destination' | 'stops'>,
+  thresholdMeters = DUPLICATE_DISTANCE_METERS
+): boolean {
+  const aStops = a.stops || [];
+  const bStops = b.stops || [];
+  return isSamePoint(a.pickup, b.pickup, thresholdMeters)
+    && isSamePoint(a.destination, b.destination, thresholdMeters)
+    && aStops.length === bStops.length
+    && aStops.every((stop, index) => isSamePoint(stop, bStops[index], thresholdMeters));
+}
+
+/**
+ * Sets of saved entries that look like the same place or route, for the merge
+ * tool. Matches chain, so A near B and B near C end up in one group.
+ */
+export function findDuplicateGroups<T>(items: T[], matches: (a: T, b: T) => boolean): T[][] {
+  const groupOf = items.map((_, index) => index);
+  const root = (index: number): number => (groupOf[index] === index ? index : (groupOf[index] = root(groupOf[index])));
+
+  items.forEach((item, i) => {
+    for (let j = i + 1; j < items.length; j++) {
+      if (matches(item, items[j])) {
+        groupOf[root(j)] = root(i);
+      }
+    }
+  });
+
+  const groups = new Map<number, T[]>();
+  items.forEach((item, index) => {
+    const key = root(index);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+  return [...groups.values()].filter(group => group.length > 1);
+}
+
+// Checks each row against saved entries first, then against earlier rows of the same file
+const classify = <T extends { name: string }>(
+  items: T[],
+  existing: { name: string }[],
+  matches: (item: T, other: any) => boolean
+): ImportCandidate<T>[] => {
+  const accepted: T[] = [];
+  return items.map(item => {
+    const duplicate = existing.find(other => matches(item, other)) || accepted.find(other => matches(item, other));
+    if (duplicate) {
+      return { item, status: 'duplicate', duplicateOf: duplicate.name };
+    }
+    accepted.push(item);
+    return { item, status: 'new' };
+  });
+};
+
+export function buildImportPreview(
+  parsed: ParsedImport,
+  existingPlaces: FavoriteDestination[],
+  existingRoutes: FavoriteRoute[]
+): ImportPreview {
+  return {
+    places: classify<PlaceDraft>(parsed.places, existingPlaces, isSamePoint),
+    routes: classify<RouteDraft>(parsed.routes, existingRoutes, isSameRoute),
+    errors: parsed.errors,
+  };
+}
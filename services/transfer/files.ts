@@ -0,0 +1,60 @@
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { ExportFile } from './types';
+
+export interface PickedFile {
+  name: string;
+  content: string;
+}
+
+const downloadOnWeb = (file: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Hands an export to the OS share sheet, or downloads it in the browser.
+ * Throws when the device has no way to share files.
+ */
+export async function shareExportFile(file: ExportFile, dialogTitle: string) {
+  if (Platform.OS === 'web') {
+    downloadOnWeb(file);
+    return;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${file.filename}`;
+  await FileSystem.writeAsStringAsync(uri, file.content, { encoding: FileSystem.EncodingType.UTF8 });
+  await Sharing.shareAsync(uri, { mimeType: file.mimeType, dialogTitle });
+}
+
+/** Lets the user choose a file to import. Resolves to null when they cancel. */
+export async function pickImportFile(): Promise<PickedFile | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/json', 'text/csv', 'text/comma-separated-values', 'application/gpx+xml', 'application/xml', 'text/xml', '*/*'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets?.length) {
+    return null;
+  }
+
+  const asset = result.assets[0];
+  if (Platform.OS === 'web') {
+    const content = asset.file ? await asset.file.text() : await (await fetch(asset.uri)).text();
+    return { name: asset.name, content };
+  }
+
+  const content = await FileSystem.readAsStringAsync(asset.uri, { encoding: FileSystem.EncodingType.UTF8 });
+  return { name: asset.name, content };
+}
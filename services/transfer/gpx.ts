@@ -0,0 +1,157 @@
+import { RoutePoint } from '@/hooks/useRouteFavorites';
+import { ParsedImport, PlaceDraft, RouteDraft } from './types';
+import { isPoint, parsePoint } from './points';
+
+/*
+ * Places are written as waypoints (<wpt>) and routes as <rte> with one
+ * <rtept> per point, pickup first. GPX positions need coordinates, so entries
+ * without them are left out. The address goes in <desc> and the place id in
+ * a RideLink extension so a round trip through the app loses nothing.
+ */
+const RIDELINK_GPX_NAMESPACE = 'https://ridelink.app/xmlschemas/gpx/1';
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const unescapeXml = (value: string) =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const hasCoordinates = (point: RoutePoint) => point.latitude !== undefined && point.longitude !== undefined;
+
+const pointXml = (tag: string, name: string, point: RoutePoint, indent: string) => {
+  const lines = [
+    `${indent}<${tag} lat="${point.latitude}" lon="${point.longitude}">`,
+    `${indent}  <name>${escapeXml(name)}</name>`,
+    `${indent}  <desc>${escapeXml(point.address)}</desc>`,
+  ];
+  if (point.placeId) {
+    lines.push(`${indent}  <extensions><ridelink:placeId>${escapeXml(point.placeId)}</ridelink:placeId></extensions>`);
+  }
+  lines.push(`${indent}</${tag}>`);
+  return lines.join('\n');
+};
+
+export function toGpx(places: PlaceDraft[], routes: RouteDraft[]): { content: string; skipped: number } {
+  const exportablePlaces = places.filter(hasCoordinates);
+  const exportableRoutes = routes.filter(route =>
+    [route.pickup, ...route.stops, route.destination].every(hasCoordinates)
+  );
+
+  const body = [
+    ...exportablePlaces.map(({ name, ...point }) => pointXml('wpt', name, point, '  ')),
+    ...exportableRoutes.map(route => {
+      const points = [route.pickup, ...route.stops, route.destination];
+      return [
+        '  <rte>',
+        `    <name>${escapeXml(route.name)}</name>`,
+        ...points.map(point => pointXml('rtept', point.address, point, '    ')),
+        '  </rte>',
+      ].join('\n');
+    }),
+  ];
+
+  const content = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="RideLink" xmlns="http://www.topografix.com/GPX/1/1" xmlns:ridelink="${RIDELINK_GPX_NAMESPACE}">`,
+    ...body,
+    '</gpx>',
+    '',
+  ].join('\n');
+
+  return {
+    content,
+    skipped: places.length - exportablePlaces.length + routes.length - exportableRoutes.length,
+  };
+}
+
+// GPX files are small and flat enough to read with patterns; React Native has no DOMParser
+const elements = (xml: string, tag: string) => {
+  const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, 'g');
+  return [...xml.matchAll(pattern)].map(match => ({ attributes: match[1], body: match[2] || '' }));
+};
+
+const childText = (body: string, tag: string) => {
+  const match = new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`).exec(body);
+  return match ? unescapeXml(match[1]).trim() : '';
+};
+
+const attribute = (attributes: string, name: string) => {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(attributes);
+  return match ? match[1] ?? match[2] : '';
+};
+
+const readPoint = (element: { attributes: string; body: string }) => {
+  // Points from other apps often have only a name; it stands in for the address
+  const name = childText(element.body, 'name');
+  return {
+    name,
+    point: parsePoint({
+      address: childText(element.body, 'desc') || name,
+      latitude: attribute(element.attributes, 'lat'),
+      longitude: attribute(element.attributes, 'lon'),
+      placeId: childText(element.body, 'ridelink:placeId'),
+    }),
+  };
+};
+
+export function parseGpx(content: string): ParsedImport {
+  const result: ParsedImport = { places: [], routes: [], errors: [] };
+  if (!/<gpx\b/.test(content)) {
+    result.errors.push({ location: { kind: 'file' }, code: 'unsupportedFormat' });
+    return result;
+  }
+
+  // Route points are read with their route, not as loose waypoints
+  const withoutRoutes = content.replace(/<rte\b[\s\S]*?<\/rte>/g, '');
+
+  elements(withoutRoutes, 'wpt').forEach((element, index) => {
+    const location = { kind: 'place' as const, index: index + 1 };
+    const { name, point } = readPoint(element);
+    if (!name) {
+      result.errors.push({ location, code: 'missingName' });
+    } else if (!isPoint(point)) {
+      result.errors.push({ location, code: point });
+    } else {
+      result.places.push({ name, ...point });
+    }
+  });
+
+  elements(content, 'rte').forEach((element, index) => {
+    const location = { kind: 'route' as const, index: index + 1 };
+    const name = childText(element.body.replace(/<rtept\b[\s\S]*?<\/rtept>/g, ''), 'name');
+    if (!name) {
+      result.errors.push({ location, code: 'missingName' });
+      return;
+    }
+
+    const points = elements(element.body, 'rtept').map(point => readPoint(point).point);
+    const invalid = points.find(point => !isPoint(point));
+    if (invalid && !isPoint(invalid)) {
+      result.errors.push({ location, code: invalid });
+      return;
+    }
+    if (points.length < 2) {
+      result.errors.push({ location, code: 'incompleteRoute' });
+      return;
+    }
+
+    const [pickup, ...rest] = points.filter(isPoint);
+    const destination = rest.pop()!;
+    result.routes.push({ name, pickup, destination, stops: rest });
+  });
+
+  return result;
+}
@@ -0,0 +1,73 @@
+import { ExportFile, ExportFormat, ParsedImport, PlaceDraft, RouteDraft } from './types';
+import { parseRideLinkJson, toRideLinkJson } from './json';
+import { parseGpx, toGpx } from './gpx';
+import { parseCsv, toCsv } from './csv';
+
+export * from './types';
+export {
+  buildImportPreview,
+  findDuplicateGroups,
+  isSamePoint,
+  isSameRoute,
+  normalizeAddress,
+  DUPLICATE_DISTANCE_METERS,
+} from './dedupe';
+export { pickImportFile, shareExportFile } from './files';
+export type { PickedFile } from './files';
+export { RIDELINK_EXPORT_FORMAT, RIDELINK_EXPORT_VERSION } from './json';
+export { CSV_COLUMNS } from './csv';
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json',
+  gpx: 'application/gpx+xml',
+  csv: 'text/csv',
+};
+
+export function buildExportFile(
+  format: ExportFormat,
+  places: PlaceDraft[],
+  routes: RouteDraft[],
+  exportedAt = new Date()
+): ExportFile {
+  const filename = `ridelink-favorites-${exportedAt.toISOString().slice(0, 10)}.${format}`;
+  const mimeType = MIME_TYPES[format];
+
+  switch (format) {
+    case 'gpx': {
+      const { content, skipped } = toGpx(places, routes);
+      return { filename, mimeType, content, skipped };
+    }
+    case 'csv':
+      return { filename, mimeType, content: toCsv(places, routes), skipped: 0 };
+    default:
+      return { filename, mimeType, content: toRideLinkJson(places, routes, exportedAt), skipped: 0 };
+  }
+}
+
+// Goes by the extension, then by the content for files renamed along the way
+const detectFormat = (filename: string, content: string): ExportFormat | null => {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  if (extension === 'json' || extension === 'gpx' || extension === 'csv') {
+    return extension;
+  }
+
+  const start = content.trimStart();
+  if (start.startsWith('{')) return 'json';
+  if (start.startsWith('<')) return 'gpx';
+  if (start.length > 0) return 'csv';
+  return null;
+};
+
+/** Reads an exported file back into places and routes, with an error per rejected row. */
+export function parseImportFile(filename: string, content: string): ParsedImport {
+  switch (detectFormat(filename, content)) {
+    case 'json':
+      return parseRideLinkJson(content);
+    case 'gpx':
+      return parseGpx(content);
+    case 'csv':
+      return parseCsv(content);
+    default:
+      return { places: [], routes: [], errors: [{ location: { kind: 'file' }, code: 'unreadableFile' }] };
+  }
+}
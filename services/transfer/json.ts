@@ -0,0 +1,106 @@
+import { RoutePoint } from '@/hooks/useRouteFavorites';
+import { ParsedImport, PlaceDraft, RouteDraft } from './types';
+import { isPoint, parsePoint } from './points';
+
+export const RIDELINK_EXPORT_FORMAT = 'ridelink-favorites';
+// Bump when the shape changes; older files must keep importing
+export const RIDELINK_EXPORT_VERSION = 1;
+
+export interface RideLinkExport {
+  format: typeof RIDELINK_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  places: PlaceDraft[];
+  routes: RouteDraft[];
+}
+
+const cleanPoint = ({ address, latitude, longitude, placeId }: RoutePoint): RoutePoint => ({
+  address,
+  latitude,
+  longitude,
+  placeId,
+});
+
+export function toRideLinkJson(places: PlaceDraft[], routes: RouteDraft[], exportedAt: Date): string {
+  const file: RideLinkExport = {
+    format: RIDELINK_EXPORT_FORMAT,
+    version: RIDELINK_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    places: places.map(({ name, ...point }) => ({ name, ...cleanPoint(point) })),
+    routes: routes.map(route => ({
+      name: route.name,
+      pickup: cleanPoint(route.pickup),
+      destination: cleanPoint(route.destination),
+      stops: route.stops.map(cleanPoint),
+    })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function parseRideLinkJson(content: string): ParsedImport {
+  const result: ParsedImport = { places: [], routes: [], errors: [] };
+
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    result.errors.push({ location: { kind: 'file' }, code: 'unreadableFile' });
+    return result;
+  }
+
+  if (!data || data.format !== RIDELINK_EXPORT_FORMAT) {
+    result.errors.push({ location: { kind: 'file' }, code: 'unsupportedFormat' });
+    return result;
+  }
+  if (typeof data.version !== 'number' || data.version > RIDELINK_EXPORT_VERSION) {
+    result.errors.push({ location: { kind: 'file' }, code: 'unsupportedVersion' });
+    return result;
+  }
+
+  (Array.isArray(data.places) ? data.places : []).forEach((raw: any, index: number) => {
+    const location = { kind: 'place' as const, index: index + 1 };
+    if (!raw || typeof raw !== 'object') {
+      result.errors.push({ location, code: 'invalidEntry' });
+      return;
+    }
+    if (typeof raw.name !== 'string' || !raw.name.trim()) {
+      result.errors.push({ location, code: 'missingName' });
+      return;
+    }
+    const point = parsePoint(raw);
+    if (!isPoint(point)) {
+      result.errors.push({ location, code: point });
+      return;
+    }
+    result.places.push({ name: raw.name.trim(), ...point });
+  });
+
+  (Array.isArray(data.routes) ? data.routes : []).forEach((raw: any, index: number) => {
+    const location = { kind: 'route' as const, index: index + 1 };
+    if (!raw || typeof raw !== 'object') {
+      result.errors.push({ location, code: 'invalidEntry' });
+      return;
+    }
+    if (typeof raw.name !== 'string' || !raw.name.trim()) {
+      result.errors.push({ location, code: 'missingName' });
+      return;
+    }
+    if (!raw.pickup || !raw.destination) {
+      result.errors.push({ location, code: 'incompleteRoute' });
+      return;
+    }
+
+    const points = [raw.pickup, ...(Array.isArray(raw.stops) ? raw.stops : []), raw.destination].map(parsePoint);
+    const invalid = points.find(point => !isPoint(point));
+    if (invalid && !isPoint(invalid)) {
+      result.errors.push({ location, code: invalid });
+      return;
+    }
+
+    const [pickup, ...rest] = points.filter(isPoint);
+    const destination = rest.pop()!;
+    result.routes.push({ name: raw.name.trim(), pickup, destination, stops: rest });
+  });
+
+  return result;
+}
@@ -0,0 +1,59 @@
+import { RoutePoint } from '@/hooks/useRouteFavorites';
+import { ImportErrorCode } from './types';
+
+interface RawPoint {
+  address?: unknown;
+  latitude?: unknown;
+  longitude?: unknown;
+  placeId?: unknown;
+}
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+const parseNumber = (value: unknown) => (typeof value === 'number' ? value : Number(String(value).trim()));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validates one imported point. An address is required unless coordinates are
+ * given, in which case they stand in for it.
+ */
+export function parsePoint(value: unknown): RoutePoint | ImportErrorCode {
+  if (!isRecord(value)) {
+    return 'invalidEntry';
+  }
+  const raw: RawPoint = value;
+  const hasLatitude = !isBlank(raw.latitude);
+  const hasLongitude = !isBlank(raw.longitude);
+  if (hasLatitude !== hasLongitude) {
+    return 'invalidCoordinates';
+  }
+
+  let latitude: number | undefined;
+  let longitude: number | undefined;
+  if (hasLatitude) {
+    latitude = parseNumber(raw.latitude);
+    longitude = parseNumber(raw.longitude);
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)
+      || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      return 'invalidCoordinates';
+    }
+  }
+
+  const address = isBlank(raw.address)
+    ? latitude !== undefined && longitude !== undefined ? `${latitude}, ${longitude}` : ''
+    : String(raw.address).trim();
+  if (!address) {
+    return 'missingAddress';
+  }
+
+  return {
+    address,
+    latitude,
+    longitude,
+    placeId: isBlank(raw.placeId) ? undefined : String(raw.placeId).trim(),
+  };
+}
+
+export const isPoint = (value: RoutePoint | ImportErrorCode): value is RoutePoint => typeof value !== 'string';
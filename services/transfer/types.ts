@@ -0,0 +1,71 @@
+import { RoutePoint } from '@/hooks/useRouteFavorites';
+
+export type ExportFormat = 'json' | 'gpx' | 'csv';
+
+// A saved place as it travels between apps, without local ids or timestamps
+export interface PlaceDraft {
+  name: string;
+  address: string;
+  latitude?: number;
+  longitude?: number;
+  placeId?: string;
+}
+
+export interface RouteDraft {
+  name: string;
+  pickup: RoutePoint;
+  destination: RoutePoint;
+  stops: RoutePoint[];
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+  // Entries the format couldn't carry (GPX needs coordinates)
+  skipped: number;
+}
+
+export type ImportErrorCode =
+  | 'unreadableFile'
+  | 'unsupportedFormat'
+  | 'unsupportedVersion'
+  | 'invalidEntry'
+  | 'missingColumns'
+  | 'missingName'
+  | 'missingAddress'
+  | 'invalidCoordinates'
+  | 'incompleteRoute'
+  | 'unknownKind';
+
+// Where a problem is: a CSV line, the nth place or route of a JSON or GPX file,
+// or the file as a whole
+export type ImportErrorLocation =
+  | { kind: 'file' }
+  | { kind: 'line' | 'place' | 'route'; index: number };
+
+export interface ImportRowError {
+  location: ImportErrorLocation;
+  code: ImportErrorCode;
+}
+
+export interface ParsedImport {
+  places: PlaceDraft[];
+  routes: RouteDraft[];
+  errors: ImportRowError[];
+}
+
+export type ImportStatus = 'new' | 'duplicate';
+
+export interface ImportCandidate<T> {
+  item: T;
+  status: ImportStatus;
+  // Name of the saved entry (or earlier row in the file) this one matches
+  duplicateOf?: string;
+}
+
+export interface ImportPreview {
+  places: ImportCandidate<PlaceDraft>[];
+  routes: ImportCandidate<RouteDraft>[];
+  errors: ImportRowError[];
+}
@@ -0,0 +1,110 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// AsyncStorage keys holding one account's data. Each is stored as
+// `<key>:<userId>` for the signed-in user.
+export const USER_STORAGE_KEYS = {
+  favorites: 'ride_launcher_favorites',
+  routeFavorites: 'ride_launcher_route_favorites',
+  appManager: 'ridelink_app_manager_config',
+  rideHistory: 'ridelink_ride_history',
+  scheduledRides: 'ridelink_scheduled_rides',
+  syncQueue: 'ridelink_sync_queue',
+  syncState: 'ridelink_sync_state',
+} as const;
+
+// Set once the data saved before namespacing has been handed to an account
+const LEGACY_DATA_OWNER_KEY = 'ridelink_legacy_data_owner';
+
+let activeUserId: string | null = null;
+
+type ActivationListener = (userId: string) => Promise<void>;
+
+const activationListeners: ActivationListener[] = [];
+
+export const getStorageUserId = () => activeUserId;
+
+/**
+ * Key for an account's copy of `baseKey`: the signed-in user's unless
+ * `userId` is given. Throws when there is no user, as no data is shared
+ * between accounts and nothing may be read or written outside one.
+ */
+export function userStorageKey(baseKey: string, userId: string | null = activeUserId) {
+  if (!userId) {
+    throw new Error(`No account is signed in for ${baseKey}`);
+  }
+  return `${baseKey}:${userId}`;
+}
+
+/** Runs `listener` whenever storage switches to an account, after its data is in place. */
+export function onUserStorageActivated(listener: ActivationListener) {
+  activationListeners.push(listener);
+}
+
+const scopedKeys = (userId: string) =>
+  Object.values(USER_STORAGE_KEYS).map(baseKey => ({ baseKey, scopedKey: `${baseKey}:${userId}` }));
+
+/**
+ * Data saved before accounts had their own keys goes to the first account
+ * that signs in on this device. Later accounts start empty.
+ */
+const migrateLegacyData = async (userId: string) => {
+  const owner = await AsyncStorage.getItem(LEGACY_DATA_OWNER_KEY);
+  if (owner) {
+    return;
+  }
+
+  const keys = scopedKeys(userId);
+  const entries = await AsyncStorage.multiGet([
+    ...keys.map(({ baseKey }) => baseKey),
+    ...keys.map(({ scopedKey }) => scopedKey),
+  ]);
+  const values = new Map(entries);
+
+  const moves = keys
+    .filter(({ baseKey, scopedKey }) => values.get(baseKey) != null && values.get(scopedKey) == null)
+    .map(({ baseKey, scopedKey }) => [scopedKey, values.get(baseKey) as string] as [string, string]);
+
+  if (moves.length > 0) {
+    await AsyncStorage.multiSet(moves);
+  }
+  await AsyncStorage.multiRemove(keys.map(({ baseKey }) => baseKey));
+  await AsyncStorage.setItem(LEGACY_DATA_OWNER_KEY, userId);
+
+  if (moves.length > 0) {
+    console.log('📦 Moved existing local data to account:', { userId, keys: moves.length });
+  }
+};
+
+/**
+ * Points storage at the given account, migrating shared data on first use.
+ * Activation listeners run when the account changes, including on app start.
+ */
+export async function activateUserStorage(userId: string) {
+  const changed = activeUserId !== userId;
+  activeUserId = userId;
+  try {
+    await migrateLegacyData(userId);
+  } catch (error) {
+    console.error('❌ Failed to migrate local data to account:', error);
+  }
+
+  if (changed) {
+    for (const listener of activationListeners) {
+      try {
+        await listener(userId);
+      } catch (error) {
+        console.error('❌ Failed to prepare local data for account:', error);
+      }
+    }
+  }
+}
+
+export function deactivateUserStorage() {
+  activeUserId = null;
+}
+
+/** Removes everything stored for an account on this device. */
+export async function clearUserStorage(userId: string) {
+  await AsyncStorage.multiRemove(scopedKeys(userId).map(({ scopedKey }) => scopedKey));
+  console.log('🧹 Local data removed for account:', userId);
+}